@@ -129,6 +129,12 @@ const processSyncQueue = async () => {
         continue;
       }
 
+      // Updates need a conflict check against the server row, which the page
+      // does in syncWithServer once it receives the 'cya-sync' message.
+      if (item.action === 'update' && item.table !== 'user_streaks') {
+        continue;
+      }
+
       await applySyncItemToSupabase(config, item);
       await deleteSyncQueueItem(item.id);
       synced++;
@@ -12,7 +12,9 @@ import ProfilePage from "./pages/ProfilePage";
 import ChatPage from "./pages/ChatPage";
 import AdminPage from "./pages/AdminPage";
 import GamesPage from "./pages/GamesPage";
+import ProjectorPage from "./pages/ProjectorPage";
 import Install from "./pages/Install";
+import BibleReaderPage from "./pages/BibleReaderPage";
 import NotFound from "./pages/NotFound";
 import OfflineIndicator from "@/components/OfflineIndicator";
 import DynamicPwaHead from "@/components/DynamicPwaHead";
@@ -42,7 +44,10 @@ const App = () => (
                     <Route path="/chat" element={<ChatPage />} />
                     <Route path="/admin" element={<AdminPage />} />
                     <Route path="/games" element={<GamesPage />} />
+                    <Route path="/games/projector" element={<ProjectorPage />} />
                     <Route path="/install" element={<Install />} />
+                    <Route path="/bible" element={<BibleReaderPage />} />
+                    <Route path="/bible/:book/:chapter" element={<BibleReaderPage />} />
                     {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
                     <Route path="*" element={<NotFound />} />
                   </>
@@ -1,5 +1,14 @@
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Achievement, UserAchievement } from "@/hooks/useAchievements";
+import { useAuth } from "@/hooks/useAuth";
+import { useOnlineStatus } from "@/hooks/useOnlineStatus";
+import {
+  getCriteriaProgress,
+  getRequiredSources,
+  loadAchievementStats,
+  parseCriteriaParams,
+  type AchievementStats,
+} from "@/lib/achievementCriteria";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Lock, CheckCircle2 } from "lucide-react";
@@ -15,7 +24,7 @@ interface AchievementsBadgesProps {
   totalScore?: number;
 }
 
-const categories = ["All", "games", "streaks", "milestones"];
+const categories = ["All", "games", "streaks", "milestones", "community"];
 
 const AchievementsBadges = ({
   achievements,
@@ -24,52 +33,41 @@ const AchievementsBadges = ({
   totalScore = 0,
 }: AchievementsBadgesProps) => {
   const [activeCategory, setActiveCategory] = useState("All");
+  const [stats, setStats] = useState<AchievementStats | null>(null);
+  const { user } = useAuth();
+  const isOnline = useOnlineStatus();
 
-  const earnedIds = new Set(earnedAchievements.map(e => e.achievement_id));
+  const earnedIds = useMemo(() => new Set(earnedAchievements.map(e => e.achievement_id)), [earnedAchievements]);
 
   const filtered =
     activeCategory === "All"
       ? achievements
       : achievements.filter(a => a.category === activeCategory);
 
-  const getProgress = (ach: Achievement): number => {
-    let current = 0;
-    switch (ach.criteria_type) {
-      case "games_played":
-        current = streaks.total_games_played;
-        break;
-      case "total_score":
-        current = totalScore;
-        break;
-      case "login_streak":
-        current = streaks.current_login_streak;
-        break;
-      case "game_streak":
-        current = streaks.current_game_streak;
-        break;
-    }
-    return Math.min((current / ach.criteria_value) * 100, 100);
-  };
+  // Progress for any criteria type, read from the same stats the awarder uses
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    const pending = achievements.filter(a => !earnedIds.has(a.id)).map(a => a.criteria_type);
+    loadAchievementStats(user.id, getRequiredSources(pending), isOnline, streaks)
+      .then(loaded => { if (!cancelled) setStats(loaded); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [user, isOnline, achievements, earnedIds, streaks]);
 
-  const getProgressText = (ach: Achievement): string => {
-    let current = 0;
-    switch (ach.criteria_type) {
-      case "games_played":
-        current = streaks.total_games_played;
-        break;
-      case "total_score":
-        current = totalScore;
-        break;
-      case "login_streak":
-        current = streaks.current_login_streak;
-        break;
-      case "game_streak":
-        current = streaks.current_game_streak;
-        break;
-    }
-    return `${Math.min(current, ach.criteria_value)}/${ach.criteria_value}`;
+  const getCurrent = (ach: Achievement): number => {
+    const params = parseCriteriaParams(ach.criteria_params);
+    const loaded = stats && getCriteriaProgress(stats, ach.criteria_type, params);
+    if (loaded !== null && loaded !== undefined) return loaded;
+    return ach.criteria_type === "total_score" && !params.game_type ? totalScore : 0;
   };
 
+  const getProgress = (ach: Achievement): number =>
+    Math.min((getCurrent(ach) / ach.criteria_value) * 100, 100);
+
+  const getProgressText = (ach: Achievement): string =>
+    `${Math.min(getCurrent(ach), ach.criteria_value)}/${ach.criteria_value}`;
+
   return (
     <div className="space-y-4">
       {/* Category filter */}
@@ -18,6 +18,8 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { BiblePassageDialog } from '@/components/BiblePassageDialog';
+import { linkScriptureReferences, markdownLinkComponents } from '@/lib/markdown';
+import { useVerseAnnotations } from '@/hooks/useVerseAnnotations';
 import InlineBibleDownload from '@/components/InlineBibleDownload';
 
 // Helper function to enrich markdown with icons and visual formatting
@@ -26,14 +28,7 @@ import InlineBibleDownload from '@/components/InlineBibleDownload';
   
   // Add icons to common scripture reference patterns
   // Replace scripture refs with a clickable markdown link that uses a bible:// scheme
-  enriched = enriched.replace(
-    /\b(Genesis|Exodus|Leviticus|Numbers|Deuteronomy|Joshua|Judges|Ruth|Samuel|Kings|Chronicles|Ezra|Nehemiah|Esther|Job|Psalms?|Proverbs|Ecclesiastes|Isaiah|Jeremiah|Lamentations|Ezekiel|Daniel|Hosea|Joel|Amos|Obadiah|Jonah|Micah|Nahum|Habakkuk|Zephaniah|Haggai|Zechariah|Malachi|Matthew|Mark|Luke|John|Acts|Romans|Corinthians|Galatians|Ephesians|Philippians|Colossians|Thessalonians|Timothy|Titus|Philemon|Hebrews|James|Peter|John|Jude|Revelation)\s+(\d+):(\d+)/gi,
-    (m, book, chap, verse) => {
-      const label = `📖 ${book} ${chap}:${verse}`;
-      const href = `bible://${encodeURIComponent(`${book} ${chap}:${verse}`)}`;
-      return `[${label}](${href})`;
-    }
-  );
+  enriched = linkScriptureReferences(enriched);
 
   // Add icons to key concepts and patterns
   enriched = enriched.replace(/\b(Jesus|Christ|God|Holy Spirit|salvation|grace|faith|love|forgiveness|redemption|covenant|kingdom|eternal|resurrection)\b/gi,
@@ -85,6 +80,7 @@ const BibleAIChat = ({ isOpen, onClose, initialMessage, autoSend = false }: Bibl
   const scrollRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const { messages, isLoading, error, isOfflineMode, sendMessage, clearChat, loadMessages, generateInsight, language, setLanguage } = useBibleChat();
+  const { getReferenceAnnotations } = useVerseAnnotations();
   const { user } = useAuth();
   const { savedChats, loading: loadingSaved, saveChat, deleteChat } = useSavedChats(user);
 
@@ -864,27 +860,7 @@ const BibleAIChat = ({ isOpen, onClose, initialMessage, autoSend = false }: Bibl
                                   prose-em:text-primary/80 prose-em:not-italic prose-em:font-semibold
                                   prose-a:text-primary prose-a:font-semibold prose-a:underline prose-a:break-words">
                                   <ReactMarkdown
-                                    components={{
-                                      a: ({ href, children, ...props }) => {
-                                        const h = String(href || '');
-                                        if (h.startsWith('bible://')) {
-                                          const ref = decodeURIComponent(h.replace('bible://', ''));
-                                          return (
-                                            <a
-                                              href="#"
-                                              onClick={(e) => {
-                                                e.preventDefault();
-                                                openBibleRef(ref);
-                                              }}
-                                              {...props}
-                                            >
-                                              {children}
-                                            </a>
-                                          );
-                                        }
-                                        return <a href={href} {...props}>{children}</a>;
-                                      },
-                                    }}
+                                    components={markdownLinkComponents(openBibleRef, getReferenceAnnotations)}
                                   >
                                     {enrichContentWithIcons(currentInsight)}
                                   </ReactMarkdown>
@@ -987,27 +963,7 @@ const BibleAIChat = ({ isOpen, onClose, initialMessage, autoSend = false }: Bibl
                               prose-th:bg-primary/15 prose-th:text-foreground prose-th:font-bold prose-th:border prose-th:border-primary/20 prose-th:px-3 prose-th:py-2 prose-th:break-words
                               prose-td:border prose-td:border-primary/10 prose-td:px-3 prose-td:py-2 prose-td:text-foreground prose-td:break-words">
                               <ReactMarkdown
-                                components={{
-                                  a: ({ href, children, ...props }) => {
-                                    const h = String(href || '');
-                                    if (h.startsWith('bible://')) {
-                                      const ref = decodeURIComponent(h.replace('bible://', ''));
-                                      return (
-                                        <a
-                                          href="#"
-                                          onClick={(e) => {
-                                            e.preventDefault();
-                                            openBibleRef(ref);
-                                          }}
-                                          {...props}
-                                        >
-                                          {children}
-                                        </a>
-                                      );
-                                    }
-                                    return <a href={href} {...props}>{children}</a>;
-                                  },
-                                }}
+                                components={markdownLinkComponents(openBibleRef, getReferenceAnnotations)}
                               >
                                 {enrichContentWithIcons(msg.content)}
                               </ReactMarkdown>
@@ -1166,27 +1122,7 @@ const BibleAIChat = ({ isOpen, onClose, initialMessage, autoSend = false }: Bibl
               <div className="p-4 overflow-y-auto max-h-[72vh] prose prose-sm dark:prose-invert max-w-none">
                 {modalMessageContent && (
                   <ReactMarkdown
-                    components={{
-                      a: ({ href, children, ...props }) => {
-                        const h = String(href || '');
-                        if (h.startsWith('bible://')) {
-                          const ref = decodeURIComponent(h.replace('bible://', ''));
-                          return (
-                            <a
-                              href="#"
-                              onClick={(e) => {
-                                e.preventDefault();
-                                openBibleRef(ref);
-                              }}
-                              {...props}
-                            >
-                              {children}
-                            </a>
-                          );
-                        }
-                        return <a href={href} {...props}>{children}</a>;
-                      },
-                    }}
+                    components={markdownLinkComponents(openBibleRef, getReferenceAnnotations)}
                   >
                     {enrichContentWithIcons(modalMessageContent)}
                   </ReactMarkdown>
@@ -1,8 +1,21 @@
 import React, { useEffect, useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { Spinner } from '@/components/ui/skeleton';
-import { getById, put } from '@/lib/offlineDb';
+import { WifiOff } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { cn } from '@/lib/utils';
+import type { BibleLanguage } from '@/lib/bibleData';
+import { useVerseAnnotations, HIGHLIGHT_CLASSES } from '@/hooks/useVerseAnnotations';
+import { VerseAnnotationPopover, VerseAnnotationInline } from '@/components/VerseAnnotationPopover';
+import {
+  resolvePassage,
+  getReaderPath,
+  getPreferredBibleLanguage,
+  setPreferredBibleLanguage,
+  type ResolvedPassage,
+} from '@/lib/biblePassage';
 
 interface Props {
   reference: string | null;
@@ -10,18 +23,13 @@ interface Props {
   onOpenChange: (open: boolean) => void;
 }
 
-interface ApiVerse {
-  book_id: string;
-  book_name: string;
-  chapter: number;
-  verse: number;
-  text: string;
-}
-
 export const BiblePassageDialog = ({ reference, open, onOpenChange }: Props) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [verses, setVerses] = useState<ApiVerse[] | null>(null);
+  const [passage, setPassage] = useState<ResolvedPassage | null>(null);
+  const [language, setLanguage] = useState<BibleLanguage>(getPreferredBibleLanguage);
+  const navigate = useNavigate();
+  const { getAnnotation, saveAnnotation } = useVerseAnnotations();
 
   useEffect(() => {
     let mounted = true;
@@ -29,34 +37,10 @@ export const BiblePassageDialog = ({ reference, open, onOpenChange }: Props) =>
       if (!reference || !open) return;
       setLoading(true);
       setError(null);
-      setVerses(null);
+      setPassage(null);
       try {
-        const cacheId = encodeURIComponent(reference.toLowerCase());
-        // Try cache first
-        try {
-          const cached = await getById<{ id: string; reference: string; fetched_at: number; verses: ApiVerse[] }>('bible_passages', cacheId);
-          if (cached && Date.now() - (cached.fetched_at || 0) < 1000 * 60 * 60 * 24) { // 24h cache
-            setVerses(cached.verses);
-            setLoading(false);
-            return;
-          }
-        } catch (e) {
-          // ignore cache errors
-        }
-        const encoded = encodeURIComponent(reference);
-        const res = await fetch(`https://bible-api.com/${encoded}`);
-        if (!res.ok) throw new Error('Failed to fetch passage');
-        const data = await res.json();
-        // data.verses is an array
-        if (mounted) {
-          setVerses(data.verses || null);
-          // store in cache
-          try {
-            await put('bible_passages', { id: cacheId, reference, fetched_at: Date.now(), verses: data.verses || [] });
-          } catch (e) {
-            // ignore cache write errors
-          }
-        }
+        const resolved = await resolvePassage(reference, language);
+        if (mounted) setPassage(resolved);
       } catch (e: any) {
         if (mounted) setError(e?.message || 'Error fetching passage');
       } finally {
@@ -69,14 +53,21 @@ export const BiblePassageDialog = ({ reference, open, onOpenChange }: Props) =>
     return () => {
       mounted = false;
     };
-  }, [reference, open]);
+  }, [reference, open, language]);
+
+  const changeLanguage = (next: BibleLanguage) => {
+    setPreferredBibleLanguage(next);
+    setLanguage(next);
+  };
+
+  const verses = passage?.verses ?? null;
+
+  const readerPath = reference ? getReaderPath(reference) : null;
 
   const openWholeChapter = () => {
-    if (!verses || verses.length === 0) return;
-    const v = verses[0];
-    const q = encodeURIComponent(`${v.book_name} ${v.chapter}`);
-    const url = `https://www.biblegateway.com/passage/?search=${q}`;
-    window.open(url, '_blank');
+    if (!readerPath) return;
+    onOpenChange(false);
+    navigate(readerPath);
   };
 
   return (
@@ -88,6 +79,24 @@ export const BiblePassageDialog = ({ reference, open, onOpenChange }: Props) =>
               <DialogTitle className="text-lg">{reference || 'Passage'}</DialogTitle>
             </DialogHeader>
             <div className="flex items-center gap-2">
+              <div className="flex rounded-md border border-border overflow-hidden">
+                <Button
+                  size="sm"
+                  variant={language === 'en' ? 'secondary' : 'ghost'}
+                  className="rounded-none h-8"
+                  onClick={() => changeLanguage('en')}
+                >
+                  KJV
+                </Button>
+                <Button
+                  size="sm"
+                  variant={language === 'sw' ? 'secondary' : 'ghost'}
+                  className="rounded-none h-8"
+                  onClick={() => changeLanguage('sw')}
+                >
+                  Kiswahili
+                </Button>
+              </div>
               <Button variant="ghost" onClick={() => onOpenChange(false)}>Close</Button>
             </div>
           </div>
@@ -104,24 +113,64 @@ export const BiblePassageDialog = ({ reference, open, onOpenChange }: Props) =>
               <div className="text-destructive">{error}</div>
             )}
 
-            {!loading && !error && verses && (
+            {!loading && !error && passage && (
+              <div className="flex flex-wrap gap-2 mb-3">
+                {passage.source !== 'network' && (
+                  <Badge variant="outline" className="gap-1">
+                    <WifiOff className="w-3 h-3" />
+                    {passage.source === 'offline' ? 'Offline Bible' : 'Cached'}
+                  </Badge>
+                )}
+                {passage.language !== language && (
+                  <Badge variant="secondary">Kiswahili not downloaded — showing KJV</Badge>
+                )}
+              </div>
+            )}
+
+            {!loading && !error && verses && verses.length > 0 && (
               <div className="space-y-3">
-                {verses.map((v) => (
-                  <div key={`${v.chapter}:${v.verse}`} className="text-sm leading-relaxed">
-                    <span className="font-medium text-muted-foreground mr-2">{v.verse}</span>
-                    <span>{v.text}</span>
-                  </div>
-                ))}
+                {verses.map((v, i) => {
+                  const prev = verses[i - 1];
+                  const newChapter = !prev || prev.book !== v.book || prev.chapter !== v.chapter;
+                  const multiChapter = verses[0].book !== verses[verses.length - 1].book ||
+                    verses[0].chapter !== verses[verses.length - 1].chapter;
+                  const annotation = getAnnotation(v.bookId, v.chapter, v.verse);
+                  return (
+                    <React.Fragment key={`${v.book}:${v.chapter}:${v.verse}`}>
+                      {newChapter && multiChapter && (
+                        <h4 className="font-semibold text-sm pt-2">{v.book} {v.chapter}</h4>
+                      )}
+                      <div
+                        className={cn(
+                          'text-sm leading-relaxed rounded px-1 -mx-1',
+                          annotation?.highlight_color && HIGHLIGHT_CLASSES[annotation.highlight_color]
+                        )}
+                      >
+                        <VerseAnnotationPopover
+                          label={`${v.book} ${v.chapter}:${v.verse}`}
+                          annotation={annotation}
+                          onSave={(changes) => saveAnnotation({ book: v.bookId, chapter: v.chapter, verse: v.verse }, changes)}
+                        >
+                          <button type="button" className="font-medium text-muted-foreground mr-2 hover:text-primary">
+                            {v.verse}
+                          </button>
+                        </VerseAnnotationPopover>
+                        <span>{v.text}</span>
+                        <VerseAnnotationInline annotation={annotation} />
+                      </div>
+                    </React.Fragment>
+                  );
+                })}
               </div>
             )}
 
-            {!loading && !error && !verses && (
+            {!loading && !error && (!verses || verses.length === 0) && (
               <div className="text-muted-foreground">No passage found.</div>
             )}
           </div>
 
           <div className="p-4 border-t border-border flex justify-end gap-2">
-            <Button variant="outline" onClick={openWholeChapter}>
+            <Button variant="outline" onClick={openWholeChapter} disabled={!readerPath}>
               Read whole chapter
             </Button>
           </div>
@@ -1,16 +1,21 @@
 import { useBibleVerse } from "@/hooks/useBibleVerse";
 import { useState } from 'react';
-import { BookOpen, Wifi, WifiOff } from "lucide-react";
+import { BookOpen, Bookmark, BookmarkCheck, Wifi, WifiOff } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import ReactMarkdown from 'react-markdown';
 import { BiblePassageDialog } from '@/components/BiblePassageDialog';
 import { enrichContentWithIcons, markdownLinkComponents } from '@/lib/markdown';
+import { parseReference } from '@/lib/bibleReference';
+import { useVerseAnnotations, HIGHLIGHT_CLASSES } from '@/hooks/useVerseAnnotations';
+import { VerseAnnotationPopover, VerseAnnotationInline } from '@/components/VerseAnnotationPopover';
+import { cn } from '@/lib/utils';
 
 
 const DailyBibleVerse = () => {
   const { verse, loading, isOnline } = useBibleVerse();
   const [passageRef, setPassageRef] = useState<string | null>(null);
   const [passageOpen, setPassageOpen] = useState(false);
+  const { getAnnotation, getReferenceAnnotations, saveAnnotation } = useVerseAnnotations();
 
   const openBibleRef = (ref: string) => {
     setPassageRef(ref);
@@ -34,6 +39,13 @@ const DailyBibleVerse = () => {
     return null;
   }
 
+  // Annotate the first verse of the day's reference
+  const firstSegment = parseReference(verse.reference)?.[0];
+  const location = firstSegment
+    ? { book: firstSegment.book, chapter: firstSegment.chapter, verse: firstSegment.verseStart ?? 1 }
+    : null;
+  const annotation = location ? getAnnotation(location.book, location.chapter, location.verse) : undefined;
+
   return (
     <div className="relative overflow-hidden bg-gradient-to-br from-primary/10 via-card to-primary/5 border border-border rounded-xl p-6 mb-6">
       {/* Decorative elements */}
@@ -51,7 +63,22 @@ const DailyBibleVerse = () => {
               <p className="text-lg font-semibold text-primary">{verse.reference}</p>
             </div>
           </div>
-          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            {location && (
+              <VerseAnnotationPopover
+                label={verse.reference}
+                annotation={annotation}
+                onSave={(changes) => saveAnnotation(location, changes)}
+              >
+                <button type="button" aria-label="Save verse" className="hover:text-primary">
+                  {annotation ? (
+                    <BookmarkCheck className="h-4 w-4 text-primary" />
+                  ) : (
+                    <Bookmark className="h-4 w-4" />
+                  )}
+                </button>
+              </VerseAnnotationPopover>
+            )}
             {isOnline ? (
               <Wifi className="h-3 w-3" />
             ) : (
@@ -60,9 +87,15 @@ const DailyBibleVerse = () => {
           </div>
         </div>
         
-        <blockquote className="text-foreground/90 italic text-base leading-relaxed pl-4 border-l-2 border-primary/50">
-          <ReactMarkdown components={markdownLinkComponents(openBibleRef)}>{enrichContentWithIcons(verse.text)}</ReactMarkdown>
+        <blockquote
+          className={cn(
+            "text-foreground/90 italic text-base leading-relaxed pl-4 border-l-2 border-primary/50",
+            annotation?.highlight_color && `${HIGHLIGHT_CLASSES[annotation.highlight_color]} rounded-r py-1`
+          )}
+        >
+          <ReactMarkdown components={markdownLinkComponents(openBibleRef, getReferenceAnnotations)}>{enrichContentWithIcons(verse.text)}</ReactMarkdown>
         </blockquote>
+        <VerseAnnotationInline annotation={annotation} className="mt-3 pl-4" />
       </div>
       <BiblePassageDialog reference={passageRef} open={passageOpen} onOpenChange={setPassageOpen} />
     </div>
@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { BookMarked, Check, Flame, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { toast } from "@/hooks/use-toast";
+import { useReadingPlans, getReadingChapters, getPlanChapterPath } from "@/hooks/useReadingPlans";
+import { getBookName } from "@/lib/bibleReference";
+
+interface DailyReadingCardProps {
+  readingStreak: number;
+  onDayComplete: () => Promise<void>;
+}
+
+/** Today's chapters from the user's reading plan, or a picker to start one. */
+const DailyReadingCard = ({ readingStreak, onDayComplete }: DailyReadingCardProps) => {
+  const navigate = useNavigate();
+  const { activePlans, current, loading, startPlan, markDayComplete } = useReadingPlans();
+  const [saving, setSaving] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setSaving(true);
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title: "Couldn't save",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading && !current && activePlans.length === 0) return null;
+
+  if (!current) {
+    if (activePlans.length === 0) return null;
+    return (
+      <div className="mx-4 mt-3 p-4 rounded-xl bg-card border border-border">
+        <div className="flex items-center gap-2 mb-3">
+          <BookMarked className="w-5 h-5 text-primary" />
+          <h3 className="font-semibold text-foreground">Start a reading plan</h3>
+        </div>
+        <div className="space-y-2">
+          {activePlans.map((plan) => (
+            <button
+              key={plan.id}
+              type="button"
+              disabled={saving}
+              onClick={() => run(() => startPlan(plan.id))}
+              className="w-full flex items-center justify-between gap-3 p-3 rounded-lg bg-secondary/50 hover:bg-secondary text-left"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-foreground">{plan.title}</p>
+                {plan.description && (
+                  <p className="text-xs text-muted-foreground truncate">{plan.description}</p>
+                )}
+              </div>
+              <span className="flex items-center gap-1 text-xs text-muted-foreground shrink-0">
+                {plan.readings.length} days
+                <Play className="w-3.5 h-3.5" />
+              </span>
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const { plan, progress, day } = current;
+  const reading = plan.readings[day - 1];
+  const chapters = getReadingChapters(reading);
+  const percent = Math.round((progress.completed_days.length / plan.readings.length) * 100);
+
+  const handleDone = () => run(async () => {
+    if (await markDayComplete(progress.id, day)) {
+      await onDayComplete();
+      toast({ title: `Day ${day} complete`, description: plan.title });
+    }
+  });
+
+  return (
+    <div className="mx-4 mt-3 p-4 rounded-xl bg-card border border-border">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <BookMarked className="w-5 h-5 text-primary shrink-0" />
+          <div className="min-w-0">
+            <p className="text-xs text-muted-foreground truncate">
+              {plan.title} · Day {day} of {plan.readings.length}
+            </p>
+            <h3 className="font-semibold text-foreground">{reading}</h3>
+          </div>
+        </div>
+        <div className="flex items-center gap-1 shrink-0" title="Reading streak">
+          <Flame className="w-4 h-4 text-orange-500" />
+          <span className="text-sm font-bold text-foreground">{readingStreak}</span>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mt-3">
+        {chapters.map((segment) => (
+          <Button
+            key={`${segment.book}:${segment.chapter}`}
+            size="sm"
+            variant="outline"
+            className="h-8"
+            onClick={() => navigate(getPlanChapterPath(segment, progress.id, day))}
+          >
+            {getBookName(segment.book)} {segment.chapter}
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3 mt-3">
+        <Progress value={percent} className="h-2 flex-1" />
+        <Button size="sm" className="gap-1" disabled={saving} onClick={handleDone}>
+          <Check className="w-4 h-4" />
+          Mark done
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default DailyReadingCard;
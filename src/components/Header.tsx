@@ -1,4 +1,4 @@
-import { Menu, LogIn, LogOut, User, MessageCircle, Bell, Shield, Download } from "lucide-react";
+import { Menu, LogIn, LogOut, User, MessageCircle, Bell, Shield, Download, BookOpen, Moon } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/useAuth";
 import { useAdmin } from "@/hooks/useAdmin";
@@ -15,6 +15,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Badge } from "@/components/ui/badge";
 import { SyncStatusBadge } from "@/components/SyncStatusIndicator";
+import QuietHoursDialog from "@/components/QuietHoursDialog";
 
 interface BeforeInstallPromptEvent extends Event {
   prompt: () => Promise<void>;
@@ -31,6 +32,7 @@ const Header = () => {
   
   const [deferredPrompt, setDeferredPrompt] = useState<BeforeInstallPromptEvent | null>(null);
   const [isInstalled, setIsInstalled] = useState(false);
+  const [quietHoursOpen, setQuietHoursOpen] = useState(false);
 
   // Check if app is installed and listen for install prompt
   useEffect(() => {
@@ -139,6 +141,13 @@ const Header = () => {
                     <MessageCircle className="w-4 h-4 mr-2" />
                     Messages
                   </DropdownMenuItem>
+                  <DropdownMenuItem 
+                    onClick={() => navigate("/bible")}
+                    className="cursor-pointer"
+                  >
+                    <BookOpen className="w-4 h-4 mr-2" />
+                    Bible
+                  </DropdownMenuItem>
                   {isSupported && (
                     <DropdownMenuItem 
                       onClick={isSubscribed ? unsubscribe : subscribe}
@@ -149,6 +158,15 @@ const Header = () => {
                       {isSubscribed ? "Disable Notifications" : "Enable Notifications"}
                     </DropdownMenuItem>
                   )}
+                  {isSupported && isSubscribed && (
+                    <DropdownMenuItem 
+                      onClick={() => setQuietHoursOpen(true)}
+                      className="cursor-pointer"
+                    >
+                      <Moon className="w-4 h-4 mr-2" />
+                      Quiet Hours
+                    </DropdownMenuItem>
+                  )}
                   {isAdmin && (
                     <DropdownMenuItem 
                       onClick={() => navigate("/admin")}
@@ -196,6 +214,10 @@ const Header = () => {
         <div className="absolute top-3 right-1/4 w-0.5 h-0.5 bg-foreground/25 rounded-full" />
         <div className="absolute top-1 right-1/3 w-0.5 h-0.5 bg-foreground/15 rounded-full" />
       </div>
+
+      {user && (
+        <QuietHoursDialog userId={user.id} open={quietHoursOpen} onOpenChange={setQuietHoursOpen} />
+      )}
     </header>
   );
 };
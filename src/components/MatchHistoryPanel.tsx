@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { CheckCircle, ChevronDown, Crown, Loader2, ShieldCheck, Users, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { useMatchHistory, type MultiplayerMatch } from "@/hooks/useMatchHistory";
+import { cn } from "@/lib/utils";
+
+const MODE_LABELS: Record<string, string> = {
+  competitive: "⚔️ Competitive",
+  cooperative: "🤝 Cooperative",
+  teams: "🚩 Teams",
+};
+
+const formatGameType = (gameType: string) =>
+  gameType === "all" ? "All Games" : gameType.split("_").map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(" ");
+
+const MatchRow = ({ match, userId }: { match: MultiplayerMatch; userId: string }) => {
+  const [open, setOpen] = useState(false);
+  const standings = [...match.participants].sort((a, b) => b.score - a.score);
+  const placement = standings.findIndex(p => p.id === userId) + 1;
+
+  return (
+    <div className="bg-card rounded-lg card-shadow overflow-hidden">
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center gap-3 p-3 text-left">
+        <div className={cn(
+          "w-10 h-10 rounded-full flex items-center justify-center shrink-0 font-bold",
+          match.won ? "bg-amber-500/20 text-amber-600" : "bg-muted text-muted-foreground"
+        )}>
+          {match.won ? <Crown className="w-5 h-5" /> : placement > 0 ? `#${placement}` : "–"}
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-semibold truncate">{formatGameType(match.game_type)}</p>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <span>{MODE_LABELS[match.game_mode] || match.game_mode}</span>
+            <span className="flex items-center gap-1">
+              <Users className="w-3 h-3" />
+              {match.participants.length}
+            </span>
+            <span>{format(new Date(match.finished_at), "MMM d, yyyy")}</span>
+          </div>
+        </div>
+        <div className="text-right">
+          <p className="font-bold text-primary">{match.score}</p>
+          <p className="text-[10px] text-muted-foreground">points</p>
+        </div>
+        <ChevronDown className={cn("w-4 h-4 text-muted-foreground transition-transform", open && "rotate-180")} />
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-3 border-t border-border pt-3">
+          <div className="flex flex-wrap gap-1">
+            {standings.map(player => (
+              <Badge
+                key={player.id}
+                variant={match.winner_ids.includes(player.id) ? "default" : "secondary"}
+                className="text-xs"
+              >
+                {player.name}: {player.score}
+              </Badge>
+            ))}
+            {match.verified && (
+              <Badge variant="outline" className="text-xs gap-1 text-green-600 border-green-600/40">
+                <ShieldCheck className="w-3 h-3" />
+                Verified
+              </Badge>
+            )}
+          </div>
+
+          {match.rounds.length > 0 && (
+            <div className="space-y-1.5">
+              {match.rounds.map(round => {
+                const correct = round.correct_ids.includes(userId);
+                const answered = userId in round.answers;
+                return (
+                  <div key={round.question_index} className="flex items-start gap-2 text-xs">
+                    {correct ? (
+                      <CheckCircle className="w-4 h-4 text-green-500 shrink-0" />
+                    ) : (
+                      <XCircle className={cn("w-4 h-4 shrink-0", answered ? "text-destructive" : "text-muted-foreground")} />
+                    )}
+                    <div className="min-w-0">
+                      <p className="line-clamp-2">{round.question_index + 1}. {round.question}</p>
+                      <p className="text-muted-foreground">
+                        Answer: {round.answer}
+                        {answered && !correct && round.answers[userId] && ` · You said: ${round.answers[userId]}`}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface MatchHistoryPanelProps {
+  userId: string;
+  isOwnProfile: boolean;
+  username: string;
+}
+
+const MatchHistoryPanel = ({ userId, isOwnProfile, username }: MatchHistoryPanelProps) => {
+  const { matches, loading } = useMatchHistory(userId);
+
+  if (loading && matches.length === 0) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (matches.length === 0) {
+    return (
+      <div className="bg-card rounded-lg p-8 text-center card-shadow">
+        <p className="text-muted-foreground">
+          {isOwnProfile
+            ? "No multiplayer matches yet. Host or join a room in Games!"
+            : `${username} hasn't played a multiplayer match yet.`}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {matches.map(match => (
+        <MatchRow key={match.id} match={match} userId={userId} />
+      ))}
+    </div>
+  );
+};
+
+export default MatchHistoryPanel;
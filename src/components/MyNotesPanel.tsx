@@ -0,0 +1,149 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { BookmarkCheck, Highlighter, NotebookPen, StickyNote, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "@/hooks/use-toast";
+import { useVerseAnnotations, HIGHLIGHT_CLASSES, type VerseAnnotation } from "@/hooks/useVerseAnnotations";
+import { KJV_BOOKS, getBookName } from "@/lib/bibleReference";
+import { cn } from "@/lib/utils";
+
+type NotesFilter = "all" | "bookmarks" | "highlights" | "notes";
+
+const FILTERS: Array<{ id: NotesFilter; label: string; icon: typeof StickyNote }> = [
+  { id: "all", label: "All", icon: NotebookPen },
+  { id: "bookmarks", label: "Bookmarks", icon: BookmarkCheck },
+  { id: "highlights", label: "Highlights", icon: Highlighter },
+  { id: "notes", label: "Notes", icon: StickyNote },
+];
+
+const matchesFilter = (a: VerseAnnotation, filter: NotesFilter) => {
+  switch (filter) {
+    case "bookmarks": return a.bookmarked;
+    case "highlights": return !!a.highlight_color;
+    case "notes": return !!a.note;
+    default: return true;
+  }
+};
+
+const MyNotesPanel = () => {
+  const navigate = useNavigate();
+  const { annotations, allTags, loading, deleteAnnotation } = useVerseAnnotations();
+  const [filter, setFilter] = useState<NotesFilter>("all");
+  const [tag, setTag] = useState<string | null>(null);
+
+  const visible = useMemo(
+    () => annotations
+      .filter(a => matchesFilter(a, filter) && (!tag || a.tags.includes(tag)))
+      .sort((a, b) =>
+        KJV_BOOKS.indexOf(a.book) - KJV_BOOKS.indexOf(b.book) || a.chapter - b.chapter || a.verse - b.verse
+      ),
+    [annotations, filter, tag]
+  );
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteAnnotation(id);
+    } catch (error) {
+      toast({
+        title: "Couldn't delete",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="px-4">
+      <h2 className="font-heading text-lg font-semibold text-foreground mb-3 flex items-center gap-2">
+        <span className="text-2xl">📒</span>
+        My Notes
+      </h2>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {FILTERS.map(({ id, label, icon: Icon }) => (
+          <Button
+            key={id}
+            size="sm"
+            variant={filter === id ? "default" : "outline"}
+            className="h-8 gap-1"
+            onClick={() => setFilter(id)}
+          >
+            <Icon className="w-3.5 h-3.5" />
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-3">
+          {allTags.map((t) => (
+            <Badge
+              key={t}
+              variant={tag === t ? "default" : "secondary"}
+              className="cursor-pointer"
+              onClick={() => setTag(tag === t ? null : t)}
+            >
+              #{t}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {loading && annotations.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Loading…</p>
+      ) : visible.length === 0 ? (
+        <div className="bg-card rounded-lg p-6 text-center card-shadow">
+          <p className="text-sm text-muted-foreground">
+            {annotations.length === 0
+              ? "Tap a verse number while reading to highlight, bookmark or add a note."
+              : "Nothing matches this filter."}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {visible.map((a) => (
+            <div key={a.id} className="bg-card border border-border rounded-lg p-3 flex items-start gap-3">
+              <button
+                type="button"
+                className="flex-1 text-left"
+                onClick={() => navigate(`/bible/${encodeURIComponent(a.book)}/${a.chapter}?v=${a.verse}`)}
+              >
+                <div className="flex items-center gap-2">
+                  {a.highlight_color && (
+                    <span className={cn("w-3 h-3 rounded-full", HIGHLIGHT_CLASSES[a.highlight_color])} />
+                  )}
+                  <span className="font-medium text-sm">
+                    {getBookName(a.book)} {a.chapter}:{a.verse}
+                  </span>
+                  {a.bookmarked && <BookmarkCheck className="w-3.5 h-3.5 text-primary" />}
+                </div>
+                {a.note && (
+                  <p className="text-sm text-muted-foreground mt-1 whitespace-pre-wrap">{a.note}</p>
+                )}
+                {a.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {a.tags.map((t) => (
+                      <Badge key={t} variant="secondary" className="text-[10px] px-1.5 py-0">#{t}</Badge>
+                    ))}
+                  </div>
+                )}
+              </button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                onClick={() => handleDelete(a.id)}
+                aria-label="Delete"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MyNotesPanel;
@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface QuietHoursDialogProps {
+  userId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const DEFAULT_START = "22:00";
+const DEFAULT_END = "07:00";
+
+// Postgres returns TIME as 'HH:MM:SS'; the time input wants 'HH:MM'
+const toInputTime = (time: string | null) => (time ? time.slice(0, 5) : null);
+
+// No message push notifications between two times, in this device's timezone
+const QuietHoursDialog = ({ userId, open, onOpenChange }: QuietHoursDialogProps) => {
+  const [enabled, setEnabled] = useState(false);
+  const [start, setStart] = useState(DEFAULT_START);
+  const [end, setEnd] = useState(DEFAULT_END);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    const loadPreferences = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("notification_preferences")
+        .select("quiet_hours_start, quiet_hours_end")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (error) console.error("Error loading notification preferences:", error);
+      setEnabled(!!data?.quiet_hours_start);
+      setStart(toInputTime(data?.quiet_hours_start ?? null) || DEFAULT_START);
+      setEnd(toInputTime(data?.quiet_hours_end ?? null) || DEFAULT_END);
+      setLoading(false);
+    };
+
+    loadPreferences();
+  }, [open, userId]);
+
+  const handleSave = async () => {
+    if (enabled && start === end) {
+      toast({
+        title: "Invalid quiet hours",
+        description: "Start and end times must be different.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("notification_preferences").upsert({
+        user_id: userId,
+        quiet_hours_start: enabled ? start : null,
+        quiet_hours_end: enabled ? end : null,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
+      });
+      if (error) throw error;
+
+      toast({ title: enabled ? `Quiet hours set for ${start}–${end}` : "Quiet hours turned off" });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving notification preferences:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save quiet hours",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Quiet Hours</DialogTitle>
+          <DialogDescription>
+            Message notifications are held back during these hours. Times use this device's timezone.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="quiet-hours-enabled">Enable quiet hours</Label>
+              <Switch id="quiet-hours-enabled" checked={enabled} onCheckedChange={setEnabled} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="quiet-hours-start">From</Label>
+                <Input
+                  id="quiet-hours-start"
+                  type="time"
+                  value={start}
+                  onChange={(e) => setStart(e.target.value)}
+                  disabled={!enabled}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="quiet-hours-end">Until</Label>
+                <Input
+                  id="quiet-hours-end"
+                  type="time"
+                  value={end}
+                  onChange={(e) => setEnd(e.target.value)}
+                  disabled={!enabled}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={loading || saving || (enabled && (!start || !end))}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuietHoursDialog;
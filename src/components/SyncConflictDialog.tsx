@@ -0,0 +1,173 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { useSyncStatus } from '@/contexts/SyncStatusContext';
+import { getSyncConflicts, type SyncConflict } from '@/lib/offlineDb';
+import { intelligentMerge } from '@/lib/conflictResolver';
+import { resolveHeldConflict, type FieldChoice } from '@/lib/syncManager';
+
+interface SyncConflictDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const TABLE_LABELS: Record<string, string> = {
+  tasks: 'Task',
+  activities: 'Activity',
+  posts: 'Post',
+  post_comments: 'Comment',
+  conversations: 'Conversation',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+};
+
+// Merged value for a field, only offered when the two sides combine cleanly
+const getMergedValue = (conflict: SyncConflict, field: string): { value: unknown } | null => {
+  const { merged, conflicts } = intelligentMerge(
+    { [field]: conflict.localVersion[field] },
+    { [field]: conflict.serverVersion[field] }
+  );
+  return conflicts.length === 0 ? { value: (merged as Record<string, unknown>)[field] } : null;
+};
+
+const getTitle = (conflict: SyncConflict): string => {
+  const label = TABLE_LABELS[conflict.table] || conflict.table;
+  const name = conflict.serverVersion.title || conflict.localVersion.title;
+  return typeof name === 'string' && name ? `${label}: ${name}` : label;
+};
+
+export const SyncConflictDialog = ({ open, onOpenChange }: SyncConflictDialogProps) => {
+  const { refreshStatus } = useSyncStatus();
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [choices, setChoices] = useState<Record<string, FieldChoice>>({});
+  const [saving, setSaving] = useState(false);
+
+  const current = conflicts[0];
+
+  useEffect(() => {
+    if (!open) return;
+    getSyncConflicts().then(setConflicts).catch((error) => {
+      console.error('[SyncConflictDialog] Error loading conflicts:', error);
+    });
+  }, [open]);
+
+  useEffect(() => {
+    setChoices({});
+  }, [current?.id]);
+
+  const advance = async () => {
+    const remaining = conflicts.slice(1);
+    setConflicts(remaining);
+    await refreshStatus();
+    if (remaining.length === 0) onOpenChange(false);
+  };
+
+  const applyChoices = async (pickChoice: (field: string) => FieldChoice) => {
+    if (!current) return;
+    setSaving(true);
+    try {
+      const decisions: Record<string, { choice: FieldChoice; value: unknown }> = {};
+      for (const field of current.fields) {
+        const choice = pickChoice(field);
+        const merged = choice === 'merged' ? getMergedValue(current, field) : null;
+        const value = merged
+          ? merged.value
+          : choice === 'server' ? current.serverVersion[field] : current.localVersion[field];
+        decisions[field] = { choice, value };
+      }
+      await resolveHeldConflict(current.id, decisions);
+      await advance();
+    } catch (error) {
+      console.error('[SyncConflictDialog] Failed to resolve conflict:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">Review sync conflicts</DialogTitle>
+          <DialogDescription>
+            {current
+              ? `This item was changed on another device while you were offline. Choose which version to keep for each field. (${conflicts.length} remaining)`
+              : 'No conflicts to review.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {current && (
+          <div className="space-y-4 py-2 max-h-[60vh] overflow-y-auto">
+            <p className="text-sm font-medium text-foreground">{getTitle(current)}</p>
+            {current.fields.map((field) => {
+              const merged = getMergedValue(current, field);
+              const selected = choices[field] || 'local';
+              return (
+                <div key={field} className="space-y-2 rounded-lg border border-border p-3">
+                  <p className="text-xs font-semibold uppercase text-muted-foreground">{field.replace(/_/g, ' ')}</p>
+                  <RadioGroup
+                    value={selected}
+                    onValueChange={(value) => setChoices(prev => ({ ...prev, [field]: value as FieldChoice }))}
+                  >
+                    <div className="flex items-start gap-2">
+                      <RadioGroupItem value="local" id={`${field}-local`} className="mt-0.5" />
+                      <Label htmlFor={`${field}-local`} className="text-sm font-normal break-words">
+                        <span className="font-medium">Yours: </span>{formatValue(current.localVersion[field])}
+                      </Label>
+                    </div>
+                    <div className="flex items-start gap-2">
+                      <RadioGroupItem value="server" id={`${field}-server`} className="mt-0.5" />
+                      <Label htmlFor={`${field}-server`} className="text-sm font-normal break-words">
+                        <span className="font-medium">Server: </span>{formatValue(current.serverVersion[field])}
+                      </Label>
+                    </div>
+                    {merged && (
+                      <div className="flex items-start gap-2">
+                        <RadioGroupItem value="merged" id={`${field}-merged`} className="mt-0.5" />
+                        <Label htmlFor={`${field}-merged`} className="text-sm font-normal break-words">
+                          <span className="font-medium">Merged: </span>{formatValue(merged.value)}
+                        </Label>
+                      </div>
+                    )}
+                  </RadioGroup>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {current ? (
+            <>
+              <Button variant="outline" onClick={() => applyChoices(() => 'server')} disabled={saving}>
+                Use server for all
+              </Button>
+              <Button onClick={() => applyChoices((field) => choices[field] || 'local')} disabled={saving}>
+                {saving ? 'Applying...' : 'Apply choices'}
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SyncConflictDialog;
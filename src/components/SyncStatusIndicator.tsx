@@ -1,9 +1,10 @@
 import { useSyncStatus } from '@/contexts/SyncStatusContext';
-import { WifiOff, Upload, CheckCircle, AlertCircle, Clock } from 'lucide-react';
+import { WifiOff, Upload, CheckCircle, AlertCircle, Clock, GitMerge } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { syncWithServer } from '@/lib/syncManager';
 import { useState } from 'react';
+import { SyncConflictDialog } from '@/components/SyncConflictDialog';
 
 interface SyncStatusIndicatorProps {
   className?: string;
@@ -13,6 +14,7 @@ interface SyncStatusIndicatorProps {
 export const SyncStatusIndicator = ({ className, showDetails = true }: SyncStatusIndicatorProps) => {
   const { status, clearSyncError, refreshStatus } = useSyncStatus();
   const [isManualSyncing, setIsManualSyncing] = useState(false);
+  const [showConflicts, setShowConflicts] = useState(false);
 
   const handleManualSync = async () => {
     setIsManualSyncing(true);
@@ -26,7 +28,7 @@ export const SyncStatusIndicator = ({ className, showDetails = true }: SyncStatu
     }
   };
 
-  if (status.isOnline && status.totalItemsQueued === 0 && !status.lastSyncError) {
+  if (status.isOnline && status.totalItemsQueued === 0 && !status.lastSyncError && status.conflictCount === 0) {
     return null; // Nothing to show when everything is good
   }
 
@@ -84,6 +86,24 @@ export const SyncStatusIndicator = ({ className, showDetails = true }: SyncStatu
         </div>
       )}
 
+      {/* Conflicts awaiting review */}
+      {status.conflictCount > 0 && (
+        <div className="flex items-center gap-2 bg-warning/10 border border-warning/30 px-3 py-2 rounded-lg">
+          <GitMerge className="w-4 h-4 text-warning" />
+          <span className="text-xs font-medium text-warning">
+            {status.conflictCount} conflict{status.conflictCount === 1 ? '' : 's'}
+          </span>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-5 px-2 text-xs ml-1"
+            onClick={() => setShowConflicts(true)}
+          >
+            Review
+          </Button>
+        </div>
+      )}
+
       {/* Last sync time */}
       {status.isOnline && status.lastSyncTime && status.totalItemsQueued === 0 && !status.lastSyncError && (
         <div className="flex items-center gap-2 text-xs text-muted-foreground">
@@ -91,6 +111,8 @@ export const SyncStatusIndicator = ({ className, showDetails = true }: SyncStatu
           <span>Synced {formatTime(status.lastSyncTime)}</span>
         </div>
       )}
+
+      <SyncConflictDialog open={showConflicts} onOpenChange={setShowConflicts} />
     </div>
   );
 };
@@ -98,8 +120,9 @@ export const SyncStatusIndicator = ({ className, showDetails = true }: SyncStatu
 // Compact version for headers (safe with error boundary)
 const SyncStatusBadgeContent = () => {
   const { status } = useSyncStatus();
+  const [showConflicts, setShowConflicts] = useState(false);
 
-  if (status.isOnline && status.totalItemsQueued === 0 && !status.lastSyncError) {
+  if (status.isOnline && status.totalItemsQueued === 0 && !status.lastSyncError && status.conflictCount === 0) {
     return null;
   }
 
@@ -119,6 +142,18 @@ const SyncStatusBadgeContent = () => {
       {status.lastSyncError && (
         <div className="w-2 h-2 rounded-full bg-destructive animate-pulse" title={status.lastSyncError} />
       )}
+      {status.conflictCount > 0 && (
+        <button
+          type="button"
+          onClick={() => setShowConflicts(true)}
+          className="flex items-center gap-0.5 text-xs font-semibold bg-warning/20 text-warning px-1.5 py-0.5 rounded"
+          title="Review sync conflicts"
+        >
+          <GitMerge className="w-3 h-3" />
+          {status.conflictCount}
+        </button>
+      )}
+      <SyncConflictDialog open={showConflicts} onOpenChange={setShowConflicts} />
     </div>
   );
 };
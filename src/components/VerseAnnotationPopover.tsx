@@ -0,0 +1,163 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { Bookmark, BookmarkCheck, StickyNote, X } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import {
+  HIGHLIGHT_COLORS,
+  HIGHLIGHT_CLASSES,
+  type AnnotationChanges,
+  type HighlightColor,
+  type VerseAnnotation,
+} from "@/hooks/useVerseAnnotations";
+
+const SWATCH_CLASSES: Record<HighlightColor, string> = {
+  yellow: "bg-yellow-400",
+  green: "bg-green-500",
+  blue: "bg-blue-500",
+  pink: "bg-pink-500",
+  purple: "bg-purple-500",
+};
+
+const parseTags = (value: string) =>
+  [...new Set(value.split(",").map(t => t.trim().toLowerCase()).filter(Boolean))];
+
+interface PopoverProps {
+  label: string; // e.g. "John 3:16"
+  annotation?: VerseAnnotation;
+  onSave: (changes: AnnotationChanges) => Promise<void>;
+  children: ReactNode; // trigger
+}
+
+/** Highlight / bookmark / note editor for a single verse. */
+export const VerseAnnotationPopover = ({ label, annotation, onSave, children }: PopoverProps) => {
+  const [open, setOpen] = useState(false);
+  const [note, setNote] = useState("");
+  const [tags, setTags] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setNote(annotation?.note || "");
+    setTags((annotation?.tags || []).join(", "));
+  }, [open, annotation]);
+
+  const save = async (changes: AnnotationChanges, close = false) => {
+    setSaving(true);
+    try {
+      await onSave(changes);
+      if (close) setOpen(false);
+    } catch (error) {
+      toast({
+        title: "Couldn't save",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3" align="start">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-semibold">{label}</span>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7"
+            disabled={saving}
+            onClick={() => save({ bookmarked: !annotation?.bookmarked })}
+            title={annotation?.bookmarked ? "Remove bookmark" : "Bookmark"}
+          >
+            {annotation?.bookmarked ? (
+              <BookmarkCheck className="w-4 h-4 text-primary" />
+            ) : (
+              <Bookmark className="w-4 h-4" />
+            )}
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {HIGHLIGHT_COLORS.map((color) => (
+            <button
+              key={color}
+              type="button"
+              aria-label={`Highlight ${color}`}
+              disabled={saving}
+              onClick={() => save({ highlight_color: annotation?.highlight_color === color ? null : color })}
+              className={cn(
+                "w-6 h-6 rounded-full border-2 transition-transform",
+                SWATCH_CLASSES[color],
+                annotation?.highlight_color === color ? "border-foreground scale-110" : "border-transparent"
+              )}
+            />
+          ))}
+          {annotation?.highlight_color && (
+            <button
+              type="button"
+              aria-label="Remove highlight"
+              disabled={saving}
+              onClick={() => save({ highlight_color: null })}
+              className="w-6 h-6 rounded-full border border-border flex items-center justify-center"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+
+        <Textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Write a note…"
+          rows={3}
+        />
+        <Input
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="Tags, comma separated"
+        />
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            disabled={saving}
+            onClick={() => save({ note: note.trim() || null, tags: parseTags(tags) }, true)}
+          >
+            Save note
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+/** Bookmark marker, note and tags shown under an annotated verse. */
+export const VerseAnnotationInline = ({ annotation, className }: { annotation?: VerseAnnotation; className?: string }) => {
+  if (!annotation || (!annotation.note && annotation.tags.length === 0 && !annotation.bookmarked)) return null;
+  return (
+    <div className={cn("mt-1 space-y-1", className)}>
+      {annotation.note && (
+        <p className="flex items-start gap-1 text-xs text-muted-foreground italic">
+          <StickyNote className="w-3 h-3 mt-0.5 shrink-0" />
+          <span className="whitespace-pre-wrap">{annotation.note}</span>
+        </p>
+      )}
+      {(annotation.bookmarked || annotation.tags.length > 0) && (
+        <div className="flex flex-wrap items-center gap-1">
+          {annotation.bookmarked && <BookmarkCheck className="w-3.5 h-3.5 text-primary" />}
+          {annotation.tags.map((tag) => (
+            <Badge key={tag} variant="secondary" className="text-[10px] px-1.5 py-0">
+              #{tag}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,435 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2, Trophy, Pencil, X, Check, Users, Loader2 } from "lucide-react";
+import type { Achievement } from "@/hooks/useAchievements";
+import {
+  CRITERIA,
+  GAME_TYPE_LABELS,
+  describeCriteria,
+  parseCriteriaParams,
+  type CriteriaParams,
+} from "@/lib/achievementCriteria";
+
+interface AchievementDraft {
+  key: string;
+  title: string;
+  description: string;
+  icon: string;
+  category: string;
+  criteria_type: string;
+  criteria_value: string;
+  criteria_params: CriteriaParams;
+  points: string;
+}
+
+interface Qualifier {
+  user_id: string;
+  username: string;
+  metric: number;
+}
+
+const CATEGORIES = ["games", "milestones", "streaks", "community"];
+const ANY = "any";
+
+const emptyDraft: AchievementDraft = {
+  key: "",
+  title: "",
+  description: "",
+  icon: "🏆",
+  category: "games",
+  criteria_type: "games_played",
+  criteria_value: "10",
+  criteria_params: {},
+  points: "25",
+};
+
+const toKey = (title: string) =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+
+const AchievementManagement = () => {
+  const { toast } = useToast();
+  const [achievements, setAchievements] = useState<Achievement[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [draft, setDraft] = useState<AchievementDraft>(emptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const [previewing, setPreviewing] = useState(false);
+  const [qualifiers, setQualifiers] = useState<Qualifier[] | null>(null);
+
+  const fetchAchievements = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("achievements")
+      .select("*")
+      .order("category", { ascending: true })
+      .order("criteria_value", { ascending: true });
+    if (error) {
+      toast({ title: "Error loading achievements", description: error.message, variant: "destructive" });
+      return;
+    }
+    setAchievements((data || []).map((a) => ({ ...a, criteria_params: parseCriteriaParams(a.criteria_params) })));
+  }, [toast]);
+
+  useEffect(() => {
+    fetchAchievements();
+  }, [fetchAchievements]);
+
+  const definition = CRITERIA[draft.criteria_type];
+  const criteriaValue = Math.max(parseInt(draft.criteria_value, 10) || 0, 0);
+
+  const updateDraft = (changes: Partial<AchievementDraft>) => {
+    setDraft((d) => ({ ...d, ...changes }));
+    setQualifiers(null);
+  };
+
+  const setParam = <K extends keyof CriteriaParams>(key: K, value: CriteriaParams[K] | undefined) => {
+    const next = { ...draft.criteria_params };
+    if (value === undefined || value === false) delete next[key];
+    else next[key] = value;
+    updateDraft({ criteria_params: next });
+  };
+
+  const resetForm = () => {
+    setDraft(emptyDraft);
+    setEditingId(null);
+    setQualifiers(null);
+  };
+
+  const startEdit = (a: Achievement) => {
+    setEditingId(a.id);
+    setDraft({
+      key: a.key,
+      title: a.title,
+      description: a.description,
+      icon: a.icon,
+      category: a.category,
+      criteria_type: a.criteria_type,
+      criteria_value: String(a.criteria_value),
+      criteria_params: a.criteria_params,
+      points: String(a.points),
+    });
+    setQualifiers(null);
+  };
+
+  const handlePreview = async () => {
+    setPreviewing(true);
+    const { data, error } = await supabase.rpc("preview_achievement_qualifiers", {
+      _criteria_type: draft.criteria_type,
+      _criteria_value: criteriaValue,
+      _params: draft.criteria_params as Record<string, string | boolean>,
+    });
+    if (error) {
+      toast({ title: "Preview failed", description: error.message, variant: "destructive" });
+    } else {
+      setQualifiers((data || []) as Qualifier[]);
+    }
+    setPreviewing(false);
+  };
+
+  const handleSave = async () => {
+    if (!draft.title.trim()) {
+      toast({ title: "Title is required", variant: "destructive" });
+      return;
+    }
+    if (criteriaValue < 1) {
+      toast({ title: "Target must be at least 1", variant: "destructive" });
+      return;
+    }
+
+    setLoading(true);
+    const row = {
+      key: draft.key.trim() || toKey(draft.title),
+      title: draft.title.trim(),
+      description: draft.description.trim() || describeCriteria(draft.criteria_type, criteriaValue, draft.criteria_params),
+      icon: draft.icon.trim() || "🏆",
+      category: draft.category,
+      criteria_type: draft.criteria_type,
+      criteria_value: criteriaValue,
+      criteria_params: draft.criteria_params as Record<string, string | boolean>,
+      points: Math.max(parseInt(draft.points, 10) || 0, 0),
+    };
+    const { error } = editingId
+      ? await supabase.from("achievements").update(row).eq("id", editingId)
+      : await supabase.from("achievements").insert(row);
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: editingId ? "Achievement updated" : "Achievement added" });
+      resetForm();
+      fetchAchievements();
+    }
+    setLoading(false);
+  };
+
+  const handleDelete = async (id: string) => {
+    setLoading(true);
+    const { error } = await supabase.from("achievements").delete().eq("id", id);
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: "Deleted" });
+      if (editingId === id) resetForm();
+      fetchAchievements();
+    }
+    setLoading(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {editingId ? <Pencil className="h-5 w-5" /> : <Plus className="h-5 w-5" />}
+            {editingId ? "Edit Achievement" : "Add Achievement"}
+          </CardTitle>
+          <CardDescription>
+            Pick what to measure, narrow it down and set the target. Badges are awarded the next time a user's progress is checked.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-[5rem_1fr_1fr] gap-4">
+            <div className="space-y-2">
+              <Label>Icon</Label>
+              <Input value={draft.icon} onChange={(e) => updateDraft({ icon: e.target.value })} className="text-center" />
+            </div>
+            <div className="space-y-2">
+              <Label>Title *</Label>
+              <Input
+                placeholder="e.g. Word Perfect"
+                value={draft.title}
+                onChange={(e) => updateDraft({ title: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Key</Label>
+              <Input
+                placeholder={toKey(draft.title) || "word_perfect"}
+                value={draft.key}
+                onChange={(e) => updateDraft({ key: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Description</Label>
+            <Input
+              placeholder={describeCriteria(draft.criteria_type, criteriaValue, draft.criteria_params)}
+              value={draft.description}
+              onChange={(e) => updateDraft({ description: e.target.value })}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="space-y-2 col-span-2">
+              <Label>Measure</Label>
+              <Select
+                value={draft.criteria_type}
+                onValueChange={(value) => updateDraft({ criteria_type: value, criteria_params: {} })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CRITERIA).map(([type, def]) => (
+                    <SelectItem key={type} value={type}>
+                      {def.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Target</Label>
+              <Input
+                type="number"
+                min={1}
+                value={draft.criteria_value}
+                onChange={(e) => updateDraft({ criteria_value: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>XP</Label>
+              <Input
+                type="number"
+                min={0}
+                value={draft.points}
+                onChange={(e) => updateDraft({ points: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-4">
+            {definition?.params.includes("game_type") && (
+              <div className="space-y-2">
+                <Label>Game</Label>
+                <Select
+                  value={draft.criteria_params.game_type || ANY}
+                  onValueChange={(value) => setParam("game_type", value === ANY ? undefined : value)}
+                >
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any game</SelectItem>
+                    {Object.entries(GAME_TYPE_LABELS).map(([type, label]) => (
+                      <SelectItem key={type} value={type}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {definition?.params.includes("testament") && (
+              <div className="space-y-2">
+                <Label>Testament</Label>
+                <Select
+                  value={draft.criteria_params.testament || ANY}
+                  onValueChange={(value) =>
+                    setParam("testament", value === ANY ? undefined : (value as CriteriaParams["testament"]))
+                  }
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Either</SelectItem>
+                    <SelectItem value="old">Old Testament</SelectItem>
+                    <SelectItem value="new">New Testament</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {definition?.params.includes("correct_only") && (
+              <div className="flex items-center gap-2 pb-2">
+                <Switch
+                  checked={!!draft.criteria_params.correct_only}
+                  onCheckedChange={(checked) => setParam("correct_only", checked)}
+                />
+                <Label>Correct answers only</Label>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={draft.category} onValueChange={(value) => updateDraft({ category: value })}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CATEGORIES.map((c) => (
+                    <SelectItem key={c} value={c} className="capitalize">
+                      {c}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="p-3 rounded-lg bg-secondary/50 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm">
+                <span className="mr-1">{draft.icon}</span>
+                {describeCriteria(draft.criteria_type, criteriaValue, draft.criteria_params)}
+              </p>
+              <Button variant="outline" size="sm" onClick={handlePreview} disabled={previewing || criteriaValue < 1}>
+                {previewing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Users className="h-4 w-4 mr-2" />}
+                Preview
+              </Button>
+            </div>
+            {qualifiers && (
+              <div className="text-sm">
+                <p className="font-medium">
+                  {qualifiers.length} user{qualifiers.length === 1 ? "" : "s"} would qualify right now
+                </p>
+                {qualifiers.length > 0 && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {qualifiers.slice(0, 10).map((q) => `${q.username} (${q.metric})`).join(", ")}
+                    {qualifiers.length > 10 && ` and ${qualifiers.length - 10} more`}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={loading}>
+              {editingId ? <Check className="h-4 w-4 mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+              {editingId ? "Save Achievement" : "Add Achievement"}
+            </Button>
+            {editingId && (
+              <Button variant="ghost" onClick={resetForm}>
+                <X className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Trophy className="h-5 w-5" />
+            Achievements ({achievements.length})
+          </CardTitle>
+          <CardDescription>Badges users can unlock.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {achievements.map((a) => (
+              <div key={a.id} className="p-3 bg-secondary/50 rounded-lg flex items-start justify-between gap-3">
+                <div className="flex items-start gap-3 min-w-0 flex-1">
+                  <span className="text-2xl">{a.icon}</span>
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-semibold text-foreground">{a.title}</span>
+                      <span className="text-xs px-1.5 py-0.5 rounded bg-primary/10 text-primary">+{a.points} XP</span>
+                      <span className="text-xs px-1.5 py-0.5 rounded bg-muted text-muted-foreground capitalize">
+                        {a.category}
+                      </span>
+                      {!CRITERIA[a.criteria_type] && (
+                        <span className="text-xs px-1.5 py-0.5 rounded bg-destructive/10 text-destructive">
+                          Unknown criteria
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-foreground mt-1">{a.description}</p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {describeCriteria(a.criteria_type, a.criteria_value, a.criteria_params)}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex gap-1 flex-shrink-0">
+                  <Button variant="ghost" size="icon" onClick={() => startEdit(a)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(a.id)}
+                    disabled={loading}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            {achievements.length === 0 && (
+              <p className="text-muted-foreground text-sm">No achievements yet. Add one above.</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AchievementManagement;
@@ -0,0 +1,309 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2, BookMarked, Pencil, X, Check, Wand2 } from "lucide-react";
+import { KJV_BOOKS, getBookName, getChapterCount, parseReference } from "@/lib/bibleReference";
+import type { ReadingPlan } from "@/hooks/useReadingPlans";
+
+interface PlanDraft {
+  title: string;
+  description: string;
+  readings: string; // one reference per line
+  is_active: boolean;
+}
+
+const emptyDraft: PlanDraft = { title: "", description: "", readings: "", is_active: true };
+
+const splitReadings = (value: string) => value.split("\n").map((line) => line.trim()).filter(Boolean);
+
+/** Lines that aren't recognizable references, as 1-based line numbers */
+const invalidLines = (readings: string[]) =>
+  readings.map((r, i) => (parseReference(r) ? null : i + 1)).filter((n): n is number => n !== null);
+
+/** "Proverbs", 1 per day → "Proverbs 1", "Proverbs 2", … */
+const generateReadings = (book: string, perDay: number) => {
+  const total = getChapterCount(book);
+  const name = getBookName(book);
+  const lines: string[] = [];
+  for (let start = 1; start <= total; start += perDay) {
+    const end = Math.min(start + perDay - 1, total);
+    lines.push(end === start ? `${name} ${start}` : `${name} ${start}-${end}`);
+  }
+  return lines.join("\n");
+};
+
+const ReadingPlanManagement = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [plans, setPlans] = useState<ReadingPlan[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const [draft, setDraft] = useState<PlanDraft>(emptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [generatorBook, setGeneratorBook] = useState("Psalms");
+  const [perDay, setPerDay] = useState("5");
+
+  const fetchPlans = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("reading_plans")
+      .select("*")
+      .order("created_at", { ascending: true });
+    if (error) {
+      toast({ title: "Error loading reading plans", description: error.message, variant: "destructive" });
+      return;
+    }
+    setPlans((data || []) as ReadingPlan[]);
+  }, [toast]);
+
+  useEffect(() => {
+    fetchPlans();
+  }, [fetchPlans]);
+
+  const resetForm = () => {
+    setDraft(emptyDraft);
+    setEditingId(null);
+  };
+
+  const startEdit = (plan: ReadingPlan) => {
+    setEditingId(plan.id);
+    setDraft({
+      title: plan.title,
+      description: plan.description || "",
+      readings: plan.readings.join("\n"),
+      is_active: plan.is_active,
+    });
+  };
+
+  const handleSave = async () => {
+    const readings = splitReadings(draft.readings);
+    if (!draft.title.trim() || readings.length === 0) {
+      toast({ title: "Title and at least one day's reading are required", variant: "destructive" });
+      return;
+    }
+    const invalid = invalidLines(readings);
+    if (invalid.length > 0) {
+      toast({
+        title: "Unrecognized references",
+        description: `Check line${invalid.length > 1 ? "s" : ""} ${invalid.join(", ")}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    const row = {
+      title: draft.title.trim(),
+      description: draft.description.trim() || null,
+      readings,
+      is_active: draft.is_active,
+    };
+    const { error } = editingId
+      ? await supabase.from("reading_plans").update(row).eq("id", editingId)
+      : await supabase.from("reading_plans").insert({ ...row, created_by: user?.id ?? null });
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: editingId ? "Plan updated" : "Plan added" });
+      resetForm();
+      fetchPlans();
+    }
+    setLoading(false);
+  };
+
+  const toggleActive = async (plan: ReadingPlan) => {
+    const { error } = await supabase
+      .from("reading_plans")
+      .update({ is_active: !plan.is_active })
+      .eq("id", plan.id);
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else {
+      fetchPlans();
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setLoading(true);
+    const { error } = await supabase.from("reading_plans").delete().eq("id", id);
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: "Deleted" });
+      if (editingId === id) resetForm();
+      fetchPlans();
+    }
+    setLoading(false);
+  };
+
+  const readingCount = splitReadings(draft.readings).length;
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {editingId ? <Pencil className="h-5 w-5" /> : <Plus className="h-5 w-5" />}
+            {editingId ? "Edit Reading Plan" : "Add Reading Plan"}
+          </CardTitle>
+          <CardDescription>
+            One reference per line, one line per day — e.g. "Matthew 1-3" or "Psalm 119:1-88".
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Title *</Label>
+              <Input
+                placeholder="e.g. Psalms in a month"
+                value={draft.title}
+                onChange={(e) => setDraft((d) => ({ ...d, title: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Description</Label>
+              <Input
+                placeholder="Short summary shown to readers"
+                value={draft.description}
+                onChange={(e) => setDraft((d) => ({ ...d, description: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-2">
+              <Label>Fill from book</Label>
+              <Select value={generatorBook} onValueChange={setGeneratorBook}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="max-h-80">
+                  {KJV_BOOKS.map((id) => (
+                    <SelectItem key={id} value={id}>
+                      {getBookName(id)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Chapters / day</Label>
+              <Input
+                type="number"
+                min={1}
+                className="w-24"
+                value={perDay}
+                onChange={(e) => setPerDay(e.target.value)}
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() =>
+                setDraft((d) => ({
+                  ...d,
+                  readings: generateReadings(generatorBook, Math.max(parseInt(perDay, 10) || 1, 1)),
+                }))
+              }
+            >
+              <Wand2 className="h-4 w-4 mr-2" />
+              Generate
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Daily readings * ({readingCount} days)</Label>
+            <Textarea
+              placeholder={"Matthew 1-2\nMatthew 3-5\nMatthew 6-8"}
+              value={draft.readings}
+              onChange={(e) => setDraft((d) => ({ ...d, readings: e.target.value }))}
+              rows={8}
+              className="font-mono text-sm"
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch
+              checked={draft.is_active}
+              onCheckedChange={(checked) => setDraft((d) => ({ ...d, is_active: checked }))}
+            />
+            <Label>Visible to users</Label>
+          </div>
+
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={loading}>
+              {editingId ? <Check className="h-4 w-4 mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+              {editingId ? "Save Plan" : "Add Plan"}
+            </Button>
+            {editingId && (
+              <Button variant="ghost" onClick={resetForm}>
+                <X className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BookMarked className="h-5 w-5" />
+            Reading Plans ({plans.length})
+          </CardTitle>
+          <CardDescription>Active plans appear on the home page for users to start.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {plans.map((plan) => (
+              <div key={plan.id} className="p-3 bg-secondary/50 rounded-lg flex items-start justify-between gap-3">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-semibold text-foreground">{plan.title}</span>
+                    <span className="text-xs px-1.5 py-0.5 rounded bg-primary/10 text-primary">
+                      {plan.readings.length} days
+                    </span>
+                    {!plan.is_active && (
+                      <span className="text-xs px-1.5 py-0.5 rounded bg-muted text-muted-foreground">Hidden</span>
+                    )}
+                  </div>
+                  {plan.description && <p className="text-sm text-foreground mt-1">{plan.description}</p>}
+                  <p className="text-xs text-muted-foreground mt-1 truncate">
+                    {plan.readings.slice(0, 3).join(" · ")}
+                    {plan.readings.length > 3 && " · …"}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Switch checked={plan.is_active} onCheckedChange={() => toggleActive(plan)} />
+                  <Button variant="ghost" size="icon" onClick={() => startEdit(plan)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(plan.id)}
+                    disabled={loading}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            {plans.length === 0 && (
+              <p className="text-muted-foreground text-sm">No reading plans yet. Add one above.</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ReadingPlanManagement;
@@ -0,0 +1,61 @@
+import { useEffect, useMemo } from "react";
+import { FileText, Mic, X } from "lucide-react";
+import { formatFileSize, type DraftAttachment } from "@/lib/chatAttachments";
+
+interface AttachmentDraftListProps {
+  drafts: DraftAttachment[];
+  onRemove: (id: string) => void;
+}
+
+// Attachments waiting to go out with the next message
+const AttachmentDraftList = ({ drafts, onRemove }: AttachmentDraftListProps) => {
+  const previews = useMemo(
+    () =>
+      new Map(
+        drafts.filter((d) => d.kind === "image").map((d) => [d.id, URL.createObjectURL(d.file)])
+      ),
+    [drafts]
+  );
+
+  useEffect(() => {
+    return () => previews.forEach((url) => URL.revokeObjectURL(url));
+  }, [previews]);
+
+  if (drafts.length === 0) return null;
+
+  return (
+    <div className="flex gap-2 mb-2 overflow-x-auto">
+      {drafts.map((draft) => (
+        <div key={draft.id} className="relative flex-shrink-0">
+          {previews.has(draft.id) ? (
+            <img src={previews.get(draft.id)} alt={draft.name} className="h-16 w-16 rounded-lg object-cover" />
+          ) : (
+            <div className="h-16 w-32 rounded-lg bg-muted flex items-center gap-2 px-2">
+              {draft.kind === "voice" ? (
+                <Mic className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+              ) : (
+                <FileText className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+              )}
+              <span className="min-w-0 text-xs">
+                <span className="block truncate text-foreground">
+                  {draft.kind === "voice" ? "Voice note" : draft.name}
+                </span>
+                <span className="block text-muted-foreground">
+                  {draft.kind === "voice" && draft.duration ? `${draft.duration}s` : formatFileSize(draft.file.size)}
+                </span>
+              </span>
+            </div>
+          )}
+          <button
+            onClick={() => onRemove(draft.id)}
+            className="absolute -top-1.5 -right-1.5 h-5 w-5 rounded-full bg-foreground text-background flex items-center justify-center"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AttachmentDraftList;
@@ -0,0 +1,183 @@
+import { useState, useRef, useEffect } from "react";
+import { Paperclip, Mic, Square, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import {
+  MAX_ATTACHMENT_SIZE,
+  attachmentKindFor,
+  formatFileSize,
+  type DraftAttachment,
+} from "@/lib/chatAttachments";
+
+interface AttachmentPickerProps {
+  onAdd: (drafts: DraftAttachment[]) => void;
+  disabled?: boolean;
+}
+
+const MAX_VOICE_SECONDS = 5 * 60;
+
+// Browsers record in different containers; name the file to match
+const voiceExtension = (mimeType: string) =>
+  mimeType.includes("mp4") ? "m4a" : mimeType.includes("ogg") ? "ogg" : "webm";
+
+// Attach files, or record a voice note
+const AttachmentPicker = ({ onAdd, disabled }: AttachmentPickerProps) => {
+  const [recording, setRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const cancelledRef = useRef(false);
+  const startedAtRef = useRef(0);
+  const { toast } = useToast();
+
+  const canRecord = typeof MediaRecorder !== "undefined" && !!navigator.mediaDevices?.getUserMedia;
+
+  // Tick the timer while recording, and stop at the length limit
+  useEffect(() => {
+    if (!recording) return;
+    const timer = setInterval(() => {
+      const seconds = Math.floor((Date.now() - startedAtRef.current) / 1000);
+      setElapsed(seconds);
+      if (seconds >= MAX_VOICE_SECONDS) recorderRef.current?.stop();
+    }, 250);
+    return () => clearInterval(timer);
+  }, [recording]);
+
+  // Release the microphone if the chat closes mid-recording
+  useEffect(() => {
+    return () => {
+      cancelledRef.current = true;
+      if (recorderRef.current?.state === "recording") recorderRef.current.stop();
+    };
+  }, []);
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+
+    const tooLarge = files.filter((file) => file.size > MAX_ATTACHMENT_SIZE);
+    if (tooLarge.length > 0) {
+      toast({
+        title: "File too large",
+        description: `${tooLarge.map((f) => f.name).join(", ")} is over ${formatFileSize(MAX_ATTACHMENT_SIZE)}.`,
+        variant: "destructive",
+      });
+    }
+
+    const accepted = files.filter((file) => file.size <= MAX_ATTACHMENT_SIZE);
+    if (accepted.length === 0) return;
+
+    onAdd(
+      accepted.map((file) => ({
+        id: crypto.randomUUID(),
+        kind: attachmentKindFor(file),
+        file,
+        name: file.name,
+      }))
+    );
+  };
+
+  const startRecording = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      chunksRef.current = [];
+      cancelledRef.current = false;
+
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunksRef.current.push(e.data);
+      };
+      recorder.onstop = () => {
+        stream.getTracks().forEach((track) => track.stop());
+        setRecording(false);
+        if (cancelledRef.current || chunksRef.current.length === 0) return;
+
+        const mimeType = recorder.mimeType || "audio/webm";
+        const blob = new Blob(chunksRef.current, { type: mimeType });
+        onAdd([
+          {
+            id: crypto.randomUUID(),
+            kind: "voice",
+            file: blob,
+            name: `voice-note.${voiceExtension(mimeType)}`,
+            duration: Math.max(1, Math.round((Date.now() - startedAtRef.current) / 1000)),
+          },
+        ]);
+      };
+
+      recorderRef.current = recorder;
+      startedAtRef.current = Date.now();
+      setElapsed(0);
+      recorder.start();
+      setRecording(true);
+    } catch (error) {
+      console.error("Error starting voice recording:", error);
+      toast({
+        title: "Microphone unavailable",
+        description: "Allow microphone access to record a voice note.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const stopRecording = (cancel: boolean) => {
+    cancelledRef.current = cancel;
+    recorderRef.current?.stop();
+  };
+
+  if (recording) {
+    return (
+      <div className="flex items-center gap-1 flex-shrink-0">
+        <span className="w-2 h-2 rounded-full bg-destructive animate-pulse" />
+        <span className="text-sm text-muted-foreground tabular-nums w-10">
+          {Math.floor(elapsed / 60)}:{String(elapsed % 60).padStart(2, "0")}
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => stopRecording(true)}
+          className="text-muted-foreground hover:text-foreground"
+        >
+          <X className="h-5 w-5" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => stopRecording(false)}
+          className="text-destructive hover:text-destructive"
+        >
+          <Square className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <input ref={fileInputRef} type="file" multiple className="hidden" onChange={handleFiles} />
+      <Button
+        variant="ghost"
+        size="icon"
+        disabled={disabled}
+        onClick={() => fileInputRef.current?.click()}
+        className="text-muted-foreground hover:text-foreground flex-shrink-0"
+      >
+        <Paperclip className="h-5 w-5" />
+      </Button>
+      {canRecord && (
+        <Button
+          variant="ghost"
+          size="icon"
+          disabled={disabled}
+          onClick={startRecording}
+          className="text-muted-foreground hover:text-foreground flex-shrink-0"
+        >
+          <Mic className="h-5 w-5" />
+        </Button>
+      )}
+    </>
+  );
+};
+
+export default AttachmentPicker;
@@ -1,6 +1,6 @@
-import { useState, useRef, useEffect, useCallback } from "react";
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
-import { Send, Users, User, Settings, Trash2, Smile } from "lucide-react";
+import { Send, Users, User, Settings, Trash2, Smile, CheckCheck, Reply, Pencil, SmilePlus, X, Clock, AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -20,16 +20,24 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { useMessages, Message } from "@/hooks/useMessages";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useMessages, Message, MessageEdit } from "@/hooks/useMessages";
 import { Conversation } from "@/hooks/useConversations";
 import { useChatPresence } from "@/hooks/useChatPresence";
+import { useMessageReads } from "@/hooks/useMessageReads";
 import { formatDistanceToNow } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import GroupManagementDialog from "./GroupManagementDialog";
+import MessageAttachments from "./MessageAttachments";
+import AttachmentPicker from "./AttachmentPicker";
+import AttachmentDraftList from "./AttachmentDraftList";
+import MuteConversationMenu from "./MuteConversationMenu";
+import { removeAttachmentFiles, type DraftAttachment } from "@/lib/chatAttachments";
 import BibleAIChat from "@/components/BibleAIChat";
 
 const EMOJI_LIST = ["😀", "😂", "😍", "🥰", "😊", "🙏", "❤️", "🔥", "👍", "👏", "🎉", "✨", "💯", "🙌", "😇", "🤗"];
+const REACTION_EMOJIS = ["👍", "❤️", "😂", "🙏", "🔥", "🙌", "😮", "😢"];
 
 interface ChatViewProps {
   conversation: Conversation;
@@ -38,8 +46,10 @@ interface ChatViewProps {
 }
 
 const ChatView = ({ conversation, currentUserId, onConversationUpdate }: ChatViewProps) => {
-  const { messages, loading, sendMessage, refetch } = useMessages(conversation.id);
+  const { messages, loading, sendMessage, retryMessage, editMessage, toggleReaction, getEditHistory, refetch } =
+    useMessages(conversation.id);
   const { typingUsers, setTyping, isUserOnline } = useChatPresence(currentUserId, conversation.id);
+  const { reads, markRead } = useMessageReads(conversation.id, currentUserId);
   const [newMessage, setNewMessage] = useState("");
   const [sending, setSending] = useState(false);
   const [groupManagementOpen, setGroupManagementOpen] = useState(false);
@@ -48,6 +58,12 @@ const ChatView = ({ conversation, currentUserId, onConversationUpdate }: ChatVie
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
   const [showAIChat, setShowAIChat] = useState(false);
   const [aiPrefill, setAiPrefill] = useState<string | undefined>(undefined);
+  const [drafts, setDrafts] = useState<DraftAttachment[]>([]);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [historyFor, setHistoryFor] = useState<Message | null>(null);
+  const [history, setHistory] = useState<MessageEdit[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
   const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const navigate = useNavigate();
@@ -60,6 +76,43 @@ const ChatView = ({ conversation, currentUserId, onConversationUpdate }: ChatVie
     }
   }, [messages]);
 
+  // Mark the conversation read up to the newest message while it's on screen
+  useEffect(() => {
+    const markLatest = () => {
+      if (document.visibilityState !== "visible") return;
+      const latest = [...messages].reverse().find((m) => !m.pending && !m.failed);
+      if (latest) markRead(latest.created_at);
+    };
+
+    markLatest();
+    document.addEventListener("visibilitychange", markLatest);
+    return () => document.removeEventListener("visibilitychange", markLatest);
+  }, [messages, markRead]);
+
+  // Each other participant appears once, under the newest of my messages they've read
+  const seenBy = useMemo(() => {
+    const byMessage = new Map<string, string[]>();
+    const own = messages.filter((m) => m.sender_id === currentUserId && !m.pending && !m.failed).reverse();
+
+    conversation.participants.forEach((p) => {
+      if (p.user_id === currentUserId || !reads[p.user_id]) return;
+      const readAt = new Date(reads[p.user_id]).getTime();
+      const seen = own.find((m) => new Date(m.created_at).getTime() <= readAt);
+      if (seen) byMessage.set(seen.id, [...(byMessage.get(seen.id) || []), p.username]);
+    });
+
+    return byMessage;
+  }, [messages, reads, conversation.participants, currentUserId]);
+
+  const getSeenLabel = (messageId: string) => {
+    const names = seenBy.get(messageId);
+    if (!names) return undefined;
+    if (!conversation.is_group) return "Seen";
+    if (names.length === conversation.participants.length - 1) return "Seen by everyone";
+    if (names.length > 3) return `Seen by ${names.slice(0, 2).join(", ")} and ${names.length - 2} others`;
+    return `Seen by ${names.join(", ")}`;
+  };
+
   // Check if current user is group admin
   useEffect(() => {
     const checkAdminStatus = async () => {
@@ -96,7 +149,7 @@ const ChatView = ({ conversation, currentUserId, onConversationUpdate }: ChatVie
   }, [setTyping]);
 
   const handleSend = async () => {
-    if (!newMessage.trim() || sending) return;
+    if ((!newMessage.trim() && drafts.length === 0) || sending) return;
 
     if (typingTimeoutRef.current) {
       clearTimeout(typingTimeoutRef.current);
@@ -115,7 +168,15 @@ const ChatView = ({ conversation, currentUserId, onConversationUpdate }: ChatVie
 
     setSending(true);
     try {
-      await sendMessage(newMessage, currentUserId);
+      if (editingMessage) {
+        await editMessage(editingMessage.id, newMessage);
+        setEditingMessage(null);
+      } else {
+        // Done once the bubble is showing: uploads, delivery and retries carry on there
+        await sendMessage(newMessage, currentUserId, replyingTo?.id ?? null, drafts);
+        setDrafts([]);
+        setReplyingTo(null);
+      }
       setNewMessage("");
     } catch (error) {
       console.error("Failed to send message:", error);
@@ -131,6 +192,46 @@ const ChatView = ({ conversation, currentUserId, onConversationUpdate }: ChatVie
     }
   };
 
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape" && (replyingTo || editingMessage)) {
+      cancelCompose();
+    }
+  };
+
+  const startReply = (message: Message) => {
+    if (editingMessage) setNewMessage("");
+    setEditingMessage(null);
+    setReplyingTo(message);
+  };
+
+  const startEdit = (message: Message) => {
+    setReplyingTo(null);
+    setDrafts([]);
+    setEditingMessage(message);
+    setNewMessage(message.content);
+  };
+
+  const cancelCompose = () => {
+    if (editingMessage) setNewMessage("");
+    setEditingMessage(null);
+    setReplyingTo(null);
+  };
+
+  const openHistory = async (message: Message) => {
+    setHistoryFor(message);
+    setHistory(message.edits || []);
+    setHistoryLoading(!message.edits);
+    try {
+      setHistory(await getEditHistory(message.id));
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
+  const scrollToMessage = (messageId: string) => {
+    document.getElementById(`message-${messageId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+  };
+
   const handleEmojiClick = (emoji: string) => {
     setNewMessage((prev) => prev + emoji);
     setShowEmojiPicker(false);
@@ -146,6 +247,9 @@ const ChatView = ({ conversation, currentUserId, onConversationUpdate }: ChatVie
         .eq("id", messageToDelete.id);
 
       if (error) throw error;
+      if (messageToDelete.attachments?.length) {
+        await removeAttachmentFiles(messageToDelete.attachments);
+      }
       toast({ title: "Message deleted" });
       refetch();
     } catch (error) {
@@ -164,6 +268,13 @@ const ChatView = ({ conversation, currentUserId, onConversationUpdate }: ChatVie
     return message.sender_id === currentUserId || isGroupAdmin;
   };
 
+  const messagesById = useMemo(() => new Map(messages.map((m) => [m.id, m])), [messages]);
+
+  const getUsername = (userId: string) => {
+    if (userId === currentUserId) return "You";
+    return conversation.participants.find((p) => p.user_id === userId)?.username || "Someone";
+  };
+
   const getDisplayName = () => {
     if (conversation.is_group && conversation.name) {
       return conversation.name;
@@ -254,16 +365,23 @@ const ChatView = ({ conversation, currentUserId, onConversationUpdate }: ChatVie
           </div>
         </button>
 
-        {conversation.is_group && (
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={() => setGroupManagementOpen(true)}
-            className="text-muted-foreground hover:text-foreground"
-          >
-            <Settings className="h-5 w-5" />
-          </Button>
-        )}
+        <div className="flex items-center">
+          <MuteConversationMenu
+            conversationId={conversation.id}
+            mutedUntil={conversation.participants.find((p) => p.user_id === currentUserId)?.muted_until}
+            onChange={onConversationUpdate}
+          />
+          {conversation.is_group && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setGroupManagementOpen(true)}
+              className="text-muted-foreground hover:text-foreground"
+            >
+              <Settings className="h-5 w-5" />
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Messages */}
@@ -287,6 +405,16 @@ const ChatView = ({ conversation, currentUserId, onConversationUpdate }: ChatVie
                 canDelete={canDeleteMessage(message)}
                 onDelete={() => setMessageToDelete(message)}
                 onUsernameClick={(userId) => navigate(`/profile/${userId}`)}
+                seenLabel={getSeenLabel(message.id)}
+                currentUserId={currentUserId}
+                replyTo={message.reply_to_id ? messagesById.get(message.reply_to_id) ?? null : undefined}
+                getUsername={getUsername}
+                onReply={() => startReply(message)}
+                onReact={(emoji) => toggleReaction(message.id, emoji, currentUserId)}
+                onEdit={message.sender_id === currentUserId ? () => startEdit(message) : undefined}
+                onShowHistory={() => openHistory(message)}
+                onQuoteClick={scrollToMessage}
+                onRetry={() => retryMessage(message.id)}
               />
             ))}
             <div ref={scrollRef} />
@@ -312,7 +440,42 @@ const ChatView = ({ conversation, currentUserId, onConversationUpdate }: ChatVie
 
       {/* Input */}
       <div className="p-4 border-t border-border">
+        {(replyingTo || editingMessage) && (
+          <div className="flex items-center gap-2 mb-2 px-3 py-2 rounded-lg bg-muted">
+            {editingMessage ? (
+              <Pencil className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+            ) : (
+              <Reply className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+            )}
+            <div className="flex-1 min-w-0">
+              <p className="text-xs text-muted-foreground">
+                {editingMessage
+                  ? "Editing message"
+                  : `Replying to ${replyingTo!.sender?.username || getUsername(replyingTo!.sender_id)}`}
+              </p>
+              <p className="text-sm text-foreground truncate">{(editingMessage || replyingTo)!.content}</p>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 text-muted-foreground flex-shrink-0"
+              onClick={cancelCompose}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        )}
+        <AttachmentDraftList
+          drafts={drafts}
+          onRemove={(id) => setDrafts((prev) => prev.filter((d) => d.id !== id))}
+        />
         <div className="flex items-center gap-2">
+          {!editingMessage && (
+            <AttachmentPicker
+              onAdd={(added) => setDrafts((prev) => [...prev, ...added])}
+              disabled={sending}
+            />
+          )}
           <Popover open={showEmojiPicker} onOpenChange={setShowEmojiPicker}>
             <PopoverTrigger asChild>
               <Button
@@ -344,13 +507,14 @@ const ChatView = ({ conversation, currentUserId, onConversationUpdate }: ChatVie
               handleTyping();
             }}
             onKeyPress={handleKeyPress}
-            placeholder="Type a message..."
+            onKeyDown={handleKeyDown}
+            placeholder={editingMessage ? "Edit your message..." : "Type a message..."}
             className="flex-1 bg-muted border-border"
             disabled={sending}
           />
           <Button
             onClick={handleSend}
-            disabled={!newMessage.trim() || sending}
+            disabled={(!newMessage.trim() && drafts.length === 0) || sending}
             size="icon"
             className="bg-primary hover:bg-primary/90"
           >
@@ -375,6 +539,48 @@ const ChatView = ({ conversation, currentUserId, onConversationUpdate }: ChatVie
         />
       )}
 
+      {/* Edit History */}
+      <Dialog open={!!historyFor} onOpenChange={(open) => !open && setHistoryFor(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Edit history</DialogTitle>
+          </DialogHeader>
+          {historyLoading ? (
+            <p className="text-sm text-muted-foreground">Loading history...</p>
+          ) : historyFor && (
+            <div className="space-y-3 max-h-80 overflow-y-auto">
+              {[
+                // Each earlier version was written when the one before it was replaced
+                ...history.map((edit, i) => ({
+                  id: edit.id,
+                  content: edit.previous_content,
+                  at: i === 0 ? historyFor.created_at : history[i - 1].edited_at,
+                  label: i === 0 ? "Original" : "Edited",
+                })),
+                {
+                  id: "current",
+                  content: historyFor.content,
+                  at: historyFor.edited_at || historyFor.created_at,
+                  label: "Current",
+                },
+              ]
+                .reverse()
+                .map((version) => (
+                  <div key={version.id} className="rounded-lg bg-muted px-3 py-2">
+                    <p className="text-xs text-muted-foreground mb-1">
+                      {version.label} · {formatDistanceToNow(new Date(version.at), { addSuffix: true })}
+                    </p>
+                    <p className="text-sm whitespace-pre-wrap break-words">{version.content}</p>
+                  </div>
+                ))}
+              {history.length === 0 && (
+                <p className="text-xs text-muted-foreground">Earlier versions aren't available offline.</p>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Message Confirmation */}
       <AlertDialog open={!!messageToDelete} onOpenChange={(open) => !open && setMessageToDelete(null)}>
         <AlertDialogContent>
@@ -406,13 +612,107 @@ interface MessageBubbleProps {
   canDelete: boolean;
   onDelete: () => void;
   onUsernameClick: (userId: string) => void;
+  seenLabel?: string;
+  currentUserId: string;
+  // undefined when the message isn't a reply; null when the original is gone
+  replyTo?: Message | null;
+  getUsername: (userId: string) => string;
+  onReply: () => void;
+  onReact: (emoji: string) => void;
+  onEdit?: () => void;
+  onShowHistory: () => void;
+  onQuoteClick: (messageId: string) => void;
+  onRetry: () => void;
 }
 
-const MessageBubble = ({ message, isOwn, showSender, canDelete, onDelete, onUsernameClick }: MessageBubbleProps) => {
+const MessageBubble = ({
+  message,
+  isOwn,
+  showSender,
+  canDelete,
+  onDelete,
+  onUsernameClick,
+  seenLabel,
+  currentUserId,
+  replyTo,
+  getUsername,
+  onReply,
+  onReact,
+  onEdit,
+  onShowHistory,
+  onQuoteClick,
+  onRetry,
+}: MessageBubbleProps) => {
   const [showActions, setShowActions] = useState(false);
+  const [reactionPickerOpen, setReactionPickerOpen] = useState(false);
+
+  // One chip per emoji, with who used it
+  const reactionGroups = Object.values(
+    (message.reactions || []).reduce<Record<string, { emoji: string; userIds: string[] }>>((groups, r) => {
+      (groups[r.emoji] ||= { emoji: r.emoji, userIds: [] }).userIds.push(r.user_id);
+      return groups;
+    }, {})
+  );
+
+  const actions = (showActions || reactionPickerOpen) && (
+    <div className={`flex items-center ${isOwn ? "flex-row-reverse" : ""}`}>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 text-muted-foreground hover:text-foreground"
+        onClick={onReply}
+      >
+        <Reply className="h-3 w-3" />
+      </Button>
+      <Popover open={reactionPickerOpen} onOpenChange={setReactionPickerOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-6 w-6 text-muted-foreground hover:text-foreground">
+            <SmilePlus className="h-3 w-3" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-1" side="top">
+          <div className="flex gap-1">
+            {REACTION_EMOJIS.map((emoji) => (
+              <button
+                key={emoji}
+                onClick={() => {
+                  onReact(emoji);
+                  setReactionPickerOpen(false);
+                }}
+                className="text-xl p-1 hover:bg-muted rounded transition-colors"
+              >
+                {emoji}
+              </button>
+            ))}
+          </div>
+        </PopoverContent>
+      </Popover>
+      {onEdit && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 text-muted-foreground hover:text-foreground"
+          onClick={onEdit}
+        >
+          <Pencil className="h-3 w-3" />
+        </Button>
+      )}
+      {canDelete && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 text-destructive hover:text-destructive hover:bg-destructive/10"
+          onClick={onDelete}
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  );
 
   return (
     <div 
+      id={`message-${message.id}`}
       className={`flex ${isOwn ? "justify-end" : "justify-start"}`}
       onMouseEnter={() => setShowActions(true)}
       onMouseLeave={() => setShowActions(false)}
@@ -440,16 +740,7 @@ const MessageBubble = ({ message, isOwn, showSender, canDelete, onDelete, onUser
           )}
           
           <div className="flex items-center gap-1">
-            {isOwn && showActions && canDelete && (
-              <Button
-                variant="ghost"
-                size="icon"
-                className="h-6 w-6 text-destructive hover:text-destructive hover:bg-destructive/10"
-                onClick={onDelete}
-              >
-                <Trash2 className="h-3 w-3" />
-              </Button>
-            )}
+            {isOwn && actions}
             
             <div
               className={`rounded-2xl px-4 py-2 ${
@@ -458,24 +749,97 @@ const MessageBubble = ({ message, isOwn, showSender, canDelete, onDelete, onUser
                   : "bg-muted text-foreground"
               }`}
             >
-              <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+              {replyTo !== undefined && (
+                <button
+                  onClick={() => replyTo && onQuoteClick(replyTo.id)}
+                  className={`block w-full text-left mb-1 border-l-2 pl-2 text-xs ${
+                    isOwn
+                      ? "border-primary-foreground/50 text-primary-foreground/80"
+                      : "border-primary/50 text-muted-foreground"
+                  }`}
+                >
+                  {replyTo ? (
+                    <>
+                      <span className="font-medium">
+                        {replyTo.sender?.username || getUsername(replyTo.sender_id)}
+                      </span>
+                      <span className="block truncate">{replyTo.content}</span>
+                    </>
+                  ) : (
+                    <span className="italic">Original message was deleted</span>
+                  )}
+                </button>
+              )}
+              {message.attachments && message.attachments.length > 0 && (
+                <MessageAttachments
+                  attachments={message.attachments}
+                  isOwn={isOwn}
+                  uploadProgress={message.uploadProgress}
+                />
+              )}
+              {message.content && (
+                <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+              )}
             </div>
 
-            {!isOwn && showActions && canDelete && (
-              <Button
-                variant="ghost"
-                size="icon"
-                className="h-6 w-6 text-destructive hover:text-destructive hover:bg-destructive/10"
-                onClick={onDelete}
-              >
-                <Trash2 className="h-3 w-3" />
-              </Button>
-            )}
+            {!isOwn && actions}
           </div>
+
+          {reactionGroups.length > 0 && (
+            <div className={`flex flex-wrap gap-1 mt-1 ${isOwn ? "justify-end" : ""}`}>
+              {reactionGroups.map((group) => (
+                <button
+                  key={group.emoji}
+                  onClick={() => onReact(group.emoji)}
+                  title={group.userIds.map(getUsername).join(", ")}
+                  className={`flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors ${
+                    group.userIds.includes(currentUserId)
+                      ? "border-primary/50 bg-primary/10"
+                      : "border-border bg-muted hover:bg-muted/80"
+                  }`}
+                >
+                  <span>{group.emoji}</span>
+                  <span className="text-muted-foreground">{group.userIds.length}</span>
+                </button>
+              ))}
+            </div>
+          )}
           
           <p className={`text-xs text-muted-foreground mt-1 ${isOwn ? "text-right" : ""}`}>
             {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
+            {message.edited_at && (
+              <>
+                {" · "}
+                <button onClick={onShowHistory} className="hover:underline">
+                  edited
+                </button>
+              </>
+            )}
           </p>
+
+          {isOwn && message.failed && (
+            <p className="text-xs text-destructive mt-0.5 flex items-center justify-end gap-1">
+              <AlertCircle className="h-3 w-3" />
+              Not sent ·
+              <button onClick={onRetry} className="font-medium hover:underline">
+                Retry
+              </button>
+            </p>
+          )}
+
+          {isOwn && message.pending && message.uploadProgress === undefined && (
+            <p className="text-xs text-muted-foreground mt-0.5 flex items-center justify-end gap-1">
+              <Clock className="h-3 w-3" />
+              Sending...
+            </p>
+          )}
+
+          {seenLabel && (
+            <p className="text-xs text-muted-foreground mt-0.5 flex items-center justify-end gap-1">
+              <CheckCheck className="h-3 w-3" />
+              {seenLabel}
+            </p>
+          )}
         </div>
       </div>
     </div>
@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { formatDistanceToNow } from "date-fns";
-import { Users, User, MessageCircle, Trash2, MoreVertical, BookOpen } from "lucide-react";
-import { Conversation } from "@/hooks/useConversations";
+import { Users, User, MessageCircle, Trash2, MoreVertical, BookOpen, BellOff } from "lucide-react";
+import { Conversation, isMuted } from "@/hooks/useConversations";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
@@ -148,6 +148,7 @@ const ConversationList = ({
                 created_at: new Date().toISOString(),
                 updated_at: new Date().toISOString(),
                 participants: [],
+                unreadCount: 0,
               })}
               className="flex-1 flex items-center gap-3 p-3 text-left"
             >
@@ -203,8 +204,13 @@ const ConversationList = ({
                   
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center justify-between gap-2">
-                      <span className="font-medium text-foreground truncate">
-                        {getDisplayName(conversation)}
+                      <span className="flex items-center gap-1 min-w-0">
+                        <span className="font-medium text-foreground truncate">
+                          {getDisplayName(conversation)}
+                        </span>
+                        {isMuted(conversation.participants.find((p) => p.user_id === currentUserId)?.muted_until) && (
+                          <BellOff className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+                        )}
                       </span>
                       {conversation.lastMessage && (
                         <span className="text-xs text-muted-foreground flex-shrink-0">
@@ -216,9 +222,22 @@ const ConversationList = ({
                     </div>
                     
                     {conversation.lastMessage && (
-                      <p className="text-sm text-muted-foreground truncate">
-                        {conversation.lastMessage.content}
-                      </p>
+                      <div className="flex items-center justify-between gap-2">
+                        <p
+                          className={`text-sm truncate ${
+                            conversation.unreadCount > 0
+                              ? "text-foreground font-medium"
+                              : "text-muted-foreground"
+                          }`}
+                        >
+                          {conversation.lastMessage.content}
+                        </p>
+                        {conversation.unreadCount > 0 && (
+                          <span className="flex-shrink-0 min-w-5 h-5 px-1.5 rounded-full bg-primary text-primary-foreground text-xs font-medium flex items-center justify-center">
+                            {conversation.unreadCount > 99 ? "99+" : conversation.unreadCount}
+                          </span>
+                        )}
+                      </div>
                     )}
                     
                     {conversation.is_group && (
@@ -0,0 +1,125 @@
+import { useState, useEffect } from "react";
+import { FileText, ImageIcon, Mic } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { formatFileSize, getAttachmentUrl, type MessageAttachment } from "@/lib/chatAttachments";
+
+interface MessageAttachmentsProps {
+  attachments: MessageAttachment[];
+  isOwn: boolean;
+  // 0 to 1 while the files are still uploading
+  uploadProgress?: number;
+}
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, "0")}`;
+
+// Resolves lazily so signed URLs are only requested for bubbles that render
+const useAttachmentUrl = (attachment: MessageAttachment, thumbnail = false) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [resolved, setResolved] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getAttachmentUrl(attachment, { thumbnail }).then((result) => {
+      if (cancelled) return;
+      setUrl(result);
+      setResolved(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment, thumbnail]);
+
+  return { url, unavailable: resolved && !url };
+};
+
+const openFull = async (attachment: MessageAttachment) => {
+  const url = await getAttachmentUrl(attachment);
+  if (url) window.open(url, "_blank", "noopener");
+};
+
+const ImageAttachment = ({ attachment }: { attachment: MessageAttachment }) => {
+  const { url, unavailable } = useAttachmentUrl(attachment, true);
+
+  if (!url) {
+    return (
+      <div className="flex items-center gap-2 h-24 w-40 justify-center rounded-lg bg-background/20 text-xs opacity-80">
+        <ImageIcon className="h-4 w-4" />
+        {unavailable ? "Photo unavailable offline" : "Loading..."}
+      </div>
+    );
+  }
+
+  return (
+    <button onClick={() => openFull(attachment)} className="block">
+      <img
+        src={url}
+        alt={attachment.name}
+        loading="lazy"
+        className="rounded-lg max-h-60 max-w-full object-cover"
+      />
+    </button>
+  );
+};
+
+const VoiceAttachment = ({ attachment }: { attachment: MessageAttachment }) => {
+  const { url, unavailable } = useAttachmentUrl(attachment);
+
+  return (
+    <div className="flex items-center gap-2">
+      <Mic className="h-4 w-4 flex-shrink-0" />
+      {url ? (
+        <audio controls preload="metadata" src={url} className="h-10 max-w-[240px]" />
+      ) : (
+        <span className="text-xs opacity-80">
+          {unavailable ? "Voice note unavailable offline" : "Loading..."}
+        </span>
+      )}
+      {attachment.duration ? (
+        <span className="text-xs opacity-80">{formatDuration(attachment.duration)}</span>
+      ) : null}
+    </div>
+  );
+};
+
+const FileAttachment = ({ attachment, isOwn }: { attachment: MessageAttachment; isOwn: boolean }) => (
+  <button
+    onClick={() => openFull(attachment)}
+    className={`flex items-center gap-2 w-full rounded-lg px-3 py-2 text-left transition-colors ${
+      isOwn ? "bg-primary-foreground/10 hover:bg-primary-foreground/20" : "bg-background/60 hover:bg-background"
+    }`}
+  >
+    <FileText className="h-5 w-5 flex-shrink-0" />
+    <span className="min-w-0">
+      <span className="block text-sm truncate">{attachment.name}</span>
+      <span className="block text-xs opacity-80">{formatFileSize(attachment.size)}</span>
+    </span>
+  </button>
+);
+
+const MessageAttachments = ({ attachments, isOwn, uploadProgress }: MessageAttachmentsProps) => {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="space-y-2 mb-1">
+      {attachments.map((attachment) =>
+        attachment.kind === "image" ? (
+          <ImageAttachment key={attachment.id} attachment={attachment} />
+        ) : attachment.kind === "voice" ? (
+          <VoiceAttachment key={attachment.id} attachment={attachment} />
+        ) : (
+          <FileAttachment key={attachment.id} attachment={attachment} isOwn={isOwn} />
+        )
+      )}
+
+      {uploadProgress !== undefined && (
+        <div className="flex items-center gap-2">
+          <Progress value={uploadProgress * 100} className="h-1.5 flex-1" />
+          <span className="text-xs opacity-80">{Math.round(uploadProgress * 100)}%</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MessageAttachments;
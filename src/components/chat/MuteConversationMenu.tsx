@@ -0,0 +1,115 @@
+import { useState, useEffect } from "react";
+import { Bell, BellOff } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { isMuted as isMutedNow } from "@/hooks/useConversations";
+
+interface MuteConversationMenuProps {
+  conversationId: string;
+  mutedUntil: string | null | undefined;
+  onChange?: () => void;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const MUTE_OPTIONS = [
+  { label: "For 1 hour", ms: HOUR_MS },
+  { label: "For 8 hours", ms: 8 * HOUR_MS },
+  { label: "For 1 week", ms: 7 * 24 * HOUR_MS },
+  { label: "Until I turn it back on", ms: null },
+];
+
+// Silence push notifications from one conversation. Only affects the current user.
+const MuteConversationMenu = ({ conversationId, mutedUntil: initialMutedUntil, onChange }: MuteConversationMenuProps) => {
+  // Kept locally: the open conversation isn't refreshed when the list refetches
+  const [mutedUntil, setMutedUntil] = useState(initialMutedUntil ?? null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const isMuted = isMutedNow(mutedUntil);
+
+  useEffect(() => {
+    setMutedUntil(initialMutedUntil ?? null);
+  }, [conversationId, initialMutedUntil]);
+
+  const setMuted = async (until: string | null) => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc("set_conversation_muted", {
+        _conversation_id: conversationId,
+        _muted_until: until,
+      });
+      if (error) throw error;
+      setMutedUntil(until);
+      toast({ title: until ? "Notifications muted" : "Notifications unmuted" });
+      onChange?.();
+    } catch (error) {
+      console.error("Error updating mute:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update notifications for this chat",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          disabled={saving || !navigator.onLine}
+          className="text-muted-foreground hover:text-foreground"
+          title={isMuted ? "Muted" : "Mute notifications"}
+        >
+          {isMuted ? <BellOff className="h-5 w-5" /> : <Bell className="h-5 w-5" />}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {isMuted ? (
+          <>
+            <DropdownMenuLabel className="font-normal text-xs text-muted-foreground">
+              {mutedUntil === "infinity"
+                ? "Muted until you turn it back on"
+                : `Muted until ${format(new Date(mutedUntil as string), "MMM d, h:mm a")}`}
+            </DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => setMuted(null)}>
+              <Bell className="h-4 w-4 mr-2" />
+              Unmute
+            </DropdownMenuItem>
+          </>
+        ) : (
+          <>
+            <DropdownMenuLabel>Mute notifications</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {MUTE_OPTIONS.map((option) => (
+              <DropdownMenuItem
+                key={option.label}
+                onClick={() =>
+                  setMuted(option.ms ? new Date(Date.now() + option.ms).toISOString() : "infinity")
+                }
+              >
+                {option.label}
+              </DropdownMenuItem>
+            ))}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default MuteConversationMenu;
@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { 
   Trophy, ChevronUp, ChevronDown, Crown, Medal, Award, WifiOff, User, 
-  Flame, Target, Gamepad2, TrendingUp, Sparkles
+  Flame, Target, Gamepad2, TrendingUp, Sparkles, Users
 } from "lucide-react";
 import { useLeaderboard, AggregatedScore } from "@/hooks/useBibleGames";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -112,10 +112,11 @@ const FloatingLeaderboard = ({ gameType: initialGameType, className, sessionScor
             {/* Filter Tabs */}
             <div className="px-3 pt-2">
               <Tabs value={selectedFilter} onValueChange={setSelectedFilter}>
-                <TabsList className="w-full grid grid-cols-3 h-8">
+                <TabsList className="w-full grid grid-cols-4 h-8">
                   <TabsTrigger value="all" className="text-xs">All</TabsTrigger>
                   <TabsTrigger value="trivia" className="text-xs">Trivia</TabsTrigger>
                   <TabsTrigger value="guess_character" className="text-xs">Character</TabsTrigger>
+                  <TabsTrigger value="multiplayer" className="text-xs">Rooms</TabsTrigger>
                 </TabsList>
               </Tabs>
             </div>
@@ -221,10 +222,17 @@ const FloatingLeaderboard = ({ gameType: initialGameType, className, sessionScor
                             <Gamepad2 className="w-3 h-3" />
                             {score.total_games_played} games
                           </span>
-                          <span className="text-[10px] text-orange-500 flex items-center gap-1">
-                            <Flame className="w-3 h-3" />
-                            {score.highest_streak}
-                          </span>
+                          {selectedFilter === "multiplayer" ? (
+                            <span className="text-[10px] text-primary flex items-center gap-1">
+                              <Users className="w-3 h-3" />
+                              {score.total_wins || 0} wins
+                            </span>
+                          ) : (
+                            <span className="text-[10px] text-orange-500 flex items-center gap-1">
+                              <Flame className="w-3 h-3" />
+                              {score.highest_streak}
+                            </span>
+                          )}
                         </div>
                         {/* Score Progress Bar */}
                         <div className="mt-1.5">
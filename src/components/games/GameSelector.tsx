@@ -1,6 +1,7 @@
 import { BookOpen, User, PenTool, Brain, Calendar, Users, ScrollText, Landmark, Route, ShieldCheck, MapPin } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
+import { useVerseReviews } from "@/hooks/useVerseReviews";
 
 type GameType =
   | 'trivia'
@@ -111,6 +112,8 @@ interface GameSelectorProps {
 }
 
 const GameSelector = ({ onSelectGame, selectedGame }: GameSelectorProps) => {
+  const { dueCount } = useVerseReviews();
+
   return (
     <div className="grid grid-cols-2 gap-3">
       {games.map((game) => (
@@ -131,6 +134,14 @@ const GameSelector = ({ onSelectGame, selectedGame }: GameSelectorProps) => {
             "absolute inset-0 bg-gradient-to-br opacity-50",
             game.color
           )} />
+          {game.id === 'memory_verse' && dueCount > 0 && (
+            <span
+              className="absolute top-2 right-2 z-10 min-w-5 h-5 px-1.5 rounded-full bg-primary text-primary-foreground text-xs font-semibold flex items-center justify-center"
+              title={`${dueCount} verse${dueCount === 1 ? '' : 's'} due for review`}
+            >
+              {dueCount}
+            </span>
+          )}
           <CardContent className={cn(
             "relative p-4 flex flex-col items-center text-center",
             game.featured && "flex-row gap-4 text-left"
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from "react";
-import { CheckCircle, XCircle, Loader2, Brain, Zap, RotateCcw, Trophy, Sparkles, Eye, EyeOff, Shuffle } from "lucide-react";
+import { CheckCircle, XCircle, Loader2, Brain, Zap, RotateCcw, Trophy, Sparkles, Eye, EyeOff, Shuffle, CalendarClock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
@@ -9,6 +9,16 @@ import { useAnsweredQuestions } from "@/hooks/useAnsweredQuestions";
 import { cn } from "@/lib/utils";
 import { toast } from "@/hooks/use-toast";
 import { useAchievements } from "@/hooks/useAchievements";
+import { useVerseReviews } from "@/hooks/useVerseReviews";
+import { getRecallStage, gradeAttempt, toFirstLetters, type RecallStage } from "@/lib/spacedRepetition";
+
+type MemoryMode = 'practice' | 'review';
+
+const STAGE_LABELS: Record<RecallStage, string> = {
+  full: "Full verse",
+  initials: "First letters",
+  blank: "From memory",
+};
 
 interface MemoryVerseProps {
   onGameEnd?: (score: number, streak: number) => void;
@@ -19,6 +29,7 @@ const MemoryVerse = ({ onGameEnd }: MemoryVerseProps) => {
   const { recordGamePlayed } = useAchievements();
   const { generateQuestions, isGenerating, shouldGenerate } = useQuestionGenerator();
   const { answeredIds, answeredCount, markAsAnswered, getUnansweredFirst, loading: answeredLoading } = useAnsweredQuestions('memory_verse');
+  const { dueReviews, getReview, recordReview } = useVerseReviews();
   
   const [currentIndex, setCurrentIndex] = useState(0);
   const [phase, setPhase] = useState<'memorize' | 'arrange' | 'result'>('memorize');
@@ -32,14 +43,20 @@ const MemoryVerse = ({ onGameEnd }: MemoryVerseProps) => {
   const [gameEnded, setGameEnded] = useState(false);
   const [shuffledGames, setShuffledGames] = useState<BibleGame[]>([]);
   const [memorizeTime, setMemorizeTime] = useState(15);
+  const [mode, setMode] = useState<MemoryMode>('practice');
+  const [peeked, setPeeked] = useState(false);
 
   // Prioritize unanswered questions
   useEffect(() => {
-    if (games.length > 0 && !answeredLoading) {
+    if (mode === 'practice' && games.length > 0 && !answeredLoading) {
       const prioritized = getUnansweredFirst(games);
       setShuffledGames(prioritized);
     }
-  }, [games, answeredLoading, getUnansweredFirst]);
+  }, [mode, games, answeredLoading, getUnansweredFirst]);
+
+  const dueGames = dueReviews
+    .map(r => games.find(g => g.id === r.question_id))
+    .filter((g): g is BibleGame => !!g);
 
   // Load local progress
   useEffect(() => {
@@ -53,6 +70,10 @@ const MemoryVerse = ({ onGameEnd }: MemoryVerseProps) => {
   }, [getLocalProgress]);
 
   const currentGame = shuffledGames[currentIndex];
+  // Reviews fade the prompt as a verse sticks; practice always shows it in full
+  const stage: RecallStage = mode === 'review' && currentGame
+    ? getRecallStage(getReview(currentGame.id)?.repetitions)
+    : 'full';
   const progress = shuffledGames.length > 0 ? ((currentIndex + 1) / shuffledGames.length) * 100 : 0;
 
   // Countdown timer for memorization phase
@@ -105,8 +126,9 @@ const MemoryVerse = ({ onGameEnd }: MemoryVerseProps) => {
     setIsCorrect(correct);
     setPhase('result');
     
-    // Track this question as answered
+    // Track this question as answered and reschedule its next review
     await markAsAnswered(currentGame.id, correct);
+    await recordReview(currentGame.id, gradeAttempt(correct, peeked ? 'full' : stage));
     
     if (correct) {
       // Award bonus points based on remaining time
@@ -163,19 +185,22 @@ const MemoryVerse = ({ onGameEnd }: MemoryVerseProps) => {
       setPhase('memorize');
       setShowVerse(true);
       setMemorizeTime(15);
+      setPeeked(false);
       setSelectedWords([]);
       setAvailableWords([]);
       setIsCorrect(false);
     }
   }, [currentIndex, shuffledGames.length, score, highestStreak, streak, syncScore, saveLocalProgress, onGameEnd, isOnline, shouldGenerate, generateQuestions, refetch]);
 
-  const handleRestart = () => {
-    const prioritized = getUnansweredFirst(games);
-    setShuffledGames(prioritized);
+  // The review queue is snapshotted per session so rescheduling doesn't reshuffle it mid-game
+  const startSession = (nextMode: MemoryMode) => {
+    setMode(nextMode);
+    setShuffledGames(nextMode === 'review' ? dueGames : getUnansweredFirst(games));
     setCurrentIndex(0);
     setPhase('memorize');
     setShowVerse(true);
     setMemorizeTime(15);
+    setPeeked(false);
     setSelectedWords([]);
     setAvailableWords([]);
     setScore(0);
@@ -184,6 +209,36 @@ const MemoryVerse = ({ onGameEnd }: MemoryVerseProps) => {
     setIsCorrect(false);
   };
 
+  const handleRestart = () => startSession(mode);
+
+  const modeSwitcher = (
+    <div className="flex rounded-lg border border-border overflow-hidden">
+      <Button
+        size="sm"
+        variant={mode === 'practice' ? "secondary" : "ghost"}
+        className="flex-1 rounded-none gap-1"
+        onClick={() => mode !== 'practice' && startSession('practice')}
+      >
+        <Brain className="w-4 h-4" />
+        Practice
+      </Button>
+      <Button
+        size="sm"
+        variant={mode === 'review' ? "secondary" : "ghost"}
+        className="flex-1 rounded-none gap-1"
+        onClick={() => mode !== 'review' && startSession('review')}
+      >
+        <CalendarClock className="w-4 h-4" />
+        Due today
+        {dueGames.length > 0 && (
+          <span className="ml-1 px-1.5 rounded-full bg-primary text-primary-foreground text-xs">
+            {dueGames.length}
+          </span>
+        )}
+      </Button>
+    </div>
+  );
+
   if (loading || answeredLoading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -192,6 +247,23 @@ const MemoryVerse = ({ onGameEnd }: MemoryVerseProps) => {
     );
   }
 
+  if (mode === 'review' && shuffledGames.length === 0) {
+    return (
+      <div className="space-y-4">
+        {modeSwitcher}
+        <Card className="bg-card border-border">
+          <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+            <CalendarClock className="w-12 h-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">All caught up</h3>
+            <p className="text-muted-foreground">
+              No verses are due for review today. Practice new verses to add them to your schedule.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   if (shuffledGames.length === 0) {
     return (
       <Card className="bg-card border-border">
@@ -211,7 +283,7 @@ const MemoryVerse = ({ onGameEnd }: MemoryVerseProps) => {
       <Card className="bg-card border-border">
         <CardContent className="flex flex-col items-center justify-center py-12 text-center">
           <Trophy className="w-16 h-16 text-primary mb-4 animate-bounce" />
-          <h2 className="text-2xl font-bold mb-2">Game Complete! 🎉</h2>
+          <h2 className="text-2xl font-bold mb-2">{mode === 'review' ? "Review Complete! 🎉" : "Game Complete! 🎉"}</h2>
           <div className="space-y-2 mb-6">
             <p className="text-xl">
               Final Score: <span className="font-bold text-primary">{score}</span> points
@@ -241,8 +313,16 @@ const MemoryVerse = ({ onGameEnd }: MemoryVerseProps) => {
     );
   }
 
+  const prompt = stage === 'full' || peeked
+    ? currentGame.correct_answer
+    : stage === 'initials'
+      ? toFirstLetters(currentGame.correct_answer)
+      : null;
+
   return (
     <div className="space-y-4">
+      {modeSwitcher}
+
       {/* Progress Bar */}
       <div className="space-y-2">
         <div className="flex justify-between text-sm">
@@ -272,6 +352,11 @@ const MemoryVerse = ({ onGameEnd }: MemoryVerseProps) => {
             )}>
               {currentGame.difficulty}
             </span>
+            {mode === 'review' && (
+              <span className="px-2 py-1 rounded-full text-xs font-medium bg-primary/10 text-primary">
+                {STAGE_LABELS[stage]}
+              </span>
+            )}
             <span className="text-xs text-muted-foreground">
               +{currentGame.points} pts
             </span>
@@ -290,10 +375,18 @@ const MemoryVerse = ({ onGameEnd }: MemoryVerseProps) => {
           {phase === 'memorize' && (
             <>
               <div className="relative">
-                {showVerse ? (
+                {showVerse && prompt === null ? (
+                  <div className="p-4 bg-muted/50 border border-dashed border-border rounded-lg text-center">
+                    <Brain className="w-8 h-8 mx-auto text-muted-foreground mb-2" />
+                    <p className="text-muted-foreground">Recite it from the reference, then arrange.</p>
+                  </div>
+                ) : showVerse ? (
                   <div className="p-4 bg-primary/5 border border-primary/20 rounded-lg">
-                    <p className="text-lg leading-relaxed text-center italic">
-                      "{currentGame.correct_answer}"
+                    <p className={cn(
+                      "text-lg leading-relaxed text-center italic",
+                      prompt !== currentGame.correct_answer && "tracking-widest not-italic font-mono"
+                    )}>
+                      "{prompt}"
                     </p>
                   </div>
                 ) : (
@@ -305,15 +398,27 @@ const MemoryVerse = ({ onGameEnd }: MemoryVerseProps) => {
               </div>
 
               <div className="flex items-center justify-between">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setShowVerse(!showVerse)}
-                  className="gap-2"
-                >
-                  {showVerse ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                  {showVerse ? "Hide" : "Show"}
-                </Button>
+                {stage !== 'full' && !peeked ? (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => { setPeeked(true); setShowVerse(true); }}
+                    className="gap-2"
+                  >
+                    <Eye className="w-4 h-4" />
+                    Peek
+                  </Button>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowVerse(!showVerse)}
+                    className="gap-2"
+                  >
+                    {showVerse ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                    {showVerse ? "Hide" : "Show"}
+                  </Button>
+                )}
                 <span className={cn(
                   "text-sm font-medium",
                   memorizeTime <= 5 && "text-red-500 animate-pulse"
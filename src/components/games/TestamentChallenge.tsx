@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { useBibleGames, BibleGame } from "@/hooks/useBibleGames";
 import { cn } from "@/lib/utils";
 import { toast } from "@/hooks/use-toast";
+import { useAnsweredQuestions } from "@/hooks/useAnsweredQuestions";
 import { useAchievements } from "@/hooks/useAchievements";
 
 interface TestamentChallengeProps {
@@ -101,6 +102,7 @@ const TestamentChallenge = ({
 }: TestamentChallengeProps) => {
   const { games, loading, isOnline, syncScore, getLocalProgress, saveLocalProgress } = useBibleGames();
   const { recordGamePlayed } = useAchievements();
+  const { markAsAnswered } = useAnsweredQuestions();
 
   const [currentIndex, setCurrentIndex] = useState(0);
   const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
@@ -137,6 +139,7 @@ const TestamentChallenge = ({
     setSelectedAnswer(answer);
     setIsAnswered(true);
     const isCorrect = answer === currentGame.correct_answer;
+    void markAsAnswered(currentGame.id, isCorrect);
 
     if (isCorrect) {
       setScore((prev) => prev + currentGame.points);
@@ -0,0 +1,89 @@
+import { useState, useEffect } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface ArrangeVerseInputProps {
+  words: string[];
+  disabled: boolean;
+  onSubmit: (answer: string) => void;
+}
+
+// Memory verse rounds: tap the shuffled words back into order
+const ArrangeVerseInput = ({ words, disabled, onSubmit }: ArrangeVerseInputProps) => {
+  const [selectedWords, setSelectedWords] = useState<string[]>([]);
+  const [availableWords, setAvailableWords] = useState<string[]>(words);
+
+  useEffect(() => {
+    setSelectedWords([]);
+    setAvailableWords(words);
+  }, [words]);
+
+  const handleSelectWord = (word: string, index: number) => {
+    if (disabled) return;
+    setSelectedWords(prev => [...prev, word]);
+    setAvailableWords(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleUnselectWord = (word: string, index: number) => {
+    if (disabled) return;
+    setAvailableWords(prev => [...prev, word]);
+    setSelectedWords(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleReset = () => {
+    setSelectedWords([]);
+    setAvailableWords(words);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="min-h-[80px] p-3 bg-primary/5 border-2 border-dashed border-primary/30 rounded-xl flex flex-wrap gap-2">
+        {selectedWords.map((word, index) => (
+          <button
+            key={`selected-${index}`}
+            onClick={() => handleUnselectWord(word, index)}
+            disabled={disabled}
+            className="px-3 py-1.5 bg-primary text-primary-foreground rounded-full text-sm font-medium hover:bg-primary/80 transition-colors"
+          >
+            {word}
+          </button>
+        ))}
+        {selectedWords.length === 0 && (
+          <span className="text-muted-foreground text-sm italic">
+            Tap words below to arrange them...
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {availableWords.map((word, index) => (
+          <button
+            key={`available-${index}`}
+            onClick={() => handleSelectWord(word, index)}
+            disabled={disabled}
+            className="px-3 py-1.5 bg-secondary text-secondary-foreground rounded-full text-sm font-medium hover:bg-secondary/80 transition-colors"
+          >
+            {word}
+          </button>
+        ))}
+      </div>
+
+      {!disabled && (
+        <div className="flex gap-2">
+          <Button variant="outline" size="icon" onClick={handleReset} disabled={selectedWords.length === 0}>
+            <RotateCcw className="w-4 h-4" />
+          </Button>
+          <Button
+            className="flex-1"
+            onClick={() => onSubmit(selectedWords.join(' '))}
+            disabled={availableWords.length > 0}
+          >
+            Submit Verse
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ArrangeVerseInput;
@@ -0,0 +1,39 @@
+import { Eye, Lock } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { cluePoints } from '@/lib/multiplayerGames';
+
+interface ClueRevealProps {
+  clues: string[];
+  totalClues: number;
+  basePoints: number;
+}
+
+// Guess-the-character rounds: the host reveals a clue every few seconds and
+// answers are worth more the fewer clues are out
+const ClueReveal = ({ clues, totalClues, basePoints }: ClueRevealProps) => (
+  <div className="space-y-2">
+    {clues.map((clue, index) => (
+      <div
+        key={index}
+        className={cn(
+          "p-3 rounded-lg border bg-primary/5 border-primary/20 text-sm animate-fade-in",
+          index === clues.length - 1 && "border-primary/50"
+        )}
+      >
+        {clue}
+      </div>
+    ))}
+    {Array.from({ length: Math.max(0, totalClues - clues.length) }).map((_, index) => (
+      <div key={`locked-${index}`} className="p-3 rounded-lg border border-dashed border-border text-sm text-muted-foreground flex items-center gap-2">
+        <Lock className="w-3 h-3" />
+        Clue {clues.length + index + 1} coming soon...
+      </div>
+    ))}
+    <p className="text-xs text-muted-foreground flex items-center gap-1">
+      <Eye className="w-3 h-3" />
+      {clues.length} of {totalClues} clues · answer now for {cluePoints(basePoints, totalClues, clues.length)} pts
+    </p>
+  </div>
+);
+
+export default ClueReveal;
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Plus, Users, Swords, HandHeart, BookOpen, User, Gamepad2, PenTool, Brain, Calendar } from 'lucide-react';
+import { Plus, Users, Loader2, Swords, HandHeart, Flag, BookOpen, User, Gamepad2, PenTool, Brain, Calendar, Route, MapPin, ShieldCheck, ScrollText, Landmark } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -12,29 +12,40 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Slider } from '@/components/ui/slider';
-import { GameMode } from '@/lib/localNetwork';
+import { Switch } from '@/components/ui/switch';
+import { GameMode, RoomGameType, RoomRules } from '@/lib/localNetwork';
+import { DEFAULT_RULES } from '@/lib/roomRules';
 import { cn } from '@/lib/utils';
+import RoundRulesEditor from './RoundRulesEditor';
 
 interface CreateRoomDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onCreate: (
-    gameType: 'trivia' | 'guess_character' | 'fill_blank' | 'memory_verse' | 'daily_challenge' | 'all',
+    gameType: RoomGameType,
     gameMode: GameMode,
     gameName: string,
-    maxPlayers: number
-  ) => string | null;
+    maxPlayers: number,
+    offline: boolean,
+    rules: RoomRules
+  ) => Promise<string | null>;
 }
 
 const CreateRoomDialog = ({ open, onOpenChange, onCreate }: CreateRoomDialogProps) => {
   const [gameName, setGameName] = useState('');
-  const [gameType, setGameType] = useState<'trivia' | 'guess_character' | 'fill_blank' | 'memory_verse' | 'daily_challenge' | 'all'>('all');
+  const [gameType, setGameType] = useState<RoomGameType>('all');
   const [gameMode, setGameMode] = useState<GameMode>('competitive');
   const [maxPlayers, setMaxPlayers] = useState(4);
+  const [offline, setOffline] = useState(false);
+  const [rules, setRules] = useState<RoomRules>(DEFAULT_RULES);
+  const [isCreating, setIsCreating] = useState(false);
 
-  const handleCreate = () => {
+  const handleCreate = async () => {
     const name = gameName.trim() || 'Bible Games';
-    const roomCode = onCreate(gameType, gameMode, name, maxPlayers);
+    setIsCreating(true);
+    const roomRules = gameMode === 'cooperative' ? { ...rules, suddenDeath: false } : rules;
+    const roomCode = await onCreate(gameType, gameMode, name, maxPlayers, offline, roomRules);
+    setIsCreating(false);
     if (roomCode) {
       onOpenChange(false);
       setGameName('');
@@ -43,7 +54,7 @@ const CreateRoomDialog = ({ open, onOpenChange, onCreate }: CreateRoomDialogProp
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Plus className="w-5 h-5 text-primary" />
@@ -76,11 +87,16 @@ const CreateRoomDialog = ({ open, onOpenChange, onCreate }: CreateRoomDialogProp
                 { id: 'guess_character', label: 'Characters', icon: User },
                 { id: 'fill_blank', label: 'Fill Blank', icon: PenTool },
                 { id: 'memory_verse', label: 'Memory Verses', icon: Brain },
-                { id: 'daily_challenge', label: 'Daily', icon: Calendar }
+                { id: 'daily_challenge', label: 'Daily', icon: Calendar },
+                { id: 'choose_path', label: 'Your Path', icon: Route },
+                { id: 'journey_jerusalem', label: 'Journey', icon: MapPin },
+                { id: 'character_missions', label: 'Missions', icon: ShieldCheck },
+                { id: 'old_testament', label: 'Old Testament', icon: ScrollText },
+                { id: 'new_testament', label: 'New Testament', icon: Landmark }
               ].map((type) => (
                 <button
                   key={type.id}
-                  onClick={() => setGameType(type.id as any)}
+                  onClick={() => setGameType(type.id as RoomGameType)}
                   className={cn(
                     "flex flex-col items-center p-3 rounded-lg border-2 transition-all",
                     gameType === type.id
@@ -139,6 +155,24 @@ const CreateRoomDialog = ({ open, onOpenChange, onCreate }: CreateRoomDialogProp
                     <p className="text-xs text-muted-foreground">Work as a team</p>
                   </div>
                 </label>
+                <label
+                  className={cn(
+                    "col-span-2 flex items-center gap-3 p-3 rounded-lg border-2 cursor-pointer transition-all",
+                    gameMode === 'teams'
+                      ? "border-primary bg-primary/10"
+                      : "border-border hover:border-primary/50"
+                  )}
+                >
+                  <RadioGroupItem value="teams" className="sr-only" />
+                  <Flag className={cn(
+                    "w-5 h-5",
+                    gameMode === 'teams' ? "text-primary" : "text-muted-foreground"
+                  )} />
+                  <div>
+                    <p className="font-medium text-sm">Teams</p>
+                    <p className="text-xs text-muted-foreground">Split into sides and add up your points</p>
+                  </div>
+                </label>
               </div>
             </RadioGroup>
           </div>
@@ -163,8 +197,27 @@ const CreateRoomDialog = ({ open, onOpenChange, onCreate }: CreateRoomDialogProp
             </div>
           </div>
 
-          <Button onClick={handleCreate} className="w-full gap-2">
-            <Users className="w-4 h-4" />
+          {/* Round Rules */}
+          <div className="space-y-3">
+            <Label>Round Rules</Label>
+            <RoundRulesEditor
+              rules={rules}
+              onChange={setRules}
+              allowSuddenDeath={gameMode !== 'cooperative'}
+            />
+          </div>
+
+          {/* No internet: pair each guest by QR code instead */}
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <Label htmlFor="offline">No internet</Label>
+              <p className="text-xs text-muted-foreground">Pair players by QR code over the same Wi-Fi</p>
+            </div>
+            <Switch id="offline" checked={offline} onCheckedChange={setOffline} />
+          </div>
+
+          <Button onClick={handleCreate} disabled={isCreating} className="w-full gap-2">
+            {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Users className="w-4 h-4" />}
             Create Room
           </Button>
         </div>
@@ -1,6 +1,7 @@
 import { useState, useMemo } from 'react';
 import { MessageSquare, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import LocalChat from './LocalChat';
 import { cn } from '@/lib/utils';
 
@@ -8,10 +9,21 @@ interface FloatingChatProps {
   messages: any[];
   localId: string;
   onSendMessage: (text: string) => void;
+  // Set in 'teams' games to offer a teammates-only channel
+  teamName?: string;
+  onSendTeamMessage?: (text: string) => void;
 }
 
-const FloatingChat = ({ messages, localId, onSendMessage }: FloatingChatProps) => {
+const FloatingChat = ({ messages, localId, onSendMessage, teamName, onSendTeamMessage }: FloatingChatProps) => {
   const [open, setOpen] = useState(false);
+  const [channel, setChannel] = useState<'all' | 'team'>('all');
+
+  const hasTeamChat = !!teamName && !!onSendTeamMessage;
+  const teamOnly = hasTeamChat && channel === 'team';
+  const visibleMessages = useMemo(
+    () => (teamOnly ? messages.filter(m => m.payload?.teamId) : messages),
+    [messages, teamOnly]
+  );
 
   const unread = useMemo(() => messages.filter(m => m.type === 'chat').length, [messages]);
 
@@ -23,8 +35,22 @@ const FloatingChat = ({ messages, localId, onSendMessage }: FloatingChatProps) =
         open ? 'translate-y-0' : 'translate-y-0'
       )}>
         {open && (
-          <div className="w-[320px] max-w-[90vw] mb-3">
-            <LocalChat messages={messages} localId={localId} onSendMessage={onSendMessage} />
+          <div className="w-[320px] max-w-[90vw] mb-3 space-y-2">
+            {hasTeamChat && (
+              <Tabs value={channel} onValueChange={(v) => setChannel(v as 'all' | 'team')}>
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="all">Everyone</TabsTrigger>
+                  <TabsTrigger value="team" className="truncate">{teamName}</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            )}
+            <LocalChat
+              messages={visibleMessages}
+              localId={localId}
+              onSendMessage={teamOnly ? onSendTeamMessage : onSendMessage}
+              title={teamOnly ? `${teamName} Chat` : undefined}
+              placeholder={teamOnly ? 'Message your team...' : undefined}
+            />
           </div>
         )}
 
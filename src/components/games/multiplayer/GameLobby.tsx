@@ -1,13 +1,19 @@
 import { useState, useEffect } from 'react';
-import { Copy, Users, Crown, Wifi, Bluetooth, Play, LogOut, Loader2 } from 'lucide-react';
+import { Copy, Users, Crown, Wifi, Bluetooth, Play, LogOut, Loader2, Monitor, ListChecks } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { GameRoom, LocalPeer, GameMode } from '@/lib/localNetwork';
+import { GameRoom, LocalPeer, GameMode, getActivePlayers } from '@/lib/localNetwork';
 import { toast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
+import TeamSetup from './TeamSetup';
+import ManualPairingPanel from './ManualPairingPanel';
+import RoomInvitePanel from './RoomInvitePanel';
+import { ManualSignaling } from '@/lib/manualSignaling';
+import { createRoomInvite } from '@/lib/roomInvites';
+import { describeRules, getRules } from '@/lib/roomRules';
 
 interface GameLobbyProps {
   room: GameRoom | null;
@@ -18,6 +24,8 @@ interface GameLobbyProps {
   onStartGame: () => void;
   onLeaveRoom: () => void;
   onUpdateRoomSettings?: (settings: Partial<GameRoom>) => void;
+  // Set when the room pairs guests by QR code instead of Supabase Realtime
+  manualSignaling?: ManualSignaling | null;
 }
 
 const GameLobby = ({
@@ -28,7 +36,8 @@ const GameLobby = ({
   connectionStatus,
   onStartGame,
   onLeaveRoom,
-  onUpdateRoomSettings
+  onUpdateRoomSettings,
+  manualSignaling
 }: GameLobbyProps) => {
   const [questionsCount, setQuestionsCount] = useState<number>(room?.questionsPerRound || 10);
   // Keep local input in sync when room settings change
@@ -40,13 +49,36 @@ const GameLobby = ({
       navigator.clipboard.writeText(room.id);
       toast({
         title: "Code Copied! 📋",
-        description: "Share this code with friends to join"
+        description: "Friends also need an invite to join"
       });
     }
   };
 
-  const allPlayers = room?.currentPlayers || [];
-  const canStart = allPlayers.length >= 2;
+  // The big screen gets its own watch-only invite, good for the whole day
+  const copyProjectorLink = async () => {
+    if (!room?.id) return;
+    const invite = await createRoomInvite(room.id, { role: 'spectator', ttlMinutes: 24 * 60 });
+    if (!invite) {
+      toast({
+        title: "Couldn't Create Link",
+        description: "Check your connection and try again",
+        variant: "destructive"
+      });
+      return;
+    }
+    navigator.clipboard.writeText(invite.url);
+    toast({
+      title: "Link Copied! 🖥️",
+      description: "Open it on the big screen to follow the game"
+    });
+  };
+
+  const allPlayers = getActivePlayers(room);
+  const spectators = (room?.currentPlayers || []).filter(p => p.isSpectator);
+  const isTeams = room?.gameMode === 'teams';
+  // Teams games need players on at least two sides
+  const sidesFilled = !isTeams || (room?.teams || []).filter(t => allPlayers.some(p => p.teamId === t.id)).length >= 2;
+  const canStart = allPlayers.length >= 2 && sidesFilled;
 
   return (
     <Card className="bg-card border-border">
@@ -58,13 +90,13 @@ const GameLobby = ({
           </CardTitle>
           {room && (
             <Badge variant="outline" className="text-primary border-primary">
-              {room.gameMode === 'competitive' ? '⚔️ Competitive' : '🤝 Cooperative'}
+              {room.gameMode === 'competitive' ? '⚔️ Competitive' : room.gameMode === 'teams' ? '🚩 Teams' : '🤝 Cooperative'}
             </Badge>
           )}
         </div>
       </CardHeader>
       <CardContent className="space-y-6">
-        {/* Room Code and Passcode */}
+        {/* Room Code */}
         {room && (
           <div className="space-y-3">
             <div className="text-center p-4 bg-primary/10 rounded-xl border-2 border-dashed border-primary/30">
@@ -78,17 +110,7 @@ const GameLobby = ({
                 </Button>
               </div>
               <p className="text-xs text-muted-foreground mt-2">
-                Share this code with friends to join
-              </p>
-            </div>
-            
-            <div className="text-center p-3 bg-amber-500/10 rounded-lg border border-amber-500/30">
-              <p className="text-xs text-muted-foreground mb-1">Passcode</p>
-              <p className="text-2xl font-mono font-bold tracking-widest text-amber-600">
-                {room.passcode}
-              </p>
-              <p className="text-xs text-muted-foreground mt-1">
-                Share with guests for secure access
+                {room.passcode ? "Players join by scanning the host's QR code" : 'Players join with an invite from the host'}
               </p>
             </div>
           </div>
@@ -102,6 +124,21 @@ const GameLobby = ({
           </div>
         )}
 
+        {/* Round rules, so guests know them before the game starts */}
+        {room && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium flex items-center gap-2">
+              <ListChecks className="w-4 h-4 text-primary" />
+              Round Rules
+            </h4>
+            <div className="flex flex-wrap gap-1">
+              {describeRules(getRules(room)).map(line => (
+                <Badge key={line} variant="secondary" className="text-xs font-normal">{line}</Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Players List */}
         <div className="space-y-3">
           <div className="flex items-center justify-between">
@@ -134,6 +171,9 @@ const GameLobby = ({
                     {player.isHost && (
                       <Crown className="w-4 h-4 text-amber-500" />
                     )}
+                    {player.away && (
+                      <span className="text-xs text-muted-foreground">reconnecting…</span>
+                    )}
                   </div>
                   <div className="flex items-center gap-1 text-xs text-muted-foreground">
                     {player.connectionMethod === 'wifi' ? (
@@ -151,6 +191,13 @@ const GameLobby = ({
             ))}
           </div>
 
+          {spectators.length > 0 && (
+            <p className="text-xs text-muted-foreground flex items-center gap-1">
+              <Monitor className="w-3 h-3" />
+              Watching: {spectators.map(p => p.name).join(', ')}
+            </p>
+          )}
+
           {/* Waiting for players */}
           {allPlayers.length < 2 && (
             <div className="text-center py-4">
@@ -162,6 +209,38 @@ const GameLobby = ({
           )}
         </div>
 
+        {/* Teams */}
+        {room && isTeams && (
+          <TeamSetup
+            room={room}
+            isHost={isHost}
+            localId={localId}
+            onUpdateRoomSettings={onUpdateRoomSettings}
+          />
+        )}
+
+        {room && isHost && manualSignaling && (
+          <ManualPairingPanel room={room} signaling={manualSignaling} />
+        )}
+
+        {room && isHost && !manualSignaling && (
+          <RoomInvitePanel room={room} />
+        )}
+
+        {/* Big screen */}
+        {room && isHost && !manualSignaling && (
+          <div className="space-y-3 p-3 rounded-lg border border-border">
+            <div>
+              <p className="text-sm font-medium">Big screen</p>
+              <p className="text-xs text-muted-foreground">Spectators watch but don't answer or take a seat</p>
+            </div>
+            <Button variant="outline" size="sm" onClick={copyProjectorLink} className="w-full gap-2">
+              <Monitor className="w-4 h-4" />
+              Copy big screen link
+            </Button>
+          </div>
+        )}
+
         {/* Actions - responsive: stack on small screens, inline on larger */}
         <div className="flex flex-col gap-2">
           <Button
@@ -200,11 +279,11 @@ const GameLobby = ({
 
             <Button
               onClick={onStartGame}
-              disabled={!canStart}
+              disabled={!canStart || !isHost}
               className="w-full py-3 sm:flex-1 flex items-center justify-center gap-2"
             >
               <Play className="w-4 h-4" />
-              {isHost ? 'Start Game' : 'Request Start'}
+              {isHost ? 'Start Game' : 'Waiting for Host'}
             </Button>
           </div>
         </div>
@@ -214,6 +293,12 @@ const GameLobby = ({
             Need at least 2 players to start
           </p>
         )}
+
+        {!canStart && allPlayers.length >= 2 && !sidesFilled && (
+          <p className="text-xs text-center text-muted-foreground">
+            Put players on at least 2 teams to start
+          </p>
+        )}
       </CardContent>
     </Card>
   );
@@ -1,5 +1,6 @@
-import { useState } from 'react';
-import { Gamepad2, Loader2 } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Gamepad2, Loader2, Monitor, QrCode } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -10,29 +11,57 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import PairingQrCode from './PairingQrCode';
+import PairingScanner from './PairingScanner';
+import { parseInviteInput, readInvite } from '@/lib/roomInvites';
 
 interface JoinRoomDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onJoin: (roomCode: string, passcode: string) => Promise<boolean>;
+  onJoin: (roomCode: string, inviteToken: string) => Promise<boolean>;
+  // Filled in when the page was opened from an invite link
+  initialInvite?: string | null;
+  // No-internet rooms: join from the host's invite code, showing our answer code back
+  onJoinByInvite?: (inviteCode: string, showAnswer: (answerCode: string) => void) => Promise<boolean>;
 }
 
-const JoinRoomDialog = ({ open, onOpenChange, onJoin }: JoinRoomDialogProps) => {
-  const [roomCode, setRoomCode] = useState('');
-  const [passcode, setPasscode] = useState('');
+const JoinRoomDialog = ({ open, onOpenChange, onJoin, onJoinByInvite, initialInvite }: JoinRoomDialogProps) => {
+  const [inviteInput, setInviteInput] = useState(initialInvite || '');
   const [isJoining, setIsJoining] = useState(false);
+  const [pairing, setPairing] = useState(false);
+  const [answerCode, setAnswerCode] = useState<string | null>(null);
+
+  const handleInvite = async (inviteCode: string) => {
+    if (!onJoinByInvite) return;
+    setIsJoining(true);
+    const success = await onJoinByInvite(inviteCode, setAnswerCode);
+    setIsJoining(false);
+    setAnswerCode(null);
+
+    if (success) {
+      onOpenChange(false);
+      setPairing(false);
+    }
+  };
+
+  useEffect(() => {
+    if (initialInvite) setInviteInput(initialInvite);
+  }, [initialInvite]);
+
+  const token = parseInviteInput(inviteInput);
+  const invite = token ? readInvite(token) : null;
+  const expired = !!invite && invite.expiresAt <= Date.now();
 
   const handleJoin = async () => {
-    if (!roomCode.trim() || roomCode.length < 6 || !passcode.trim() || passcode.length !== 4) return;
-    
+    if (!invite || expired) return;
+
     setIsJoining(true);
-    const success = await onJoin(roomCode.toUpperCase(), passcode);
+    const success = await onJoin(invite.roomId, token);
     setIsJoining(false);
-    
+
     if (success) {
       onOpenChange(false);
-      setRoomCode('');
-      setPasscode('');
+      setInviteInput('');
     }
   };
 
@@ -45,41 +74,63 @@ const JoinRoomDialog = ({ open, onOpenChange, onJoin }: JoinRoomDialogProps) =>
             Join Game Room
           </DialogTitle>
           <DialogDescription>
-            Enter the room code and passcode shared by the host
+            Paste the invite link the host shared with you
           </DialogDescription>
         </DialogHeader>
 
+        {pairing ? (
+          <div className="space-y-4 py-4">
+            {answerCode ? (
+              <PairingQrCode code={answerCode} caption="Show this to the host to finish joining" />
+            ) : isJoining ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <>
+                <p className="text-sm text-muted-foreground text-center">
+                  Scan the QR code on the host's screen
+                </p>
+                <PairingScanner onCode={handleInvite} />
+              </>
+            )}
+            <Button variant="ghost" onClick={() => setPairing(false)} disabled={isJoining} className="w-full">
+              Use room code instead
+            </Button>
+          </div>
+        ) : (
         <div className="space-y-4 py-4">
           <div className="space-y-2">
-            <Label htmlFor="roomCode">Room Code</Label>
+            <Label htmlFor="invite">Invite Link</Label>
             <Input
-              id="roomCode"
-              value={roomCode}
-              onChange={(e) => setRoomCode(e.target.value.toUpperCase().slice(0, 6))}
-              placeholder="ABC123"
-              className="text-center text-2xl font-mono tracking-widest"
-              maxLength={6}
+              id="invite"
+              value={inviteInput}
+              onChange={(e) => setInviteInput(e.target.value)}
+              placeholder="https://…/games?invite=…"
+              className="font-mono text-xs"
               disabled={isJoining}
             />
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="passcode">Passcode</Label>
-            <Input
-              id="passcode"
-              type="text"
-              value={passcode}
-              onChange={(e) => setPasscode(e.target.value.replace(/\D/g, '').slice(0, 4))}
-              placeholder="0000"
-              className="text-center text-2xl font-mono tracking-widest"
-              maxLength={4}
-              disabled={isJoining}
-            />
-          </div>
+          {invite && (
+            <div className="text-center p-3 bg-primary/10 rounded-lg border border-primary/30">
+              <p className="text-xs text-muted-foreground mb-1">Room Code</p>
+              <p className="text-2xl font-mono font-bold tracking-widest text-primary">{invite.roomId}</p>
+              <p className="text-xs text-muted-foreground mt-1 flex items-center justify-center gap-1">
+                {invite.role === 'spectator' && <Monitor className="w-3 h-3" />}
+                {invite.role === 'spectator' ? 'Watch only · ' : ''}
+                {expired ? 'This invite has expired' : `Expires ${formatDistanceToNow(invite.expiresAt, { addSuffix: true })}`}
+              </p>
+            </div>
+          )}
+
+          {inviteInput.trim() && !invite && (
+            <p className="text-xs text-center text-destructive">That doesn't look like an invite link</p>
+          )}
 
           <Button
             onClick={handleJoin}
-            disabled={roomCode.length < 6 || passcode.length !== 4 || isJoining}
+            disabled={!invite || expired || isJoining}
             className="w-full gap-2"
           >
             {isJoining ? (
@@ -94,7 +145,15 @@ const JoinRoomDialog = ({ open, onOpenChange, onJoin }: JoinRoomDialogProps) =>
               </>
             )}
           </Button>
+
+          {onJoinByInvite && (
+            <Button variant="ghost" onClick={() => setPairing(true)} disabled={isJoining} className="w-full gap-2">
+              <QrCode className="w-4 h-4" />
+              No internet? Scan the host's QR code
+            </Button>
+          )}
         </div>
+        )}
       </DialogContent>
     </Dialog>
   );
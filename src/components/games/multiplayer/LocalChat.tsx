@@ -12,9 +12,11 @@ interface LocalChatProps {
   localId: string;
   onSendMessage: (text: string) => void;
   className?: string;
+  title?: string;
+  placeholder?: string;
 }
 
-const LocalChat = ({ messages, localId, onSendMessage, className }: LocalChatProps) => {
+const LocalChat = ({ messages, localId, onSendMessage, className, title = 'Local Chat', placeholder = 'Type a message...' }: LocalChatProps) => {
   const [input, setInput] = useState('');
   const scrollRef = useRef<HTMLDivElement>(null);
 
@@ -44,7 +46,7 @@ const LocalChat = ({ messages, localId, onSendMessage, className }: LocalChatPro
       <CardHeader className="py-3">
         <CardTitle className="text-sm flex items-center gap-2">
           <MessageCircle className="w-4 h-4 text-primary" />
-          Local Chat
+          {title}
         </CardTitle>
       </CardHeader>
       <CardContent className="p-0">
@@ -58,6 +60,7 @@ const LocalChat = ({ messages, localId, onSendMessage, className }: LocalChatPro
               {chatMessages.map((msg, index) => {
                 const isLocal = msg.senderId === localId;
                 const isClue = msg.payload?.kind === 'clue';
+                const isTeam = !!msg.payload?.teamId;
                 return (
                   <div
                     key={index}
@@ -67,7 +70,7 @@ const LocalChat = ({ messages, localId, onSendMessage, className }: LocalChatPro
                     )}
                   >
                     <span className="text-xs text-muted-foreground mb-0.5">
-                      {msg.senderName}{isClue ? ' • Clue' : ''}
+                      {msg.senderName}{isClue ? ' • Clue' : ''}{isTeam ? ' • Team' : ''}
                     </span>
                     <div
                       className={cn(
@@ -88,7 +91,7 @@ const LocalChat = ({ messages, localId, onSendMessage, className }: LocalChatPro
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder="Type a message..."
+            placeholder={placeholder}
             className="flex-1"
           />
           <Button size="icon" onClick={handleSend} disabled={!input.trim()}>
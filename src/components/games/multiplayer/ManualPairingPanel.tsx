@@ -0,0 +1,84 @@
+import { useState, useCallback } from 'react';
+import { QrCode, UserPlus, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { GameRoom } from '@/lib/localNetwork';
+import { ManualSignaling } from '@/lib/manualSignaling';
+import { toast } from '@/hooks/use-toast';
+import PairingQrCode from './PairingQrCode';
+import PairingScanner from './PairingScanner';
+
+interface ManualPairingPanelProps {
+  room: GameRoom;
+  signaling: ManualSignaling;
+}
+
+// Host side of QR pairing: show an invite, then scan the guest's answer.
+// One guest at a time, since each invite carries a fresh offer.
+const ManualPairingPanel = ({ room, signaling }: ManualPairingPanelProps) => {
+  const [inviteCode, setInviteCode] = useState<string | null>(null);
+  const [step, setStep] = useState<'idle' | 'preparing' | 'invite'>('idle');
+
+  const startInvite = async () => {
+    setStep('preparing');
+    try {
+      setInviteCode(await signaling.createInvite({
+        roomId: room.id,
+        passcode: room.passcode,
+        hostName: room.hostName
+      }));
+      setStep('invite');
+    } catch (err) {
+      console.error('[ManualPairingPanel] Failed to create invite:', err);
+      setStep('idle');
+    }
+  };
+
+  const handleAnswer = useCallback(async (code: string) => {
+    const accepted = await signaling.acceptAnswer(code);
+    if (!accepted) {
+      toast({
+        title: "Unrecognised Code",
+        description: "Scan the code shown on the guest's screen",
+        variant: "destructive"
+      });
+      return;
+    }
+    setInviteCode(null);
+    setStep('idle');
+  }, [signaling]);
+
+  return (
+    <div className="space-y-3 p-3 rounded-lg border border-border">
+      <div className="flex items-center gap-2">
+        <QrCode className="w-4 h-4 text-primary" />
+        <h4 className="text-sm font-medium">Pair without internet</h4>
+      </div>
+
+      {step === 'idle' && (
+        <Button variant="outline" onClick={startInvite} className="w-full gap-2">
+          <UserPlus className="w-4 h-4" />
+          Add a player
+        </Button>
+      )}
+
+      {step === 'preparing' && (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {step === 'invite' && (
+        <div className="space-y-4">
+          <PairingQrCode code={inviteCode} caption="1. The player scans this from Join Room" />
+          <p className="text-xs text-muted-foreground text-center">2. Then scan the code on their screen</p>
+          <PairingScanner onCode={handleAnswer} />
+          <Button variant="ghost" size="sm" onClick={() => setStep('idle')} className="w-full">
+            Cancel
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ManualPairingPanel;
@@ -1,15 +1,21 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Trophy, Clock, Users, CheckCircle, XCircle, Crown } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { Trophy, Clock, Users, CheckCircle, XCircle, Crown, ShieldCheck, ShieldAlert, Flag, WifiOff, Lightbulb, SkipForward, Swords } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { BibleGame } from '@/hooks/useBibleGames';
-import { GameRoom, LocalPeer, GameMode } from '@/lib/localNetwork';
+import { GameRoom, LocalPeer, GameMode, getActivePlayers } from '@/lib/localNetwork';
 import { MultiplayerGameState } from '@/hooks/useLocalMultiplayer';
 import { cn } from '@/lib/utils';
 import ClueDialog from './ClueDialog';
+import ArrangeVerseInput from './ArrangeVerseInput';
+import TypedAnswerInput from './TypedAnswerInput';
+import ClueReveal from './ClueReveal';
+import SharedMap from './SharedMap';
 import { toast } from '@/hooks/use-toast';
+import { CLUE_INTERVAL_SECONDS, MAP_GAME_TYPES, getMapGroups, getPlayKind, getRoundSeconds } from '@/lib/multiplayerGames';
+import { getRules, suddenDeathContenders, type HelpKind, type Lifeline, type RoundHelp } from '@/lib/roomRules';
 
 interface MultiplayerGameProps {
   room: GameRoom;
@@ -18,10 +24,16 @@ interface MultiplayerGameProps {
   localId: string;
   isHost: boolean;
   onSubmitAnswer: (answer: string) => void;
+  onCloseRound: () => void;
+  onRevealClue?: () => void;
   onUpdateScores: (scores: Record<string, number>, phase?: string, roundWinner?: string) => void;
   onSendQuestion: (question: any, index: number, timer?: number) => void;
   onGameEnd: () => void;
   onSendClue?: (text: string) => void;
+  // Hints and lifelines, when the room's rules allow them
+  help?: RoundHelp | null;
+  lifelinesUsed?: Lifeline[];
+  onRequestHelp?: (kind: HelpKind) => void;
 }
 
 const MultiplayerGame = ({
@@ -31,12 +43,19 @@ const MultiplayerGame = ({
   localId,
   isHost,
   onSubmitAnswer,
+  onCloseRound,
+  onRevealClue,
   onUpdateScores,
   onSendQuestion,
   onGameEnd,
-  onSendClue
+  onSendClue,
+  help,
+  lifelinesUsed = [],
+  onRequestHelp
 }: MultiplayerGameProps) => {
-  const [timer, setTimer] = useState(30);
+  const roundSeconds = gameState.timer || 30;
+  // Players caught up after reconnecting start from the time the host says is left
+  const [timer, setTimer] = useState(gameState.timeLeft ?? roundSeconds);
   const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
   const [hasAnswered, setHasAnswered] = useState(false);
   const [showClueDialog, setShowClueDialog] = useState(false);
@@ -44,77 +63,105 @@ const MultiplayerGame = ({
   const currentQuestion = gameState.currentQuestion;
   const currentIndex = gameState.currentQuestionIndex;
   const isCompetitive = room.gameMode === 'competitive';
+  const isTeams = room.gameMode === 'teams';
+  const players = getActivePlayers(room);
+  const playKind = getPlayKind(currentQuestion);
+  const rules = getRules(room);
+  const regularQuestions = gameState.regularQuestions ?? questions.length;
+  // Help the host granted us on this question
+  const roundHelp = help?.questionIndex === currentIndex ? help : null;
+  const skipped = !!roundHelp?.skipped;
+  // In sudden death only the tied leaders answer; everyone else watches
+  const sittingOut = !!gameState.suddenDeath && !gameState.suddenDeath.includes(localId);
+  // After regulation the game goes on only while the leaders are still tied
+  const nextIndex = currentIndex + 1;
+  const tiedLeaders = rules.suddenDeath && nextIndex >= regularQuestions
+    ? suddenDeathContenders(room, gameState.scores, gameState.teamRoster)
+    : [];
+  const isLastQuestion = nextIndex >= questions.length || (nextIndex >= regularQuestions && tiedLeaders.length < 2);
+
+  // Journey and path rooms share a map the party (or each team) moves along
+  const sharedMap = MAP_GAME_TYPES.includes(room.gameType) && gameState.mapProgress ? (
+    <SharedMap
+      variant={room.gameType === 'journey_jerusalem' ? 'journey' : 'path'}
+      total={Math.min(regularQuestions, questions.length)}
+      groups={getMapGroups(room, gameState.teamRoster)}
+      progress={gameState.mapProgress}
+    />
+  ) : null;
+
+  // Teams ranked by their running total, with whoever played for them
+  const teamStandings = (room.teams || [])
+    .map(team => ({
+      ...team,
+      score: gameState.teamScores?.[team.id] || 0,
+      members: players.filter(p => (gameState.teamRoster?.[p.id] || p.teamId) === team.id)
+    }))
+    .sort((a, b) => b.score - a.score);
 
   // Timer countdown
   useEffect(() => {
     if (gameState.phase !== 'question') return;
     
     const interval = setInterval(() => {
-      setTimer(prev => {
-        if (prev <= 1) {
-          clearInterval(interval);
-          // Time's up - show results
-          if (isHost) {
-            calculateRoundResults();
-          }
-          return 0;
-        }
-        return prev - 1;
-      });
+      setTimer(prev => Math.max(prev - 1, 0));
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [gameState.phase, currentIndex, isHost]);
+  }, [gameState.phase, currentIndex]);
 
-  // Reset state for new question
+  // The host acts on each tick: time's up closes the round and shows results,
+  // and guess-the-character rounds reveal the next clue every few seconds.
+  // Only a change of the timer is a tick, so new callbacks (or the last
+  // round's zero, before the reset) don't trigger anything.
+  const lastTick = useRef(timer);
   useEffect(() => {
-    setTimer(30);
-    setSelectedAnswer(null);
-    setHasAnswered(false);
-  }, [currentIndex]);
-
-  // Calculate round results (host only)
-  const calculateRoundResults = useCallback(() => {
-    if (!isHost) return;
+    if (lastTick.current === timer) return;
+    lastTick.current = timer;
+    if (!isHost || gameState.phase !== 'question') return;
 
-    const correctAnswer = currentQuestion?.correct_answer;
-    const newScores = { ...gameState.scores };
-    let roundWinner: string | undefined;
-
-    if (isCompetitive) {
-      // First correct answer wins
-      const sortedAnswers = Object.entries(gameState.answers)
-        .filter(([_, answer]) => answer === correctAnswer)
-        .sort((a, b) => 0); // In real implementation, sort by timestamp
-
-      if (sortedAnswers.length > 0) {
-        roundWinner = sortedAnswers[0][0];
-        newScores[roundWinner] = (newScores[roundWinner] || 0) + (currentQuestion?.points || 10);
-      }
-    } else {
-      // Cooperative - everyone who got it right gets points
-      Object.entries(gameState.answers).forEach(([playerId, answer]) => {
-        if (answer === correctAnswer) {
-          newScores[playerId] = (newScores[playerId] || 0) + (currentQuestion?.points || 10);
-        }
-      });
+    if (timer === 0) {
+      onCloseRound();
+      return;
     }
+    const elapsed = roundSeconds - timer;
+    if (playKind === 'clues' && elapsed > 0 && elapsed % CLUE_INTERVAL_SECONDS === 0) {
+      onRevealClue?.();
+    }
+  }, [timer, isHost, gameState.phase, playKind, roundSeconds, onCloseRound, onRevealClue]);
 
-    onUpdateScores(newScores, 'results', roundWinner);
-  }, [isHost, currentQuestion, gameState.answers, gameState.scores, isCompetitive, onUpdateScores]);
+  // Reset state for new question. Answers are read, not watched: a player
+  // who resumed mid-question has already answered, but a new answer coming
+  // in isn't a new question.
+  const answersRef = useRef(gameState.answers);
+  answersRef.current = gameState.answers;
+  useEffect(() => {
+    setTimer(roundSeconds);
+    setSelectedAnswer(null);
+    setHasAnswered(!!answersRef.current[localId]);
+  }, [currentIndex, roundSeconds, localId]);
+
+  useEffect(() => {
+    if (gameState.timeLeft !== undefined) setTimer(gameState.timeLeft);
+  }, [gameState.timeLeft]);
 
   // Check if all players answered
   useEffect(() => {
     if (gameState.phase !== 'question' || !isHost) return;
     
-    const allAnswered = room.currentPlayers.every(p => gameState.answers[p.id]);
+    // The host scores from answer hashes and reveals the answer (see useLocalMultiplayer)
+    // Players who dropped out don't hold the round up; the timer still closes it for them.
+    // Neither do players who skipped, or who sit out a sudden-death question.
+    const allAnswered = getActivePlayers(room)
+      .filter(p => !gameState.suddenDeath || gameState.suddenDeath.includes(p.id))
+      .every(p => p.away || gameState.answers[p.id] || gameState.skipped?.includes(p.id));
     if (allAnswered) {
-      calculateRoundResults();
+      onCloseRound();
     }
-  }, [gameState.answers, room.currentPlayers, isHost, calculateRoundResults, gameState.phase]);
+  }, [gameState.answers, gameState.skipped, gameState.suddenDeath, room, isHost, onCloseRound, gameState.phase]);
 
   const handleSelectAnswer = (answer: string) => {
-    if (hasAnswered || gameState.phase !== 'question') return;
+    if (hasAnswered || skipped || sittingOut || gameState.phase !== 'question') return;
     setSelectedAnswer(answer);
     setHasAnswered(true);
     onSubmitAnswer(answer);
@@ -123,13 +170,13 @@ const MultiplayerGame = ({
   const handleNextQuestion = () => {
     if (!isHost) return;
 
-    if (currentIndex >= questions.length - 1) {
+    if (isLastQuestion) {
       onUpdateScores(gameState.scores, 'finished');
       return;
     }
 
-    const nextQuestion = questions[currentIndex + 1];
-    onSendQuestion(nextQuestion, currentIndex + 1, 30);
+    const nextQuestion = questions[nextIndex];
+    onSendQuestion(nextQuestion, nextIndex, getRoundSeconds(nextQuestion, rules));
   };
 
   // Finished state
@@ -142,6 +189,46 @@ const MultiplayerGame = ({
         <CardContent className="py-8 text-center">
           <Trophy className="w-16 h-16 text-amber-500 mx-auto mb-4 animate-bounce" />
           <h2 className="text-2xl font-bold mb-6">Game Over! 🎉</h2>
+
+          {sharedMap && <div className="mb-6">{sharedMap}</div>}
+
+          {!gameState.summary && (
+            <p className="flex items-center justify-center gap-2 text-sm text-muted-foreground mb-4">
+              <ShieldAlert className="w-4 h-4 text-amber-500" />
+              Scores weren't signed by the host and won't be recorded
+            </p>
+          )}
+
+          {isTeams && teamStandings.length > 0 && (
+            <div className="space-y-3 mb-6">
+              <p className="text-lg font-semibold">
+                🚩 {teamStandings[0].score > 0 && teamStandings[0].score !== teamStandings[1]?.score
+                  ? `${teamStandings[0].name} wins!`
+                  : "It's a tie!"}
+              </p>
+              {teamStandings.map((team, index) => (
+                <div
+                  key={team.id}
+                  className={cn(
+                    "p-3 rounded-lg border text-left",
+                    index === 0 && team.score > 0 ? "bg-amber-500/10 border-2 border-amber-500/30" : "border-border"
+                  )}
+                >
+                  <div className="flex items-center gap-3">
+                    <span className="text-lg font-bold w-6">
+                      {index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : `${index + 1}.`}
+                    </span>
+                    <span className="flex-1 font-semibold">{team.name}</span>
+                    <span className="font-bold text-primary">{team.score} pts</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1 pl-9">
+                    {team.members.map(p => p.name).join(', ') || 'No players'}
+                  </p>
+                </div>
+              ))}
+              <h4 className="text-sm font-medium text-muted-foreground pt-2">Player scores</h4>
+            </div>
+          )}
           
           <div className="space-y-3 mb-6">
             {sortedScores.map(([playerId, score], index) => {
@@ -182,7 +269,7 @@ const MultiplayerGame = ({
 
   // Results phase
   if (gameState.phase === 'results') {
-    const correctAnswer = currentQuestion?.correct_answer;
+    const correctAnswer = gameState.reveal?.answer;
     
     return (
       <Card className="bg-card border-border">
@@ -190,12 +277,25 @@ const MultiplayerGame = ({
           <CardTitle className="text-center">Round Results</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
+          {sharedMap}
+
           {/* Correct Answer */}
           <div className="text-center p-4 bg-green-500/10 border border-green-500/30 rounded-lg">
             <p className="text-sm text-muted-foreground mb-1">Correct Answer</p>
-            <p className="text-lg font-bold text-green-500">{correctAnswer}</p>
+            <p className="text-lg font-bold text-green-500">{correctAnswer ?? 'Unavailable'}</p>
           </div>
 
+          {/* Guests check the reveal against the host's commitment */}
+          {!isHost && gameState.verified !== undefined && (
+            <p className={cn(
+              "flex items-center justify-center gap-2 text-xs",
+              gameState.verified ? "text-green-500" : "text-red-500"
+            )}>
+              {gameState.verified ? <ShieldCheck className="w-4 h-4" /> : <ShieldAlert className="w-4 h-4" />}
+              {gameState.verified ? 'Round verified' : "This round's results didn't check out"}
+            </p>
+          )}
+
           {/* Round Winner (competitive mode) */}
           {isCompetitive && gameState.roundWinner && (
             <div className="text-center p-4 bg-amber-500/10 border border-amber-500/30 rounded-lg">
@@ -208,9 +308,10 @@ const MultiplayerGame = ({
 
           {/* Player Answers */}
           <div className="space-y-2">
-            {room.currentPlayers.map(player => {
-              const answer = gameState.answers[player.id];
-              const isCorrect = answer === correctAnswer;
+            {players.map(player => {
+              const answered = !!gameState.answers[player.id];
+              const answer = gameState.revealedAnswers?.[player.id] ?? (answered ? 'Answered' : null);
+              const isCorrect = !!gameState.correctIds?.includes(player.id);
               
               return (
                 <div
@@ -234,6 +335,23 @@ const MultiplayerGame = ({
             })}
           </div>
 
+          {/* Team Scores (teams mode) */}
+          {isTeams && teamStandings.length > 0 && (
+            <div className="pt-4 border-t border-border">
+              <h4 className="text-sm font-medium mb-2 flex items-center gap-2">
+                <Flag className="w-4 h-4 text-primary" />
+                Teams
+              </h4>
+              <div className="flex flex-wrap gap-2">
+                {teamStandings.map(team => (
+                  <div key={team.id} className="px-3 py-1 bg-primary/10 rounded-full text-sm">
+                    {team.name}: <span className="font-bold">{team.score}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Current Scores */}
           <div className="pt-4 border-t border-border">
             <h4 className="text-sm font-medium mb-2">Scores</h4>
@@ -254,7 +372,7 @@ const MultiplayerGame = ({
           {/* Next Question Button (host only) */}
           {isHost && (
             <Button onClick={handleNextQuestion} className="w-full">
-              {currentIndex >= questions.length - 1 ? 'See Final Results' : 'Next Question'}
+              {isLastQuestion ? 'See Final Results' : nextIndex >= regularQuestions ? 'Sudden Death!' : 'Next Question'}
             </Button>
           )}
 
@@ -293,7 +411,9 @@ const MultiplayerGame = ({
       <div className="space-y-2">
         <div className="flex justify-between text-sm">
           <span className="text-muted-foreground">
-            Question {currentIndex + 1} of {questions.length}
+            {gameState.suddenDeath
+              ? 'Sudden death'
+              : `Question ${currentIndex + 1} of ${Math.min(regularQuestions, questions.length)}`}
           </span>
           <div className="flex items-center gap-2">
             <Clock className={cn(
@@ -308,28 +428,40 @@ const MultiplayerGame = ({
             </span>
           </div>
         </div>
-        <Progress value={(timer / 30) * 100} className="h-2" />
+        <Progress value={(timer / roundSeconds) * 100} className="h-2" />
       </div>
 
+      {sharedMap}
+
       {/* Players Status */}
       <div className="flex gap-2 flex-wrap">
-        {room.currentPlayers.map(player => {
+        {players.map(player => {
           const hasAnswered = !!gameState.answers[player.id];
           return (
             <div
               key={player.id}
               className={cn(
                 "flex items-center gap-1 px-2 py-1 rounded-full text-xs",
-                hasAnswered ? "bg-green-500/20 text-green-500" : "bg-muted text-muted-foreground"
+                hasAnswered ? "bg-green-500/20 text-green-500" : "bg-muted text-muted-foreground",
+                player.away && "opacity-50"
               )}
             >
-              {hasAnswered ? <CheckCircle className="w-3 h-3" /> : <Clock className="w-3 h-3" />}
+              {hasAnswered ? <CheckCircle className="w-3 h-3" /> : player.away ? <WifiOff className="w-3 h-3" /> : <Clock className="w-3 h-3" />}
               {player.name}
             </div>
           );
         })}
       </div>
 
+      {gameState.suddenDeath && (
+        <div className="flex items-center justify-center gap-2 p-2 rounded-lg bg-red-500/10 border border-red-500/30 text-sm">
+          <Swords className="w-4 h-4 text-red-500" />
+          <span>
+            Tiebreaker: {players.filter(p => gameState.suddenDeath?.includes(p.id)).map(p => p.name).join(' vs ')}
+          </span>
+        </div>
+      )}
+
       {/* Question Card */}
       <Card className="bg-card border-border">
         <CardHeader>
@@ -351,21 +483,111 @@ const MultiplayerGame = ({
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-3">
-          {currentQuestion.options?.map((option: string, index: number) => (
-            <button
-              key={index}
-              onClick={() => handleSelectAnswer(option)}
-              disabled={hasAnswered}
-              className={cn(
-                "w-full p-4 rounded-xl text-left transition-all duration-200 border-2",
-                !hasAnswered && "hover:border-primary hover:bg-primary/5 border-border",
-                hasAnswered && option === selectedAnswer && "border-primary bg-primary/10",
-                hasAnswered && option !== selectedAnswer && "border-border opacity-50"
+          {playKind === 'clues' && (
+            <ClueReveal
+              clues={currentQuestion.clues || []}
+              totalClues={currentQuestion.totalClues || 1}
+              basePoints={currentQuestion.points || 10}
+            />
+          )}
+
+          {playKind === 'arrange' && (
+            <>
+              {currentQuestion.bible_reference && (
+                <p className="text-sm text-muted-foreground">📖 {currentQuestion.bible_reference}</p>
               )}
-            >
-              <span className="font-medium">{option}</span>
-            </button>
-          ))}
+              <ArrangeVerseInput
+                words={currentQuestion.words || []}
+                disabled={hasAnswered || skipped || sittingOut}
+                onSubmit={handleSelectAnswer}
+              />
+            </>
+          )}
+
+          {playKind === 'typed' && (
+            <TypedAnswerInput
+              questionId={currentQuestion.id}
+              disabled={hasAnswered || skipped || sittingOut}
+              onSubmit={handleSelectAnswer}
+            />
+          )}
+
+          {roundHelp?.hint && (
+            <p className="flex items-center gap-2 p-2 rounded-lg bg-amber-500/10 text-sm">
+              <Lightbulb className="w-4 h-4 text-amber-500" />
+              {roundHelp.hint}
+            </p>
+          )}
+
+          {(playKind === 'choice' || playKind === 'clues') && currentQuestion.options?.map((option: string, index: number) => {
+            // Options a 50/50 took away stay in place, crossed out
+            const removed = !!roundHelp?.removedOptions?.includes(option);
+            const locked = hasAnswered || skipped || sittingOut || removed;
+            return (
+              <button
+                key={index}
+                onClick={() => handleSelectAnswer(option)}
+                disabled={locked}
+                className={cn(
+                  "w-full p-4 rounded-xl text-left transition-all duration-200 border-2",
+                  !locked && "hover:border-primary hover:bg-primary/5 border-border",
+                  hasAnswered && option === selectedAnswer && "border-primary bg-primary/10",
+                  locked && option !== selectedAnswer && "border-border opacity-50",
+                  removed && "line-through opacity-30"
+                )}
+              >
+                <span className="font-medium">{option}</span>
+              </button>
+            );
+          })}
+
+          {/* Hints and lifelines the room's rules allow */}
+          {onRequestHelp && !hasAnswered && !skipped && !sittingOut
+            && (rules.hintCost !== null || rules.lifelines.fiftyFifty || rules.lifelines.skip) && (
+            <div className="flex gap-2">
+              {rules.hintCost !== null && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onRequestHelp('hint')}
+                  disabled={!!roundHelp?.hint}
+                  className="flex-1 gap-1"
+                >
+                  <Lightbulb className="w-4 h-4" />
+                  Hint{rules.hintCost > 0 && ` (−${rules.hintCost})`}
+                </Button>
+              )}
+              {rules.lifelines.fiftyFifty && (playKind === 'choice' || playKind === 'clues') && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onRequestHelp('fiftyFifty')}
+                  disabled={lifelinesUsed.includes('fiftyFifty')}
+                  className="flex-1"
+                >
+                  50/50
+                </Button>
+              )}
+              {rules.lifelines.skip && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onRequestHelp('skip')}
+                  disabled={lifelinesUsed.includes('skip')}
+                  className="flex-1 gap-1"
+                >
+                  <SkipForward className="w-4 h-4" />
+                  Skip
+                </Button>
+              )}
+            </div>
+          )}
+
+          {(skipped || sittingOut) && !hasAnswered && (
+            <p className="text-center text-sm text-muted-foreground py-2">
+              {skipped ? 'You skipped this one.' : 'Sitting this one out.'} Waiting for others...
+            </p>
+          )}
 
           {hasAnswered && (
             <div className="text-center py-2">
@@ -1,16 +1,27 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Plus, Users, Wifi, Bluetooth, WifiOff } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { useLocalMultiplayer } from '@/hooks/useLocalMultiplayer';
-import { useBibleGames, BibleGame } from '@/hooks/useBibleGames';
+import { useBibleGames } from '@/hooks/useBibleGames';
+import { useAchievements } from '@/hooks/useAchievements';
+import { useAuth } from '@/hooks/useAuth';
+import { recordMatch } from '@/hooks/useMatchHistory';
 import GameLobby from './GameLobby';
 import CreateRoomDialog from './CreateRoomDialog';
 import JoinRoomDialog from './JoinRoomDialog';
 import FloatingChat from './FloatingChat';
 import LocalChat from './LocalChat';
 import MultiplayerGame from './MultiplayerGame';
+import TeamSeasonLeaderboard from './TeamSeasonLeaderboard';
 import FloatingLeaderboard from '@/components/games/FloatingLeaderboard';
+import { recordSignedSummary } from '@/lib/roundVerification';
+import { selectQuestions } from '@/lib/multiplayerGames';
+import { getActivePlayers, type RoomRules } from '@/lib/localNetwork';
+import { SUDDEN_DEATH_QUESTIONS, getRules } from '@/lib/roomRules';
+import { ManualSignaling, decodeSignal, isInvite } from '@/lib/manualSignaling';
+import { toast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 
 interface MultiplayerModeProps {
@@ -19,8 +30,16 @@ interface MultiplayerModeProps {
 
 const MultiplayerMode = ({ onBack }: MultiplayerModeProps) => {
   const [showCreateDialog, setShowCreateDialog] = useState(false);
-  const [showJoinDialog, setShowJoinDialog] = useState(false);
-  
+  // Invite links land here with ?invite=…, opening the join dialog filled in
+  const [searchParams, setSearchParams] = useSearchParams();
+  const inviteParam = searchParams.get('invite');
+  const [showJoinDialog, setShowJoinDialog] = useState(!!inviteParam);
+  // Hosts of no-internet rooms pair each guest through this
+  const [manualSignaling, setManualSignaling] = useState<ManualSignaling | null>(null);
+
+  const { recordGamePlayed } = useAchievements();
+  const { user } = useAuth();
+
   const {
     isHost,
     room,
@@ -34,17 +53,26 @@ const MultiplayerMode = ({ onBack }: MultiplayerModeProps) => {
     joinRoom,
     leaveRoom,
     sendChatMessage,
-    requestStartGame,
+    startGame,
     updateRoomSettings,
     submitAnswer,
+    requestHelp,
+    help,
+    lifelinesUsed,
+    closeRound,
+    revealClue,
     updateScores,
     sendQuestion,
     sendClue,
+    sendTeamMessage,
     isWebRTCSupported,
     isBluetoothSupported,
     sharedQuestions
   } = useLocalMultiplayer();
 
+  // Only the host picks questions, so only the host loads them and their answers
+  const { games } = useBibleGames(undefined, { enabled: isHost });
+
   // Build session leaderboard from room or current game state
   const sessionScores = (() => {
     if (!room) return [];
@@ -63,7 +91,7 @@ const MultiplayerMode = ({ onBack }: MultiplayerModeProps) => {
       }).sort((a, b) => b.total_score - a.total_score);
     }
 
-    return room.currentPlayers.map(p => ({
+    return getActivePlayers(room).map(p => ({
       user_id: p.id,
       total_score: p.score || 0,
       total_games_played: 0,
@@ -73,47 +101,120 @@ const MultiplayerMode = ({ onBack }: MultiplayerModeProps) => {
     })).sort((a, b) => b.total_score - a.total_score);
   })();
 
-  const { games: triviaGames } = useBibleGames('trivia');
-  const { games: characterGames } = useBibleGames('guess_character');
-  const { games: fillBlankGames } = useBibleGames('fill_blank');
-  const { games: memoryVerseGames } = useBibleGames('memory_verse');
-  const { games: allGames } = useBibleGames();
+  // This player's copy of the finished match, for the profile's match history
+  const saveMatchHistory = () => {
+    if (!user || !room || !gameState?.matchId) return;
+    const scores = gameState.scores;
+    const signedWinners = gameState.summary ? JSON.parse(gameState.summary.payload).winners as string[] : null;
+    const topScore = Math.max(0, ...Object.values(scores));
+    const winnerIds = signedWinners || Object.keys(scores).filter(id => topScore > 0 && scores[id] === topScore);
+    void recordMatch({
+      match_id: gameState.matchId,
+      user_id: user.id,
+      room_code: room.id,
+      game_mode: room.gameMode,
+      game_type: room.gameType,
+      participants: getActivePlayers(room).map(p => ({
+        id: p.id,
+        name: p.name,
+        score: scores[p.id] || 0,
+        team_id: gameState.teamRoster?.[p.id]
+      })),
+      rounds: gameState.roundLog || [],
+      winner_ids: winnerIds,
+      score: scores[localId] || 0,
+      won: winnerIds.includes(localId),
+      finished_at: new Date().toISOString()
+    });
+  };
+
+  // Latest copies for the effect below, which only reruns when the game ends
+  // or its summary arrives
+  const saveMatchHistoryRef = useRef(saveMatchHistory);
+  const recordGamePlayedRef = useRef(recordGamePlayed);
+  useEffect(() => {
+    saveMatchHistoryRef.current = saveMatchHistory;
+    recordGamePlayedRef.current = recordGamePlayed;
+  });
+
+  // Record this player's result once per finished game for multiplayer badges.
+  // Scores only reach the server inside the host-signed summary.
+  const recordedResult = useRef(false);
+  useEffect(() => {
+    if (gameState?.phase !== 'finished') {
+      recordedResult.current = false;
+      return;
+    }
+    if (recordedResult.current) return;
+
+    if (gameState.summary) {
+      recordedResult.current = true;
+      saveMatchHistoryRef.current();
+      void recordSignedSummary(gameState.summary).then(() => recordGamePlayedRef.current());
+      return;
+    }
+
+    // Give the signed summary a moment to arrive and verify; without one only
+    // the game streak counts
+    const timer = setTimeout(() => {
+      recordedResult.current = true;
+      saveMatchHistoryRef.current();
+      void recordGamePlayedRef.current();
+    }, 3000);
+    return () => clearTimeout(timer);
+  }, [gameState?.phase, gameState?.summary]);
+
+  const handleCreateRoom = (
+    gameType: Parameters<typeof createRoom>[0],
+    gameMode: Parameters<typeof createRoom>[1],
+    gameName: string,
+    maxPlayers: number,
+    offline: boolean,
+    rules: RoomRules
+  ) => {
+    const signaling = offline ? new ManualSignaling(localId) : null;
+    setManualSignaling(signaling);
+    return createRoom(gameType, gameMode, gameName, maxPlayers, { signaling: signaling || undefined, rules });
+  };
+
+  const handleJoin = async (roomCode: string, inviteToken: string) => {
+    const joined = await joinRoom(roomCode, inviteToken);
+    if (joined && inviteParam) {
+      searchParams.delete('invite');
+      setSearchParams(searchParams, { replace: true });
+    }
+    return joined;
+  };
+
+  // Join from a host's invite code; the answer code is shown until the host scans it
+  const handleJoinByInvite = async (inviteCode: string, showAnswer: (answerCode: string) => void) => {
+    const invite = await decodeSignal(inviteCode);
+    if (!isInvite(invite)) {
+      toast({
+        title: "Unrecognised Code",
+        description: "Scan the QR code on the host's screen",
+        variant: "destructive"
+      });
+      return false;
+    }
+    const signaling = new ManualSignaling(localId);
+    const joined = joinRoom(invite.roomId, invite.passcode, { signaling });
+    showAnswer(await signaling.answerInvite(invite, localName));
+    return joined;
+  };
 
   // Prepare questions when starting game
   const handleStartGame = () => {
-    let questions: BibleGame[] = [];
-    
-    if (!room) return;
-
-    switch (room.gameType) {
-      case 'trivia':
-        questions = triviaGames;
-        break;
-      case 'guess_character':
-        questions = characterGames;
-        break;
-      case 'fill_blank':
-        questions = fillBlankGames;
-        break;
-      case 'memory_verse':
-        questions = memoryVerseGames;
-        break;
-      case 'daily_challenge':
-        // Daily: sample across categories for variety
-        questions = [...triviaGames, ...characterGames, ...fillBlankGames, ...memoryVerseGames]
-          .sort(() => Math.random() - 0.5);
-        break;
-      case 'all':
-      default:
-        questions = allGames.length ? allGames : [...triviaGames, ...characterGames, ...fillBlankGames, ...memoryVerseGames];
-        questions = questions.sort(() => Math.random() - 0.5);
-        break;
+    if (!room || !isHost) return;
+    if (games.length === 0) {
+      toast({ title: "Questions Still Loading", description: "Try again in a moment" });
+      return;
     }
 
-    // Limit to 10 questions for multiplayer
-    const perRound = room?.questionsPerRound || 10;
-    questions = questions.slice(0, perRound);
-    requestStartGame(questions);
+    const perRound = room.questionsPerRound || 10;
+    // Set a few aside in case the game ends in a tie
+    const tiebreakers = getRules(room).suddenDeath ? SUDDEN_DEATH_QUESTIONS : 0;
+    void startGame(selectQuestions(room.gameType, games).slice(0, perRound + tiebreakers));
   };
 
   const handleGameEnd = () => {
@@ -121,7 +222,7 @@ const MultiplayerMode = ({ onBack }: MultiplayerModeProps) => {
     // Reset game state by leaving and rejoining would be handled by host
     if (isHost && room) {
       updateScores(
-        room.currentPlayers.reduce((acc, p) => ({ ...acc, [p.id]: 0 }), {}),
+        getActivePlayers(room).reduce((acc, p) => ({ ...acc, [p.id]: 0 }), {}),
         'waiting'
       );
     }
@@ -208,23 +309,27 @@ const MultiplayerMode = ({ onBack }: MultiplayerModeProps) => {
         <div className="text-center space-y-2 pt-4">
           <h4 className="text-sm font-medium text-muted-foreground">How it works</h4>
           <ol className="text-xs text-muted-foreground space-y-1">
-            <li>1. Make sure all devices have internet access</li>
-            <li>2. One person creates a room and gets a code + passcode</li>
-            <li>3. Others join using the room code and passcode</li>
-            <li>4. Compete or cooperate in Bible trivia!</li>
+            <li>1. Make sure all devices have internet access (no internet? turn on "No internet" and pair by QR code)</li>
+            <li>2. One person creates a room and shares an invite link or QR code</li>
+            <li>3. Others open the invite to join</li>
+            <li>4. Compete, cooperate or play in teams in Bible trivia!</li>
           </ol>
         </div>
 
+        <TeamSeasonLeaderboard />
+
         <CreateRoomDialog
           open={showCreateDialog}
           onOpenChange={setShowCreateDialog}
-          onCreate={createRoom}
+          onCreate={handleCreateRoom}
         />
         
         <JoinRoomDialog
           open={showJoinDialog}
           onOpenChange={setShowJoinDialog}
-          onJoin={joinRoom}
+          onJoin={handleJoin}
+          onJoinByInvite={handleJoinByInvite}
+          initialInvite={inviteParam}
         />
       </div>
     );
@@ -243,6 +348,7 @@ const MultiplayerMode = ({ onBack }: MultiplayerModeProps) => {
           onStartGame={handleStartGame}
           onLeaveRoom={leaveRoom}
           onUpdateRoomSettings={updateRoomSettings}
+          manualSignaling={manualSignaling}
         />
 
         <LocalChat
@@ -255,6 +361,9 @@ const MultiplayerMode = ({ onBack }: MultiplayerModeProps) => {
     );
   }
 
+  const localTeamId = room.currentPlayers.find(p => p.id === localId)?.teamId;
+  const localTeam = room.gameMode === 'teams' ? room.teams?.find(t => t.id === localTeamId) : undefined;
+
   // Game in progress
   return (
     <div className="space-y-4 md:flex md:gap-4">
@@ -266,10 +375,15 @@ const MultiplayerMode = ({ onBack }: MultiplayerModeProps) => {
           localId={localId}
           isHost={isHost}
           onSubmitAnswer={submitAnswer}
+          onCloseRound={closeRound}
+          onRevealClue={revealClue}
           onUpdateScores={updateScores}
           onSendQuestion={sendQuestion}
           onGameEnd={handleGameEnd}
-          onSendClue={sendClue}
+          onSendClue={room.gameMode === 'teams' ? (text) => sendTeamMessage(text, 'clue') : sendClue}
+          help={help}
+          lifelinesUsed={lifelinesUsed}
+          onRequestHelp={requestHelp}
         />
       </div>
 
@@ -277,6 +391,8 @@ const MultiplayerMode = ({ onBack }: MultiplayerModeProps) => {
         messages={messages}
         localId={localId}
         onSendMessage={sendChatMessage}
+        teamName={localTeam?.name}
+        onSendTeamMessage={sendTeamMessage}
       />
       <FloatingLeaderboard sessionScores={sessionScores} className="right-20 bottom-20" />
     </div>
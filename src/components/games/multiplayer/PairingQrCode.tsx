@@ -0,0 +1,56 @@
+import { useState, useEffect } from 'react';
+import QRCode from 'qrcode';
+import { Copy, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/hooks/use-toast';
+
+interface PairingQrCodeProps {
+  code: string | null;
+  caption: string;
+  copyLabel?: string;
+}
+
+// A pairing code as a QR code, with a copy button for devices without a camera
+const PairingQrCode = ({ code, caption, copyLabel = 'Copy code instead' }: PairingQrCodeProps) => {
+  const [image, setImage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!code) {
+      setImage(null);
+      return;
+    }
+    let cancelled = false;
+    QRCode.toDataURL(code, { errorCorrectionLevel: 'L', margin: 1, width: 320 })
+      .then(url => { if (!cancelled) setImage(url); })
+      .catch(err => console.error('[PairingQrCode] Failed to draw QR code:', err));
+    return () => { cancelled = true; };
+  }, [code]);
+
+  const copyCode = () => {
+    if (!code) return;
+    navigator.clipboard.writeText(code);
+    toast({
+      title: "Code Copied! 📋",
+      description: "Paste it on the other device"
+    });
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="w-64 h-64 rounded-xl bg-white p-2 flex items-center justify-center">
+        {image ? (
+          <img src={image} alt="Pairing QR code" className="w-full h-full" />
+        ) : (
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground text-center">{caption}</p>
+      <Button variant="ghost" size="sm" onClick={copyCode} disabled={!code} className="gap-1">
+        <Copy className="w-4 h-4" />
+        {copyLabel}
+      </Button>
+    </div>
+  );
+};
+
+export default PairingQrCode;
@@ -0,0 +1,108 @@
+import { useState, useEffect, useRef } from 'react';
+import { Camera, ClipboardPaste } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+
+interface PairingScannerProps {
+  onCode: (code: string) => void;
+  disabled?: boolean;
+}
+
+// BarcodeDetector isn't in every browser (or in TypeScript's DOM types yet)
+type Detector = { detect: (source: HTMLVideoElement) => Promise<{ rawValue: string }[]> };
+type DetectorWindow = Window & { BarcodeDetector?: new (options: { formats: string[] }) => Detector };
+
+const getDetector = (): Detector | null => {
+  const { BarcodeDetector } = window as DetectorWindow;
+  return BarcodeDetector ? new BarcodeDetector({ formats: ['qr_code'] }) : null;
+};
+
+// Reads a pairing code from the camera where the browser can, or from a paste
+const PairingScanner = ({ onCode, disabled }: PairingScannerProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [scanning, setScanning] = useState(false);
+  const [pasted, setPasted] = useState('');
+  const canScan = !!(window as DetectorWindow).BarcodeDetector && !!navigator.mediaDevices?.getUserMedia;
+
+  useEffect(() => {
+    if (!scanning) return;
+    const detector = getDetector();
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+
+    const scan = async () => {
+      if (stopped || !videoRef.current || !detector) return;
+      try {
+        const [result] = await detector.detect(videoRef.current);
+        if (result?.rawValue) {
+          setScanning(false);
+          onCode(result.rawValue);
+          return;
+        }
+      } catch {
+        // Frame not ready yet; try the next one
+      }
+      frame = requestAnimationFrame(scan);
+    };
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then(async (media) => {
+        stream = media;
+        if (stopped || !videoRef.current) return;
+        videoRef.current.srcObject = media;
+        await videoRef.current.play();
+        scan();
+      })
+      .catch(err => {
+        console.error('[PairingScanner] Camera unavailable:', err);
+        setScanning(false);
+      });
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [scanning, onCode]);
+
+  return (
+    <div className="space-y-3">
+      {scanning ? (
+        <div className="space-y-2">
+          <video ref={videoRef} className="w-full rounded-xl bg-black aspect-square object-cover" muted playsInline />
+          <Button variant="outline" onClick={() => setScanning(false)} className="w-full">
+            Stop camera
+          </Button>
+        </div>
+      ) : canScan && (
+        <Button onClick={() => setScanning(true)} disabled={disabled} className="w-full gap-2">
+          <Camera className="w-4 h-4" />
+          Scan QR code
+        </Button>
+      )}
+
+      <div className="space-y-2">
+        <Textarea
+          value={pasted}
+          onChange={(e) => setPasted(e.target.value)}
+          placeholder="Or paste the code here"
+          rows={3}
+          className="font-mono text-xs"
+          disabled={disabled}
+        />
+        <Button
+          variant="outline"
+          onClick={() => { onCode(pasted.trim()); setPasted(''); }}
+          disabled={disabled || !pasted.trim()}
+          className="w-full gap-2"
+        >
+          <ClipboardPaste className="w-4 h-4" />
+          Use pasted code
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PairingScanner;
@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Link2, Loader2, UserPlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { GameRoom } from '@/lib/localNetwork';
+import { createRoomInvite, type RoomInvite } from '@/lib/roomInvites';
+import { toast } from '@/hooks/use-toast';
+import PairingQrCode from './PairingQrCode';
+
+interface RoomInvitePanelProps {
+  room: GameRoom;
+}
+
+const EXPIRY_OPTIONS = [
+  { minutes: 15, label: '15 min' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 24 * 60, label: '1 day' },
+];
+
+// Host side of online rooms: mint an invite link and show it as a QR code
+const RoomInvitePanel = ({ room }: RoomInvitePanelProps) => {
+  const [uses, setUses] = useState<'single' | 'group'>('single');
+  const [minutes, setMinutes] = useState(60);
+  const [invite, setInvite] = useState<RoomInvite | null>(null);
+  const [creating, setCreating] = useState(false);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    const created = await createRoomInvite(room.id, {
+      maxUses: uses === 'single' ? 1 : null,
+      ttlMinutes: minutes
+    });
+    setCreating(false);
+    if (!created) {
+      toast({
+        title: "Couldn't Create Invite",
+        description: "Check your connection and try again",
+        variant: "destructive"
+      });
+      return;
+    }
+    setInvite(created);
+  };
+
+  return (
+    <div className="space-y-3 p-3 rounded-lg border border-border">
+      <div className="flex items-center gap-2">
+        <Link2 className="w-4 h-4 text-primary" />
+        <h4 className="text-sm font-medium">Invite players</h4>
+      </div>
+
+      {invite ? (
+        <div className="space-y-3">
+          <PairingQrCode
+            code={invite.url}
+            caption={`${uses === 'single' ? 'Works once' : 'Anyone with it can join'} · expires ${formatDistanceToNow(new Date(invite.expiresAt), { addSuffix: true })}`}
+            copyLabel="Copy invite link"
+          />
+          <Button variant="ghost" size="sm" onClick={() => setInvite(null)} className="w-full">
+            Make another invite
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <RadioGroup value={uses} onValueChange={(v) => setUses(v as 'single' | 'group')} className="grid grid-cols-2 gap-2">
+            <Label htmlFor="invite-single" className="flex items-center gap-2 p-2 rounded-md border border-border cursor-pointer text-xs">
+              <RadioGroupItem value="single" id="invite-single" />
+              One player
+            </Label>
+            <Label htmlFor="invite-group" className="flex items-center gap-2 p-2 rounded-md border border-border cursor-pointer text-xs">
+              <RadioGroupItem value="group" id="invite-group" />
+              Whole group
+            </Label>
+          </RadioGroup>
+          <div className="flex gap-1">
+            {EXPIRY_OPTIONS.map(option => (
+              <Button
+                key={option.minutes}
+                variant={minutes === option.minutes ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setMinutes(option.minutes)}
+                className="flex-1 text-xs"
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+          <Button variant="outline" onClick={handleCreate} disabled={creating} className="w-full gap-2">
+            {creating ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+            Create invite
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RoomInvitePanel;
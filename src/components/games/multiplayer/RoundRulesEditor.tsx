@@ -0,0 +1,131 @@
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
+import { RoomRules } from '@/lib/localNetwork';
+
+interface RoundRulesEditorProps {
+  rules: RoomRules;
+  onChange: (rules: RoomRules) => void;
+  // Sudden death needs someone to win; cooperative rooms play as one side
+  allowSuddenDeath: boolean;
+}
+
+const TIME_LIMITS: { value: number | null; label: string }[] = [
+  { value: null, label: 'Game default' },
+  { value: 15, label: '15s' },
+  { value: 30, label: '30s' },
+  { value: 60, label: '60s' },
+];
+
+const SPEED_BONUSES: { value: RoomRules['speedBonus']; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'linear', label: 'Up to 2×' },
+  { value: 'steep', label: 'Steep, 3×' },
+];
+
+const PENALTIES = [0, 5, 10];
+
+const HINT_COSTS: { value: number | null; label: string }[] = [
+  { value: null, label: 'Off' },
+  { value: 0, label: 'Free' },
+  { value: 5, label: '5 pts' },
+  { value: 10, label: '10 pts' },
+];
+
+// A row of buttons, one per choice
+const ChoiceRow = <T,>({ label, options, value, onSelect }: {
+  label: string;
+  options: { value: T; label: string }[];
+  value: T;
+  onSelect: (value: T) => void;
+}) => (
+  <div className="space-y-1.5">
+    <Label className="text-xs">{label}</Label>
+    <div className="flex gap-1">
+      {options.map(option => (
+        <Button
+          key={option.label}
+          type="button"
+          variant={value === option.value ? 'secondary' : 'ghost'}
+          size="sm"
+          onClick={() => onSelect(option.value)}
+          className="flex-1 text-xs"
+        >
+          {option.label}
+        </Button>
+      ))}
+    </div>
+  </div>
+);
+
+// Host picks how rounds are timed and scored when creating a room
+const RoundRulesEditor = ({ rules, onChange, allowSuddenDeath }: RoundRulesEditorProps) => {
+  const update = (changes: Partial<RoomRules>) => onChange({ ...rules, ...changes });
+
+  return (
+    <div className="space-y-3 p-3 rounded-lg border border-border">
+      <ChoiceRow
+        label="Time per question"
+        options={TIME_LIMITS}
+        value={rules.timeLimit}
+        onSelect={(timeLimit) => update({ timeLimit })}
+      />
+      <ChoiceRow
+        label="Speed bonus"
+        options={SPEED_BONUSES}
+        value={rules.speedBonus}
+        onSelect={(speedBonus) => update({ speedBonus })}
+      />
+      <ChoiceRow
+        label="Wrong answer penalty"
+        options={PENALTIES.map(value => ({ value, label: value ? `−${value} pts` : 'None' }))}
+        value={rules.wrongPenalty}
+        onSelect={(wrongPenalty) => update({ wrongPenalty })}
+      />
+      <ChoiceRow
+        label="Hints"
+        options={HINT_COSTS}
+        value={rules.hintCost}
+        onSelect={(hintCost) => update({ hintCost })}
+      />
+
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <Label htmlFor="rule-fifty-fifty" className="text-xs">50/50 lifeline</Label>
+          <p className="text-xs text-muted-foreground">Once a game, take away all but one wrong option</p>
+        </div>
+        <Switch
+          id="rule-fifty-fifty"
+          checked={rules.lifelines.fiftyFifty}
+          onCheckedChange={(fiftyFifty) => update({ lifelines: { ...rules.lifelines, fiftyFifty } })}
+        />
+      </div>
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <Label htmlFor="rule-skip" className="text-xs">Skip lifeline</Label>
+          <p className="text-xs text-muted-foreground">Once a game, pass on a question without risking a penalty</p>
+        </div>
+        <Switch
+          id="rule-skip"
+          checked={rules.lifelines.skip}
+          onCheckedChange={(skip) => update({ lifelines: { ...rules.lifelines, skip } })}
+        />
+      </div>
+      {allowSuddenDeath && (
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <Label htmlFor="rule-sudden-death" className="text-xs">Sudden death</Label>
+            <p className="text-xs text-muted-foreground">Tied leaders play extra questions to settle it</p>
+          </div>
+          <Switch
+            id="rule-sudden-death"
+            checked={rules.suddenDeath}
+            onCheckedChange={(suddenDeath) => update({ suddenDeath })}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RoundRulesEditor;
@@ -0,0 +1,101 @@
+import { JOURNEY_STOPS } from '@/lib/multiplayerGames';
+
+const GROUP_COLORS = ['#ef4444', '#3b82f6', '#22c55e', '#f59e0b'];
+
+interface SharedMapProps {
+  variant: 'journey' | 'path';
+  total: number;
+  groups: { id: string; name: string }[];
+  progress: Record<string, number>;
+}
+
+const stopPosition = (i: number, total: number) => ({
+  x: 30 + (i / Math.max(total, 1)) * 340,
+  y: 150 - Math.sin((i / Math.max(total, 1)) * Math.PI) * 80 - (i / Math.max(total, 1)) * 30
+});
+
+// Journey and path games: everyone shares one map and each group (the whole
+// party, or each team) moves a stop forward when most of it answers right
+const SharedMap = ({ variant, total, groups, progress }: SharedMapProps) => {
+  const stops = Array.from({ length: total + 1 }, (_, i) =>
+    variant === 'journey' ? (i === total ? 'Jerusalem' : JOURNEY_STOPS[i] || `Stop ${i + 1}`) : null
+  );
+
+  return (
+    <div className="rounded-2xl border border-border bg-card overflow-hidden">
+      <svg viewBox="0 0 400 190" className="w-full h-auto" aria-hidden>
+        <defs>
+          <linearGradient id="shared-map-bg" x1="0" y1="0" x2="0" y2="1">
+            <stop offset="0%" stopColor="hsl(var(--primary) / 0.08)" />
+            <stop offset="100%" stopColor="hsl(var(--muted) / 0.4)" />
+          </linearGradient>
+        </defs>
+        <rect width="400" height="190" fill="url(#shared-map-bg)" rx="16" />
+
+        {/* Route */}
+        {stops.map((_, i) => {
+          if (i === 0) return null;
+          const from = stopPosition(i - 1, total);
+          const to = stopPosition(i, total);
+          return (
+            <line
+              key={`route-${i}`}
+              x1={from.x} y1={from.y} x2={to.x} y2={to.y}
+              stroke="hsl(var(--muted-foreground) / 0.3)"
+              strokeWidth={2}
+              strokeDasharray="6 4"
+            />
+          );
+        })}
+
+        {/* Stops */}
+        {stops.map((label, i) => {
+          const { x, y } = stopPosition(i, total);
+          const isEnd = i === total;
+          return (
+            <g key={`stop-${i}`}>
+              <circle cx={x} cy={y} r={isEnd ? 7 : 4} fill="hsl(var(--muted-foreground) / 0.35)" />
+              {label && (
+                <text x={x} y={y + 16} textAnchor="middle" fontSize={isEnd ? 9 : 7} fill="hsl(var(--muted-foreground))">
+                  {label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+
+        {/* Group markers, nudged apart when they share a stop */}
+        {groups.map((group, index) => {
+          const step = Math.min(progress[group.id] || 0, total);
+          const { x, y } = stopPosition(step, total);
+          const offset = (index - (groups.length - 1) / 2) * 9;
+          return (
+            <g key={group.id}>
+              <circle
+                cx={x + offset} cy={y - 12}
+                r={6}
+                fill={GROUP_COLORS[index % GROUP_COLORS.length]}
+                stroke="hsl(var(--background))"
+                strokeWidth={2}
+              />
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="px-4 py-2 border-t border-border flex flex-wrap gap-3 text-xs">
+        {groups.map((group, index) => (
+          <span key={group.id} className="flex items-center gap-1.5">
+            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: GROUP_COLORS[index % GROUP_COLORS.length] }} />
+            <span className="font-medium">{group.name}</span>
+            <span className="text-muted-foreground">
+              {Math.min(progress[group.id] || 0, total)}/{total} stops
+            </span>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SharedMap;
@@ -0,0 +1,54 @@
+import { Flag, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useTeamSeasonLeaderboard } from '@/hooks/useBibleGames';
+import { cn } from '@/lib/utils';
+
+const TeamSeasonLeaderboard = () => {
+  const { standings, loading, season } = useTeamSeasonLeaderboard();
+
+  if (!loading && standings.length === 0) return null;
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader className="py-3">
+        <CardTitle className="text-sm flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Flag className="w-4 h-4 text-primary" />
+            Team Standings
+          </span>
+          <span className="text-xs font-normal text-muted-foreground">Season {season}</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-1">
+            {standings.map((team, index) => (
+              <div
+                key={team.team_name}
+                className={cn(
+                  "flex items-center gap-3 p-2 rounded-lg text-sm",
+                  index === 0 && "bg-amber-500/10"
+                )}
+              >
+                <span className="w-6 font-bold">
+                  {index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : `${index + 1}.`}
+                </span>
+                <span className="flex-1 font-medium truncate">{team.team_name}</span>
+                <span className="text-xs text-muted-foreground">
+                  {team.wins}W / {team.matches_played}
+                </span>
+                <span className="font-bold text-primary w-16 text-right">{team.total_score} pts</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TeamSeasonLeaderboard;
@@ -0,0 +1,163 @@
+import { useState, useEffect } from 'react';
+import { Flag, Plus, Shuffle, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { GameRoom, LocalPeer, balanceTeams, createTeam, getActivePlayers } from '@/lib/localNetwork';
+import { cn } from '@/lib/utils';
+
+const MAX_TEAMS = 4;
+
+const TEAM_COLORS = [
+  'border-red-500/40 bg-red-500/5',
+  'border-blue-500/40 bg-blue-500/5',
+  'border-green-500/40 bg-green-500/5',
+  'border-amber-500/40 bg-amber-500/5'
+];
+
+interface TeamSetupProps {
+  room: GameRoom;
+  isHost: boolean;
+  localId: string;
+  onUpdateRoomSettings?: (settings: Partial<GameRoom>) => void;
+}
+
+const TeamSetup = ({ room, isHost, localId, onUpdateRoomSettings }: TeamSetupProps) => {
+  const teams = room.teams || [];
+  const players = getActivePlayers(room);
+  // Apply changed players to the full room list, spectators included
+  const withPlayers = (changed: LocalPeer[]) =>
+    room.currentPlayers.map(p => changed.find(c => c.id === p.id) || p);
+  const [names, setNames] = useState<Record<string, string>>({});
+
+  // Keep the name inputs in sync with what the host last saved
+  useEffect(() => {
+    setNames(Object.fromEntries((room.teams || []).map(t => [t.id, t.name])));
+  }, [room.teams]);
+
+  const update = (settings: Partial<GameRoom>) => {
+    if (isHost) onUpdateRoomSettings?.(settings);
+  };
+
+  const saveName = (teamId: string) => {
+    const name = names[teamId]?.trim();
+    const team = teams.find(t => t.id === teamId);
+    if (!team || !name || name === team.name) return;
+    update({ teams: teams.map(t => t.id === teamId ? { ...t, name } : t) });
+  };
+
+  // Tapping a player moves them to the next team
+  const movePlayer = (player: LocalPeer) => {
+    if (!isHost || teams.length === 0) return;
+    const index = teams.findIndex(t => t.id === player.teamId);
+    const nextTeam = teams[(index + 1) % teams.length];
+    update({
+      currentPlayers: withPlayers([{ ...player, teamId: nextTeam.id }])
+    });
+  };
+
+  const addTeam = () => {
+    update({ teams: [...teams, createTeam(`Team ${teams.length + 1}`)] });
+  };
+
+  const removeTeam = (teamId: string) => {
+    const remaining = teams.filter(t => t.id !== teamId);
+    const unassigned = players.map(p => p.teamId === teamId ? { ...p, teamId: undefined } : p);
+    update({ teams: remaining, currentPlayers: withPlayers(balanceTeams(unassigned, remaining)) });
+  };
+
+  const autoBalance = () => {
+    // Shuffle first so balancing mixes the sides up rather than keeping them
+    const shuffled = [...players]
+      .map(p => ({ ...p, teamId: undefined }))
+      .sort(() => Math.random() - 0.5);
+    const balanced = balanceTeams(shuffled, teams);
+    update({
+      currentPlayers: withPlayers(balanced)
+    });
+  };
+
+  const unassigned = players.filter(p => !teams.some(t => t.id === p.teamId));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium flex items-center gap-2">
+          <Flag className="w-4 h-4 text-primary" />
+          Teams
+        </h4>
+        {isHost && (
+          <div className="flex gap-1">
+            <Button variant="ghost" size="sm" onClick={autoBalance} className="gap-1">
+              <Shuffle className="w-4 h-4" />
+              Auto-balance
+            </Button>
+            {teams.length < MAX_TEAMS && (
+              <Button variant="ghost" size="sm" onClick={addTeam} className="gap-1">
+                <Plus className="w-4 h-4" />
+                Add
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {teams.map((team, index) => {
+          const members = players.filter(p => p.teamId === team.id);
+          return (
+            <div key={team.id} className={cn('rounded-lg border-2 p-2 space-y-2', TEAM_COLORS[index % TEAM_COLORS.length])}>
+              <div className="flex items-center gap-1">
+                {isHost ? (
+                  <Input
+                    value={names[team.id] ?? team.name}
+                    onChange={(e) => setNames(prev => ({ ...prev, [team.id]: e.target.value }))}
+                    onBlur={() => saveName(team.id)}
+                    onKeyDown={(e) => e.key === 'Enter' && saveName(team.id)}
+                    maxLength={30}
+                    className="h-8 text-sm font-medium"
+                  />
+                ) : (
+                  <span className="text-sm font-medium flex-1 truncate">{team.name}</span>
+                )}
+                {isHost && teams.length > 2 && (
+                  <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={() => removeTeam(team.id)}>
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {members.length === 0 && (
+                  <span className="text-xs text-muted-foreground">No players yet</span>
+                )}
+                {members.map(player => (
+                  <button
+                    key={player.id}
+                    onClick={() => movePlayer(player)}
+                    disabled={!isHost}
+                    title={isHost ? 'Move to the next team' : undefined}
+                    className={cn(
+                      'px-2 py-0.5 rounded-full text-xs bg-background border border-border',
+                      isHost && 'hover:border-primary',
+                      player.id === localId && 'font-semibold'
+                    )}
+                  >
+                    {player.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {unassigned.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Not on a team yet: {unassigned.map(p => p.name).join(', ')}
+          {isHost && ' — use Auto-balance to place them'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TeamSetup;
@@ -0,0 +1,43 @@
+import { useState, useEffect } from 'react';
+import { Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface TypedAnswerInputProps {
+  questionId: string;
+  disabled: boolean;
+  onSubmit: (answer: string) => void;
+}
+
+// Fill-in-the-blank rounds: case and punctuation don't matter
+const TypedAnswerInput = ({ questionId, disabled, onSubmit }: TypedAnswerInputProps) => {
+  const [answer, setAnswer] = useState('');
+
+  useEffect(() => {
+    setAnswer('');
+  }, [questionId]);
+
+  const handleSubmit = () => {
+    if (disabled || !answer.trim()) return;
+    onSubmit(answer.trim());
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Input
+        value={answer}
+        onChange={(e) => setAnswer(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+        placeholder="Type the missing word..."
+        disabled={disabled}
+        className="flex-1"
+      />
+      <Button onClick={handleSubmit} disabled={disabled || !answer.trim()} className="gap-2">
+        <Send className="w-4 h-4" />
+        Submit
+      </Button>
+    </div>
+  );
+};
+
+export default TypedAnswerInput;
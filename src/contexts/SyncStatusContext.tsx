@@ -1,5 +1,5 @@
 import { createContext, useContext, useState, useEffect, useCallback } from 'react';
-import { getSyncQueue, getMetadata } from '@/lib/offlineDb';
+import { getSyncQueue, getMetadata, getSyncConflicts } from '@/lib/offlineDb';
 import { getAllQueuedMessages } from '@/lib/offlineChat';
 
 export interface SyncStatus {
@@ -10,6 +10,7 @@ export interface SyncStatus {
   lastSyncTime: number | null;
   lastSyncError: string | null;
   totalItemsQueued: number;
+  conflictCount: number;
 }
 
 interface SyncStatusContextType {
@@ -28,7 +29,8 @@ export const SyncStatusProvider = ({ children }: { children: React.ReactNode })
     messageQueueCount: 0,
     lastSyncTime: null,
     lastSyncError: null,
-    totalItemsQueued: 0
+    totalItemsQueued: 0,
+    conflictCount: 0
   });
 
   // Refresh status from IndexedDB
@@ -37,13 +39,15 @@ export const SyncStatusProvider = ({ children }: { children: React.ReactNode })
       const queue = await getSyncQueue();
       const messages = await getAllQueuedMessages();
       const lastSync = await getMetadata('lastSync');
+      const conflicts = await getSyncConflicts();
 
       setStatus(prev => ({
         ...prev,
         queueCount: queue.length,
         messageQueueCount: messages.length,
         lastSyncTime: lastSync as number | null,
-        totalItemsQueued: queue.length + messages.length
+        totalItemsQueued: queue.length + messages.length,
+        conflictCount: conflicts.length
       }));
     } catch (error) {
       console.error('[SyncStatusContext] Error refreshing status:', error);
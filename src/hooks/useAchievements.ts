@@ -4,6 +4,14 @@ import { useAuth } from "@/hooks/useAuth";
 import { toast } from "@/hooks/use-toast";
 import { getAll, putAll, put, getById, addToSyncQueue } from "@/lib/offlineDb";
 import { useOnlineStatus } from "./useOnlineStatus";
+import {
+  getRequiredSources,
+  loadAchievementStats,
+  meetsCriteria,
+  parseCriteriaParams,
+  type CriteriaParams,
+} from "@/lib/achievementCriteria";
+import { ACHIEVEMENTS_EVALUATED_EVENT, evaluateAchievementsOnServer } from "@/lib/achievementSync";
 
 export interface Achievement {
   id: string;
@@ -14,6 +22,7 @@ export interface Achievement {
   category: string;
   criteria_type: string;
   criteria_value: number;
+  criteria_params: CriteriaParams;
   points: number;
 }
 
@@ -22,6 +31,8 @@ export interface UserAchievement {
   user_id: string;
   achievement_id: string;
   earned_at: string;
+  /** Unlocked on this device and not yet confirmed by evaluate-achievements */
+  pending?: boolean;
 }
 
 export interface UserStreaks {
@@ -34,6 +45,16 @@ export interface UserStreaks {
   last_game_date: string | null;
   total_logins: number;
   total_games_played: number;
+  current_reading_streak: number;
+  longest_reading_streak: number;
+  last_reading_date: string | null;
+  total_readings: number;
+}
+
+// What the server is told happened; it works out the streaks itself
+interface StreakActivity {
+  kind: "login" | "game" | "reading";
+  day: string;
 }
 
 const defaultStreaks: UserStreaks = {
@@ -45,6 +66,10 @@ const defaultStreaks: UserStreaks = {
   last_game_date: null,
   total_logins: 0,
   total_games_played: 0,
+  current_reading_streak: 0,
+  longest_reading_streak: 0,
+  last_reading_date: null,
+  total_readings: 0,
 };
 
 export const useAchievements = () => {
@@ -86,8 +111,15 @@ export const useAchievements = () => {
             .select("*")
             .eq("user_id", user.id);
           if (earned) {
-            setEarnedAchievements(earned as UserAchievement[]);
-            try { await putAll("user_achievements", earned as UserAchievement[]); } catch { /* ignore */ }
+            // Keep showing unconfirmed local badges until the server rules on them
+            const serverIds = new Set(earned.map((e) => e.achievement_id));
+            let unconfirmed: UserAchievement[] = [];
+            try {
+              unconfirmed = (await getAll<UserAchievement>("user_achievements"))
+                .filter((e) => e.user_id === user.id && e.pending && !serverIds.has(e.achievement_id));
+              await putAll("user_achievements", earned as UserAchievement[]);
+            } catch { /* ignore */ }
+            setEarnedAchievements([...(earned as UserAchievement[]), ...unconfirmed]);
           }
 
           const { data: streakData } = await supabase
@@ -113,6 +145,18 @@ export const useAchievements = () => {
     fetchAll();
   }, [fetchAll]);
 
+  // Pick up badges the server awarded or rolled back
+  useEffect(() => {
+    if (!user) return;
+    const handleEvaluated = () => {
+      getAll<UserAchievement>("user_achievements")
+        .then((rows) => setEarnedAchievements(rows.filter((e) => e.user_id === user.id)))
+        .catch(() => {});
+    };
+    window.addEventListener(ACHIEVEMENTS_EVALUATED_EVENT, handleEvaluated);
+    return () => window.removeEventListener(ACHIEVEMENTS_EVALUATED_EVENT, handleEvaluated);
+  }, [user]);
+
   const getTodayDate = () => new Date().toISOString().split("T")[0];
 
   // Compute next streak state from current cached row
@@ -167,22 +211,51 @@ export const useAchievements = () => {
     };
   };
 
-  const persistStreaks = async (next: UserStreaks) => {
+  const computeNextReadingStreak = (existing: UserStreaks | undefined, today: string): UserStreaks => {
+    if (!existing) {
+      return {
+        ...defaultStreaks,
+        current_reading_streak: 1,
+        longest_reading_streak: 1,
+        last_reading_date: today,
+        total_readings: 1,
+      };
+    }
+    const lastDate = existing.last_reading_date ? new Date(existing.last_reading_date) : null;
+    const todayDate = new Date(today);
+    const diffDays = lastDate ? Math.floor((todayDate.getTime() - lastDate.getTime()) / 86400000) : 999;
+    let newStreak = existing.current_reading_streak || 0;
+    if (existing.last_reading_date !== today) {
+      newStreak = diffDays === 1 ? newStreak + 1 : 1;
+    }
+    return {
+      ...existing,
+      current_reading_streak: newStreak,
+      longest_reading_streak: Math.max(existing.longest_reading_streak || 0, newStreak),
+      last_reading_date: today,
+      total_readings: (existing.total_readings || 0) + 1,
+    };
+  };
+
+  // The row worked out here is only a preview. The server keeps the real
+  // streaks, from the activity we report to it (later, if offline).
+  const persistStreaks = async (next: UserStreaks, activity: StreakActivity) => {
     if (!user) return;
     const row = { ...next, user_id: user.id };
     try { await put("user_streaks", row); } catch { /* ignore */ }
     setStreaks(row);
 
     if (isOnline) {
-      try {
-        await supabase.from("user_streaks").upsert(row, { onConflict: "user_id" });
-      } catch (e) {
-        console.error("[useAchievements] streak upsert failed, queueing:", e);
-        await addToSyncQueue({ table: "user_streaks", action: "update", data: row });
+      const { data, error } = await supabase.rpc("record_streak_activity", { _kind: activity.kind, _day: activity.day });
+      if (!error && data) {
+        const fresh = data as unknown as UserStreaks;
+        try { await put("user_streaks", fresh); } catch { /* ignore */ }
+        setStreaks(fresh);
+        return;
       }
-    } else {
-      await addToSyncQueue({ table: "user_streaks", action: "update", data: row });
+      console.error("[useAchievements] streak update failed, queueing:", error);
     }
+    await addToSyncQueue({ table: "user_streaks", action: "insert", data: activity });
   };
 
   const recordLogin = useCallback(async () => {
@@ -195,7 +268,7 @@ export const useAchievements = () => {
       if (existing && existing.last_login_date === today) return; // already counted
 
       const next = computeNextLoginStreak(existing, today);
-      await persistStreaks(next);
+      await persistStreaks(next, { kind: "login", day: today });
       await checkAndAwardAchievements(next);
     } catch (e) {
       console.error("Error recording login:", e);
@@ -211,7 +284,7 @@ export const useAchievements = () => {
         (await getById<UserStreaks>("user_streaks", user.id)) ||
         (streaks.last_login_date !== null || streaks.total_logins > 0 ? { ...streaks, user_id: user.id } : undefined);
       const next = computeNextGameStreak(existing, today);
-      await persistStreaks(next);
+      await persistStreaks(next, { kind: "game", day: today });
       await checkAndAwardAchievements(next);
     } catch (e) {
       console.error("Error recording game:", e);
@@ -219,6 +292,22 @@ export const useAchievements = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [user, isOnline]);
 
+  const recordReading = useCallback(async () => {
+    if (!user) return;
+    const today = getTodayDate();
+    try {
+      const existing =
+        (await getById<UserStreaks>("user_streaks", user.id)) ||
+        (streaks.last_login_date !== null || streaks.total_logins > 0 ? { ...streaks, user_id: user.id } : undefined);
+      const next = computeNextReadingStreak(existing, today);
+      await persistStreaks(next, { kind: "reading", day: today });
+      await checkAndAwardAchievements(next);
+    } catch (e) {
+      console.error("Error recording reading:", e);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, isOnline]);
+
   const checkAndAwardAchievements = useCallback(
     async (latestStreaks?: UserStreaks) => {
       if (!user) return;
@@ -227,72 +316,44 @@ export const useAchievements = () => {
         const allAch = await getAll<Achievement>("achievements");
         const earnedAll = await getAll<UserAchievement>("user_achievements");
         const earned = earnedAll.filter((e) => e.user_id === user.id);
-        const streak = latestStreaks || (await getById<UserStreaks>("user_streaks", user.id)) || streaks;
-        const scores = (await getAll<{ user_id: string; score: number }>("game_scores")).filter(
-          (s) => s.user_id === user.id
+        const earnedIds = new Set(earned.map((e) => e.achievement_id));
+        const pending = allAch.filter((a) => !earnedIds.has(a.id));
+        if (pending.length === 0) return;
+
+        // Load only the stats the unearned badges depend on
+        const stats = await loadAchievementStats(
+          user.id,
+          getRequiredSources(pending.map((a) => a.criteria_type)),
+          isOnline,
+          latestStreaks || (await getById<UserStreaks>("user_streaks", user.id)) || streaks
         );
 
-        const earnedIds = new Set(earned.map((e) => e.achievement_id));
-        const totalScore = scores.reduce((sum, s) => sum + (s.score || 0), 0);
-        const totalGames = streak?.total_games_played || 0;
-        const loginStreak = streak?.current_login_streak || 0;
-        const gameStreak = streak?.current_game_streak || 0;
-
-        for (const ach of allAch) {
-          if (earnedIds.has(ach.id)) continue;
-          let met = false;
-          switch (ach.criteria_type) {
-            case "games_played":
-              met = totalGames >= ach.criteria_value;
-              break;
-            case "total_score":
-              met = totalScore >= ach.criteria_value;
-              break;
-            case "login_streak":
-              met = loginStreak >= ach.criteria_value;
-              break;
-            case "game_streak":
-              met = gameStreak >= ach.criteria_value;
-              break;
-          }
+        let unlocked = 0;
+        for (const ach of pending) {
+          const met = meetsCriteria(stats, ach.criteria_type, ach.criteria_value, parseCriteriaParams(ach.criteria_params));
           if (!met) continue;
 
+          // Optimistic: show it now, the server confirms or rolls it back
           const newRow: UserAchievement = {
             id: crypto.randomUUID(),
             user_id: user.id,
             achievement_id: ach.id,
             earned_at: new Date().toISOString(),
+            pending: true,
           };
 
-          // Save locally first so it survives offline
           try { await put("user_achievements", newRow); } catch { /* ignore */ }
           setEarnedAchievements((prev) => [...prev, newRow]);
-
-          if (isOnline) {
-            const { error } = await supabase.from("user_achievements").insert({
-              user_id: user.id,
-              achievement_id: ach.id,
-            });
-            if (error && error.code !== "23505") {
-              await addToSyncQueue({
-                table: "user_achievements",
-                action: "insert",
-                data: { user_id: user.id, achievement_id: ach.id },
-              });
-            }
-          } else {
-            await addToSyncQueue({
-              table: "user_achievements",
-              action: "insert",
-              data: { user_id: user.id, achievement_id: ach.id },
-            });
-          }
+          unlocked++;
 
           toast({
             title: `${ach.icon} Achievement Unlocked!`,
             description: `${ach.title} — +${ach.points} XP`,
           });
         }
+
+        // Offline unlocks are evaluated after the next sync
+        if (unlocked > 0 && isOnline) void evaluateAchievementsOnServer();
       } catch (e) {
         console.error("Error checking achievements:", e);
       }
@@ -312,6 +373,8 @@ export const useAchievements = () => {
     totalXP,
     recordLogin,
     recordGamePlayed,
+    recordReading,
+    checkAchievements: checkAndAwardAchievements,
     refetch: fetchAll,
   };
 };
@@ -91,7 +91,7 @@ export const useActivities = () => {
       if (error) throw error;
       await fetchActivities();
     } else {
-      await addToSyncQueue({ table: 'activities', action: 'update', data: { id, ...updates } });
+      await addToSyncQueue({ table: 'activities', action: 'update', data: { id, ...updates }, base: existing });
     }
   };
 
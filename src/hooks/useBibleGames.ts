@@ -36,6 +36,8 @@ export interface GameScore {
   score: number;
   games_played: number;
   highest_streak: number;
+  perfect_games: number;
+  wins: number;
   created_at: string;
   updated_at: string;
   profiles?: {
@@ -56,7 +58,8 @@ export interface LocalGameProgress {
 const GAMES_STORE = 'bible_games';
 const PROGRESS_STORE = 'game_progress';
 
-export const useBibleGames = (gameType?: string) => {
+// Pass enabled: false to skip loading until the games are actually needed
+export const useBibleGames = (gameType?: string, { enabled = true }: { enabled?: boolean } = {}) => {
   const [games, setGames] = useState<BibleGame[]>([]);
   const [loading, setLoading] = useState(true);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
@@ -76,6 +79,11 @@ export const useBibleGames = (gameType?: string) => {
   }, []);
 
   const fetchGames = useCallback(async () => {
+    if (!enabled) {
+      setGames([]);
+      setLoading(false);
+      return;
+    }
     setLoading(true);
     try {
       if (isOnline) {
@@ -126,7 +134,7 @@ export const useBibleGames = (gameType?: string) => {
     } finally {
       setLoading(false);
     }
-  }, [gameType, isOnline]);
+  }, [gameType, isOnline, enabled]);
 
   useEffect(() => {
     fetchGames();
@@ -151,41 +159,21 @@ export const useBibleGames = (gameType?: string) => {
     }
   };
 
-  // Sync score to server
+  // Sync score to server. The server adds the game to the totals, working out
+  // from the answers it has seen whether it was perfect; players can't write
+  // them directly.
   const syncScore = async (gameType: string, points: number, streak: number) => {
     if (!user || !isOnline) return;
 
     try {
-      // Get existing score
-      const { data: existing } = await supabase
-        .from('game_scores')
-        .select('*')
-        .eq('user_id', user.id)
-        .eq('game_type', gameType)
-        .single();
-
-      if (existing) {
-        // Update existing
-        await supabase
-          .from('game_scores')
-          .update({
-            score: existing.score + points,
-            games_played: existing.games_played + 1,
-            highest_streak: Math.max(existing.highest_streak, streak)
-          })
-          .eq('id', existing.id);
-      } else {
-        // Insert new
-        await supabase
-          .from('game_scores')
-          .insert({
-            user_id: user.id,
-            game_type: gameType,
-            score: points,
-            games_played: 1,
-            highest_streak: streak
-          });
-      }
+      const { data: saved, error } = await supabase.rpc('record_game_score', {
+        _game_type: gameType,
+        _points: points,
+        _streak: streak,
+      });
+      if (error) throw error;
+      // Keep the achievement evaluator's cache current
+      if (saved) await put('game_scores', saved);
     } catch (error) {
       console.error('Error syncing score:', error);
     }
@@ -207,6 +195,8 @@ export interface AggregatedScore {
   total_score: number;
   total_games_played: number;
   highest_streak: number;
+  // Room wins; only multiplayer scores count wins
+  total_wins?: number;
   games: { game_type: string; score: number; games_played: number }[];
   profiles?: {
     username: string;
@@ -260,6 +250,7 @@ export const useLeaderboard = (gameType?: string) => {
           total_score: number;
           total_games_played: number;
           highest_streak: number;
+          total_wins: number;
           games: { game_type: string; score: number; games_played: number }[];
         }>();
 
@@ -269,6 +260,7 @@ export const useLeaderboard = (gameType?: string) => {
             existing.total_score += score.score;
             existing.total_games_played += score.games_played;
             existing.highest_streak = Math.max(existing.highest_streak, score.highest_streak);
+            existing.total_wins += score.wins || 0;
             existing.games.push({
               game_type: score.game_type,
               score: score.score,
@@ -280,6 +272,7 @@ export const useLeaderboard = (gameType?: string) => {
               total_score: score.score,
               total_games_played: score.games_played,
               highest_streak: score.highest_streak,
+              total_wins: score.wins || 0,
               games: [{
                 game_type: score.game_type,
                 score: score.score,
@@ -321,3 +314,72 @@ export const useLeaderboard = (gameType?: string) => {
 
   return { scores, loading, isOnline, refetch: fetchScores };
 };
+
+export interface TeamStanding {
+  team_name: string;
+  total_score: number;
+  matches_played: number;
+  wins: number;
+}
+
+// Seasons are calendar quarters, matching record-multiplayer-result
+export const getSeason = (date: Date = new Date()) =>
+  `${date.getUTCFullYear()}-Q${Math.floor(date.getUTCMonth() / 3) + 1}`;
+
+// Season standings for 'teams' multiplayer matches. Teams are grouped by
+// name, so a fellowship that keeps its team name builds up a record.
+export const useTeamSeasonLeaderboard = (season: string = getSeason()) => {
+  const [standings, setStandings] = useState<TeamStanding[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchStandings = useCallback(async () => {
+    if (!navigator.onLine) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('multiplayer_team_results')
+        .select('team_name, score, won')
+        .eq('season', season);
+
+      if (error) throw error;
+
+      const byTeam = new Map<string, TeamStanding>();
+      (data || []).forEach((row) => {
+        const key = row.team_name.trim().toLowerCase();
+        const existing = byTeam.get(key);
+        if (existing) {
+          existing.total_score += row.score;
+          existing.matches_played += 1;
+          existing.wins += row.won ? 1 : 0;
+        } else {
+          byTeam.set(key, {
+            team_name: row.team_name.trim(),
+            total_score: row.score,
+            matches_played: 1,
+            wins: row.won ? 1 : 0,
+          });
+        }
+      });
+
+      setStandings(
+        Array.from(byTeam.values())
+          .sort((a, b) => b.wins - a.wins || b.total_score - a.total_score)
+          .slice(0, 10)
+      );
+    } catch (error) {
+      console.error('Error fetching team standings:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [season]);
+
+  useEffect(() => {
+    fetchStandings();
+  }, [fetchStandings]);
+
+  return { standings, loading, season, refetch: fetchStandings };
+};
@@ -2,11 +2,15 @@ import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { getAll, putAll, getById } from "@/lib/offlineDb";
 import { useOnlineStatus } from "./useOnlineStatus";
+import { attachmentSummary, type MessageAttachment } from "@/lib/chatAttachments";
+import { CONVERSATION_READ_EVENT, toCachedRead, type MessageRead } from "./useMessageReads";
 
 interface Participant {
   user_id: string;
   username: string;
   avatar_url: string | null;
+  // No push notifications from the conversation until then; 'infinity' mutes indefinitely
+  muted_until?: string | null;
 }
 
 export interface Conversation {
@@ -22,6 +26,7 @@ export interface Conversation {
     created_at: string;
     sender_id: string;
   };
+  unreadCount: number;
 }
 
 interface CachedConversation {
@@ -40,6 +45,7 @@ interface CachedMessage {
   content: string;
   created_at: string;
   sender_id: string;
+  attachments?: MessageAttachment[];
 }
 
 interface CachedProfile {
@@ -49,6 +55,22 @@ interface CachedProfile {
   avatar_url: string | null;
 }
 
+/** Whether a participant's muted_until is still in effect. */
+export const isMuted = (mutedUntil: string | null | undefined) => {
+  if (!mutedUntil) return false;
+  return mutedUntil === "infinity" || new Date(mutedUntil).getTime() > Date.now();
+};
+
+// Messages from others sent after the user's read cursor; with no cursor, all of them
+const countUnread = (
+  msgs: { created_at: string; sender_id: string }[],
+  lastReadAt: string | undefined,
+  uid: string
+) => {
+  const cursor = lastReadAt ? new Date(lastReadAt).getTime() : 0;
+  return msgs.filter((m) => m.sender_id !== uid && new Date(m.created_at).getTime() > cursor).length;
+};
+
 export const useConversations = (userId: string | undefined) => {
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [loading, setLoading] = useState(true);
@@ -59,7 +81,9 @@ export const useConversations = (userId: string | undefined) => {
       const allConvs = await getAll<CachedConversation>("conversations");
       const allMsgs = await getAll<CachedMessage>("messages");
       const allProfiles = await getAll<CachedProfile>("profiles");
+      const allReads = await getAll<MessageRead>("message_reads");
       const profileMap = new Map(allProfiles.map((p) => [p.user_id, p]));
+      const readMap = new Map(allReads.filter((r) => r.user_id === uid).map((r) => [r.conversation_id, r.last_read_at]));
 
       // Filter to conversations the user participates in (best effort: those with cached participants or messages from/to user)
       const userConvs = allConvs.filter((c) => {
@@ -80,6 +104,7 @@ export const useConversations = (userId: string | undefined) => {
               user_id: p.user_id,
               username: prof?.username || p.username || "Unknown",
               avatar_url: prof?.avatar_url ?? p.avatar_url ?? null,
+              muted_until: p.muted_until ?? null,
             };
           });
           return {
@@ -91,8 +116,13 @@ export const useConversations = (userId: string | undefined) => {
             updated_at: c.updated_at,
             participants,
             lastMessage: last
-              ? { content: last.content, created_at: last.created_at, sender_id: last.sender_id }
+              ? {
+                  content: last.content || attachmentSummary(last.attachments),
+                  created_at: last.created_at,
+                  sender_id: last.sender_id,
+                }
               : undefined,
+            unreadCount: countUnread(msgs, readMap.get(c.id), uid),
           } as Conversation;
         })
         .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime());
@@ -148,7 +178,7 @@ export const useConversations = (userId: string | undefined) => {
       // Get all participants for these conversations
       const { data: allParticipants, error: allPartError } = await supabase
         .from("conversation_participants")
-        .select("conversation_id, user_id")
+        .select("conversation_id, user_id, muted_until")
         .in("conversation_id", conversationIds);
 
       if (allPartError) throw allPartError;
@@ -165,12 +195,21 @@ export const useConversations = (userId: string | undefined) => {
       // Get last message for each conversation
       const { data: lastMessages, error: messagesError } = await supabase
         .from("messages")
-        .select("conversation_id, content, created_at, sender_id, id")
+        .select("conversation_id, content, created_at, sender_id, id, attachments")
         .in("conversation_id", conversationIds)
         .order("created_at", { ascending: false });
 
       if (messagesError) throw messagesError;
 
+      // Get the user's read cursors
+      const { data: reads, error: readsError } = await supabase
+        .from("message_reads")
+        .select("conversation_id, user_id, last_read_at")
+        .eq("user_id", userId)
+        .in("conversation_id", conversationIds);
+
+      if (readsError) throw readsError;
+
       // Build conversation objects
       const conversationsWithDetails: Conversation[] = (convData || []).map((conv) => {
         const convParticipants =
@@ -182,21 +221,27 @@ export const useConversations = (userId: string | undefined) => {
                 user_id: p.user_id,
                 username: profile?.username || "Unknown",
                 avatar_url: profile?.avatar_url || null,
+                muted_until: p.muted_until,
               };
             }) || [];
 
-        const lastMessage = lastMessages?.find((m) => m.conversation_id === conv.id);
+        const convMessages = lastMessages?.filter((m) => m.conversation_id === conv.id) || [];
+        const lastMessage = convMessages[0];
+        const lastReadAt = reads?.find((r) => r.conversation_id === conv.id)?.last_read_at;
 
         return {
           ...conv,
           participants: convParticipants,
           lastMessage: lastMessage
             ? {
-                content: lastMessage.content,
+                content:
+                  lastMessage.content ||
+                  attachmentSummary(lastMessage.attachments as unknown as MessageAttachment[]),
                 created_at: lastMessage.created_at,
                 sender_id: lastMessage.sender_id,
               }
             : undefined,
+          unreadCount: countUnread(convMessages, lastReadAt, userId),
         };
       });
 
@@ -214,8 +259,17 @@ export const useConversations = (userId: string | undefined) => {
           participants: c.participants,
         }));
         await putAll("conversations", toCache);
-        if (lastMessages) await putAll("messages", lastMessages as { id: string }[]);
+        if (lastMessages) {
+          // Keep what the chat view cached alongside each message (reactions, edit history)
+          const cachedMessages = new Map((await getAll<CachedMessage>("messages")).map((m) => [m.id, m]));
+          // Anything the server returned has been delivered
+          await putAll(
+            "messages",
+            lastMessages.map((m) => ({ ...cachedMessages.get(m.id), ...m, pending: false, failed: false }))
+          );
+        }
         if (profiles) await putAll("profiles", profiles.map((p) => ({ ...p, id: p.user_id })));
+        if (reads) await putAll("message_reads", reads.map(toCachedRead));
       } catch { /* ignore */ }
     } catch (error) {
       console.error("Error fetching conversations:", error);
@@ -245,6 +299,19 @@ export const useConversations = (userId: string | undefined) => {
           fetchConversations();
         }
       )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "message_reads",
+          filter: `user_id=eq.${userId}`,
+        },
+        () => {
+          // Read on another device
+          fetchConversations();
+        }
+      )
       .subscribe();
 
     return () => {
@@ -252,5 +319,17 @@ export const useConversations = (userId: string | undefined) => {
     };
   }, [userId, isOnline, fetchConversations]);
 
+  // Reading a conversation clears its badge straight away
+  useEffect(() => {
+    const handler = (e: Event) => {
+      const { conversationId } = (e as CustomEvent<{ conversationId: string }>).detail;
+      setConversations((prev) =>
+        prev.map((c) => (c.id === conversationId && c.unreadCount > 0 ? { ...c, unreadCount: 0 } : c))
+      );
+    };
+    window.addEventListener(CONVERSATION_READ_EVENT, handler);
+    return () => window.removeEventListener(CONVERSATION_READ_EVENT, handler);
+  }, []);
+
   return { conversations, loading, refetch: fetchConversations };
 };
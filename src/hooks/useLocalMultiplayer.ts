@@ -5,14 +5,65 @@ import {
   GameRoom,
   GameMessage,
   GameMode,
+  SignalingChannel,
+  RoomGameType,
+  RoomRules,
+  DEFAULT_TEAM_NAMES,
+  aggregateTeamScores,
+  createTeam,
+  pickTeamForPlayer,
   generateRoomCode,
   generatePasscode,
-  isValidPasscode,
+  electHost,
+  getActivePlayers,
+  isStaleRoom,
+  isTrustedRoomUpdate,
   isWebRTCAvailable,
   isBluetoothAvailable
 } from '@/lib/localNetwork';
+import {
+  commitAnswer,
+  createSalt,
+  generateHostKey,
+  hashPlayerAnswer,
+  resolveAnswerHash,
+  scoreRound,
+  signSummary,
+  stripAnswer,
+  verifyRound,
+  verifySummary,
+  type AnswerKeyEntry,
+  type MatchSummary,
+  type RoundReveal,
+  type TeamResult,
+  type SignedSummary
+} from '@/lib/roundVerification';
+import {
+  MAP_GAME_TYPES,
+  advanceMap,
+  cluePoints,
+  getMapGroups,
+  getPlayKind,
+  getRoundSeconds,
+  normalizeAnswer,
+  parseClues,
+  toPublicQuestion
+} from '@/lib/multiplayerGames';
+import { fetchMatchAnswers, getMemberRole, openRoom, redeemRoomInvite, registerMatch, touchRoom } from '@/lib/roomInvites';
+import {
+  fiftyFiftyRemovals,
+  getRules,
+  hintFor,
+  maxSpeedMultiplier,
+  speedPoints,
+  suddenDeathContenders,
+  type HelpKind,
+  type Lifeline,
+  type RoundHelp
+} from '@/lib/roomRules';
 import { useAuth } from './useAuth';
 import { toast } from './use-toast';
+import type { RoundRecord } from './useMatchHistory';
 
 export interface MultiplayerState {
   isHost: boolean;
@@ -21,34 +72,197 @@ export interface MultiplayerState {
   messages: GameMessage[];
   connectionStatus: 'disconnected' | 'connecting' | 'connected';
   gameState: MultiplayerGameState | null;
+  // Questions without their answers; the host keeps those in its answer key
   sharedQuestions: any[];
+  // Host commitment per question, checked against each round's reveal
+  commitments: string[];
+  // The local player's hint or lifeline for the current question, and the
+  // lifelines they've spent this game. Kept out of gameState so snapshots
+  // never hand them to another player.
+  help: RoundHelp | null;
+  lifelinesUsed: Lifeline[];
 }
 
 export interface MultiplayerGameState {
   currentQuestionIndex: number;
   currentQuestion: any;
   scores: Record<string, number>;
+  // Answer hashes by player, and when each was submitted
   answers: Record<string, string>;
+  answerTimes?: Record<string, number>;
   phase: 'waiting' | 'question' | 'results' | 'leaderboard' | 'finished';
   timer: number;
   roundWinner?: string;
+  matchId?: string;
+  reveal?: RoundReveal;
+  // Filled in locally once the round is revealed
+  correctIds?: string[];
+  revealedAnswers?: Record<string, string | null>;
+  // Guests: whether the reveal and scores checked out (hosts are always true)
+  verified?: boolean;
+  // Signed result of the finished game, verified against the room's host key
+  summary?: SignedSummary;
+  // 'teams' mode: who played for which team, and each team's running total
+  teamRoster?: Record<string, string>;
+  teamScores?: Record<string, number>;
+  // Guess-the-character rounds: clues shown so far, and what each answer was worth
+  revealedClues?: number;
+  answerPoints?: Record<string, number>;
+  // Journey and path games: stops reached per map group (team or whole party)
+  mapProgress?: Record<string, number>;
+  // Every revealed round so far, for the match history
+  roundLog?: RoundRecord[];
+  // Seconds left on the question when a returning guest was caught up
+  timeLeft?: number;
+  // Questions in regulation; any after that are sudden-death tiebreakers
+  regularQuestions?: number;
+  // Players still in it during a sudden-death question
+  suddenDeath?: string[];
+  // Host: hints bought and players who skipped this question, and the
+  // lifelines each player has used this game
+  hintCosts?: Record<string, number>;
+  skipped?: string[];
+  lifelinesUsed?: Record<string, Lifeline[]>;
 }
 
+// What the host broadcasts so whoever takes over can resume the round
+export interface HostSnapshot {
+  room: GameRoom;
+  gameState: MultiplayerGameState | null;
+  sharedQuestions: MultiplayerState['sharedQuestions'];
+  commitments: string[];
+}
+
+// How long guests wait for a dropped host to come back before electing a new one
+const HOST_MIGRATION_GRACE_MS = 5000;
+// How often the host broadcasts a snapshot while a game is running
+const SNAPSHOT_INTERVAL_MS = 3000;
+// How long the host holds a dropped player's seat before they leave the room
+const RECONNECT_GRACE_MS = 30000;
+// Online rooms: how often members tell the server they're still in the room.
+// It only hands the room to a successor once the host has gone quiet for a
+// while, so a new host keeps asking for about that long.
+const ROOM_HEARTBEAT_MS = 10000;
+const ROOM_CLAIM_RETRY_MS = 5000;
+const ROOM_CLAIM_ATTEMPTS = 8;
+
+const emptyState: MultiplayerState = {
+  isHost: false,
+  room: null,
+  peers: [],
+  messages: [],
+  connectionStatus: 'disconnected',
+  gameState: null,
+  sharedQuestions: [],
+  commitments: [],
+  help: null,
+  lifelinesUsed: []
+};
+
+// Team totals for a scoreboard. Players who joined after the start are added
+// to the roster from their current team.
+const withTeamScores = (gameState: MultiplayerGameState, room: GameRoom | null, scores: Record<string, number>) => {
+  if (room?.gameMode !== 'teams' || !room.teams) return {};
+  const teamRoster = { ...gameState.teamRoster };
+  room.currentPlayers.forEach(p => {
+    if (p.teamId && !teamRoster[p.id]) teamRoster[p.id] = p.teamId;
+  });
+  return { teamRoster, teamScores: aggregateTeamScores(scores, teamRoster, room.teams) };
+};
+
+// Record what a correct answer is worth when it arrives: guess-the-character
+// answers by the clues shown so far, and any answer by its speed bonus
+const answerPointsWith = (gameState: MultiplayerGameState, room: GameRoom | null, playerId: string, elapsed: number) => {
+  const question = gameState.currentQuestion;
+  const rules = getRules(room);
+  const clues = getPlayKind(question) === 'clues';
+  if (!clues && rules.speedBonus === 'none') return gameState.answerPoints;
+  const basePoints = clues
+    ? cluePoints(question?.points || 10, question?.totalClues || 1, gameState.revealedClues || 1)
+    : question?.points || 10;
+  return {
+    ...gameState.answerPoints,
+    [playerId]: speedPoints(basePoints, rules, elapsed, gameState.timer)
+  };
+};
+
+// Whether a player may still answer: not skipped, and in sudden death only the tied leaders
+const canAnswer = (gameState: MultiplayerGameState, playerId: string) =>
+  !gameState.skipped?.includes(playerId) && (!gameState.suddenDeath || gameState.suddenDeath.includes(playerId));
+
+// Guests see each other's picks once a round is over. Typed and arranged
+// answers have no options, so only correct ones can be recovered.
+const withRevealedAnswers = async (gameState: MultiplayerGameState, roomId: string, answer?: string) => {
+  const options: string[] = gameState.currentQuestion?.options || (answer ? [answer] : []);
+  const revealedAnswers: Record<string, string | null> = {};
+  for (const [playerId, hash] of Object.entries(gameState.answers)) {
+    revealedAnswers[playerId] = await resolveAnswerHash(hash, options, roomId, gameState.currentQuestionIndex, playerId);
+  }
+  return revealedAnswers;
+};
+
+// Game state as sent to guests. While a round is open the answer hashes stay
+// with the host: matched against the options they'd give away every pick, so
+// a guest only gets its own back until the reveal.
+const forGuest = (gameState: MultiplayerGameState | null, peerId?: string): MultiplayerGameState | null => {
+  if (gameState?.phase !== 'question') return gameState;
+  const own = peerId ? gameState.answers[peerId] : undefined;
+  return {
+    ...gameState,
+    answers: own ? { [peerId]: own } : {},
+    answerTimes: own ? { [peerId]: gameState.answerTimes[peerId] } : {}
+  };
+};
+
+// Add a revealed round to the log, replacing it if it was logged already
+const withRoundLog = (
+  gameState: MultiplayerGameState,
+  answer: string,
+  revealedAnswers: Record<string, string | null>,
+  correctIds: string[],
+  roundWinner?: string
+): RoundRecord[] => [
+  ...(gameState.roundLog || []).filter(r => r.question_index !== gameState.currentQuestionIndex),
+  {
+    question_index: gameState.currentQuestionIndex,
+    question: gameState.currentQuestion?.question || '',
+    answer,
+    answers: revealedAnswers,
+    correct_ids: correctIds,
+    round_winner: roundWinner
+  }
+];
+
 export const useLocalMultiplayer = () => {
   const { user, profile } = useAuth();
-  const [state, setState] = useState<MultiplayerState>({
-    isHost: false,
-    room: null,
-    peers: [],
-    messages: [],
-    connectionStatus: 'disconnected',
-    gameState: null,
-    sharedQuestions: []
-  });
+  const [state, setState] = useState<MultiplayerState>(emptyState);
 
   const connectionManager = useRef<PeerConnectionManager | null>(null);
   const localId = useRef<string>(user?.id || crypto.randomUUID());
   const localName = useRef<string>(profile?.username || 'Player');
+  // Latest state for peer callbacks and timers that outlive a render
+  const stateRef = useRef(state);
+  const lastSnapshot = useRef<HostSnapshot | null>(null);
+  const migrationTimer = useRef<number | null>(null);
+  // Host-only secrets: the answers and salts behind each commitment, and the
+  // key that signs the final summary. Neither ever leaves this device.
+  const answerKey = useRef<(AnswerKeyEntry | undefined)[]>([]);
+  const hostKey = useRef<CryptoKeyPair | null>(null);
+  // Clues for guess-the-character questions, revealed one at a time
+  const clueKey = useRef<string[][]>([]);
+  // Host: a resume token per admitted player, so a player whose connection
+  // dropped can take their seat back, and timers for seats being held
+  const resumeTokens = useRef<Map<string, string>>(new Map());
+  const leaveTimers = useRef<Map<string, number>>(new Map());
+  // When the current question went out (or reached us), to tell returning
+  // guests the time left; guests track it too in case they take over as host
+  const roundStartedAt = useRef(0);
+  // Guest: the token the host gave us
+  const resumeToken = useRef<string | null>(null);
+
+  useEffect(() => {
+    stateRef.current = state;
+  }, [state]);
 
   // Update local name when profile changes
   useEffect(() => {
@@ -57,54 +271,34 @@ export const useLocalMultiplayer = () => {
     }
   }, [profile?.username]);
 
-  // Create a new game room (host)
-  const createRoom = useCallback((
-    gameType: 'trivia' | 'guess_character' | 'fill_blank' | 'memory_verse' | 'daily_challenge' | 'all',
-    gameMode: GameMode,
-    gameName: string,
-    maxPlayers: number = 4
-  ) => {
-    if (!isWebRTCAvailable()) {
-      toast({
-        title: "Not Supported",
-        description: "Your browser doesn't support local multiplayer",
-        variant: "destructive"
-      });
-      return null;
+  // Online rooms admit accounts, so play under the signed-in id once it's known
+  useEffect(() => {
+    if (user?.id && !stateRef.current.room) {
+      localId.current = user.id;
     }
+  }, [user?.id]);
 
-    const roomId = generateRoomCode();
-    const room: GameRoom = {
-      id: roomId,
-      passcode: generatePasscode(),
-      hostId: localId.current,
-      hostName: localName.current,
-      gameName,
-      gameType,
-      gameMode,
-      maxPlayers,
-      currentPlayers: [{
-        id: localId.current,
-        name: localName.current,
-        connectionMethod: 'wifi',
-        isHost: true,
-        score: 0,
-        ready: true
-      }],
-      status: 'waiting',
-      questionsPerRound: maxPlayers >= 1 ? 10 : 10,
-      createdAt: Date.now()
-    };
+  // Host side: new peers join the room. Dropped players keep their seat (and
+  // score) for RECONNECT_GRACE_MS before they're dropped from it.
+  const bindHostHandlers = useCallback((manager: PeerConnectionManager) => {
+    manager.onPeerConnected((peer) => {
+      const timer = leaveTimers.current.get(peer.id);
+      window.clearTimeout(timer);
+      leaveTimers.current.delete(peer.id);
 
-    // Initialize connection manager
-    connectionManager.current = new PeerConnectionManager(roomId, localId.current, localName.current);
-    
-    // Setup event handlers
-    connectionManager.current.onPeerConnected((peer) => {
       setState(prev => {
+        const others = prev.room?.currentPlayers.filter(p => p.id !== peer.id) || [];
+        const returning = timer !== undefined ? prev.room?.currentPlayers.find(p => p.id === peer.id) : undefined;
+        const player = returning ? { ...returning, away: undefined } : { ...peer };
+        if (!returning && prev.room?.gameMode === 'teams' && prev.room.teams) {
+          // Rejoining players go back to their side; newcomers even out the teams
+          player.teamId = prev.gameState?.teamRoster?.[peer.id]
+            || prev.room.currentPlayers.find(p => p.id === peer.id)?.teamId
+            || pickTeamForPlayer(others, prev.room.teams);
+        }
         const updatedRoom = prev.room ? {
           ...prev.room,
-          currentPlayers: [...prev.room.currentPlayers, peer]
+          currentPlayers: [...others, player]
         } : null;
         
         // Send room update to the newly connected peer (and all others)
@@ -119,48 +313,332 @@ export const useLocalMultiplayer = () => {
           }, 100);
         }
         
-        toast({
+        toast(returning ? {
+          title: "Player Reconnected 🔌",
+          description: `${peer.name} is back`
+        } : {
           title: "Player Joined! 🎮",
           description: `${peer.name} has joined the game`
         });
         
         return {
           ...prev,
-          peers: [...prev.peers, peer],
+          peers: [...prev.peers.filter(p => p.id !== peer.id), peer],
           room: updatedRoom
         };
       });
     });
 
-    connectionManager.current.onPeerDisconnected((peerId) => {
+    manager.onPeerDisconnected((peerId) => {
+      if (leaveTimers.current.has(peerId)) return;
+      const markAway = (room: GameRoom): GameRoom => ({
+        ...room,
+        currentPlayers: room.currentPlayers.map(p => p.id === peerId ? { ...p, away: true } : p)
+      });
+      const current = stateRef.current.room;
+      if (current) {
+        connectionManager.current?.broadcast({
+          type: 'room_update',
+          senderId: localId.current,
+          senderName: localName.current,
+          payload: { room: markAway(current) }
+        });
+        setState(prev => prev.room ? {
+          ...prev,
+          peers: prev.peers.filter(p => p.id !== peerId),
+          room: markAway(prev.room)
+        } : prev);
+      }
+
+      leaveTimers.current.set(peerId, window.setTimeout(() => {
+        leaveTimers.current.delete(peerId);
+        resumeTokens.current.delete(peerId);
+        const name = stateRef.current.room?.currentPlayers.find(p => p.id === peerId)?.name;
+        connectionManager.current?.broadcast({
+          type: 'player_leave',
+          senderId: localId.current,
+          senderName: localName.current,
+          payload: { playerId: peerId }
+        });
+        setState(prev => ({
+          ...prev,
+          room: prev.room ? {
+            ...prev.room,
+            currentPlayers: prev.room.currentPlayers.filter(p => p.id !== peerId)
+          } : null
+        }));
+
+        toast({
+          title: "Player Left",
+          description: `${name || 'A player'} has disconnected`,
+          variant: "destructive"
+        });
+      }, RECONNECT_GRACE_MS));
+    });
+  }, []);
+
+  const cancelHostMigration = useCallback(() => {
+    if (migrationTimer.current) {
+      window.clearTimeout(migrationTimer.current);
+      migrationTimer.current = null;
+    }
+  }, []);
+
+  // Online rooms: become host on the server too, which lets us invite and
+  // admit, gets the signed result recorded, and is the only way to the
+  // answers, since guests never hold them. Rounds stay unscored until then.
+  const claimRoom = useCallback(async (roomId: string, publicKey: JsonWebKey, matchId?: string) => {
+    let opened = false;
+    for (let attempt = 0; attempt < ROOM_CLAIM_ATTEMPTS && !opened; attempt++) {
+      if (attempt > 0) await new Promise(resolve => setTimeout(resolve, ROOM_CLAIM_RETRY_MS));
+      // Stop if we left the room or handed it on in the meantime
+      if (!stateRef.current.isHost || stateRef.current.room?.id !== roomId) return;
+      opened = (await openRoom(roomId, publicKey)).ok;
+    }
+    if (!opened) {
+      toast({
+        title: "Results Won't Be Recorded",
+        description: "The server didn't hand the room over to you",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const answers = matchId ? await fetchMatchAnswers(roomId, matchId) : null;
+    const { room, gameState, sharedQuestions } = stateRef.current;
+    if (!answers || !room || gameState?.matchId !== matchId) return;
+    answerKey.current = sharedQuestions.map((q, index) => {
+      const answer = answers[index];
+      return answer ? { answer: normalizeAnswer(getPlayKind(q), answer), salt: createSalt() } : undefined;
+    });
+    const commitments = await Promise.all(
+      answerKey.current.map((entry) => (entry ? commitAnswer(entry.answer, entry.salt) : ''))
+    );
+    setState(prev => ({ ...prev, commitments }));
+    connectionManager.current?.broadcast({
+      type: 'state_snapshot',
+      senderId: localId.current,
+      senderName: localName.current,
+      payload: { room, gameState: forGuest(gameState), sharedQuestions, commitments, resume: true }
+    });
+  }, []);
+
+  // Elect a replacement for a host that didn't come back. The winner takes the
+  // room over from its own view of the game (falling back to the last host
+  // snapshot) and tells everyone; other guests just wait for its room_update.
+  const migrateHost = useCallback(async (departedId: string) => {
+    const manager = connectionManager.current;
+    const current = stateRef.current;
+    if (!manager || !current.room || current.room.hostId !== departedId) return;
+    if (manager.isConnectedTo(departedId)) return;
+    // Lost touch with everyone at once? Then it's our connection that dropped,
+    // so wait to get back in rather than taking the room over alone
+    const others = getActivePlayers(current.room).filter(p => p.id !== departedId && p.id !== localId.current);
+    if (others.length > 0 && !others.some(p => manager.isConnectedTo(p.id))) {
+      console.log('[useLocalMultiplayer] Cut off from the room; waiting to reconnect');
+      return;
+    }
+
+    const nextHost = electHost(
+      current.room.currentPlayers,
+      departedId,
+      (peerId) => peerId === localId.current || manager.isConnectedTo(peerId)
+    );
+    if (!nextHost) return;
+
+    const room: GameRoom = {
+      ...current.room,
+      hostId: nextHost.id,
+      hostName: nextHost.name,
+      hostTerm: (current.room.hostTerm || 0) + 1,
+      currentPlayers: current.room.currentPlayers
+        .filter(p => p.id !== departedId)
+        .map(p => ({ ...p, isHost: p.id === nextHost.id }))
+    };
+
+    if (nextHost.id !== localId.current) {
+      setState(prev => ({ ...prev, room }));
+      toast({
+        title: "Host Left",
+        description: `${nextHost.name} is taking over the game`
+      });
+      return;
+    }
+
+    const snapshot = lastSnapshot.current;
+    const gameState = current.gameState || snapshot?.gameState || null;
+    const sharedQuestions = current.sharedQuestions.length > 0
+      ? current.sharedQuestions
+      : snapshot?.sharedQuestions || [];
+
+    // The old host's key, salts and answers left with it: sign with a new key,
+    // and commit to answers once the server hands them over
+    const { keyPair, publicKey } = await generateHostKey();
+    hostKey.current = keyPair;
+    room.hostKey = publicKey;
+    answerKey.current = [];
+    // Unrevealed clues left with the old host; rounds carry on with the ones already shown
+    clueKey.current = [];
+    const commitments: string[] = [];
+
+    console.log('[useLocalMultiplayer] Taking over as host from', departedId);
+    setState(prev => ({ ...prev, isHost: true, room, gameState, sharedQuestions, commitments }));
+
+    manager.broadcast({
+      type: 'room_update',
+      senderId: localId.current,
+      senderName: localName.current,
+      payload: { room, previousHostId: departedId }
+    });
+    manager.broadcast({
+      type: 'state_snapshot',
+      senderId: localId.current,
+      senderName: localName.current,
+      payload: { room, gameState: forGuest(gameState), sharedQuestions, commitments, resume: true }
+    });
+
+    toast({
+      title: "You're the Host 👑",
+      description: "The host left, so you're running the game now"
+    });
+
+    if (!room.passcode) void claimRoom(room.id, publicKey, gameState?.matchId);
+  }, [claimRoom]);
+
+  const scheduleHostMigration = useCallback((departedId: string) => {
+    if (migrationTimer.current) return;
+    migrationTimer.current = window.setTimeout(() => {
+      migrationTimer.current = null;
+      void migrateHost(departedId);
+    }, HOST_MIGRATION_GRACE_MS);
+  }, [migrateHost]);
+
+  // Guest side: ask each new peer for room info, and watch for the host dropping
+  const bindGuestHandlers = useCallback((manager: PeerConnectionManager, passcode: string | undefined, spectator = false) => {
+    manager.onPeerConnected((peer) => {
+      if (peer.id === stateRef.current.room?.hostId) cancelHostMigration();
+      setState(prev => {
+        // Add peer to local list; don't assume role here. We'll request room info from host separately.
+        const updatedPeer = { ...peer, isHost: false };
+        return {
+          ...prev,
+          peers: [...prev.peers.filter(p => p.id !== peer.id), updatedPeer],
+          connectionStatus: 'connected'
+        };
+      });
+      // Ask the newly connected peer for room info (host will respond if it's the host)
+      setTimeout(() => {
+        connectionManager.current?.sendTo(peer.id, {
+          type: 'request_room_info',
+          senderId: localId.current,
+          senderName: localName.current,
+          payload: { passcode, spectator, resumeToken: resumeToken.current }
+        });
+      }, 50);
+    });
+
+    manager.onPeerDisconnected((peerId) => {
       setState(prev => ({
         ...prev,
-        peers: prev.peers.filter(p => p.id !== peerId),
-        room: prev.room ? {
-          ...prev.room,
-          currentPlayers: prev.room.currentPlayers.filter(p => p.id !== peerId)
-        } : null
+        peers: prev.peers.filter(p => p.id !== peerId)
       }));
-      
+      if (peerId === stateRef.current.room?.hostId) {
+        scheduleHostMigration(peerId);
+      }
+    });
+  }, [cancelHostMigration, scheduleHostMigration]);
+
+  // Create a new game room (host)
+  // Pass a signaling channel (e.g. ManualSignaling) to pair without Supabase Realtime.
+  // Online rooms are registered with the room-invites function first, so only
+  // guests holding an invite can reach the signaling channel.
+  const createRoom = useCallback(async (
+    gameType: RoomGameType,
+    gameMode: GameMode,
+    gameName: string,
+    maxPlayers: number = 4,
+    options: { signaling?: SignalingChannel; rules?: RoomRules } = {}
+  ) => {
+    if (!isWebRTCAvailable()) {
       toast({
-        title: "Player Left",
-        description: "A player has disconnected",
+        title: "Not Supported",
+        description: "Your browser doesn't support local multiplayer",
         variant: "destructive"
       });
-    });
+      return null;
+    }
+
+    // The room's signing key; online rooms register its public half on opening
+    const { keyPair, publicKey } = await generateHostKey();
+    let roomId = generateRoomCode();
+    if (!options.signaling) {
+      if (!user) {
+        toast({
+          title: "Sign In Required",
+          description: "Sign in to host an online room, or use No internet mode",
+          variant: "destructive"
+        });
+        return null;
+      }
+      // A clash with a room that's still open just means picking another code
+      let opened = await openRoom(roomId, publicKey);
+      for (let attempt = 0; !opened.ok && opened.error === 'Room code is in use' && attempt < 3; attempt++) {
+        roomId = generateRoomCode();
+        opened = await openRoom(roomId, publicKey);
+      }
+      if (!opened.ok) {
+        toast({
+          title: "Couldn't Create Room",
+          description: opened.error || "Check your connection and try again",
+          variant: "destructive"
+        });
+        return null;
+      }
+    }
+
+    const teams = gameMode === 'teams' ? DEFAULT_TEAM_NAMES.map(createTeam) : undefined;
+    const room: GameRoom = {
+      id: roomId,
+      passcode: options.signaling ? generatePasscode() : undefined,
+      hostId: localId.current,
+      hostName: localName.current,
+      gameName,
+      gameType,
+      gameMode,
+      maxPlayers,
+      currentPlayers: [{
+        id: localId.current,
+        name: localName.current,
+        connectionMethod: 'wifi',
+        isHost: true,
+        score: 0,
+        ready: true,
+        teamId: teams?.[0].id
+      }],
+      teams,
+      status: 'waiting',
+      questionsPerRound: maxPlayers >= 1 ? 10 : 10,
+      rules: options.rules,
+      hostKey: publicKey,
+      createdAt: Date.now()
+    };
+
+    // Initialize connection manager
+    connectionManager.current = new PeerConnectionManager(roomId, localId.current, localName.current, options.signaling);
+    
+    bindHostHandlers(connectionManager.current);
 
     connectionManager.current.onMessage((peerId, message) => {
       handleMessage(peerId, message);
     });
 
+    hostKey.current = keyPair;
+    answerKey.current = [];
     setState({
+      ...emptyState,
       isHost: true,
       room,
-      peers: [],
-      messages: [],
-      connectionStatus: 'connected',
-      gameState: null,
-      sharedQuestions: []
+      connectionStatus: 'connected'
     });
 
     // Host announces presence so guests can discover them
@@ -170,7 +648,7 @@ export const useLocalMultiplayer = () => {
     });
 
     return roomId;
-  }, []);
+  }, [bindHostHandlers, user]);
 
   // Update room settings (host only) and broadcast to peers
   const updateRoomSettings = useCallback((settings: Partial<GameRoom>) => {
@@ -191,7 +669,14 @@ export const useLocalMultiplayer = () => {
   }, [state.isHost]);
 
   // Join an existing room (guest)
-  const joinRoom = useCallback(async (roomCode: string, passcode: string) => {
+  // Online, `secret` is an invite token from the host; rooms paired by QR code
+  // pass the passcode from the host's invite code along with its signaling.
+  const joinRoom = useCallback(async (
+    roomCode: string,
+    secret: string,
+    options: { spectator?: boolean; signaling?: SignalingChannel } = {}
+  ) => {
+    let spectator = !!options.spectator;
     if (!isWebRTCAvailable()) {
       toast({
         title: "Not Supported",
@@ -201,48 +686,33 @@ export const useLocalMultiplayer = () => {
       return false;
     }
 
-    // Validate passcode format
-    if (!isValidPasscode(passcode)) {
-      toast({
-        title: "Invalid Passcode",
-        description: "Passcode must be 4 digits",
-        variant: "destructive"
-      });
-      return false;
-    }
-
     setState(prev => ({ ...prev, connectionStatus: 'connecting' }));
 
-    // Initialize connection manager
-    connectionManager.current = new PeerConnectionManager(roomCode, localId.current, localName.current);
-    
-    connectionManager.current.onPeerConnected((peer) => {
-      setState(prev => {
-        // Add peer to local list; don't assume role here. We'll request room info from host separately.
-        const updatedPeer = { ...peer, isHost: false };
-        return {
-          ...prev,
-          peers: [...prev.peers, updatedPeer],
-          connectionStatus: 'connected'
-        };
-      });
-      // Ask the newly connected peer for room info (host will respond if it's the host)
-      setTimeout(() => {
-        connectionManager.current?.sendTo(peer.id, {
-          type: 'request_room_info',
-          senderId: localId.current,
-          senderName: localName.current,
-          payload: { passcode }
+    // Redeeming the invite is what lets us onto the room's signaling channel
+    let passcode: string | undefined = secret;
+    if (!options.signaling) {
+      const redeemed = user
+        ? await redeemRoomInvite(secret)
+        : { error: "Sign in to join online rooms" };
+      if ('error' in redeemed || redeemed.roomId !== roomCode) {
+        toast({
+          title: "Invite Not Accepted",
+          description: 'error' in redeemed ? redeemed.error : "This invite is for a different room",
+          variant: "destructive"
         });
-      }, 50);
-    });
+        setState(prev => ({ ...prev, connectionStatus: 'disconnected' }));
+        return false;
+      }
+      // Watch-only invites can't take a seat
+      spectator = spectator || redeemed.role === 'spectator';
+      passcode = undefined;
+    }
 
-    connectionManager.current.onPeerDisconnected((peerId) => {
-      setState(prev => ({
-        ...prev,
-        peers: prev.peers.filter(p => p.id !== peerId)
-      }));
-    });
+    // Initialize connection manager
+    if (options.spectator) localName.current = 'Big Screen';
+    connectionManager.current = new PeerConnectionManager(roomCode, localId.current, localName.current, options.signaling);
+    
+    bindGuestHandlers(connectionManager.current, passcode, spectator);
 
     connectionManager.current.onMessage((peerId, message) => {
       handleMessage(peerId, message);
@@ -258,11 +728,13 @@ export const useLocalMultiplayer = () => {
         type: 'request_room_info',
         senderId: localId.current,
         senderName: localName.current,
-        payload: { passcode }
+        payload: { passcode, spectator, resumeToken: resumeToken.current }
       });
     }, 500);
 
-    // Wait for connection
+    // Wait for connection: 30 seconds for full WebRTC handshake, longer when
+    // pairing codes are swapped by hand
+    const connectTimeoutMs = options.signaling ? 180000 : 30000;
     return new Promise<boolean>((resolve) => {
       let resolved = false;
       let lastPeerCount = 0;
@@ -270,10 +742,10 @@ export const useLocalMultiplayer = () => {
       const timeout = setTimeout(() => {
         if (!resolved && connectionManager.current?.getConnectedPeerCount() === 0) {
           resolved = true;
-          console.error('Connection timeout - no peers connected after 30s');
+          console.error(`Connection timeout - no peers connected after ${connectTimeoutMs / 1000}s`);
           toast({
             title: "Connection Failed",
-            description: "Couldn't find the game room. Check that you have internet, the room code is correct, and the passcode matches.",
+            description: "Couldn't reach the game room. Check that you have internet and the host is still in the lobby.",
             variant: "destructive"
           });
           connectionManager.current?.close();
@@ -281,7 +753,7 @@ export const useLocalMultiplayer = () => {
           setState(prev => ({ ...prev, connectionStatus: 'disconnected' }));
           resolve(false);
         }
-      }, 30000); // 30 seconds for full WebRTC handshake
+      }, connectTimeoutMs);
 
       const checkConnection = setInterval(() => {
         if (!resolved && connectionManager.current) {
@@ -307,7 +779,8 @@ export const useLocalMultiplayer = () => {
               connectionMethod: 'wifi',
               isHost: false,
               score: 0,
-              ready: true
+              ready: true,
+              isSpectator: spectator || undefined
             };
             
             setState(prev => ({
@@ -322,39 +795,367 @@ export const useLocalMultiplayer = () => {
             
             toast({
               title: "Connected! 🎮",
-              description: "You've joined the game"
+              description: spectator ? "You're watching the game" : "You've joined the game"
             });
             resolve(true);
           }
         }
       }, 300); // Check connection status every 300ms
     });
-  }, []);
+  }, [bindGuestHandlers, user]);
 
   // Handle incoming messages
+  // Guests check every revealed round and the signed final summary
+  const checkHostResult = useCallback(async (payload: {
+    scores: Record<string, number>;
+    roundWinner?: string;
+    reveal?: RoundReveal;
+    summary?: SignedSummary;
+  }) => {
+    const { room, gameState, commitments } = stateRef.current;
+    if (!room || !gameState) return;
+    const questionIndex = gameState.currentQuestionIndex;
+
+    if (payload.reveal) {
+      const { valid: roundValid, outcome } = await verifyRound({
+        roomId: room.id,
+        questionIndex,
+        commitment: commitments[questionIndex],
+        reveal: payload.reveal,
+        localId: localId.current,
+        localAnswerHash: gameState.answers[localId.current],
+        points: gameState.currentQuestion?.points || 10,
+        competitive: room.gameMode === 'competitive',
+        wrongPenalty: getRules(room).wrongPenalty,
+        previousScores: gameState.scores,
+        claimed: { scores: payload.scores, roundWinner: payload.roundWinner }
+      });
+      const revealedAnswers = await withRevealedAnswers({ ...gameState, answers: payload.reveal.answers }, room.id, payload.reveal.answer);
+      // Clue and speed bonuses can't exceed seeing just the first clue and
+      // answering at once, and nobody buys more than one hint a question
+      const question = gameState.currentQuestion;
+      const rules = getRules(room);
+      const maxPoints = cluePoints(question?.points || 10, question?.totalClues || 1, 1) * maxSpeedMultiplier(rules);
+      const pointsInRange = Object.values(payload.reveal.points || {}).every(p => p >= 0 && p <= maxPoints);
+      const deductionsInRange = Object.values(payload.reveal.deductions || {}).every(d => d >= 0 && d <= (rules.hintCost ?? 0));
+      const valid = roundValid && pointsInRange && deductionsInRange;
+      if (!valid) console.warn('[useLocalMultiplayer] Round', questionIndex + 1, 'failed verification');
+      setState(prev => prev.gameState?.currentQuestionIndex === questionIndex ? {
+        ...prev,
+        gameState: {
+          ...prev.gameState,
+          verified: valid,
+          correctIds: outcome.correctIds,
+          revealedAnswers,
+          roundLog: withRoundLog(prev.gameState, payload.reveal.answer, revealedAnswers, outcome.correctIds, outcome.roundWinner)
+        }
+      } : prev);
+    }
+
+    if (payload.summary) {
+      const summary = await verifySummary(payload.summary, room.hostKey);
+      const valid = !!summary
+        && summary.roomId === room.id
+        && summary.matchId === gameState.matchId
+        && Object.entries(payload.scores).every(([id, score]) => summary.scores[id] === score);
+      if (!valid) {
+        toast({
+          title: "Scores Not Verified",
+          description: "The final scores weren't signed by the host, so they won't be recorded",
+          variant: "destructive"
+        });
+      }
+      setState(prev => prev.gameState ? {
+        ...prev,
+        gameState: { ...prev.gameState, summary: valid ? payload.summary : undefined }
+      } : prev);
+    }
+  }, []);
+
+  // Host: answer a guest's request for room info. A player coming back with
+  // their resume token keeps their seat. Otherwise rooms paired by QR code
+  // check the passcode from the invite code, and online rooms check that the
+  // guest redeemed an invite to this room.
+  const admitGuest = useCallback(async (
+    peerId: string,
+    payload: { passcode?: string; spectator?: boolean; resumeToken?: string | null }
+  ) => {
+    const current = stateRef.current.room;
+    if (!current) return;
+    const spectator = !!payload.spectator;
+    const resuming = !!payload.resumeToken && payload.resumeToken === resumeTokens.current.get(peerId);
+    let refusal: string | null = null;
+    if (resuming) {
+      console.log('[useLocalMultiplayer] Player resumed their seat:', peerId);
+    } else if (current.passcode) {
+      if (payload.passcode !== current.passcode) refusal = 'Invalid passcode';
+    } else {
+      const role = await getMemberRole(current.id, peerId);
+      if (!role) {
+        refusal = 'You need an invite from the host to join';
+      } else if (role === 'spectator' && !spectator) {
+        refusal = 'This invite is for watching only';
+      }
+    }
+
+    setState(prev => {
+      if (!prev.isHost || !prev.room || !connectionManager.current) return prev;
+      let error = refusal;
+      if (!error && !spectator && getActivePlayers(prev.room).filter(p => p.id !== peerId).length >= prev.room.maxPlayers) {
+        error = 'This room is full';
+      }
+
+      if (error) {
+        connectionManager.current.sendTo(peerId, {
+          type: 'room_info',
+          senderId: localId.current,
+          senderName: localName.current,
+          payload: { authorized: false, error }
+        });
+        console.warn('Guest was refused:', error);
+        return prev;
+      }
+
+      // Spectators stay in the room list but never take a player slot or a team
+      const wasSpectator = !!prev.room.currentPlayers.find(p => p.id === peerId)?.isSpectator;
+      const room = wasSpectator === spectator ? prev.room : {
+        ...prev.room,
+        currentPlayers: prev.room.currentPlayers.map(p => p.id === peerId
+          ? { ...p, isSpectator: spectator || undefined, teamId: spectator ? undefined : p.teamId }
+          : p)
+      };
+      const token = resumeTokens.current.get(peerId) || crypto.randomUUID();
+      resumeTokens.current.set(peerId, token);
+      connectionManager.current.sendTo(peerId, {
+        type: 'room_info',
+        senderId: localId.current,
+        senderName: localName.current,
+        payload: { room, authorized: true, resumeToken: token }
+      });
+      // Catch up anyone arriving mid-game: the current question and the time left on it
+      if (room.status === 'playing' && prev.gameState) {
+        const elapsed = Math.floor((Date.now() - roundStartedAt.current) / 1000);
+        connectionManager.current.sendTo(peerId, {
+          type: 'state_snapshot',
+          senderId: localId.current,
+          senderName: localName.current,
+          payload: {
+            room,
+            gameState: {
+              ...forGuest(prev.gameState, peerId),
+              timeLeft: prev.gameState.phase === 'question' ? Math.max(1, prev.gameState.timer - elapsed) : undefined
+            },
+            sharedQuestions: prev.sharedQuestions,
+            commitments: prev.commitments,
+            resume: true
+          }
+        });
+      }
+      if (room !== prev.room) {
+        connectionManager.current.broadcast({
+          type: 'room_update',
+          senderId: localId.current,
+          senderName: localName.current,
+          payload: { room }
+        });
+      }
+      return { ...prev, room };
+    });
+  }, []);
+
+  // Host: hand out a hint or lifeline if the room's rules allow it and the
+  // player hasn't answered yet. Hints are paid for when the round is scored.
+  const grantHelp = useCallback((playerId: string, kind: HelpKind, questionIndex: number): RoundHelp | null => {
+    const { room, gameState } = stateRef.current;
+    const key = answerKey.current[questionIndex];
+    if (!room || !gameState || !key || gameState.phase !== 'question' || gameState.currentQuestionIndex !== questionIndex) return null;
+    if (gameState.answers[playerId] || !canAnswer(gameState, playerId)) return null;
+
+    const rules = getRules(room);
+    const question = gameState.currentQuestion;
+    let help: RoundHelp;
+    if (kind === 'hint') {
+      if (rules.hintCost === null || gameState.hintCosts?.[playerId] !== undefined) return null;
+      help = { questionIndex, hint: hintFor(getPlayKind(question), key.answer) };
+    } else {
+      if (!rules.lifelines[kind] || gameState.lifelinesUsed?.[playerId]?.includes(kind)) return null;
+      if (kind === 'fiftyFifty' && (question?.options?.length || 0) <= 2) return null;
+      help = kind === 'fiftyFifty'
+        ? { questionIndex, removedOptions: fiftyFiftyRemovals(question.options, key.answer) }
+        : { questionIndex, skipped: true };
+    }
+
+    setState(prev => prev.gameState?.currentQuestionIndex === questionIndex ? {
+      ...prev,
+      gameState: {
+        ...prev.gameState,
+        hintCosts: kind === 'hint'
+          ? { ...prev.gameState.hintCosts, [playerId]: rules.hintCost }
+          : prev.gameState.hintCosts,
+        lifelinesUsed: kind === 'hint'
+          ? prev.gameState.lifelinesUsed
+          : { ...prev.gameState.lifelinesUsed, [playerId]: [...(prev.gameState.lifelinesUsed?.[playerId] || []), kind] },
+        skipped: kind === 'skip' ? [...(prev.gameState.skipped || []), playerId] : prev.gameState.skipped
+      }
+    } : prev);
+    return help;
+  }, []);
+
+  // Keep what we were granted; a hint and a 50/50 on the same question both stay up
+  const applyHelp = useCallback((kind: HelpKind, help: RoundHelp) => {
+    setState(prev => ({
+      ...prev,
+      help: prev.help?.questionIndex === help.questionIndex ? { ...prev.help, ...help } : help,
+      lifelinesUsed: kind === 'hint' ? prev.lifelinesUsed : [...prev.lifelinesUsed, kind]
+    }));
+  }, []);
+
+  // Everything is judged by the connection a message arrived on; senderId is
+  // only what the sender claims, so a mismatch means someone is impersonating
   const handleMessage = useCallback((peerId: string, message: GameMessage) => {
+    if (message.senderId !== peerId) {
+      console.warn('[useLocalMultiplayer] Dropped a', message.type, 'message from', peerId, 'claiming to be', message.senderId);
+      return;
+    }
+    if (message.type === 'request_room_info') {
+      if (stateRef.current.isHost) void admitGuest(peerId, message.payload);
+      return;
+    }
+    if (message.type === 'lifeline') {
+      const { isHost, room } = stateRef.current;
+      const { kind, questionIndex } = message.payload;
+      if (isHost) {
+        const help = grantHelp(peerId, kind, questionIndex);
+        connectionManager.current?.sendTo(peerId, {
+          type: 'lifeline',
+          senderId: localId.current,
+          senderName: localName.current,
+          payload: { kind, questionIndex, help }
+        });
+      } else if (peerId === room?.hostId) {
+        if (message.payload.help) {
+          applyHelp(kind, message.payload.help);
+        } else {
+          toast({
+            title: "Not Available",
+            description: kind === 'hint' ? "No hint for this question" : "That lifeline can't be used right now"
+          });
+        }
+      }
+      return;
+    }
+    // Before the first room_info arrives, the host is whoever describes itself as one
+    const currentHostId = stateRef.current.room?.hostId ?? message.payload?.room?.hostId;
+    const sentByHost = peerId === currentHostId;
+    if (message.type === 'room_info' && message.payload.resumeToken && sentByHost) {
+      resumeToken.current = message.payload.resumeToken;
+    }
+    if ((message.type === 'question' || message.type === 'game_start') && sentByHost) {
+      roundStartedAt.current = Date.now();
+    }
+    if (message.type === 'state_snapshot' && sentByHost) {
+      if (message.payload.resume && message.payload.gameState?.timeLeft) {
+        const { timer, timeLeft } = message.payload.gameState;
+        roundStartedAt.current = Date.now() - (timer - timeLeft) * 1000;
+      }
+      lastSnapshot.current = message.payload as HostSnapshot;
+    }
+    if (message.type === 'score_update' && sentByHost) {
+      void checkHostResult(message.payload);
+    }
+    const isReachable = (id: string) => id === localId.current || !!connectionManager.current?.isConnectedTo(id);
+    if (message.type === 'room_update' && isTrustedRoomUpdate(message.payload.room, stateRef.current.room, peerId, isReachable)
+      && (message.payload.room.hostTerm || 0) > (stateRef.current.room?.hostTerm || 0)) {
+      // Someone already took over
+      cancelHostMigration();
+      // Only the old host saw our answer to the open question; hand it to the new one
+      const newHostId = message.payload.room.hostId;
+      const { gameState } = stateRef.current;
+      const ownAnswer = gameState?.phase === 'question' ? gameState.answers[localId.current] : undefined;
+      if (ownAnswer && newHostId !== localId.current) {
+        connectionManager.current?.sendTo(newHostId, {
+          type: 'answer',
+          senderId: localId.current,
+          senderName: localName.current,
+          payload: { answerHash: ownAnswer, questionIndex: gameState.currentQuestionIndex }
+        });
+      }
+    }
+
     setState(prev => {
+      // Round flow only comes from the current host
+      const fromHost = peerId === (prev.room?.hostId ?? message.payload?.room?.hostId);
+
       switch (message.type) {
-        case 'chat':
+        case 'chat': {
+          // Team chat is only sent to teammates, but don't show another team's if it arrives
+          const teamId = message.payload?.teamId;
+          if (teamId && prev.room?.currentPlayers.find(p => p.id === localId.current)?.teamId !== teamId) {
+            return prev;
+          }
           return {
             ...prev,
             messages: [...prev.messages, message]
           };
+        }
 
-        case 'room_update':
+        case 'room_update': {
+          const room = message.payload.room as GameRoom;
+          if (!isTrustedRoomUpdate(room, prev.room, peerId, isReachable)) return prev;
           return {
             ...prev,
-            room: message.payload.room
+            room,
+            // A migration can hand the room to us, or take it from a host that dropped out
+            isHost: room.hostId === localId.current
+          };
+        }
+
+        case 'player_leave':
+          // The host stopped holding their seat
+          if (!fromHost || !prev.room) return prev;
+          return {
+            ...prev,
+            peers: prev.peers.filter(p => p.id !== message.payload.playerId),
+            room: {
+              ...prev.room,
+              currentPlayers: prev.room.currentPlayers.filter(p => p.id !== message.payload.playerId)
+            }
+          };
+
+        case 'state_snapshot': {
+          if (!message.payload.resume || !fromHost) return prev;
+          // Snapshots of an open round leave out answers; keep ours if it's still the same question
+          let gameState = message.payload.gameState as MultiplayerGameState | null;
+          const ownAnswer = prev.gameState?.answers[localId.current];
+          if (gameState?.phase === 'question' && ownAnswer && !gameState.answers[localId.current]
+            && prev.gameState.currentQuestionIndex === gameState.currentQuestionIndex) {
+            gameState = {
+              ...gameState,
+              answers: { ...gameState.answers, [localId.current]: ownAnswer },
+              answerTimes: { ...gameState.answerTimes, [localId.current]: prev.gameState.answerTimes[localId.current] }
+            };
+          }
+          return {
+            ...prev,
+            gameState,
+            sharedQuestions: message.payload.sharedQuestions || prev.sharedQuestions,
+            commitments: message.payload.commitments || prev.commitments
           };
+        }
 
         case 'game_start':
+          if (!fromHost) return prev;
           return {
             ...prev,
             gameState: message.payload.gameState,
-            sharedQuestions: message.payload.questions || []
+            sharedQuestions: message.payload.questions || [],
+            commitments: message.payload.commitments || [],
+            help: null,
+            lifelinesUsed: []
           };
 
         case 'question':
+          if (!fromHost) return prev;
           return {
             ...prev,
             gameState: prev.gameState ? {
@@ -363,68 +1164,87 @@ export const useLocalMultiplayer = () => {
               currentQuestionIndex: message.payload.index,
               phase: 'question',
               timer: message.payload.timer,
-              answers: {}
+              answers: {},
+              answerTimes: {},
+              roundWinner: undefined,
+              reveal: undefined,
+              correctIds: undefined,
+              revealedAnswers: undefined,
+              verified: undefined,
+              revealedClues: message.payload.question?.clues?.length,
+              answerPoints: {},
+              timeLeft: undefined,
+              suddenDeath: message.payload.suddenDeath,
+              hintCosts: {},
+              skipped: []
             } : null
           };
 
-        case 'answer':
+        case 'clue_reveal':
+          if (!fromHost || prev.gameState?.currentQuestionIndex !== message.payload.questionIndex) return prev;
           return {
             ...prev,
-            gameState: prev.gameState ? {
+            gameState: {
               ...prev.gameState,
+              currentQuestion: {
+                ...prev.gameState.currentQuestion,
+                clues: [...(prev.gameState.currentQuestion?.clues || []), message.payload.clue]
+              },
+              revealedClues: message.payload.revealed
+            }
+          };
+
+        case 'answer': {
+          // First answer counts, for the question that's open; nothing changes once the round is closed
+          const gameState = prev.gameState;
+          if (!gameState || gameState.phase !== 'question' || gameState.answers[peerId]) return prev;
+          if (message.payload?.questionIndex !== gameState.currentQuestionIndex) return prev;
+          if (prev.room?.currentPlayers.find(p => p.id === peerId)?.isSpectator) return prev;
+          if (!canAnswer(gameState, peerId)) return prev;
+          // Answers are ranked by when they reached us, never by a time the sender claims
+          const receivedAt = Date.now();
+          return {
+            ...prev,
+            gameState: {
+              ...gameState,
               answers: {
-                ...prev.gameState.answers,
-                [message.senderId]: message.payload.answer
-              }
-            } : null
+                ...gameState.answers,
+                [peerId]: message.payload.answerHash
+              },
+              answerTimes: {
+                ...gameState.answerTimes,
+                [peerId]: receivedAt
+              },
+              // What the answer is worth depends on how many clues were out, and how soon it arrived
+              answerPoints: answerPointsWith(gameState, prev.room, peerId, (receivedAt - roundStartedAt.current) / 1000)
+            }
           };
+        }
 
         case 'score_update':
+          if (!fromHost) return prev;
           return {
             ...prev,
             gameState: prev.gameState ? {
               ...prev.gameState,
               scores: message.payload.scores,
               phase: message.payload.phase || prev.gameState.phase,
-              roundWinner: message.payload.roundWinner
+              roundWinner: message.payload.roundWinner,
+              reveal: message.payload.reveal || prev.gameState.reveal,
+              mapProgress: message.payload.mapProgress || prev.gameState.mapProgress,
+              ...withTeamScores(prev.gameState, prev.room, message.payload.scores)
             } : null
           };
 
-        case 'request_room_info':
-          // Host should send room info to requesting guest (with passcode validation)
-          if (prev.isHost && prev.room && connectionManager.current) {
-            const guestPasscode = message.payload.passcode;
-            const roomPasscode = prev.room.passcode;
-            
-            // Validate passcode
-            if (guestPasscode === roomPasscode) {
-              connectionManager.current.sendTo(peerId, {
-                type: 'room_info',
-                senderId: localId.current,
-                senderName: localName.current,
-                payload: { room: prev.room, authorized: true }
-              });
-            } else {
-              // Wrong passcode
-              connectionManager.current.sendTo(peerId, {
-                type: 'room_info',
-                senderId: localId.current,
-                senderName: localName.current,
-                payload: { authorized: false, error: 'Invalid passcode' }
-              });
-              console.warn('Guest attempted to join with wrong passcode');
-            }
-          }
-          return prev;
-
         case 'room_info':
+          if (!fromHost) return prev;
           if (message.payload.authorized === false) {
-            // Passcode validation failed
+            // The host turned us away (no invite, wrong passcode, or a full room)
             connectionManager.current?.close();
             connectionManager.current = null;
             toast({
               title: "Access Denied",
-              description: message.payload.error || "Invalid passcode. Reconnect and try again.",
+              description: message.payload.error || "The host couldn't let you in. Ask for a new invite.",
               variant: "destructive"
             });
             return {
@@ -434,24 +1254,12 @@ export const useLocalMultiplayer = () => {
               peers: []
             };
           }
+          if (isStaleRoom(message.payload.room, prev.room)) return prev;
           return {
             ...prev,
             room: message.payload.room
           };
 
-        case 'start_request':
-          // If a guest requests start, and we're the host, start the game with the provided questions
-          if (prev.isHost && connectionManager.current) {
-            const questions = message.payload?.questions || prev.sharedQuestions || [];
-            // call startGame (will run because we're host)
-            // startGame is defined later but captured from closure; invoke via setTimeout to ensure it's available
-            setTimeout(() => {
-              // @ts-ignore - startGame exists in closure
-              (startGame as any)(questions);
-            }, 0);
-          }
-          return prev;
-
         case 'lobby_request':
           // Guest requested to return to lobby; if we're host, set room.status back to 'waiting'
           if (prev.isHost && connectionManager.current && prev.room) {
@@ -468,6 +1276,7 @@ export const useLocalMultiplayer = () => {
 
         case 'lobby_update':
           // Host has updated lobby status or settings
+          if (!fromHost) return prev;
           return {
             ...prev,
             room: message.payload.room
@@ -477,7 +1286,7 @@ export const useLocalMultiplayer = () => {
           return prev;
       }
     });
-  }, []);
+  }, [admitGuest, applyHelp, cancelHostMigration, checkHostResult, grantHelp]);
 
   // Send a chat message
   const sendChatMessage = useCallback((text: string) => {
@@ -519,97 +1328,293 @@ export const useLocalMultiplayer = () => {
     }));
   }, []);
 
-  // Start the game (host only)
-  const startGame = useCallback((questions: any[]) => {
-    if (!state.isHost || !connectionManager.current) return;
+  // Send a message (or a clue) only the local player's teammates receive
+  const sendTeamMessage = useCallback((text: string, kind?: 'clue') => {
+    const { room } = stateRef.current;
+    const teamId = room?.currentPlayers.find(p => p.id === localId.current)?.teamId;
+    if (!connectionManager.current || !room || !teamId) return;
+
+    const message: Omit<GameMessage, 'timestamp'> = {
+      type: 'chat',
+      senderId: localId.current,
+      senderName: localName.current,
+      payload: kind ? { text, kind, teamId } : { text, teamId }
+    };
+
+    room.currentPlayers
+      .filter(p => p.teamId === teamId && p.id !== localId.current)
+      .forEach(p => connectionManager.current?.sendTo(p.id, message));
+
+    setState(prev => ({
+      ...prev,
+      messages: [...prev.messages, { ...message, timestamp: Date.now() }]
+    }));
+  }, []);
+
+  // Start the game (host only). Guests get the questions without answers and
+  // a commitment to each answer instead.
+  const startGame = useCallback(async (questions: any[]) => {
+    if (!state.isHost || !connectionManager.current || !state.room) return;
+
+    const room = state.room;
+    const matchId = crypto.randomUUID();
+    // Online rooms register the match, or the server won't record its result
+    if (!room.passcode && !(await registerMatch(room.id, matchId, questions.map((q) => q.id)))) {
+      toast({
+        title: "Results Won't Be Recorded",
+        description: "The match couldn't be registered with the server",
+        variant: "destructive"
+      });
+    }
+    answerKey.current = questions.map((q) => ({
+      answer: normalizeAnswer(getPlayKind(q), q.correct_answer),
+      salt: createSalt()
+    }));
+    clueKey.current = questions.map((q) => (getPlayKind(q) === 'clues' ? parseClues(q.question) : []));
+    const commitments = await Promise.all(
+      answerKey.current.map((entry) => commitAnswer(entry.answer, entry.salt))
+    );
+    const publicQuestions = questions.map(toPublicQuestion);
 
     const initialGameState: MultiplayerGameState = {
       currentQuestionIndex: 0,
-      currentQuestion: questions[0],
-      scores: state.room?.currentPlayers.reduce((acc, p) => ({ ...acc, [p.id]: 0 }), {}) || {},
+      currentQuestion: publicQuestions[0],
+      scores: getActivePlayers(room).reduce((acc, p) => ({ ...acc, [p.id]: 0 }), {}),
       answers: {},
+      answerTimes: {},
       phase: 'question',
-      timer: 30
+      timer: getRoundSeconds(publicQuestions[0], getRules(room)),
+      matchId,
+      verified: true,
+      revealedClues: publicQuestions[0]?.clues?.length,
+      answerPoints: {},
+      // Anything past the room's question count is held back for sudden death
+      regularQuestions: Math.min(questions.length, room.questionsPerRound || questions.length),
+      hintCosts: {},
+      skipped: [],
+      lifelinesUsed: {}
     };
+    if (MAP_GAME_TYPES.includes(room.gameType)) {
+      initialGameState.mapProgress = {};
+    }
+    if (room.gameMode === 'teams' && room.teams) {
+      initialGameState.teamRoster = Object.fromEntries(
+        getActivePlayers(room).filter(p => p.teamId).map(p => [p.id, p.teamId!])
+      );
+      initialGameState.teamScores = aggregateTeamScores(initialGameState.scores, initialGameState.teamRoster, room.teams);
+    }
 
     // First update room status and inform peers so clients switch view
-    const updatedRoom = state.room ? { ...state.room, status: 'playing' as const } : null;
+    const updatedRoom = { ...room, status: 'playing' as const };
 
-    if (updatedRoom) {
-      connectionManager.current.broadcast({
-        type: 'room_update',
-        senderId: localId.current,
-        senderName: localName.current,
-        payload: { room: updatedRoom }
-      });
-    }
+    connectionManager.current?.broadcast({
+      type: 'room_update',
+      senderId: localId.current,
+      senderName: localName.current,
+      payload: { room: updatedRoom }
+    });
 
     // Update host state
+    roundStartedAt.current = Date.now();
     setState(prev => ({
       ...prev,
       room: updatedRoom,
       gameState: initialGameState,
-      sharedQuestions: questions
+      sharedQuestions: publicQuestions,
+      commitments,
+      help: null,
+      lifelinesUsed: []
     }));
 
     // Then broadcast the game start payload
-    connectionManager.current.broadcast({
+    connectionManager.current?.broadcast({
       type: 'game_start',
       senderId: localId.current,
       senderName: localName.current,
-      payload: { gameState: initialGameState, questions }
+      payload: { gameState: initialGameState, questions: publicQuestions, commitments }
     });
   }, [state.isHost, state.room]);
 
-  // Request start of the game (guests will send a request to host; host will start directly)
-  const requestStartGame = useCallback((questions: any[]) => {
-    if (state.isHost) {
-      startGame(questions);
-      return;
-    }
+  // Submit an answer. Only its hash leaves this device until the round closes.
+  const submitAnswer = useCallback(async (answer: string) => {
+    const { room, gameState } = stateRef.current;
+    if (!connectionManager.current || !room || !gameState) return;
+    if (room.currentPlayers.find(p => p.id === localId.current)?.isSpectator) return;
+    if (!canAnswer(gameState, localId.current)) return;
 
-    if (!connectionManager.current) return;
+    const questionIndex = gameState.currentQuestionIndex;
+    const normalized = normalizeAnswer(getPlayKind(gameState.currentQuestion), answer);
+    const answerHash = await hashPlayerAnswer(normalized, room.id, questionIndex, localId.current);
+    const submittedAt = Date.now();
 
-    connectionManager.current.broadcast({
-      type: 'start_request',
+    // Only the host gets it, so nobody can match it against the options before the reveal
+    connectionManager.current?.sendTo(room.hostId, {
+      type: 'answer',
       senderId: localId.current,
       senderName: localName.current,
-      payload: { questions }
+      payload: { answerHash, questionIndex }
     });
-  }, [state.isHost, startGame]);
 
-  // Submit an answer
-  const submitAnswer = useCallback((answer: string) => {
-    if (!connectionManager.current) return;
+    setState(prev => ({
+      ...prev,
+      gameState: prev.gameState ? {
+        ...prev.gameState,
+        answers: {
+          ...prev.gameState.answers,
+          [localId.current]: answerHash
+        },
+        answerTimes: {
+          ...prev.gameState.answerTimes,
+          [localId.current]: submittedAt
+        },
+        answerPoints: answerPointsWith(prev.gameState, prev.room, localId.current, (submittedAt - roundStartedAt.current) / 1000)
+      } : null
+    }));
+  }, []);
+
+  // Show the next clue of a guess-the-character round (host only)
+  const revealClue = useCallback(() => {
+    const { gameState, isHost } = stateRef.current;
+    if (!isHost || !connectionManager.current || !gameState || gameState.phase !== 'question') return;
+
+    const questionIndex = gameState.currentQuestionIndex;
+    const revealed = gameState.revealedClues || 0;
+    const clue = clueKey.current[questionIndex]?.[revealed];
+    if (!clue) return;
 
     connectionManager.current.broadcast({
-      type: 'answer',
+      type: 'clue_reveal',
       senderId: localId.current,
       senderName: localName.current,
-      payload: { answer, submittedAt: Date.now() }
+      payload: { questionIndex, clue, revealed: revealed + 1 }
+    });
+
+    setState(prev => prev.gameState?.currentQuestionIndex === questionIndex ? {
+      ...prev,
+      gameState: {
+        ...prev.gameState,
+        currentQuestion: {
+          ...prev.gameState.currentQuestion,
+          clues: [...(prev.gameState.currentQuestion?.clues || []), clue]
+        },
+        revealedClues: revealed + 1
+      }
+    } : prev);
+  }, []);
+
+  // Close the current round (host only): score it from the answer hashes and
+  // reveal the answer and salt so guests can check the result
+  const closeRound = useCallback(async () => {
+    const { room, gameState, isHost } = stateRef.current;
+    if (!isHost || !connectionManager.current || !room || !gameState || gameState.phase !== 'question') return;
+
+    const questionIndex = gameState.currentQuestionIndex;
+    const key = answerKey.current[questionIndex];
+    if (!key) {
+      // A migrated host that couldn't look the answer up can't score the round
+      console.warn('[useLocalMultiplayer] No answer key for question', questionIndex + 1);
+    }
+
+    const answerTimes = gameState.answerTimes || {};
+    const outcome = key
+      ? await scoreRound({
+          roomId: room.id,
+          questionIndex,
+          correctAnswer: key.answer,
+          points: gameState.currentQuestion?.points || 10,
+          pointsByPlayer: gameState.answerPoints,
+          competitive: room.gameMode === 'competitive',
+          previousScores: gameState.scores,
+          answers: gameState.answers,
+          answerTimes,
+          wrongPenalty: getRules(room).wrongPenalty,
+          deductions: gameState.hintCosts
+        })
+      : { scores: gameState.scores, correctIds: [] as string[], roundWinner: undefined };
+    const reveal: RoundReveal | undefined = key
+      ? { answer: key.answer, salt: key.salt, answers: gameState.answers, answerTimes, points: gameState.answerPoints, deductions: gameState.hintCosts }
+      : undefined;
+    const revealedAnswers = await withRevealedAnswers(gameState, room.id, key?.answer);
+    const mapProgress = gameState.mapProgress
+      ? advanceMap(gameState.mapProgress, getMapGroups(room, gameState.teamRoster), outcome.correctIds)
+      : undefined;
+
+    // The timer and the all-answered check can both close a round
+    if (stateRef.current.gameState?.phase !== 'question') return;
+
+    connectionManager.current?.broadcast({
+      type: 'score_update',
+      senderId: localId.current,
+      senderName: localName.current,
+      payload: { scores: outcome.scores, phase: 'results', roundWinner: outcome.roundWinner, reveal, mapProgress }
     });
 
     setState(prev => ({
       ...prev,
       gameState: prev.gameState ? {
         ...prev.gameState,
-        answers: {
-          ...prev.gameState.answers,
-          [localId.current]: answer
-        }
+        scores: outcome.scores,
+        phase: 'results',
+        roundWinner: outcome.roundWinner,
+        reveal,
+        correctIds: outcome.correctIds,
+        revealedAnswers,
+        verified: true,
+        mapProgress,
+        roundLog: key
+          ? withRoundLog(prev.gameState, key.answer, revealedAnswers, outcome.correctIds, outcome.roundWinner)
+          : prev.gameState.roundLog,
+        ...withTeamScores(prev.gameState, prev.room, outcome.scores)
       } : null
     }));
   }, []);
 
-  // Update scores (host only)
-  const updateScores = useCallback((scores: Record<string, number>, phase?: string, roundWinner?: string) => {
+  // Update scores (host only). Finishing the game also signs the final scores.
+  const updateScores = useCallback(async (scores: Record<string, number>, phase?: string, roundWinner?: string) => {
+    const { room, gameState } = stateRef.current;
     if (!state.isHost || !connectionManager.current) return;
 
-    connectionManager.current.broadcast({
+    let summary: SignedSummary | undefined;
+    if (phase === 'finished' && room?.hostKey && hostKey.current && gameState?.matchId) {
+      const topScore = Math.max(0, ...Object.values(scores));
+      let winners = Object.keys(scores).filter(id => topScore > 0 && scores[id] === topScore);
+      let teams: TeamResult[] | undefined;
+      if (room.gameMode === 'teams' && room.teams) {
+        // Everyone on the top team wins
+        const { teamRoster = {}, teamScores = {} } = withTeamScores(gameState, room, scores);
+        teams = room.teams
+          .map(team => ({
+            id: team.id,
+            name: team.name,
+            score: teamScores[team.id] || 0,
+            members: Object.keys(teamRoster).filter(id => teamRoster[id] === team.id)
+          }))
+          .sort((a, b) => b.score - a.score);
+        const topTeamScore = teams[0]?.score || 0;
+        winners = teams
+          .filter(t => topTeamScore > 0 && t.score === topTeamScore)
+          .flatMap(t => t.members);
+      }
+      const matchSummary: MatchSummary = {
+        matchId: gameState.matchId,
+        roomId: room.id,
+        hostId: localId.current,
+        hostKey: room.hostKey,
+        gameType: room.gameType,
+        questionCount: stateRef.current.sharedQuestions.length,
+        scores,
+        winners,
+        teams,
+        finishedAt: Date.now()
+      };
+      summary = await signSummary(hostKey.current.privateKey, matchSummary);
+    }
+
+    connectionManager.current?.broadcast({
       type: 'score_update',
       senderId: localId.current,
       senderName: localName.current,
-      payload: { scores, phase, roundWinner }
+      payload: { scores, phase, roundWinner, summary }
     });
 
     setState(prev => ({
@@ -618,56 +1623,143 @@ export const useLocalMultiplayer = () => {
         ...prev.gameState,
         scores,
         phase: (phase as any) || prev.gameState.phase,
-        roundWinner
+        roundWinner,
+        summary,
+        ...withTeamScores(prev.gameState, prev.room, scores)
       } : null
     }));
   }, [state.isHost]);
 
-  // Send next question (host only)
-  const sendQuestion = useCallback((question: any, index: number, timer: number = 30) => {
+  // Send next question (host only). Past the room's question count, only the
+  // leaders still tied play on.
+  const sendQuestion = useCallback((question: any, index: number, timer?: number) => {
     if (!state.isHost || !connectionManager.current) return;
 
+    const { room, gameState } = stateRef.current;
+    const roundTimer = timer ?? getRoundSeconds(question, getRules(room));
+    const suddenDeath = room && gameState && index >= (gameState.regularQuestions ?? Infinity)
+      ? suddenDeathContenders(room, gameState.scores, gameState.teamRoster)
+      : undefined;
+    const publicQuestion = stripAnswer(question);
     connectionManager.current.broadcast({
       type: 'question',
       senderId: localId.current,
       senderName: localName.current,
-      payload: { question, index, timer }
+      payload: { question: publicQuestion, index, timer: roundTimer, suddenDeath }
     });
 
     setState(prev => ({
       ...prev,
       gameState: prev.gameState ? {
         ...prev.gameState,
-        currentQuestion: question,
+        currentQuestion: publicQuestion,
         currentQuestionIndex: index,
         phase: 'question',
-        timer,
-        answers: {}
+        timer: roundTimer,
+        answers: {},
+        answerTimes: {},
+        roundWinner: undefined,
+        reveal: undefined,
+        correctIds: undefined,
+        revealedAnswers: undefined,
+        verified: true,
+        revealedClues: publicQuestion.clues?.length,
+        answerPoints: {},
+        timeLeft: undefined,
+        suddenDeath,
+        hintCosts: {},
+        skipped: []
       } : null
     }));
+    roundStartedAt.current = Date.now();
   }, [state.isHost]);
 
+  // Ask for a hint or spend a lifeline on the current question. The host
+  // grants its own; guests ask the host, the only one who knows the answer.
+  const requestHelp = useCallback((kind: HelpKind) => {
+    const { room, gameState, isHost } = stateRef.current;
+    if (!connectionManager.current || !room || !gameState || gameState.phase !== 'question') return;
+
+    const questionIndex = gameState.currentQuestionIndex;
+    if (isHost) {
+      const help = grantHelp(localId.current, kind, questionIndex);
+      if (help) applyHelp(kind, help);
+      return;
+    }
+    connectionManager.current.sendTo(room.hostId, {
+      type: 'lifeline',
+      senderId: localId.current,
+      senderName: localName.current,
+      payload: { kind, questionIndex }
+    });
+  }, [applyHelp, grantHelp]);
+
   // Leave the room
   const leaveRoom = useCallback(() => {
+    cancelHostMigration();
+    leaveTimers.current.forEach((timer) => window.clearTimeout(timer));
+    leaveTimers.current.clear();
+    resumeTokens.current.clear();
+    resumeToken.current = null;
+    lastSnapshot.current = null;
+    hostKey.current = null;
+    answerKey.current = [];
+    clueKey.current = [];
     connectionManager.current?.close();
     connectionManager.current = null;
-    setState({
-      isHost: false,
-      room: null,
-      peers: [],
-      messages: [],
-      connectionStatus: 'disconnected',
-      gameState: null,
-      sharedQuestions: []
-    });
-  }, []);
+    setState(emptyState);
+  }, [cancelHostMigration]);
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
+      cancelHostMigration();
       connectionManager.current?.close();
     };
-  }, []);
+  }, [cancelHostMigration]);
+
+  // Swap peer handlers when the host role moves to or away from this device
+  useEffect(() => {
+    const manager = connectionManager.current;
+    if (!manager || !state.room) return;
+    if (state.isHost) {
+      bindHostHandlers(manager);
+    } else {
+      const spectator = !!state.room.currentPlayers.find(p => p.id === localId.current)?.isSpectator;
+      bindGuestHandlers(manager, state.room.passcode, spectator);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [state.isHost]);
+
+  // Host keeps guests supplied with a snapshot to resume from if it drops
+  useEffect(() => {
+    if (!state.isHost || state.room?.status !== 'playing') return;
+
+    const interval = setInterval(() => {
+      const { room, gameState, sharedQuestions, commitments } = stateRef.current;
+      if (!room) return;
+      connectionManager.current?.broadcast({
+        type: 'state_snapshot',
+        senderId: localId.current,
+        senderName: localName.current,
+        payload: { room, gameState: forGuest(gameState), sharedQuestions, commitments }
+      });
+    }, SNAPSHOT_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [state.isHost, state.room?.status]);
+
+  // Online rooms: keep our membership fresh, so the server can tell when the
+  // host has gone and who should take over
+  const roomId = state.room?.id;
+  const onlineRoom = !!state.room && !state.room.passcode;
+  useEffect(() => {
+    if (!roomId || !onlineRoom) return;
+
+    void touchRoom(roomId);
+    const interval = setInterval(() => void touchRoom(roomId), ROOM_HEARTBEAT_MS);
+    return () => clearInterval(interval);
+  }, [roomId, onlineRoom]);
 
   // Listen for UI-driven lobby request events (from MultiplayerGame button)
   useEffect(() => {
@@ -707,9 +1799,12 @@ export const useLocalMultiplayer = () => {
     leaveRoom,
     sendChatMessage,
     sendClue,
+    sendTeamMessage,
     startGame,
-    requestStartGame,
     submitAnswer,
+    requestHelp,
+    closeRound,
+    revealClue,
     updateScores,
     sendQuestion,
     updateRoomSettings,
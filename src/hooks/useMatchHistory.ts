@@ -0,0 +1,123 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { getAll, putAll, put, addToSyncQueue } from "@/lib/offlineDb";
+import { syncWithServer } from "@/lib/syncManager";
+import { useOnlineStatus } from "./useOnlineStatus";
+
+/** One closed round, as every device saw it once the host revealed it. */
+export interface RoundRecord {
+  question_index: number;
+  question: string;
+  answer: string;
+  // What each player picked; null when their hash matched no option
+  answers: Record<string, string | null>;
+  correct_ids: string[];
+  round_winner?: string;
+}
+
+export interface MatchParticipant {
+  id: string;
+  name: string;
+  score: number;
+  team_id?: string;
+}
+
+export interface MultiplayerMatch {
+  id: string;
+  match_id: string;
+  user_id: string;
+  room_code: string;
+  game_mode: string;
+  game_type: string;
+  participants: MatchParticipant[];
+  rounds: RoundRecord[];
+  winner_ids: string[];
+  score: number;
+  won: boolean;
+  verified: boolean;
+  finished_at: string;
+  created_at: string;
+}
+
+const STORE_NAME = 'multiplayer_matches';
+const HISTORY_LIMIT = 20;
+
+/**
+ * Keep this player's copy of a finished match. It goes through the sync queue
+ * like any offline write, so a game played without a connection is uploaded
+ * once the device is back online. It only shows as verified once the server
+ * has accepted the host-signed summary.
+ */
+export const recordMatch = async (match: Omit<MultiplayerMatch, 'id' | 'created_at' | 'verified'>) => {
+  const row: MultiplayerMatch = {
+    ...match,
+    id: crypto.randomUUID(),
+    verified: false,
+    created_at: new Date().toISOString(),
+  };
+  try {
+    await put(STORE_NAME, row);
+    await addToSyncQueue({ table: STORE_NAME, action: 'insert', data: row });
+    if (navigator.onLine) void syncWithServer();
+  } catch (error) {
+    console.error('[useMatchHistory] Failed to record match:', error);
+  }
+};
+
+// A player's recent matches, newest first
+export const useMatchHistory = (userId: string | undefined) => {
+  const [matches, setMatches] = useState<MultiplayerMatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const isOnline = useOnlineStatus();
+
+  const fetchMatches = useCallback(async () => {
+    if (!userId) {
+      setMatches([]);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+
+    // Stale-while-revalidate: show cache instantly
+    try {
+      const cached = (await getAll<MultiplayerMatch>(STORE_NAME))
+        .filter(m => m.user_id === userId)
+        .sort((a, b) => b.finished_at.localeCompare(a.finished_at))
+        .slice(0, HISTORY_LIMIT);
+      setMatches(cached);
+    } catch (error) {
+      console.error('[useMatchHistory] Failed to read cached matches:', error);
+    }
+
+    if (isOnline) {
+      try {
+        const { data, error } = await supabase
+          .from('multiplayer_matches')
+          .select('*')
+          .eq('user_id', userId)
+          .order('finished_at', { ascending: false })
+          .limit(HISTORY_LIMIT);
+        if (error) throw error;
+        const fetched = (data || []) as unknown as MultiplayerMatch[];
+        await putAll(STORE_NAME, fetched);
+        // Matches still waiting in the sync queue only exist locally
+        setMatches(prev => {
+          const local = prev.filter(m => !fetched.some(f => f.match_id === m.match_id));
+          return [...local, ...fetched]
+            .sort((a, b) => b.finished_at.localeCompare(a.finished_at))
+            .slice(0, HISTORY_LIMIT);
+        });
+      } catch (error) {
+        console.error('[useMatchHistory] Failed to fetch matches:', error);
+      }
+    }
+
+    setLoading(false);
+  }, [userId, isOnline]);
+
+  useEffect(() => {
+    fetchMatches();
+  }, [fetchMatches]);
+
+  return { matches, loading, refetch: fetchMatches };
+};
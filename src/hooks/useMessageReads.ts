@@ -0,0 +1,147 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { getAll, put, putAll, addToSyncQueue } from "@/lib/offlineDb";
+import { useOnlineStatus } from "./useOnlineStatus";
+
+// A participant's read cursor, cached under '<conversation_id>:<user_id>'
+export interface MessageRead {
+  id: string;
+  conversation_id: string;
+  user_id: string;
+  last_read_at: string;
+}
+
+// Fired when this user reads a conversation, so the list can clear its badge
+export const CONVERSATION_READ_EVENT = "conversation-read";
+
+export const readCursorId = (conversationId: string, userId: string) => `${conversationId}:${userId}`;
+
+export const toCachedRead = (row: Omit<MessageRead, "id">): MessageRead => ({
+  id: readCursorId(row.conversation_id, row.user_id),
+  conversation_id: row.conversation_id,
+  user_id: row.user_id,
+  last_read_at: row.last_read_at,
+});
+
+// Read cursors for everyone in a conversation, keyed by user id
+export const useMessageReads = (conversationId: string | undefined, userId: string | undefined) => {
+  const [reads, setReads] = useState<Record<string, string>>({});
+  const isOnline = useOnlineStatus();
+
+  const mergeReads = useCallback((rows: { user_id: string; last_read_at: string }[]) => {
+    setReads((prev) => {
+      const next = { ...prev };
+      rows.forEach((row) => {
+        // Cursors only move forward
+        if (!next[row.user_id] || new Date(row.last_read_at) > new Date(next[row.user_id])) {
+          next[row.user_id] = row.last_read_at;
+        }
+      });
+      return next;
+    });
+  }, []);
+
+  const fetchReads = useCallback(async () => {
+    if (!conversationId) return;
+
+    // 1. Cache-first
+    try {
+      const cached = await getAll<MessageRead>("message_reads");
+      mergeReads(cached.filter((r) => r.conversation_id === conversationId));
+    } catch { /* ignore */ }
+
+    if (!isOnline) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("message_reads")
+        .select("conversation_id, user_id, last_read_at")
+        .eq("conversation_id", conversationId);
+
+      if (error) throw error;
+
+      mergeReads(data || []);
+      try {
+        if (data) await putAll("message_reads", data.map(toCachedRead));
+      } catch { /* ignore */ }
+    } catch (error) {
+      console.error("Error fetching read receipts:", error);
+    }
+  }, [conversationId, isOnline, mergeReads]);
+
+  useEffect(() => {
+    setReads({});
+    fetchReads();
+  }, [fetchReads]);
+
+  // Queued cursors reach the server when the sync queue drains; pick up where everyone is now
+  useEffect(() => {
+    const handler = () => fetchReads();
+    window.addEventListener("sync-complete", handler);
+    return () => window.removeEventListener("sync-complete", handler);
+  }, [fetchReads]);
+
+  // Subscribe to other participants reading (online only)
+  useEffect(() => {
+    if (!conversationId || !isOnline) return;
+
+    const channel = supabase
+      .channel(`message-reads-${conversationId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "message_reads",
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          const row = payload.new as Omit<MessageRead, "id">;
+          if (!row?.user_id) return;
+          mergeReads([row]);
+          put("message_reads", toCachedRead(row)).catch(() => { /* ignore */ });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId, isOnline, mergeReads]);
+
+  // Move this user's cursor up to `upTo`. Offline (or on failure) the cursor
+  // is queued and upserted by syncWithServer.
+  const markRead = useCallback(async (upTo: string) => {
+    if (!conversationId || !userId) return;
+    const current = reads[userId];
+    if (current && new Date(current) >= new Date(upTo)) return;
+
+    const row = toCachedRead({ conversation_id: conversationId, user_id: userId, last_read_at: upTo });
+    mergeReads([row]);
+    window.dispatchEvent(new CustomEvent(CONVERSATION_READ_EVENT, {
+      detail: { conversationId, lastReadAt: upTo },
+    }));
+    try { await put("message_reads", row); } catch { /* ignore */ }
+
+    const queueCursor = () => addToSyncQueue({ table: "message_reads", action: "insert", data: row });
+
+    if (!isOnline) {
+      await queueCursor();
+      return;
+    }
+
+    const { error } = await supabase
+      .from("message_reads")
+      .upsert(
+        { conversation_id: conversationId, user_id: userId, last_read_at: upTo },
+        { onConflict: "conversation_id,user_id" }
+      );
+
+    if (error) {
+      console.error("Error saving read receipt:", error);
+      await queueCursor();
+    }
+  }, [conversationId, userId, reads, isOnline, mergeReads]);
+
+  return { reads, markRead };
+};
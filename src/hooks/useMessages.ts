@@ -1,7 +1,30 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
-import { getAll, putAll, put, addToSyncQueue } from "@/lib/offlineDb";
+import { getAll, getById, putAll, put, addToSyncQueue, getSyncQueue } from "@/lib/offlineDb";
 import { useOnlineStatus } from "./useOnlineStatus";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  prepareAttachments,
+  uploadPendingAttachments,
+  type DraftAttachment,
+  type MessageAttachment,
+} from "@/lib/chatAttachments";
+
+export interface MessageReaction {
+  id: string;
+  message_id: string;
+  conversation_id: string;
+  user_id: string;
+  emoji: string;
+  created_at: string;
+}
+
+export interface MessageEdit {
+  id: string;
+  message_id: string;
+  previous_content: string;
+  edited_at: string;
+}
 
 export interface Message {
   id: string;
@@ -9,11 +32,21 @@ export interface Message {
   sender_id: string;
   content: string;
   created_at: string;
+  reply_to_id?: string | null;
+  edited_at?: string | null;
+  attachments?: MessageAttachment[];
   sender?: {
     username: string;
     avatar_url: string | null;
   };
+  // Not yet confirmed by the server; `failed` once a delivery attempt has errored
   pending?: boolean;
+  failed?: boolean;
+  // 0 to 1 while attachments upload; never cached
+  uploadProgress?: number;
+  // Reactions and fetched edit history ride along on the cached message so they show offline
+  reactions?: MessageReaction[];
+  edits?: MessageEdit[];
 }
 
 interface CachedProfile {
@@ -23,10 +56,22 @@ interface CachedProfile {
   avatar_url: string | null;
 }
 
+// The columns a message is inserted with; the id is the one the client made up
+const toRow = (message: Message) => ({
+  id: message.id,
+  conversation_id: message.conversation_id,
+  sender_id: message.sender_id,
+  content: message.content,
+  reply_to_id: message.reply_to_id ?? null,
+  attachments: (message.attachments || []) as unknown as Json,
+});
+
 export const useMessages = (conversationId: string | undefined) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [loading, setLoading] = useState(true);
   const isOnline = useOnlineStatus();
+  // Messages being sent right now, which a refetch mustn't mistake for failed ones
+  const inFlightRef = useRef(new Set<string>());
 
   const decorateWithSenders = useCallback(async (msgs: Message[]): Promise<Message[]> => {
     try {
@@ -83,7 +128,21 @@ export const useMessages = (conversationId: string | undefined) => {
 
       if (profilesError) throw profilesError;
 
-      const messagesWithSenders: Message[] = (data || []).map((msg) => {
+      const { data: reactions, error: reactionsError } = await supabase
+        .from("message_reactions")
+        .select("*")
+        .eq("conversation_id", conversationId)
+        .order("created_at", { ascending: true });
+
+      if (reactionsError) throw reactionsError;
+
+      const withReactions: Message[] = (data || []).map((msg) => ({
+        ...msg,
+        attachments: (msg.attachments as unknown as MessageAttachment[]) || [],
+        reactions: reactions?.filter((r) => r.message_id === msg.id) || [],
+      }));
+
+      const messagesWithSenders: Message[] = withReactions.map((msg) => {
         const profile = profiles?.find((p) => p.user_id === msg.sender_id);
         return {
           ...msg,
@@ -93,11 +152,29 @@ export const useMessages = (conversationId: string | undefined) => {
         };
       });
 
-      setMessages(messagesWithSenders);
+      // Messages not on the server yet only exist locally. Ones the sync queue
+      // has given up on are marked failed so they can be retried.
+      const delivered = new Set(withReactions.map((m) => m.id));
+      const queued = new Set(
+        (await getSyncQueue())
+          .filter((item) => item.table === "messages")
+          .map((item) => (item.data as { id?: string }).id)
+      );
+      const undelivered = (await getAll<Message>("messages"))
+        .filter((m) => m.conversation_id === conversationId && (m.pending || m.failed) && !delivered.has(m.id))
+        .map((m) =>
+          queued.has(m.id) || inFlightRef.current.has(m.id) ? m : { ...m, pending: false, failed: true }
+        );
+
+      setMessages(
+        [...messagesWithSenders, ...(await decorateWithSenders(undelivered))].sort(
+          (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+        )
+      );
 
       // Cache for offline
       try {
-        if (data) await putAll("messages", data as { id: string }[]);
+        await putAll("messages", withReactions);
         if (profiles) await putAll("profiles", profiles.map((p) => ({ ...p, id: p.user_id })));
       } catch { /* ignore */ }
     } catch (error) {
@@ -111,7 +188,22 @@ export const useMessages = (conversationId: string | undefined) => {
     fetchMessages();
   }, [fetchMessages]);
 
-  // Subscribe to real-time messages (INSERT and DELETE) — online only
+  // Queued messages are delivered when the sync queue drains
+  useEffect(() => {
+    const handler = () => fetchMessages();
+    window.addEventListener("sync-complete", handler);
+    return () => window.removeEventListener("sync-complete", handler);
+  }, [fetchMessages]);
+
+  // Apply a change to one message in state and in the cache
+  const patchMessage = useCallback((messageId: string, patch: (message: Message) => Message) => {
+    setMessages((prev) => prev.map((m) => (m.id === messageId ? patch(m) : m)));
+    getById<Message>("messages", messageId)
+      .then((cached) => cached && put("messages", patch(cached)))
+      .catch(() => { /* ignore */ });
+  }, []);
+
+  // Subscribe to real-time messages (INSERT, UPDATE and DELETE) and reactions — online only
   useEffect(() => {
     if (!conversationId || !isOnline) return;
 
@@ -136,17 +228,45 @@ export const useMessages = (conversationId: string | undefined) => {
 
           const messageWithSender: Message = {
             ...newMessage,
+            reactions: [],
             sender: profile
               ? { username: profile.username, avatar_url: profile.avatar_url }
               : undefined,
           };
 
           setMessages((prev) => {
-            // dedupe by id
-            if (prev.some((m) => m.id === messageWithSender.id)) return prev;
-            return [...prev, messageWithSender];
+            // Our own messages echo back under the id we sent them with; that marks them delivered
+            const existing = prev.find((m) => m.id === messageWithSender.id);
+            if (!existing) return [...prev, messageWithSender];
+            return prev.map((m) =>
+              m.id === messageWithSender.id
+                ? { ...m, ...messageWithSender, reactions: m.reactions, pending: false, failed: false }
+                : m
+            );
           });
-          try { await put("messages", newMessage as { id: string }); } catch { /* ignore */ }
+          try {
+            const cached = await getById<Message>("messages", newMessage.id);
+            await put(
+              "messages",
+              cached
+                ? { ...cached, pending: false, failed: false }
+                : { ...newMessage, reactions: [], pending: false, failed: false }
+            );
+          } catch { /* ignore */ }
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "messages",
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          const edited = payload.new as Message;
+          // History is refetched next time it's opened
+          patchMessage(edited.id, (m) => ({ ...m, content: edited.content, edited_at: edited.edited_at, edits: undefined }));
         }
       )
       .on(
@@ -162,89 +282,292 @@ export const useMessages = (conversationId: string | undefined) => {
           setMessages((prev) => prev.filter((m) => m.id !== deletedMessage.id));
         }
       )
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "message_reactions",
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          const reaction = payload.new as MessageReaction;
+          patchMessage(reaction.message_id, (m) =>
+            m.reactions?.some((r) => r.id === reaction.id)
+              ? m
+              : { ...m, reactions: [...(m.reactions || []), reaction] }
+          );
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          // Deletes can't be filtered, and under RLS carry only the row's id.
+          // Ones for other conversations match no reaction here.
+          event: "DELETE",
+          schema: "public",
+          table: "message_reactions",
+        },
+        (payload) => {
+          const { id } = payload.old as Pick<MessageReaction, "id">;
+          setMessages((prev) =>
+            prev.map((m) =>
+              m.reactions?.some((r) => r.id === id)
+                ? { ...m, reactions: m.reactions.filter((r) => r.id !== id) }
+                : m
+            )
+          );
+        }
+      )
       .subscribe();
 
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [conversationId, isOnline]);
+  }, [conversationId, isOnline, patchMessage]);
+
+  const sendMessage = async (
+    content: string,
+    senderId: string,
+    replyToId: string | null = null,
+    drafts: DraftAttachment[] = []
+  ) => {
+    if (!conversationId || (!content.trim() && drafts.length === 0)) return;
 
-  const sendMessage = async (content: string, senderId: string) => {
-    if (!conversationId || !content.trim()) return;
+    const messageId = crypto.randomUUID();
+    // Files wait in IndexedDB until uploaded, so the bubble can show them meanwhile
+    const attachments = await prepareAttachments(conversationId, messageId, drafts);
 
     const newMsg: Message = {
-      id: crypto.randomUUID(),
+      id: messageId,
       conversation_id: conversationId,
       sender_id: senderId,
       content: content.trim(),
       created_at: new Date().toISOString(),
-      pending: !isOnline,
+      reply_to_id: replyToId,
+      attachments,
+      reactions: [],
+      pending: true,
     };
 
     // Optimistic update + cache
-    setMessages((prev) => [...prev, newMsg]);
+    setMessages((prev) => [
+      ...prev,
+      { ...newMsg, uploadProgress: isOnline && attachments.length > 0 ? 0 : undefined },
+    ]);
     try { await put("messages", newMsg as unknown as { id: string }); } catch { /* ignore */ }
 
     if (!isOnline) {
-      await addToSyncQueue({
-        table: "messages",
-        action: "insert",
-        data: {
-          id: newMsg.id,
-          conversation_id: conversationId,
-          sender_id: senderId,
-          content: newMsg.content,
-        },
-      });
+      await queueMessage(newMsg);
       return;
     }
 
-    const { data, error } = await supabase
+    // The bubble is up; it shows how delivery goes and offers a retry if it fails
+    void deliver(newMsg);
+  };
+
+  // Queued messages are inserted by syncWithServer; entries for the same id merge
+  const queueMessage = (message: Message) =>
+    addToSyncQueue({ table: "messages", action: "insert", data: toRow(message) });
+
+  // Delivery failed: keep it queued so the next sync can still send it, and offer a retry
+  const markFailed = async (message: Message) => {
+    patchMessage(message.id, (m) => ({ ...m, pending: false, failed: true, uploadProgress: undefined }));
+    await queueMessage(message);
+  };
+
+  // Send now, falling back to the queue if it fails
+  const deliver = async (message: Message) => {
+    inFlightRef.current.add(message.id);
+    try {
+      await insertMessage(message);
+    } catch {
+      await markFailed(message);
+    } finally {
+      inFlightRef.current.delete(message.id);
+    }
+  };
+
+  // Upload a message's files and insert it under its client id. Inserting is
+  // idempotent, so a retry (or a realtime echo) never produces a second copy.
+  const insertMessage = async (message: Message) => {
+    const messageId = message.id;
+    const attachments = message.attachments || [];
+
+    if (attachments.length > 0) {
+      const setProgress = (uploadProgress: number | undefined) =>
+        setMessages((prev) => prev.map((m) => (m.id === messageId ? { ...m, uploadProgress } : m)));
+
+      try {
+        await uploadPendingAttachments(messageId, setProgress);
+      } catch (error) {
+        // The files stay in IndexedDB; syncWithServer uploads them with the queued message
+        console.error("Error uploading attachments:", error);
+        throw error;
+      }
+      setProgress(undefined);
+    }
+
+    const { error } = await supabase
       .from("messages")
-      .insert({
-        conversation_id: conversationId,
-        sender_id: senderId,
-        content: content.trim(),
-      })
-      .select()
-      .single();
+      .upsert(toRow(message), { onConflict: "id", ignoreDuplicates: true });
 
     if (error) {
       console.error("Error sending message:", error);
-      // Queue for retry
-      await addToSyncQueue({
-        table: "messages",
-        action: "insert",
-        data: {
-          id: newMsg.id,
-          conversation_id: conversationId,
-          sender_id: senderId,
-          content: newMsg.content,
-        },
-      });
       throw error;
     }
 
+    patchMessage(messageId, (m) => ({ ...m, pending: false, failed: false }));
+
     // Update conversation updated_at
     await supabase
       .from("conversations")
       .update({ updated_at: new Date().toISOString() })
-      .eq("id", conversationId);
-
-    // Trigger push notification for other participants
-    if (data) {
-      supabase.functions.invoke("notify-new-message", {
-        body: {
-          messageId: data.id,
-          conversationId: conversationId,
-          senderId: senderId,
-          content: content.trim(),
-        },
-      }).catch((err) => {
-        console.error("Error triggering push notification:", err);
+      .eq("id", message.conversation_id);
+  };
+
+  // Try a failed message again. Offline it goes back to waiting in the sync queue.
+  const retryMessage = async (messageId: string) => {
+    const message = messages.find((m) => m.id === messageId);
+    if (!message?.failed) return;
+
+    patchMessage(messageId, (m) => ({ ...m, pending: true, failed: false }));
+
+    if (!isOnline) {
+      // The queue may have given up on it
+      await queueMessage(message);
+      return;
+    }
+
+    await deliver(message);
+  };
+
+  const editMessage = async (messageId: string, content: string) => {
+    const original = messages.find((m) => m.id === messageId);
+    const trimmed = content.trim();
+    if (!original || !trimmed || trimmed === original.content) return;
+
+    // The server stamps edited_at and files the old text; mirror that locally
+    const editedAt = new Date().toISOString();
+    patchMessage(messageId, (m) => ({
+      ...m,
+      content: trimmed,
+      edited_at: editedAt,
+      edits: m.edits && [
+        ...m.edits,
+        { id: crypto.randomUUID(), message_id: messageId, previous_content: m.content, edited_at: editedAt },
+      ],
+    }));
+
+    // A message still waiting to send just has its queued insert rewritten (or,
+    // mid-send, is updated once the queue drains)
+    const queueEdit = () =>
+      addToSyncQueue({
+        table: "messages",
+        action: "update",
+        data: { id: messageId, content: trimmed },
+        base: { content: original.content },
       });
+
+    if (!isOnline || original.pending || original.failed) {
+      await queueEdit();
+      return;
+    }
+
+    const { error } = await supabase
+      .from("messages")
+      .update({ content: trimmed })
+      .eq("id", messageId);
+
+    if (error) {
+      console.error("Error editing message:", error);
+      await queueEdit();
     }
   };
 
-  return { messages, loading, sendMessage, refetch: fetchMessages };
+  // Add this user's reaction, or take it back if they already reacted with that emoji
+  const toggleReaction = async (messageId: string, emoji: string, userId: string) => {
+    const message = messages.find((m) => m.id === messageId);
+    if (!conversationId || !message) return;
+
+    const existing = message.reactions?.find((r) => r.user_id === userId && r.emoji === emoji);
+
+    if (existing) {
+      patchMessage(messageId, (m) => ({
+        ...m,
+        reactions: (m.reactions || []).filter((r) => r.id !== existing.id),
+      }));
+
+      const queueRemoval = () =>
+        addToSyncQueue({ table: "message_reactions", action: "delete", data: { id: existing.id } });
+
+      if (!isOnline) {
+        await queueRemoval();
+        return;
+      }
+
+      const { error } = await supabase.from("message_reactions").delete().eq("id", existing.id);
+      if (error) {
+        console.error("Error removing reaction:", error);
+        await queueRemoval();
+      }
+      return;
+    }
+
+    const reaction: MessageReaction = {
+      id: crypto.randomUUID(),
+      message_id: messageId,
+      conversation_id: conversationId,
+      user_id: userId,
+      emoji,
+      created_at: new Date().toISOString(),
+    };
+    patchMessage(messageId, (m) => ({ ...m, reactions: [...(m.reactions || []), reaction] }));
+
+    const { created_at: _createdAt, ...row } = reaction;
+    const queueReaction = () => addToSyncQueue({ table: "message_reactions", action: "insert", data: row });
+
+    if (!isOnline || message.pending || message.failed) {
+      await queueReaction();
+      return;
+    }
+
+    const { error } = await supabase.from("message_reactions").insert(row);
+    if (error) {
+      console.error("Error adding reaction:", error);
+      await queueReaction();
+    }
+  };
+
+  // Earlier versions of a message, oldest first; the cached copy is used offline
+  const getEditHistory = async (messageId: string): Promise<MessageEdit[]> => {
+    const message = messages.find((m) => m.id === messageId);
+
+    if (!isOnline) return message?.edits || [];
+
+    const { data, error } = await supabase
+      .from("message_edits")
+      .select("*")
+      .eq("message_id", messageId)
+      .order("edited_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching edit history:", error);
+      return message?.edits || [];
+    }
+
+    patchMessage(messageId, (m) => ({ ...m, edits: data || [] }));
+    return data || [];
+  };
+
+  return {
+    messages,
+    loading,
+    sendMessage,
+    retryMessage,
+    editMessage,
+    toggleReaction,
+    getEditHistory,
+    refetch: fetchMessages,
+  };
 };
@@ -95,7 +95,7 @@ export const usePosts = () => {
       const { error } = await supabase.from("posts").update(updates).eq("id", postId);
       if (error) throw error;
     } else {
-      await addToSyncQueue({ table: 'posts', action: 'update', data: { id: postId, ...updates } });
+      await addToSyncQueue({ table: 'posts', action: 'update', data: { id: postId, ...updates }, base: existingPost });
     }
   };
 
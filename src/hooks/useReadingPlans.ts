@@ -0,0 +1,238 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { getAll, putAll, put, remove as removeFromDb, addToSyncQueue } from "@/lib/offlineDb";
+import { parseReference, type ReferenceSegment } from "@/lib/bibleReference";
+import { useOnlineStatus } from "./useOnlineStatus";
+import { useAuth } from "./useAuth";
+
+export interface ReadingPlan {
+  id: string;
+  title: string;
+  description: string | null;
+  readings: string[]; // one reference per day, e.g. "Matthew 27-Mark 1"
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReadingPlanProgress {
+  id: string;
+  user_id: string;
+  plan_id: string;
+  started_at: string; // YYYY-MM-DD
+  completed_days: number[]; // 1-based
+  last_read_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const PLANS_STORE = 'reading_plans';
+const PROGRESS_STORE = 'reading_plan_progress';
+// Keeps the Index card and the reader banner in step after local edits
+const CHANGE_EVENT = 'reading-plans-changed';
+
+/** The chapters a day's reading covers, one segment per chapter. */
+export const getReadingChapters = (reading: string): ReferenceSegment[] => {
+  const seen = new Set<string>();
+  return (parseReference(reading) || []).filter(s => {
+    const key = `${s.book}:${s.chapter}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/** Reader route for one chapter of a plan day; the reader shows a "mark done" banner for it. */
+export const getPlanChapterPath = (segment: ReferenceSegment, progressId: string, day: number) =>
+  `/bible/${encodeURIComponent(segment.book)}/${segment.chapter}?plan=${progressId}&day=${day}`;
+
+/** First day not yet completed, or null once the plan is finished. */
+export const getNextDay = (plan: ReadingPlan, progress: ReadingPlanProgress): number | null => {
+  for (let day = 1; day <= plan.readings.length; day++) {
+    if (!progress.completed_days.includes(day)) return day;
+  }
+  return null;
+};
+
+export const useReadingPlans = () => {
+  const { user } = useAuth();
+  const [plans, setPlans] = useState<ReadingPlan[]>([]);
+  const [progress, setProgress] = useState<ReadingPlanProgress[]>([]);
+  const [loading, setLoading] = useState(true);
+  const isOnline = useOnlineStatus();
+
+  const loadCachedProgress = useCallback(async () => {
+    if (!user) return [];
+    const cached = await getAll<ReadingPlanProgress>(PROGRESS_STORE);
+    return cached.filter(p => p.user_id === user.id);
+  }, [user]);
+
+  const fetchPlans = useCallback(async () => {
+    setLoading(true);
+
+    // Stale-while-revalidate: show cache instantly
+    try {
+      const [cachedPlans, cachedProgress] = await Promise.all([
+        getAll<ReadingPlan>(PLANS_STORE),
+        loadCachedProgress(),
+      ]);
+      if (cachedPlans.length > 0) {
+        setPlans(cachedPlans);
+        setProgress(cachedProgress);
+        setLoading(false);
+      }
+    } catch { /* continue */ }
+
+    if (isOnline) {
+      try {
+        const { data, error } = await supabase
+          .from("reading_plans")
+          .select("*")
+          .order("created_at", { ascending: true });
+        if (error) throw error;
+        const serverPlans = (data || []) as ReadingPlan[];
+        setPlans(serverPlans);
+        await putAll(PLANS_STORE, serverPlans);
+
+        if (user) {
+          const { data: rows, error: progressError } = await supabase
+            .from("reading_plan_progress")
+            .select("*")
+            .eq("user_id", user.id);
+          if (progressError) throw progressError;
+          const serverProgress = (rows || []) as ReadingPlanProgress[];
+          setProgress(serverProgress);
+          await putAll(PROGRESS_STORE, serverProgress);
+        } else {
+          setProgress([]);
+        }
+      } catch (err) {
+        console.error("Error fetching reading plans:", err);
+      }
+    }
+    setLoading(false);
+  }, [user, isOnline, loadCachedProgress]);
+
+  useEffect(() => { fetchPlans(); }, [fetchPlans]);
+
+  useEffect(() => {
+    const handleSync = () => { if (isOnline) fetchPlans(); };
+    const handleLocalChange = () => { loadCachedProgress().then(setProgress).catch(() => {}); };
+    window.addEventListener('sync-complete', handleSync);
+    window.addEventListener(CHANGE_EVENT, handleLocalChange);
+    return () => {
+      window.removeEventListener('sync-complete', handleSync);
+      window.removeEventListener(CHANGE_EVENT, handleLocalChange);
+    };
+  }, [isOnline, fetchPlans, loadCachedProgress]);
+
+  const notifyChange = () => window.dispatchEvent(new CustomEvent(CHANGE_EVENT));
+
+  /** The plan the user is reading now: the most recently touched unfinished one. */
+  const current = useMemo(() => {
+    const candidates = progress
+      .map(p => ({ progress: p, plan: plans.find(plan => plan.id === p.plan_id) }))
+      .filter((c): c is { progress: ReadingPlanProgress; plan: ReadingPlan } =>
+        !!c.plan && getNextDay(c.plan, c.progress) !== null
+      )
+      .sort((a, b) =>
+        (b.progress.last_read_at || b.progress.created_at).localeCompare(a.progress.last_read_at || a.progress.created_at)
+      );
+    if (candidates.length === 0) return null;
+    const { plan, progress: p } = candidates[0];
+    return { plan, progress: p, day: getNextDay(plan, p) as number };
+  }, [plans, progress]);
+
+  const startPlan = async (planId: string) => {
+    if (!user) throw new Error('Sign in to follow a reading plan');
+    const existing = progress.find(p => p.plan_id === planId);
+    const now = new Date().toISOString();
+
+    // Starting a finished or abandoned plan again begins from day 1
+    if (existing) {
+      const changes = { started_at: now.split('T')[0], completed_days: [] as number[], last_read_at: now };
+      const updated: ReadingPlanProgress = { ...existing, ...changes, updated_at: now };
+      setProgress(prev => prev.map(p => p.id === existing.id ? updated : p));
+      await put(PROGRESS_STORE, updated);
+      notifyChange();
+
+      if (isOnline) {
+        const { error } = await supabase.from("reading_plan_progress").update(changes).eq("id", existing.id);
+        if (error) throw error;
+      } else {
+        await addToSyncQueue({ table: 'reading_plan_progress', action: 'update', data: { id: existing.id, ...changes }, base: existing });
+      }
+      return;
+    }
+
+    const row: ReadingPlanProgress = {
+      id: crypto.randomUUID(),
+      user_id: user.id,
+      plan_id: planId,
+      started_at: now.split('T')[0],
+      completed_days: [],
+      last_read_at: now,
+      created_at: now,
+      updated_at: now,
+    };
+    setProgress(prev => [...prev, row]);
+    await put(PROGRESS_STORE, row);
+    notifyChange();
+
+    if (isOnline) {
+      const { error } = await supabase.from("reading_plan_progress").insert(row);
+      if (error) throw error;
+    } else {
+      await addToSyncQueue({ table: 'reading_plan_progress', action: 'insert', data: row });
+    }
+  };
+
+  /** Mark one day done. Returns false when it was already complete. */
+  const markDayComplete = async (progressId: string, day: number): Promise<boolean> => {
+    const existing = progress.find(p => p.id === progressId);
+    if (!existing || existing.completed_days.includes(day)) return false;
+    const now = new Date().toISOString();
+    const changes = {
+      completed_days: [...existing.completed_days, day].sort((a, b) => a - b),
+      last_read_at: now,
+    };
+    const updated: ReadingPlanProgress = { ...existing, ...changes, updated_at: now };
+    setProgress(prev => prev.map(p => p.id === progressId ? updated : p));
+    await put(PROGRESS_STORE, updated);
+    notifyChange();
+
+    if (isOnline) {
+      const { error } = await supabase.from("reading_plan_progress").update(changes).eq("id", progressId);
+      if (error) throw error;
+    } else {
+      await addToSyncQueue({ table: 'reading_plan_progress', action: 'update', data: { id: progressId, ...changes }, base: existing });
+    }
+    return true;
+  };
+
+  const leavePlan = async (progressId: string) => {
+    setProgress(prev => prev.filter(p => p.id !== progressId));
+    await removeFromDb(PROGRESS_STORE, progressId);
+    notifyChange();
+
+    if (isOnline) {
+      const { error } = await supabase.from("reading_plan_progress").delete().eq("id", progressId);
+      if (error) throw error;
+    } else {
+      await addToSyncQueue({ table: 'reading_plan_progress', action: 'delete', data: { id: progressId } });
+    }
+  };
+
+  return {
+    plans,
+    activePlans: plans.filter(p => p.is_active),
+    progress,
+    current,
+    loading,
+    fetchPlans,
+    startPlan,
+    markDayComplete,
+    leavePlan,
+  };
+};
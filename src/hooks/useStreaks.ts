@@ -14,6 +14,10 @@ export interface StreakData {
   total_games_played: number;
   last_login_date: string | null;
   last_game_date: string | null;
+  current_reading_streak: number;
+  longest_reading_streak: number;
+  last_reading_date: string | null;
+  total_readings: number;
 }
 
 export const useStreaks = () => {
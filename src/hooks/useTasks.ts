@@ -111,7 +111,7 @@ export const useTasks = () => {
       if (error) throw error;
       await fetchTasks();
     } else {
-      await addToSyncQueue({ table: 'tasks', action: 'update', data: { id, ...updates } });
+      await addToSyncQueue({ table: 'tasks', action: 'update', data: { id, ...updates }, base: existing });
     }
   };
 
@@ -0,0 +1,218 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { getAll, putAll, put, remove as removeFromDb, addToSyncQueue } from "@/lib/offlineDb";
+import { parseReference } from "@/lib/bibleReference";
+import { useOnlineStatus } from "./useOnlineStatus";
+import { useAuth } from "./useAuth";
+
+export const HIGHLIGHT_COLORS = ['yellow', 'green', 'blue', 'pink', 'purple'] as const;
+export type HighlightColor = typeof HIGHLIGHT_COLORS[number];
+
+// Background applied to a highlighted verse
+export const HIGHLIGHT_CLASSES: Record<HighlightColor, string> = {
+  yellow: "bg-yellow-200/60 dark:bg-yellow-500/20",
+  green: "bg-green-200/60 dark:bg-green-500/20",
+  blue: "bg-blue-200/60 dark:bg-blue-500/20",
+  pink: "bg-pink-200/60 dark:bg-pink-500/20",
+  purple: "bg-purple-200/60 dark:bg-purple-500/20",
+};
+
+export interface VerseAnnotation {
+  id: string;
+  user_id: string;
+  book: string; // KJV_BOOKS id
+  chapter: number;
+  verse: number;
+  highlight_color: HighlightColor | null;
+  bookmarked: boolean;
+  note: string | null;
+  tags: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface VerseLocation {
+  book: string;
+  chapter: number;
+  verse: number;
+}
+
+export type AnnotationChanges = Partial<Pick<VerseAnnotation, 'highlight_color' | 'bookmarked' | 'note' | 'tags'>>;
+
+const STORE_NAME = 'verse_annotations';
+// Keeps every mounted instance (reader, dialog, chat) in step after local edits
+const CHANGE_EVENT = 'verse-annotations-changed';
+
+const annotationKey = (book: string, chapter: number, verse: number) => `${book}:${chapter}:${verse}`;
+
+const isEmpty = (a: Pick<VerseAnnotation, 'highlight_color' | 'bookmarked' | 'note' | 'tags'>) =>
+  !a.highlight_color && !a.bookmarked && !a.note?.trim() && a.tags.length === 0;
+
+export const useVerseAnnotations = () => {
+  const { user } = useAuth();
+  const [annotations, setAnnotations] = useState<VerseAnnotation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const isOnline = useOnlineStatus();
+
+  const loadCached = useCallback(async () => {
+    if (!user) return [];
+    const cached = await getAll<VerseAnnotation>(STORE_NAME);
+    return cached.filter(a => a.user_id === user.id);
+  }, [user]);
+
+  const fetchAnnotations = useCallback(async () => {
+    if (!user) {
+      setAnnotations([]);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+
+    // Stale-while-revalidate: show cache instantly
+    try {
+      const cached = await loadCached();
+      if (cached.length > 0) {
+        setAnnotations(cached);
+        setLoading(false);
+      }
+    } catch { /* continue */ }
+
+    if (isOnline) {
+      try {
+        const { data, error } = await supabase
+          .from("verse_annotations")
+          .select("*")
+          .eq("user_id", user.id);
+        if (error) throw error;
+        const serverData = (data || []) as VerseAnnotation[];
+        setAnnotations(serverData);
+        await putAll(STORE_NAME, serverData);
+      } catch (err) {
+        console.error("Error fetching verse annotations:", err);
+      }
+    }
+    setLoading(false);
+  }, [user, isOnline, loadCached]);
+
+  useEffect(() => { fetchAnnotations(); }, [fetchAnnotations]);
+
+  useEffect(() => {
+    const handleSync = () => { if (isOnline) fetchAnnotations(); };
+    const handleLocalChange = () => { loadCached().then(setAnnotations).catch(() => {}); };
+    window.addEventListener('sync-complete', handleSync);
+    window.addEventListener(CHANGE_EVENT, handleLocalChange);
+    return () => {
+      window.removeEventListener('sync-complete', handleSync);
+      window.removeEventListener(CHANGE_EVENT, handleLocalChange);
+    };
+  }, [isOnline, fetchAnnotations, loadCached]);
+
+  const byVerse = useMemo(() => {
+    const map = new Map<string, VerseAnnotation>();
+    for (const a of annotations) map.set(annotationKey(a.book, a.chapter, a.verse), a);
+    return map;
+  }, [annotations]);
+
+  const getAnnotation = useCallback(
+    (book: string, chapter: number, verse: number) => byVerse.get(annotationKey(book, chapter, verse)),
+    [byVerse]
+  );
+
+  /** Annotations covered by a reference string such as "John 3:16-18". */
+  const getReferenceAnnotations = useCallback((reference: string): VerseAnnotation[] => {
+    const segments = parseReference(reference);
+    if (!segments) return [];
+    return annotations.filter(a => segments.some(s =>
+      s.book === a.book && s.chapter === a.chapter &&
+      (s.verseStart === undefined || a.verse >= s.verseStart) &&
+      (s.verseEnd === undefined || a.verse <= s.verseEnd)
+    ));
+  }, [annotations]);
+
+  const notifyChange = () => window.dispatchEvent(new CustomEvent(CHANGE_EVENT));
+
+  const deleteAnnotation = async (id: string) => {
+    setAnnotations(prev => prev.filter(a => a.id !== id));
+    await removeFromDb(STORE_NAME, id);
+    notifyChange();
+
+    if (isOnline) {
+      const { error } = await supabase.from("verse_annotations").delete().eq("id", id);
+      if (error) throw error;
+    } else {
+      await addToSyncQueue({ table: 'verse_annotations', action: 'delete', data: { id } });
+    }
+  };
+
+  /**
+   * Create or update the annotation for one verse. Clearing every field
+   * removes the row instead of keeping an empty annotation around.
+   */
+  const saveAnnotation = async (location: VerseLocation, changes: AnnotationChanges) => {
+    if (!user) throw new Error('Sign in to save highlights and notes');
+    const existing = getAnnotation(location.book, location.chapter, location.verse);
+    const now = new Date().toISOString();
+
+    if (existing) {
+      const updated: VerseAnnotation = { ...existing, ...changes, updated_at: now };
+      if (isEmpty(updated)) {
+        await deleteAnnotation(existing.id);
+        return;
+      }
+      setAnnotations(prev => prev.map(a => a.id === existing.id ? updated : a));
+      await put(STORE_NAME, updated);
+      notifyChange();
+
+      if (isOnline) {
+        const { error } = await supabase.from("verse_annotations").update(changes).eq("id", existing.id);
+        if (error) throw error;
+      } else {
+        await addToSyncQueue({ table: 'verse_annotations', action: 'update', data: { id: existing.id, ...changes }, base: existing });
+      }
+      return;
+    }
+
+    const newAnnotation: VerseAnnotation = {
+      id: crypto.randomUUID(),
+      user_id: user.id,
+      book: location.book,
+      chapter: location.chapter,
+      verse: location.verse,
+      highlight_color: null,
+      bookmarked: false,
+      note: null,
+      tags: [],
+      ...changes,
+      created_at: now,
+      updated_at: now,
+    };
+    if (isEmpty(newAnnotation)) return;
+
+    setAnnotations(prev => [...prev, newAnnotation]);
+    await put(STORE_NAME, newAnnotation);
+    notifyChange();
+
+    if (isOnline) {
+      const { error } = await supabase.from("verse_annotations").insert(newAnnotation);
+      if (error) throw error;
+    } else {
+      await addToSyncQueue({ table: 'verse_annotations', action: 'insert', data: newAnnotation });
+    }
+  };
+
+  const allTags = useMemo(
+    () => [...new Set(annotations.flatMap(a => a.tags))].sort(),
+    [annotations]
+  );
+
+  return {
+    annotations,
+    loading,
+    allTags,
+    fetchAnnotations,
+    getAnnotation,
+    getReferenceAnnotations,
+    saveAnnotation,
+    deleteAnnotation,
+  };
+};
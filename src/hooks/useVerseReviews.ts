@@ -0,0 +1,154 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { getAll, putAll, put, addToSyncQueue } from "@/lib/offlineDb";
+import { getTodayDate, isDue, scheduleReview, type ReviewGrade } from "@/lib/spacedRepetition";
+import { useOnlineStatus } from "./useOnlineStatus";
+import { useAuth } from "./useAuth";
+
+export interface VerseReview {
+  id: string;
+  user_id: string;
+  question_id: string; // bible_games id
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_date: string;
+  last_grade: number | null;
+  last_reviewed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const STORE_NAME = 'verse_reviews';
+// Keeps the GameSelector badge in step with reviews made in MemoryVerse
+const CHANGE_EVENT = 'verse-reviews-changed';
+
+export const useVerseReviews = () => {
+  const { user } = useAuth();
+  const [reviews, setReviews] = useState<VerseReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const isOnline = useOnlineStatus();
+
+  const loadCached = useCallback(async () => {
+    if (!user) return [];
+    const cached = await getAll<VerseReview>(STORE_NAME);
+    return cached.filter(r => r.user_id === user.id);
+  }, [user]);
+
+  const fetchReviews = useCallback(async () => {
+    if (!user) {
+      setReviews([]);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+
+    // Stale-while-revalidate: show cache instantly
+    try {
+      const cached = await loadCached();
+      if (cached.length > 0) {
+        setReviews(cached);
+        setLoading(false);
+      }
+    } catch { /* continue */ }
+
+    if (isOnline) {
+      try {
+        const { data, error } = await supabase
+          .from("verse_reviews")
+          .select("*")
+          .eq("user_id", user.id);
+        if (error) throw error;
+        const serverData = (data || []).map(r => ({ ...r, ease_factor: Number(r.ease_factor) })) as VerseReview[];
+        setReviews(serverData);
+        await putAll(STORE_NAME, serverData);
+      } catch (err) {
+        console.error("Error fetching verse reviews:", err);
+      }
+    }
+    setLoading(false);
+  }, [user, isOnline, loadCached]);
+
+  useEffect(() => { fetchReviews(); }, [fetchReviews]);
+
+  useEffect(() => {
+    const handleSync = () => { if (isOnline) fetchReviews(); };
+    const handleLocalChange = () => { loadCached().then(setReviews).catch(() => {}); };
+    window.addEventListener('sync-complete', handleSync);
+    window.addEventListener(CHANGE_EVENT, handleLocalChange);
+    return () => {
+      window.removeEventListener('sync-complete', handleSync);
+      window.removeEventListener(CHANGE_EVENT, handleLocalChange);
+    };
+  }, [isOnline, fetchReviews, loadCached]);
+
+  const byQuestion = useMemo(() => new Map(reviews.map(r => [r.question_id, r])), [reviews]);
+
+  const getReview = useCallback((questionId: string) => byQuestion.get(questionId), [byQuestion]);
+
+  const dueReviews = useMemo(() => {
+    const today = getTodayDate();
+    return reviews
+      .filter(r => isDue(r, today))
+      .sort((a, b) => a.due_date.localeCompare(b.due_date) || a.ease_factor - b.ease_factor);
+  }, [reviews]);
+
+  /** Record one attempt and reschedule the verse. */
+  const recordReview = async (questionId: string, grade: ReviewGrade) => {
+    if (!user) return;
+    const existing = byQuestion.get(questionId);
+    const now = new Date().toISOString();
+    const changes = {
+      ...scheduleReview(existing, grade),
+      last_grade: grade,
+      last_reviewed_at: now,
+    };
+
+    // Saved locally first; a failed online write is queued like an offline one
+    // so the next fetch doesn't lose it
+    if (existing) {
+      const updated: VerseReview = { ...existing, ...changes, updated_at: now };
+      setReviews(prev => prev.map(r => r.id === existing.id ? updated : r));
+      try { await put(STORE_NAME, updated); } catch { /* ignore */ }
+      window.dispatchEvent(new CustomEvent(CHANGE_EVENT));
+
+      if (isOnline) {
+        const { error } = await supabase.from("verse_reviews").update(changes).eq("id", existing.id);
+        if (!error) return;
+        console.error('Error recording verse review, queueing:', error);
+      }
+      await addToSyncQueue({ table: 'verse_reviews', action: 'update', data: { id: existing.id, ...changes }, base: existing });
+      return;
+    }
+
+    const row: VerseReview = {
+      id: crypto.randomUUID(),
+      user_id: user.id,
+      question_id: questionId,
+      ...changes,
+      created_at: now,
+      updated_at: now,
+    };
+    setReviews(prev => [...prev, row]);
+    try { await put(STORE_NAME, row); } catch { /* ignore */ }
+    window.dispatchEvent(new CustomEvent(CHANGE_EVENT));
+
+    if (isOnline) {
+      const { error } = await supabase.from("verse_reviews").insert(row);
+      if (!error) return;
+      console.error('Error recording verse review, queueing:', error);
+    }
+    await addToSyncQueue({ table: 'verse_reviews', action: 'insert', data: row });
+  };
+
+  return {
+    reviews,
+    dueReviews,
+    dueCount: dueReviews.length,
+    loading,
+    getReview,
+    recordReview,
+    refresh: fetchReviews,
+  };
+};
@@ -18,6 +18,7 @@ export type Database = {
         Row: {
           category: string
           created_at: string
+          criteria_params: Json
           criteria_type: string
           criteria_value: number
           description: string
@@ -30,6 +31,7 @@ export type Database = {
         Insert: {
           category?: string
           created_at?: string
+          criteria_params?: Json
           criteria_type: string
           criteria_value?: number
           description: string
@@ -42,6 +44,7 @@ export type Database = {
         Update: {
           category?: string
           created_at?: string
+          criteria_params?: Json
           criteria_type?: string
           criteria_value?: number
           description?: string
@@ -229,18 +232,21 @@ export type Database = {
           conversation_id: string
           id: string
           joined_at: string
+          muted_until: string | null
           user_id: string
         }
         Insert: {
           conversation_id: string
           id?: string
           joined_at?: string
+          muted_until?: string | null
           user_id: string
         }
         Update: {
           conversation_id?: string
           id?: string
           joined_at?: string
+          muted_until?: string | null
           user_id?: string
         }
         Relationships: [
@@ -280,6 +286,99 @@ export type Database = {
         }
         Relationships: []
       }
+      game_room_invites: {
+        Row: {
+          created_at: string
+          created_by: string
+          expires_at: string
+          id: string
+          max_uses: number | null
+          revoked_at: string | null
+          role: string
+          room_id: string
+          uses: number
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          expires_at: string
+          id?: string
+          max_uses?: number | null
+          revoked_at?: string | null
+          role?: string
+          room_id: string
+          uses?: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          expires_at?: string
+          id?: string
+          max_uses?: number | null
+          revoked_at?: string | null
+          role?: string
+          room_id?: string
+          uses?: number
+        }
+        Relationships: []
+      }
+      game_room_matches: {
+        Row: {
+          created_at: string
+          host_id: string
+          match_id: string
+          question_ids: string[]
+          room_id: string
+        }
+        Insert: {
+          created_at?: string
+          host_id: string
+          match_id: string
+          question_ids: string[]
+          room_id: string
+        }
+        Update: {
+          created_at?: string
+          host_id?: string
+          match_id?: string
+          question_ids?: string[]
+          room_id?: string
+        }
+        Relationships: []
+      }
+      game_room_members: {
+        Row: {
+          created_at: string
+          expires_at: string
+          host_key: Json | null
+          invite_id: string | null
+          last_seen_at: string
+          role: string
+          room_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          host_key?: Json | null
+          invite_id?: string | null
+          last_seen_at?: string
+          role?: string
+          room_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          host_key?: Json | null
+          invite_id?: string | null
+          last_seen_at?: string
+          role?: string
+          room_id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       game_scores: {
         Row: {
           created_at: string
@@ -287,9 +386,11 @@ export type Database = {
           games_played: number
           highest_streak: number
           id: string
+          perfect_games: number
           score: number
           updated_at: string
           user_id: string | null
+          wins: number
         }
         Insert: {
           created_at?: string
@@ -297,9 +398,11 @@ export type Database = {
           games_played?: number
           highest_streak?: number
           id?: string
+          perfect_games?: number
           score?: number
           updated_at?: string
           user_id?: string | null
+          wins?: number
         }
         Update: {
           created_at?: string
@@ -307,9 +410,11 @@ export type Database = {
           games_played?: number
           highest_streak?: number
           id?: string
+          perfect_games?: number
           score?: number
           updated_at?: string
           user_id?: string | null
+          wins?: number
         }
         Relationships: []
       }
@@ -342,26 +447,135 @@ export type Database = {
           },
         ]
       }
+      message_edits: {
+        Row: {
+          edited_at: string
+          id: string
+          message_id: string
+          previous_content: string
+        }
+        Insert: {
+          edited_at?: string
+          id?: string
+          message_id: string
+          previous_content: string
+        }
+        Update: {
+          edited_at?: string
+          id?: string
+          message_id?: string
+          previous_content?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_edits_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_reactions: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          emoji: string
+          id: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string
+          emoji: string
+          id?: string
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          emoji?: string
+          id?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_reactions_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reactions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_reads: {
+        Row: {
+          conversation_id: string
+          last_read_at: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          last_read_at?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          last_read_at?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_reads_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
+          attachments: Json
           content: string
           conversation_id: string
           created_at: string
+          edited_at: string | null
           id: string
+          reply_to_id: string | null
           sender_id: string
         }
         Insert: {
+          attachments?: Json
           content: string
           conversation_id: string
           created_at?: string
+          edited_at?: string | null
           id?: string
+          reply_to_id?: string | null
           sender_id: string
         }
         Update: {
+          attachments?: Json
           content?: string
           conversation_id?: string
           created_at?: string
+          edited_at?: string | null
           id?: string
+          reply_to_id?: string | null
           sender_id?: string
         }
         Relationships: [
@@ -372,8 +586,162 @@ export type Database = {
             referencedRelation: "conversations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "messages_reply_to_id_fkey"
+            columns: ["reply_to_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      multiplayer_matches: {
+        Row: {
+          created_at: string
+          finished_at: string
+          game_mode: string
+          game_type: string
+          id: string
+          match_id: string
+          participants: Json
+          room_code: string
+          rounds: Json
+          score: number
+          user_id: string
+          verified: boolean
+          winner_ids: string[]
+          won: boolean
+        }
+        Insert: {
+          created_at?: string
+          finished_at?: string
+          game_mode: string
+          game_type: string
+          id?: string
+          match_id: string
+          participants?: Json
+          room_code: string
+          rounds?: Json
+          score?: number
+          user_id: string
+          verified?: boolean
+          winner_ids?: string[]
+          won?: boolean
+        }
+        Update: {
+          created_at?: string
+          finished_at?: string
+          game_mode?: string
+          game_type?: string
+          id?: string
+          match_id?: string
+          participants?: Json
+          room_code?: string
+          rounds?: Json
+          score?: number
+          user_id?: string
+          verified?: boolean
+          winner_ids?: string[]
+          won?: boolean
+        }
+        Relationships: []
+      }
+      multiplayer_score_claims: {
+        Row: {
+          claimed_at: string
+          host_id: string
+          match_id: string
+          score: number
+          user_id: string
+          won: boolean
+        }
+        Insert: {
+          claimed_at?: string
+          host_id: string
+          match_id: string
+          score?: number
+          user_id: string
+          won?: boolean
+        }
+        Update: {
+          claimed_at?: string
+          host_id?: string
+          match_id?: string
+          score?: number
+          user_id?: string
+          won?: boolean
+        }
+        Relationships: []
+      }
+      multiplayer_team_results: {
+        Row: {
+          created_at: string
+          host_id: string
+          id: string
+          match_id: string
+          member_count: number
+          placement: number
+          score: number
+          season: string
+          team_id: string
+          team_name: string
+          won: boolean
+        }
+        Insert: {
+          created_at?: string
+          host_id: string
+          id?: string
+          match_id: string
+          member_count?: number
+          placement: number
+          score?: number
+          season: string
+          team_id: string
+          team_name: string
+          won?: boolean
+        }
+        Update: {
+          created_at?: string
+          host_id?: string
+          id?: string
+          match_id?: string
+          member_count?: number
+          placement?: number
+          score?: number
+          season?: string
+          team_id?: string
+          team_name?: string
+          won?: boolean
+        }
+        Relationships: []
+      }
+      notification_preferences: {
+        Row: {
+          created_at: string
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
+          timezone: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          timezone?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          timezone?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       post_comments: {
         Row: {
           content: string
@@ -537,6 +905,80 @@ export type Database = {
         }
         Relationships: []
       }
+      reading_plan_progress: {
+        Row: {
+          completed_days: number[]
+          created_at: string
+          id: string
+          last_read_at: string | null
+          plan_id: string
+          started_at: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          completed_days?: number[]
+          created_at?: string
+          id?: string
+          last_read_at?: string | null
+          plan_id: string
+          started_at?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          completed_days?: number[]
+          created_at?: string
+          id?: string
+          last_read_at?: string | null
+          plan_id?: string
+          started_at?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reading_plan_progress_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "reading_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reading_plans: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          readings: string[]
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          readings: string[]
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          readings?: string[]
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       saved_bible_chats: {
         Row: {
           created_at: string
@@ -740,49 +1182,160 @@ export type Database = {
         Row: {
           current_game_streak: number
           current_login_streak: number
+          current_reading_streak: number
           id: string
           last_game_date: string | null
           last_login_date: string | null
+          last_reading_date: string | null
           longest_game_streak: number
           longest_login_streak: number
+          longest_reading_streak: number
           total_games_played: number
           total_logins: number
+          total_readings: number
           updated_at: string
           user_id: string
         }
         Insert: {
           current_game_streak?: number
           current_login_streak?: number
+          current_reading_streak?: number
           id?: string
           last_game_date?: string | null
           last_login_date?: string | null
+          last_reading_date?: string | null
           longest_game_streak?: number
           longest_login_streak?: number
+          longest_reading_streak?: number
           total_games_played?: number
           total_logins?: number
+          total_readings?: number
           updated_at?: string
           user_id: string
         }
         Update: {
           current_game_streak?: number
           current_login_streak?: number
+          current_reading_streak?: number
           id?: string
           last_game_date?: string | null
           last_login_date?: string | null
+          last_reading_date?: string | null
           longest_game_streak?: number
           longest_login_streak?: number
+          longest_reading_streak?: number
           total_games_played?: number
           total_logins?: number
+          total_readings?: number
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      verse_annotations: {
+        Row: {
+          book: string
+          bookmarked: boolean
+          chapter: number
+          created_at: string
+          highlight_color: string | null
+          id: string
+          note: string | null
+          tags: string[]
+          updated_at: string
+          user_id: string
+          verse: number
+        }
+        Insert: {
+          book: string
+          bookmarked?: boolean
+          chapter: number
+          created_at?: string
+          highlight_color?: string | null
+          id?: string
+          note?: string | null
+          tags?: string[]
+          updated_at?: string
+          user_id: string
+          verse: number
+        }
+        Update: {
+          book?: string
+          bookmarked?: boolean
+          chapter?: number
+          created_at?: string
+          highlight_color?: string | null
+          id?: string
+          note?: string | null
+          tags?: string[]
+          updated_at?: string
+          user_id?: string
+          verse?: number
+        }
+        Relationships: []
+      }
+      verse_reviews: {
+        Row: {
+          created_at: string
+          due_date: string
+          ease_factor: number
+          id: string
+          interval_days: number
+          lapses: number
+          last_grade: number | null
+          last_reviewed_at: string | null
+          question_id: string
+          repetitions: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          due_date?: string
+          ease_factor?: number
+          id?: string
+          interval_days?: number
+          lapses?: number
+          last_grade?: number | null
+          last_reviewed_at?: string | null
+          question_id: string
+          repetitions?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          due_date?: string
+          ease_factor?: number
+          id?: string
+          interval_days?: number
+          lapses?: number
+          last_grade?: number | null
+          last_reviewed_at?: string | null
+          question_id?: string
+          repetitions?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "verse_reviews_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "bible_games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      achievement_metric: {
+        Args: { _criteria_type: string; _params?: Json; _user_id: string }
+        Returns: number
+      }
       delete_old_bible_questions: { Args: never; Returns: undefined }
       has_role: {
         Args: {
@@ -799,10 +1352,73 @@ export type Database = {
         Args: { _conversation_id: string; _user_id: string }
         Returns: boolean
       }
+      is_game_room_member: {
+        Args: { _room_id: string; _user_id: string }
+        Returns: boolean
+      }
       is_group_admin: {
         Args: { _conversation_id: string; _user_id: string }
         Returns: boolean
       }
+      preview_achievement_qualifiers: {
+        Args: { _criteria_type: string; _criteria_value: number; _params?: Json }
+        Returns: {
+          metric: number
+          user_id: string
+          username: string
+        }[]
+      }
+      record_game_score: {
+        Args: {
+          _game_type: string
+          _points: number
+          _streak: number
+        }
+        Returns: {
+          created_at: string
+          game_type: string
+          games_played: number
+          highest_streak: number
+          id: string
+          perfect_games: number
+          score: number
+          updated_at: string
+          user_id: string | null
+          wins: number
+        }
+      }
+      record_streak_activity: {
+        Args: { _day: string; _kind: string }
+        Returns: {
+          current_game_streak: number
+          current_login_streak: number
+          current_reading_streak: number
+          id: string
+          last_game_date: string | null
+          last_login_date: string | null
+          last_reading_date: string | null
+          longest_game_streak: number
+          longest_login_streak: number
+          longest_reading_streak: number
+          total_games_played: number
+          total_logins: number
+          total_readings: number
+          updated_at: string
+          user_id: string
+        }
+      }
+      redeem_game_room_invite: {
+        Args: { _invite_id: string; _user_id: string }
+        Returns: string
+      }
+      set_conversation_muted: {
+        Args: { _conversation_id: string; _muted_until: string }
+        Returns: undefined
+      }
+      touch_game_room_member: {
+        Args: { _room_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "moderator" | "user"
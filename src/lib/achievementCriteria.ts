@@ -0,0 +1,289 @@
+/**
+ * Achievement Criteria — declarative evaluator for achievement rules.
+ *
+ * An achievement names a metric (`criteria_type`), optionally narrows it with
+ * `criteria_params` and sets a target (`criteria_value`). Each metric lists the
+ * stats it reads, so the evaluator only loads what the current badges need.
+ * `public.achievement_metric` mirrors these definitions on the server.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { getAll, getById } from './offlineDb';
+
+// ── Types ──────────────────────────────────────────────────────
+
+export interface CriteriaParams {
+  game_type?: string;
+  testament?: 'old' | 'new';
+  correct_only?: boolean;
+}
+
+export type CriteriaParamKey = keyof CriteriaParams;
+
+export interface GameScoreStat {
+  game_type: string;
+  score: number;
+  games_played: number;
+  highest_streak: number;
+  perfect_games?: number;
+  wins?: number;
+}
+
+export interface AnsweredStat {
+  question_id: string;
+  was_correct: boolean;
+  game_type: string | null;
+  testament: string | null;
+}
+
+interface StreakStats {
+  current_login_streak?: number;
+  current_game_streak?: number;
+  current_reading_streak?: number;
+  total_games_played?: number;
+}
+
+type StatSource = 'streaks' | 'gameScores' | 'answered' | 'posts' | 'comments';
+
+/** Everything the evaluator can read. null = not available (e.g. offline). */
+export interface AchievementStats {
+  streaks: StreakStats | null;
+  gameScores: GameScoreStat[] | null;
+  answered: AnsweredStat[] | null;
+  postCount: number | null;
+  commentCount: number | null;
+}
+
+interface CriteriaDefinition {
+  label: string;
+  /** Sentence for the target, e.g. "Play 10 games" */
+  describe: (value: number, params: CriteriaParams) => string;
+  params: CriteriaParamKey[];
+  sources: StatSource[];
+  /** Current progress, or null when a source it needs isn't loaded */
+  metric: (stats: AchievementStats, params: CriteriaParams) => number | null;
+}
+
+// ── Game types ─────────────────────────────────────────────────
+
+export const GAME_TYPE_LABELS: Record<string, string> = {
+  trivia: 'Bible Trivia',
+  guess_character: 'Guess the Character',
+  fill_blank: 'Fill in the Blank',
+  memory_verse: 'Memory Verses',
+  daily_challenge: 'Daily Challenge',
+  old_testament: 'Old Testament Challenge',
+  new_testament: 'New Testament Challenge',
+  multiplayer: 'Local Multiplayer',
+};
+
+const gameLabel = (params: CriteriaParams) =>
+  params.game_type ? ` in ${GAME_TYPE_LABELS[params.game_type] || params.game_type}` : '';
+
+const sumScores = (
+  stats: AchievementStats,
+  field: 'score' | 'games_played' | 'perfect_games' | 'wins',
+  gameType?: string
+) => {
+  if (!stats.gameScores) return null;
+  return stats.gameScores
+    .filter(s => !gameType || s.game_type === gameType)
+    .reduce((sum, s) => sum + (s[field] || 0), 0);
+};
+
+// ── Definitions ────────────────────────────────────────────────
+
+export const CRITERIA: Record<string, CriteriaDefinition> = {
+  games_played: {
+    label: 'Games played',
+    describe: (v, p) => `Play ${v} game${v === 1 ? '' : 's'}${gameLabel(p)}`,
+    params: ['game_type'],
+    sources: ['streaks', 'gameScores'],
+    metric: (stats, p) =>
+      p.game_type
+        ? sumScores(stats, 'games_played', p.game_type)
+        : stats.streaks ? stats.streaks.total_games_played || 0 : null,
+  },
+  total_score: {
+    label: 'Total score',
+    describe: (v, p) => `Earn ${v} points${gameLabel(p)}`,
+    params: ['game_type'],
+    sources: ['gameScores'],
+    metric: (stats, p) => sumScores(stats, 'score', p.game_type),
+  },
+  perfect_games: {
+    label: 'Perfect games',
+    describe: (v, p) => `Finish ${v === 1 ? 'a game' : `${v} games`}${gameLabel(p)} without a mistake`,
+    params: ['game_type'],
+    sources: ['gameScores'],
+    metric: (stats, p) => sumScores(stats, 'perfect_games', p.game_type),
+  },
+  multiplayer_wins: {
+    label: 'Multiplayer wins',
+    describe: (v) => `Win ${v === 1 ? 'a multiplayer room' : `${v} multiplayer rooms`}`,
+    params: [],
+    sources: ['gameScores'],
+    metric: (stats) => sumScores(stats, 'wins', 'multiplayer'),
+  },
+  questions_answered: {
+    label: 'Questions answered',
+    describe: (v, p) =>
+      `Answer ${v}${p.correct_only ? ' correct' : ''}${
+        p.testament ? ` ${p.testament === 'old' ? 'Old' : 'New'} Testament` : ''
+      } question${v === 1 ? '' : 's'}${gameLabel(p)}`,
+    params: ['game_type', 'testament', 'correct_only'],
+    sources: ['answered'],
+    metric: (stats, p) =>
+      stats.answered
+        ? stats.answered.filter(a =>
+            (!p.game_type || a.game_type === p.game_type) &&
+            (!p.testament || a.testament === p.testament) &&
+            (!p.correct_only || a.was_correct)
+          ).length
+        : null,
+  },
+  login_streak: {
+    label: 'Login streak',
+    describe: (v) => `Achieve a ${v}-day login streak`,
+    params: [],
+    sources: ['streaks'],
+    metric: (stats) => stats.streaks ? stats.streaks.current_login_streak || 0 : null,
+  },
+  game_streak: {
+    label: 'Game streak',
+    describe: (v) => `${v}-day game playing streak`,
+    params: [],
+    sources: ['streaks'],
+    metric: (stats) => stats.streaks ? stats.streaks.current_game_streak || 0 : null,
+  },
+  reading_streak: {
+    label: 'Reading streak',
+    describe: (v) => `${v}-day Bible reading streak`,
+    params: [],
+    sources: ['streaks'],
+    metric: (stats) => stats.streaks ? stats.streaks.current_reading_streak || 0 : null,
+  },
+  posts_created: {
+    label: 'Posts shared',
+    describe: (v) => `Share ${v} post${v === 1 ? '' : 's'}`,
+    params: [],
+    sources: ['posts'],
+    metric: (stats) => stats.postCount,
+  },
+  comments_posted: {
+    label: 'Comments posted',
+    describe: (v) => `Post ${v} comment${v === 1 ? '' : 's'}`,
+    params: [],
+    sources: ['comments'],
+    metric: (stats) => stats.commentCount,
+  },
+};
+
+// ── Evaluation ─────────────────────────────────────────────────
+
+export const parseCriteriaParams = (raw: unknown): CriteriaParams =>
+  raw && typeof raw === 'object' && !Array.isArray(raw) ? (raw as CriteriaParams) : {};
+
+export const getCriteriaProgress = (
+  stats: AchievementStats,
+  criteriaType: string,
+  params: CriteriaParams
+): number | null => CRITERIA[criteriaType]?.metric(stats, params) ?? null;
+
+/** Unknown types and unavailable stats never qualify. */
+export const meetsCriteria = (
+  stats: AchievementStats,
+  criteriaType: string,
+  criteriaValue: number,
+  params: CriteriaParams
+) => {
+  const progress = getCriteriaProgress(stats, criteriaType, params);
+  return progress !== null && progress >= criteriaValue;
+};
+
+export const describeCriteria = (criteriaType: string, criteriaValue: number, params: CriteriaParams) =>
+  CRITERIA[criteriaType]?.describe(criteriaValue, params) ?? `${criteriaType} ≥ ${criteriaValue}`;
+
+export const getRequiredSources = (criteriaTypes: string[]) =>
+  new Set(criteriaTypes.flatMap(t => CRITERIA[t]?.sources || []));
+
+// ── Loading ────────────────────────────────────────────────────
+
+const countRows = async (table: 'posts' | 'post_comments', userId: string) => {
+  const { count, error } = await supabase
+    .from(table)
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId);
+  if (error) throw error;
+  return count || 0;
+};
+
+const countCached = async (store: string, userId: string) => {
+  try {
+    return (await getAll<{ user_id: string }>(store)).filter(r => r.user_id === userId).length;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Load the stats the given sources need. Reads the offline cache, and the
+ * server when online for sources the cache can't answer reliably. Answered
+ * questions are server-only, so they stay null offline.
+ */
+export const loadAchievementStats = async (
+  userId: string,
+  sources: Set<StatSource>,
+  isOnline: boolean,
+  latestStreaks?: StreakStats
+): Promise<AchievementStats> => {
+  const stats: AchievementStats = {
+    streaks: null,
+    gameScores: null,
+    answered: null,
+    postCount: null,
+    commentCount: null,
+  };
+
+  if (sources.has('streaks')) {
+    stats.streaks = latestStreaks || (await getById<StreakStats>('user_streaks', userId)) || {};
+  }
+
+  if (sources.has('gameScores')) {
+    try {
+      stats.gameScores = (await getAll<GameScoreStat & { user_id: string }>('game_scores'))
+        .filter(s => s.user_id === userId);
+    } catch { /* stays null */ }
+  }
+
+  if (!isOnline) {
+    if (sources.has('posts')) stats.postCount = await countCached('posts', userId);
+    if (sources.has('comments')) stats.commentCount = await countCached('post_comments', userId);
+    return stats;
+  }
+
+  try {
+    if (sources.has('posts')) stats.postCount = await countRows('posts', userId);
+    if (sources.has('comments')) stats.commentCount = await countRows('post_comments', userId);
+    if (sources.has('answered')) {
+      const { data, error } = await supabase
+        .from('user_answered_questions')
+        .select('question_id, was_correct, bible_games(game_type, testament)')
+        .eq('user_id', userId);
+      if (error) throw error;
+      stats.answered = (data || []).map(row => {
+        const game = row.bible_games as { game_type: string; testament: string | null } | null;
+        return {
+          question_id: row.question_id,
+          was_correct: row.was_correct,
+          game_type: game?.game_type ?? null,
+          testament: game?.testament ?? null,
+        };
+      });
+    }
+  } catch (err) {
+    console.error('[achievementCriteria] Failed to load stats:', err);
+  }
+
+  return stats;
+};
@@ -0,0 +1,110 @@
+/**
+ * Achievement Sync — reconciles locally unlocked badges with the server.
+ *
+ * useAchievements shows a badge as soon as the device thinks it's earned and
+ * stores it with `pending: true`. Only the evaluate-achievements edge function
+ * can write user_achievements, so after each sync we ask it to re-check and
+ * replace the cached badges with what the server actually awarded.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { getAll, putAll, remove } from './offlineDb';
+
+interface EarnedRow {
+  id: string;
+  user_id: string;
+  achievement_id: string;
+  earned_at: string;
+  pending?: boolean;
+}
+
+interface AchievementInfo {
+  id: string;
+  title: string;
+  icon: string;
+  points: number;
+}
+
+export interface AchievementEvaluation {
+  /** Achievement ids the server confirmed that weren't cached yet */
+  awarded: string[];
+  /** Locally unlocked achievement ids the server did not award */
+  rejected: string[];
+}
+
+/** Fired after the cache is reconciled; detail is an AchievementEvaluation. */
+export const ACHIEVEMENTS_EVALUATED_EVENT = 'achievements-evaluated';
+
+const STORE_NAME = 'user_achievements';
+
+let inFlight: Promise<AchievementEvaluation | null> | null = null;
+
+export const hasPendingAchievements = async (userId: string) => {
+  try {
+    return (await getAll<EarnedRow>(STORE_NAME)).some(r => r.user_id === userId && r.pending);
+  } catch {
+    return false;
+  }
+};
+
+const reconcile = async (): Promise<AchievementEvaluation | null> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return null;
+  const userId = session.user.id;
+
+  const { data, error } = await supabase.functions.invoke('evaluate-achievements');
+  if (error) throw error;
+  const serverRows = ((data?.earned || []) as EarnedRow[]);
+  const serverIds = new Set(serverRows.map(r => r.achievement_id));
+
+  const cached = (await getAll<EarnedRow>(STORE_NAME)).filter(r => r.user_id === userId);
+  const cachedIds = new Set(cached.map(r => r.achievement_id));
+
+  // Optimistic rows carry client-made ids, so swap them all for the server rows
+  for (const row of cached) {
+    await remove(STORE_NAME, row.id);
+  }
+  await putAll(STORE_NAME, serverRows);
+
+  const result: AchievementEvaluation = {
+    awarded: serverRows.filter(r => !cachedIds.has(r.achievement_id)).map(r => r.achievement_id),
+    rejected: [...new Set(cached.filter(r => !serverIds.has(r.achievement_id)).map(r => r.achievement_id))],
+  };
+
+  if (result.awarded.length > 0 || result.rejected.length > 0) {
+    console.log(`[achievementSync] ${result.awarded.length} awarded, ${result.rejected.length} rolled back`);
+    const byId = new Map((await getAll<AchievementInfo>('achievements')).map(a => [a.id, a]));
+    for (const id of result.awarded) {
+      const ach = byId.get(id);
+      if (ach) toast({ title: `${ach.icon} Achievement Unlocked!`, description: `${ach.title} — +${ach.points} XP` });
+    }
+    for (const id of result.rejected) {
+      const ach = byId.get(id);
+      toast({
+        title: 'Achievement not confirmed',
+        description: ach ? `${ach.title} was removed — keep going to earn it.` : undefined,
+      });
+    }
+  }
+
+  window.dispatchEvent(new CustomEvent(ACHIEVEMENTS_EVALUATED_EVENT, { detail: result }));
+  return result;
+};
+
+/**
+ * Ask the server to award whatever the signed-in user qualifies for and roll
+ * back badges it rejects. Concurrent calls share one request. Returns null
+ * when signed out or the request fails (pending badges stay for next time).
+ */
+export const evaluateAchievementsOnServer = (): Promise<AchievementEvaluation | null> => {
+  if (!inFlight) {
+    inFlight = reconcile()
+      .catch((error) => {
+        console.error('[achievementSync] Evaluation failed:', error);
+        return null;
+      })
+      .finally(() => { inFlight = null; });
+  }
+  return inFlight;
+};
@@ -3,6 +3,15 @@
  * caches in IndexedDB for offline use.
  */
 
+import type { BibleSearchIndex } from './bibleIndex';
+import {
+  KJV_BOOKS,
+  BOOK_DISPLAY_NAMES,
+  SWAHILI_BOOK_NAMES,
+  normalizeBookName,
+  resolveBookName,
+} from './bibleReference';
+
 // ── Types ──────────────────────────────────────────────
 export interface BibleVerse {
   verse: string;
@@ -24,49 +33,14 @@ export interface BibleBook {
 export type BibleLanguage = 'en' | 'sw';
 
 // ── Book lists ─────────────────────────────────────────
-export const KJV_BOOKS = [
-  'Genesis','Exodus','Leviticus','Numbers','Deuteronomy',
-  'Joshua','Judges','Ruth','1Samuel','2Samuel',
-  '1Kings','2Kings','1Chronicles','2Chronicles',
-  'Ezra','Nehemiah','Esther','Job','Psalms','Proverbs',
-  'Ecclesiastes','SongofSolomon','Isaiah','Jeremiah','Lamentations',
-  'Ezekiel','Daniel','Hosea','Joel','Amos',
-  'Obadiah','Jonah','Micah','Nahum','Habakkuk',
-  'Zephaniah','Haggai','Zechariah','Malachi',
-  'Matthew','Mark','Luke','John','Acts',
-  'Romans','1Corinthians','2Corinthians','Galatians','Ephesians',
-  'Philippians','Colossians','1Thessalonians','2Thessalonians',
-  '1Timothy','2Timothy','Titus','Philemon','Hebrews',
-  'James','1Peter','2Peter','1John','2John','3John','Jude','Revelation',
-];
-
-// Human-readable display names
-export const BOOK_DISPLAY_NAMES: Record<string, string> = {
-  'Genesis':'Genesis','Exodus':'Exodus','Leviticus':'Leviticus','Numbers':'Numbers',
-  'Deuteronomy':'Deuteronomy','Joshua':'Joshua','Judges':'Judges','Ruth':'Ruth',
-  '1Samuel':'1 Samuel','2Samuel':'2 Samuel','1Kings':'1 Kings','2Kings':'2 Kings',
-  '1Chronicles':'1 Chronicles','2Chronicles':'2 Chronicles','Ezra':'Ezra',
-  'Nehemiah':'Nehemiah','Esther':'Esther','Job':'Job','Psalms':'Psalms',
-  'Proverbs':'Proverbs','Ecclesiastes':'Ecclesiastes','SongofSolomon':'Song of Solomon',
-  'Isaiah':'Isaiah','Jeremiah':'Jeremiah','Lamentations':'Lamentations',
-  'Ezekiel':'Ezekiel','Daniel':'Daniel','Hosea':'Hosea','Joel':'Joel','Amos':'Amos',
-  'Obadiah':'Obadiah','Jonah':'Jonah','Micah':'Micah','Nahum':'Nahum',
-  'Habakkuk':'Habakkuk','Zephaniah':'Zephaniah','Haggai':'Haggai',
-  'Zechariah':'Zechariah','Malachi':'Malachi','Matthew':'Matthew','Mark':'Mark',
-  'Luke':'Luke','John':'John','Acts':'Acts','Romans':'Romans',
-  '1Corinthians':'1 Corinthians','2Corinthians':'2 Corinthians',
-  'Galatians':'Galatians','Ephesians':'Ephesians','Philippians':'Philippians',
-  'Colossians':'Colossians','1Thessalonians':'1 Thessalonians',
-  '2Thessalonians':'2 Thessalonians','1Timothy':'1 Timothy','2Timothy':'2 Timothy',
-  'Titus':'Titus','Philemon':'Philemon','Hebrews':'Hebrews','James':'James',
-  '1Peter':'1 Peter','2Peter':'2 Peter','1John':'1 John','2John':'2 John',
-  '3John':'3 John','Jude':'Jude','Revelation':'Revelation',
-};
+// Canonical book ids live with the reference parser; re-exported for callers
+export { KJV_BOOKS, BOOK_DISPLAY_NAMES };
 
 // ── IndexedDB helpers (separate from offlineDb to avoid version conflicts) ──
 const BIBLE_DB_NAME = 'cya-bible-db';
-const BIBLE_DB_VERSION = 1;
+const BIBLE_DB_VERSION = 2;
 const STORE_NAME = 'bible_books';
+const INDEX_STORE_NAME = 'bible_search_index';
 
 let bibleDb: IDBDatabase | null = null;
 
@@ -83,6 +57,10 @@ const openBibleDB = (): Promise<IDBDatabase> =>
         store.createIndex('language', 'language', { unique: false });
         store.createIndex('book', 'book', { unique: false });
       }
+      // One full-text index record per language, keyed by language code
+      if (!db.objectStoreNames.contains(INDEX_STORE_NAME)) {
+        db.createObjectStore(INDEX_STORE_NAME, { keyPath: 'id' });
+      }
     };
   });
 
@@ -124,6 +102,45 @@ export const getAllBooks = async (language?: BibleLanguage): Promise<BibleBook[]
   });
 };
 
+export const getBookIds = async (language: BibleLanguage): Promise<string[]> => {
+  const db = await openBibleDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const req = tx.objectStore(STORE_NAME).index('language').getAllKeys(language);
+    req.onsuccess = () => resolve((req.result as IDBValidKey[]).map(String));
+    req.onerror = () => reject(req.error);
+  });
+};
+
+// ── Search index storage ───────────────────────────────
+export const getSearchIndex = async (language: BibleLanguage): Promise<BibleSearchIndex | undefined> => {
+  const db = await openBibleDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(INDEX_STORE_NAME, 'readonly');
+    const req = tx.objectStore(INDEX_STORE_NAME).get(language);
+    req.onsuccess = () => resolve(req.result as BibleSearchIndex | undefined);
+    req.onerror = () => reject(req.error);
+  });
+};
+
+export const putSearchIndex = async (index: BibleSearchIndex): Promise<void> => {
+  const db = await openBibleDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(INDEX_STORE_NAME, 'readwrite');
+    tx.objectStore(INDEX_STORE_NAME).put(index);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// Rebuild the search index in the background after books change.
+// Imported lazily because bibleSearch depends on this module.
+const refreshSearchIndex = (language: BibleLanguage) => {
+  void import('./bibleSearch')
+    .then(({ rebuildSearchIndex }) => rebuildSearchIndex(language))
+    .catch((err) => console.error('[bibleData] Search index rebuild failed:', err));
+};
+
 export const getDownloadedBookCount = async (language: BibleLanguage): Promise<number> => {
   const books = await getAllBooks(language);
   return books.length;
@@ -220,6 +237,7 @@ export const fetchSwahiliBible = async (
     }
 
     console.log(`[bibleData] Cached ${saved} Swahili books`);
+    refreshSearchIndex('sw');
     return saved;
   } catch (err) {
     console.error('[bibleData] Failed to fetch Swahili Bible:', err);
@@ -242,41 +260,61 @@ export const downloadAllKJV = async (
     if (i % 5 === 4) await new Promise(r => setTimeout(r, 300));
   }
   console.log(`[bibleData] Downloaded ${downloaded}/${KJV_BOOKS.length} KJV books`);
+  if (downloaded > 0) refreshSearchIndex('en');
   return downloaded;
 };
 
 // ── Quick lookup: get a specific verse or chapter ──────
+/**
+ * Swahili book ids come from the source JSON's book names, so match them
+ * against the canonical Swahili name (or its first word, e.g. "Matendo").
+ */
+export const findSwahiliBookId = async (book: string): Promise<string | null> => {
+  const swahiliName = SWAHILI_BOOK_NAMES[book];
+  if (!swahiliName) return null;
+  const target = normalizeBookName(swahiliName);
+  const short = normalizeBookName(swahiliName.split(' ').slice(0, /^\d/.test(swahiliName) ? 2 : 1).join(' '));
+
+  const ids = await getBookIds('sw');
+  const candidates = ids.map(id => ({ id, name: normalizeBookName(id.replace(/^sw_/, '')) }));
+  return (
+    candidates.find(c => c.name === target)?.id ??
+    candidates.find(c => c.name === short)?.id ??
+    null
+  );
+};
+
+/** Load a downloaded book by its KJV_BOOKS id in either language. */
+export const getReferenceBook = async (
+  book: string,
+  language: BibleLanguage
+): Promise<BibleBook | undefined> => {
+  if (language === 'en') return getBook(`kjv_${book.toLowerCase()}`);
+  const id = await findSwahiliBookId(book);
+  return id ? getBook(id) : undefined;
+};
+
 export const lookupVerse = async (
   bookName: string,
   chapter: number,
   verse?: number,
   language: BibleLanguage = 'en'
 ): Promise<string | null> => {
-  const prefix = language === 'en' ? 'kjv' : 'sw';
-  // Try to find the book by various ID formats
-  const possibleIds = [
-    `${prefix}_${bookName.toLowerCase().replace(/\s+/g, '')}`,
-    `${prefix}_${bookName.toLowerCase().replace(/\s+/g, '_')}`,
-    `${prefix}_${bookName.toLowerCase()}`,
-  ];
-
-  for (const id of possibleIds) {
-    const book = await getBook(id);
-    if (!book) continue;
-
-    const ch = book.chapters.find(c => c.chapter === String(chapter));
-    if (!ch) continue;
-
-    if (verse !== undefined) {
-      const v = ch.verses.find(v => v.verse === String(verse));
-      return v ? `${book.book} ${chapter}:${verse} — "${v.text}"` : null;
-    }
+  const bookId = resolveBookName(bookName);
+  if (!bookId) return null;
+  const book = await getReferenceBook(bookId, language);
+  if (!book) return null;
+
+  const ch = book.chapters.find(c => c.chapter === String(chapter));
+  if (!ch) return null;
 
-    // Return whole chapter
-    return ch.verses.map(v => `${v.verse}. ${v.text}`).join('\n');
+  if (verse !== undefined) {
+    const v = ch.verses.find(v => v.verse === String(verse));
+    return v ? `${book.book} ${chapter}:${verse} — "${v.text}"` : null;
   }
 
-  return null;
+  // Return whole chapter
+  return ch.verses.map(v => `${v.verse}. ${v.text}`).join('\n');
 };
 
 // ── Check download status ──────────────────────────────
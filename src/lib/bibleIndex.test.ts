@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import type { BibleBook } from "./bibleData";
+import { buildSearchIndex, stem, tokenizeQuery, tokenizeText } from "./bibleIndex";
+
+const genesis: BibleBook = {
+  id: "genesis",
+  book: "Genesis",
+  language: "en",
+  chapters: [
+    {
+      chapter: "1",
+      verses: [
+        { verse: "1", text: "In the beginning God created the heaven and the earth." },
+        { verse: "3", text: "And God said, Let there be light: and there was light." },
+      ],
+    },
+  ],
+};
+
+describe("tokenizers", () => {
+  it("keeps every word of a verse", () => {
+    expect(tokenizeText("And God said, Let there be light.")).toEqual(["and", "god", "said", "let", "there", "be", "light"]);
+  });
+
+  it("drops words that carry no intent from a question", () => {
+    expect(tokenizeQuery("What does the Bible say about light?")).toEqual(["light"]);
+  });
+});
+
+describe("stem", () => {
+  it("collapses common suffixes", () => {
+    expect(stem("blessings")).toBe("blessing");
+    expect(stem("loveth")).toBe("lov");
+    expect(stem("cities")).toBe("city");
+  });
+});
+
+describe("buildSearchIndex", () => {
+  const index = buildSearchIndex([genesis], "en");
+
+  it("indexes words the chat treats as stopwords", () => {
+    expect(index.postings.god).toEqual([0, 1, 1, 1]);
+    expect(index.postings.said).toEqual([1, 1]);
+  });
+
+  it("counts repeated words once per verse, with their frequency", () => {
+    expect(index.postings.light).toEqual([1, 2]);
+    expect(index.postings.the).toEqual([0, 3]);
+  });
+
+  it("records each verse's location and length", () => {
+    expect(index.docs).toEqual([
+      ["genesis", "1", "1", 10],
+      ["genesis", "1", "3", 11],
+    ]);
+    expect(index.docCount).toBe(2);
+    expect(index.avgDocLength).toBe(10.5);
+    expect(index.signature).toBe("genesis");
+  });
+
+  it("groups tokens by stem", () => {
+    expect(index.stems[stem("created")]).toEqual(["created"]);
+  });
+});
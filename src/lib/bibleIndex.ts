@@ -0,0 +1,114 @@
+/**
+ * Bible Search Index — inverted token index over downloaded Bible books.
+ *
+ * Pure functions only: this module is shared by the main thread and the
+ * index-building Web Worker, so it must not touch IndexedDB or the DOM.
+ */
+
+import type { BibleBook, BibleLanguage } from './bibleData';
+
+export const SEARCH_INDEX_VERSION = 2;
+
+export interface BibleSearchIndex {
+  id: BibleLanguage;
+  version: number;
+  signature: string; // sorted book ids the index was built from
+  builtAt: number;
+  docCount: number;
+  avgDocLength: number;
+  books: Record<string, string>; // book id -> display name
+  // docId -> [bookId, chapter, verse, token count]
+  docs: Array<[string, string, string, number]>;
+  // token -> flat [docId, termFrequency, docId, termFrequency, ...]
+  postings: Record<string, number[]>;
+  // stem -> tokens sharing that stem
+  stems: Record<string, string[]>;
+}
+
+// Words that carry no intent in a chat question ("what does the bible say
+// about..."). Only queries drop them; verses are indexed in full.
+export const STOPWORDS = new Set([
+  'the','a','an','of','to','in','on','for','and','or','but','is','are','was',
+  'were','be','been','being','have','has','had','do','does','did','will',
+  'would','should','could','can','may','might','i','you','he','she','it','we',
+  'they','me','him','her','us','them','my','your','his','its','our','their',
+  'this','that','these','those','what','which','who','whom','how','why','when',
+  'where','tell','show','find','about','please','need','want','some','any',
+  'verse','verses','bible','scripture','god','say','says','said',
+]);
+
+/** Cheap stemmer — collapses common English plurals/suffixes. */
+export const stem = (w: string): string => {
+  if (w.length <= 3) return w;
+  if (w.endsWith('ies')) return w.slice(0, -3) + 'y';
+  if (w.endsWith('sses')) return w.slice(0, -2);
+  if (w.endsWith('ing') && w.length > 5) return w.slice(0, -3);
+  if (w.endsWith('ed') && w.length > 4) return w.slice(0, -2);
+  if (w.endsWith('eth') && w.length > 5) return w.slice(0, -3);
+  if (w.endsWith('s') && !w.endsWith('ss')) return w.slice(0, -1);
+  return w;
+};
+
+/** Every word of a verse, as indexed. */
+export const tokenizeText = (s: string): string[] =>
+  s.toLowerCase()
+    .replace(/[^a-z0-9\s']/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+/** The words of a question worth searching for. */
+export const tokenizeQuery = (s: string): string[] =>
+  tokenizeText(s).filter(w => w.length > 1 && !STOPWORDS.has(w));
+
+/** Identifies the set of books an index covers; a mismatch means it is stale. */
+export const getIndexSignature = (bookIds: string[]): string =>
+  [...bookIds].sort().join('|');
+
+/**
+ * Build the inverted index for one language. CPU-heavy (~31k verses for the
+ * full KJV), so callers should run it inside the index worker.
+ */
+export const buildSearchIndex = (books: BibleBook[], language: BibleLanguage): BibleSearchIndex => {
+  const docs: BibleSearchIndex['docs'] = [];
+  const postings: Record<string, number[]> = {};
+  const names: Record<string, string> = {};
+  let totalLength = 0;
+
+  for (const book of books) {
+    names[book.id] = book.book;
+    for (const chapter of book.chapters) {
+      for (const verse of chapter.verses) {
+        const docId = docs.length;
+        const tokens = tokenizeText(verse.text);
+        docs.push([book.id, chapter.chapter, verse.verse, tokens.length]);
+        totalLength += tokens.length;
+
+        const counts = new Map<string, number>();
+        for (const token of tokens) {
+          counts.set(token, (counts.get(token) || 0) + 1);
+        }
+        for (const [token, tf] of counts) {
+          (postings[token] ||= []).push(docId, tf);
+        }
+      }
+    }
+  }
+
+  const stems: Record<string, string[]> = {};
+  for (const token of Object.keys(postings)) {
+    (stems[stem(token)] ||= []).push(token);
+  }
+
+  return {
+    id: language,
+    version: SEARCH_INDEX_VERSION,
+    signature: getIndexSignature(books.map(b => b.id)),
+    builtAt: Date.now(),
+    docCount: docs.length,
+    avgDocLength: docs.length > 0 ? totalLength / docs.length : 0,
+    books: names,
+    docs,
+    postings,
+    stems,
+  };
+};
@@ -0,0 +1,26 @@
+/**
+ * Web Worker that builds the Bible search index off the main thread.
+ * Receives the books for one language and posts back the finished index.
+ */
+
+import { buildSearchIndex } from './bibleIndex';
+import type { BibleBook, BibleLanguage } from './bibleData';
+
+interface BuildRequest {
+  language: BibleLanguage;
+  books: BibleBook[];
+}
+
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<BuildRequest>) => void) | null;
+  postMessage: (message: unknown) => void;
+};
+
+ctx.onmessage = (event) => {
+  const { language, books } = event.data;
+  try {
+    ctx.postMessage({ ok: true, index: buildSearchIndex(books, language) });
+  } catch (error) {
+    ctx.postMessage({ ok: false, error: String(error) });
+  }
+};
@@ -0,0 +1,172 @@
+/**
+ * Bible Passage Resolver — serves passages from the downloaded Bible in
+ * IndexedDB and only calls bible-api.com when a book is not available
+ * offline. Shared by the passage dialog and anything that opens bible:// links.
+ */
+
+import { getReferenceBook, type BibleBook, type BibleLanguage } from './bibleData';
+import { parseReference, formatReference, resolveBookName, type ReferenceSegment } from './bibleReference';
+import { getById, put } from './offlineDb';
+
+// ── Types ──────────────────────────────────────────────
+export interface PassageVerse {
+  bookId: string; // KJV_BOOKS id
+  book: string; // display name in the passage language
+  chapter: number;
+  verse: number;
+  text: string;
+}
+
+export interface ResolvedPassage {
+  reference: string;
+  language: BibleLanguage;
+  source: 'offline' | 'cache' | 'network';
+  verses: PassageVerse[];
+}
+
+interface ApiVerse {
+  book_id: string;
+  book_name: string;
+  chapter: number;
+  verse: number;
+  text: string;
+}
+
+interface CachedPassage {
+  id: string;
+  reference: string;
+  fetched_at: number;
+  verses: ApiVerse[];
+}
+
+const PASSAGE_CACHE_TTL = 1000 * 60 * 60 * 24; // 24h
+const LANGUAGE_KEY = 'bible-reader-language';
+
+// ── Language preference ────────────────────────────────
+/** KJV or Swahili, defaulting to the chat language the user picked. */
+export const getPreferredBibleLanguage = (): BibleLanguage => {
+  try {
+    const stored = localStorage.getItem(LANGUAGE_KEY);
+    if (stored === 'en' || stored === 'sw') return stored;
+    return localStorage.getItem('scripture-guide-language') === 'sw' ? 'sw' : 'en';
+  } catch {
+    return 'en';
+  }
+};
+
+export const setPreferredBibleLanguage = (language: BibleLanguage) => {
+  try {
+    localStorage.setItem(LANGUAGE_KEY, language);
+  } catch {
+    // ignore storage errors
+  }
+};
+
+// ── Local lookup ───────────────────────────────────────
+const selectVerses = (book: BibleBook, segment: ReferenceSegment): PassageVerse[] => {
+  const chapter = book.chapters.find(c => c.chapter === String(segment.chapter));
+  if (!chapter) return [];
+  return chapter.verses
+    .map(v => ({ bookId: segment.book, book: book.book, chapter: segment.chapter, verse: parseInt(v.verse, 10), text: v.text }))
+    .filter(v =>
+      (segment.verseStart === undefined || v.verse >= segment.verseStart) &&
+      (segment.verseEnd === undefined || v.verse <= segment.verseEnd)
+    );
+};
+
+/** Resolve every segment from IndexedDB; null if any book is missing. */
+const resolveOffline = async (
+  segments: ReferenceSegment[],
+  language: BibleLanguage
+): Promise<PassageVerse[] | null> => {
+  const books = new Map<string, BibleBook | undefined>();
+  const verses: PassageVerse[] = [];
+
+  for (const segment of segments) {
+    if (!books.has(segment.book)) books.set(segment.book, await getReferenceBook(segment.book, language));
+    const book = books.get(segment.book);
+    if (!book) return null;
+    verses.push(...selectVerses(book, segment));
+  }
+
+  return verses;
+};
+
+// ── Network fallback ───────────────────────────────────
+const toPassageVerses = (verses: ApiVerse[]): PassageVerse[] =>
+  verses.map(v => ({
+    bookId: resolveBookName(v.book_name) ?? v.book_id,
+    book: v.book_name,
+    chapter: v.chapter,
+    verse: v.verse,
+    text: v.text.trim(),
+  }));
+
+const fetchFromNetwork = async (
+  reference: string
+): Promise<{ verses: PassageVerse[]; source: 'cache' | 'network' }> => {
+  const cacheId = encodeURIComponent(reference.toLowerCase());
+  try {
+    const cached = await getById<CachedPassage>('bible_passages', cacheId);
+    if (cached && Date.now() - (cached.fetched_at || 0) < PASSAGE_CACHE_TTL) {
+      return { verses: toPassageVerses(cached.verses), source: 'cache' };
+    }
+  } catch {
+    // ignore cache errors
+  }
+
+  const res = await fetch(`https://bible-api.com/${encodeURIComponent(reference)}?translation=kjv`);
+  if (!res.ok) throw new Error('Failed to fetch passage');
+  const data = await res.json();
+  const verses: ApiVerse[] = data.verses || [];
+
+  try {
+    await put('bible_passages', { id: cacheId, reference, fetched_at: Date.now(), verses });
+  } catch {
+    // ignore cache write errors
+  }
+  return { verses: toPassageVerses(verses), source: 'network' };
+};
+
+// ── Public API ─────────────────────────────────────────
+/**
+ * Reader route for a reference: "/bible/John/3?v=16-18". Lists and
+ * multi-chapter ranges open at their first segment.
+ */
+export const getReaderPath = (reference: string): string | null => {
+  const segments = parseReference(reference);
+  if (!segments) return null;
+  const { book, chapter, verseStart, verseEnd } = segments[0];
+  const highlight = verseStart !== undefined
+    ? `?v=${verseStart}${verseEnd !== undefined && verseEnd !== verseStart ? `-${verseEnd}` : ''}`
+    : '';
+  return `/bible/${encodeURIComponent(book)}/${chapter}${highlight}`;
+};
+
+/**
+ * Resolve a reference in the requested language. Falls back to the offline
+ * KJV when a Swahili book is missing, and to the network only when the book
+ * is not downloaded in either.
+ */
+export const resolvePassage = async (
+  reference: string,
+  language: BibleLanguage = getPreferredBibleLanguage()
+): Promise<ResolvedPassage> => {
+  const segments = parseReference(reference);
+
+  if (segments) {
+    const languages: BibleLanguage[] = language === 'sw' ? ['sw', 'en'] : ['en'];
+    for (const lang of languages) {
+      try {
+        const verses = await resolveOffline(segments, lang);
+        if (verses) return { reference, language: lang, source: 'offline', verses };
+      } catch (err) {
+        console.error('[biblePassage] Offline lookup failed:', err);
+      }
+    }
+  }
+
+  const query = segments ? formatReference(segments) : reference;
+  const { verses, source } = await fetchFromNetwork(query);
+  return { reference, language: 'en', source, verses };
+};
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { findReferences, formatReference, parseReference, resolveBookName } from "./bibleReference";
+
+const linked = (text: string) => findReferences(text, { requireVerse: true }).map((match) => match.text);
+
+describe("resolveBookName", () => {
+  it("accepts full names, abbreviations, roman numerals and Swahili", () => {
+    expect(resolveBookName("1 Corinthians")).toBe("1Corinthians");
+    expect(resolveBookName("II Kings")).toBe("2Kings");
+    expect(resolveBookName("Gen")).toBe("Genesis");
+    expect(resolveBookName("Yohana")).toBe("John");
+  });
+
+  it("returns null for anything else", () => {
+    expect(resolveBookName("Hezekiah")).toBeNull();
+  });
+});
+
+describe("parseReference", () => {
+  it("parses a single verse", () => {
+    expect(parseReference("John 3:16")).toEqual([{ book: "John", chapter: 3, verseStart: 16, verseEnd: 16 }]);
+  });
+
+  it("splits a range across chapters into per-chapter segments", () => {
+    expect(parseReference("John 3:16-4:2")).toEqual([
+      { book: "John", chapter: 3, verseStart: 16 },
+      { book: "John", chapter: 4, verseEnd: 2 },
+    ]);
+  });
+
+  it("carries the book and chapter through a list", () => {
+    expect(parseReference("1 Cor 13:4-7, 13")).toEqual([
+      { book: "1Corinthians", chapter: 13, verseStart: 4, verseEnd: 7 },
+      { book: "1Corinthians", chapter: 13, verseStart: 13, verseEnd: 13 },
+    ]);
+  });
+
+  it("reads a bare number in a one-chapter book as a verse", () => {
+    expect(parseReference("Jude 5")).toEqual([{ book: "Jude", chapter: 1, verseStart: 5, verseEnd: 5 }]);
+  });
+
+  it("rejects chapters the book doesn't have", () => {
+    expect(parseReference("Genesis 50")).not.toBeNull();
+    expect(parseReference("Genesis 51")).toBeNull();
+    expect(parseReference("Amos 10:30")).toBeNull();
+    expect(parseReference("John 0:1")).toBeNull();
+  });
+
+  it("rejects verse 0 and verses past the book's longest chapter", () => {
+    expect(parseReference("John 3:0")).toBeNull();
+    expect(parseReference("Psalm 119:176")).not.toBeNull();
+    expect(parseReference("Psalm 119:177")).toBeNull();
+    expect(parseReference("Jude 26")).toBeNull();
+  });
+
+  it("returns null for text that isn't a reference", () => {
+    expect(parseReference("hello world")).toBeNull();
+  });
+});
+
+describe("formatReference", () => {
+  it("round-trips what parseReference reads", () => {
+    for (const reference of ["John 3:16-4:2", "1 Corinthians 13:4-7, 13", "Genesis 50-Exodus 1"]) {
+      expect(formatReference(parseReference(reference)!)).toBe(reference);
+    }
+  });
+
+  it("formats in Swahili", () => {
+    expect(formatReference(parseReference("John 3:16-18")!, "sw")).toBe("Yohana 3:16-18");
+  });
+});
+
+describe("findReferences", () => {
+  it("finds full names and dotted abbreviations", () => {
+    expect(linked("See Isaiah 53:5 and Isa. 40:31, then 1 Cor. 13:4-7")).toEqual([
+      "Isaiah 53:5",
+      "Isa. 40:31",
+      "1 Cor. 13:4-7",
+    ]);
+  });
+
+  it("reports where each match starts", () => {
+    const [match] = findReferences("Read John 3:16 today");
+    expect(match.index).toBe(5);
+    expect(match.segments).toEqual([{ book: "John", chapter: 3, verseStart: 16, verseEnd: 16 }]);
+  });
+
+  it("keeps verse lists and ranges together", () => {
+    expect(linked("Romans 8:28, 31-39 is my favourite")).toEqual(["Romans 8:28, 31-39"]);
+  });
+
+  it("finds Swahili names", () => {
+    expect(linked("Soma Mwanzo 1:1 na Matendo ya Mitume 2:38")).toEqual(["Mwanzo 1:1", "Matendo ya Mitume 2:38"]);
+  });
+
+  it("doesn't read times and ratios after short words as references", () => {
+    expect(linked("The ratio is 3:1 today")).toEqual([]);
+    expect(linked("so 5:00 works for me")).toEqual([]);
+    expect(linked("I am 10:30 tomorrow")).toEqual([]);
+  });
+
+  it("doesn't stop a list partway into a number", () => {
+    expect(linked("John 3:16, 17:5")).toEqual(["John 3:16"]);
+    expect(linked("John 3:16, 1234")).toEqual(["John 3:16"]);
+  });
+
+  it("skips chapter-only matches when a verse is required", () => {
+    expect(findReferences("Read Job 3 tonight").map((match) => match.text)).toEqual(["Job 3"]);
+    expect(linked("Read Job 3 tonight")).toEqual([]);
+  });
+});
@@ -0,0 +1,516 @@
+/**
+ * Bible Reference Parser — the single place that understands references.
+ * Turns "John 3:16-4:2", "1 Cor 13:4-7, 13", "II Kings 2" or "Yohana 3:16"
+ * into per-chapter segments keyed by KJV_BOOKS ids, formats segments back
+ * into text, and finds references inside free text.
+ */
+
+// ── Types ──────────────────────────────────────────────
+export interface ReferenceSegment {
+  book: string; // KJV_BOOKS id, e.g. "1Corinthians"
+  chapter: number;
+  verseStart?: number; // omitted = from the start of the chapter
+  verseEnd?: number; // omitted = to the end of the chapter
+}
+
+interface ReferencePoint {
+  book: string;
+  chapter: number;
+  verse?: number;
+}
+
+// ── Book lists ─────────────────────────────────────────
+export const KJV_BOOKS = [
+  'Genesis','Exodus','Leviticus','Numbers','Deuteronomy',
+  'Joshua','Judges','Ruth','1Samuel','2Samuel',
+  '1Kings','2Kings','1Chronicles','2Chronicles',
+  'Ezra','Nehemiah','Esther','Job','Psalms','Proverbs',
+  'Ecclesiastes','SongofSolomon','Isaiah','Jeremiah','Lamentations',
+  'Ezekiel','Daniel','Hosea','Joel','Amos',
+  'Obadiah','Jonah','Micah','Nahum','Habakkuk',
+  'Zephaniah','Haggai','Zechariah','Malachi',
+  'Matthew','Mark','Luke','John','Acts',
+  'Romans','1Corinthians','2Corinthians','Galatians','Ephesians',
+  'Philippians','Colossians','1Thessalonians','2Thessalonians',
+  '1Timothy','2Timothy','Titus','Philemon','Hebrews',
+  'James','1Peter','2Peter','1John','2John','3John','Jude','Revelation',
+];
+
+// Human-readable display names
+export const BOOK_DISPLAY_NAMES: Record<string, string> = {
+  'Genesis':'Genesis','Exodus':'Exodus','Leviticus':'Leviticus','Numbers':'Numbers',
+  'Deuteronomy':'Deuteronomy','Joshua':'Joshua','Judges':'Judges','Ruth':'Ruth',
+  '1Samuel':'1 Samuel','2Samuel':'2 Samuel','1Kings':'1 Kings','2Kings':'2 Kings',
+  '1Chronicles':'1 Chronicles','2Chronicles':'2 Chronicles','Ezra':'Ezra',
+  'Nehemiah':'Nehemiah','Esther':'Esther','Job':'Job','Psalms':'Psalms',
+  'Proverbs':'Proverbs','Ecclesiastes':'Ecclesiastes','SongofSolomon':'Song of Solomon',
+  'Isaiah':'Isaiah','Jeremiah':'Jeremiah','Lamentations':'Lamentations',
+  'Ezekiel':'Ezekiel','Daniel':'Daniel','Hosea':'Hosea','Joel':'Joel','Amos':'Amos',
+  'Obadiah':'Obadiah','Jonah':'Jonah','Micah':'Micah','Nahum':'Nahum',
+  'Habakkuk':'Habakkuk','Zephaniah':'Zephaniah','Haggai':'Haggai',
+  'Zechariah':'Zechariah','Malachi':'Malachi','Matthew':'Matthew','Mark':'Mark',
+  'Luke':'Luke','John':'John','Acts':'Acts','Romans':'Romans',
+  '1Corinthians':'1 Corinthians','2Corinthians':'2 Corinthians',
+  'Galatians':'Galatians','Ephesians':'Ephesians','Philippians':'Philippians',
+  'Colossians':'Colossians','1Thessalonians':'1 Thessalonians',
+  '2Thessalonians':'2 Thessalonians','1Timothy':'1 Timothy','2Timothy':'2 Timothy',
+  'Titus':'Titus','Philemon':'Philemon','Hebrews':'Hebrews','James':'James',
+  '1Peter':'1 Peter','2Peter':'2 Peter','1John':'1 John','2John':'2 John',
+  '3John':'3 John','Jude':'Jude','Revelation':'Revelation',
+};
+
+// ── Book metadata ──────────────────────────────────────
+// Chapter counts in KJV_BOOKS order
+const CHAPTER_COUNTS = [
+  50, 40, 27, 36, 34, 24, 21, 4, 31, 24, 22, 25, 29, 36, 10, 13, 10, 42, 150, 31,
+  12, 8, 66, 52, 5, 48, 12, 14, 3, 9, 1, 4, 7, 3, 3, 3, 2, 14, 4,
+  28, 16, 24, 21, 28, 16, 16, 13, 6, 6, 4, 4, 5, 3, 6, 4, 3, 1, 13, 5, 5, 3, 5, 1, 1, 1, 22,
+];
+
+// Verses in each book's longest chapter, in KJV_BOOKS order
+const MAX_VERSES = [
+  67, 51, 59, 89, 68, 63, 57, 23, 58, 51, 66, 44, 81, 42, 70, 73, 32, 41, 176, 36,
+  29, 17, 38, 64, 66, 63, 49, 23, 32, 27, 21, 17, 20, 19, 20, 20, 23, 21, 18,
+  75, 72, 80, 71, 60, 39, 58, 33, 29, 33, 30, 29, 28, 18, 25, 26, 16, 25, 40, 27, 25, 22, 29, 13, 14, 25, 29,
+];
+
+export const getChapterCount = (book: string): number =>
+  CHAPTER_COUNTS[KJV_BOOKS.indexOf(book)] ?? 0;
+
+const getMaxVerse = (book: string): number =>
+  MAX_VERSES[KJV_BOOKS.indexOf(book)] ?? 0;
+
+// Common English abbreviations and alternate names, by KJV_BOOKS id
+const ENGLISH_ALIASES: Record<string, string[]> = {
+  Genesis: ['gen', 'ge', 'gn'],
+  Exodus: ['exod', 'exo', 'ex'],
+  Leviticus: ['lev', 'le', 'lv'],
+  Numbers: ['num', 'nu', 'nm', 'nb'],
+  Deuteronomy: ['deut', 'deu', 'dt'],
+  Joshua: ['josh', 'jos', 'jsh'],
+  Judges: ['judg', 'jdg', 'jg', 'jdgs'],
+  Ruth: ['rth', 'ru'],
+  '1Samuel': ['1sam', '1sa', '1sm'],
+  '2Samuel': ['2sam', '2sa', '2sm'],
+  '1Kings': ['1kgs', '1ki', '1kin'],
+  '2Kings': ['2kgs', '2ki', '2kin'],
+  '1Chronicles': ['1chron', '1chr', '1ch'],
+  '2Chronicles': ['2chron', '2chr', '2ch'],
+  Ezra: ['ezr'],
+  Nehemiah: ['neh', 'ne'],
+  Esther: ['esth', 'est', 'es'],
+  Job: ['jb'],
+  Psalms: ['psalm', 'pslm', 'psa', 'psm', 'pss', 'ps'],
+  Proverbs: ['prov', 'pro', 'prv', 'pr'],
+  Ecclesiastes: ['eccles', 'eccl', 'ecc', 'ec', 'qoh'],
+  SongofSolomon: ['songofsongs', 'song', 'sos', 'so', 'canticles', 'cant'],
+  Isaiah: ['isa', 'is'],
+  Jeremiah: ['jer', 'je', 'jr'],
+  Lamentations: ['lam', 'la'],
+  Ezekiel: ['ezek', 'eze', 'ezk'],
+  Daniel: ['dan', 'da', 'dn'],
+  Hosea: ['hos', 'ho'],
+  Joel: ['jl'],
+  Amos: ['am'],
+  Obadiah: ['obad', 'ob'],
+  Jonah: ['jnh', 'jon'],
+  Micah: ['mic', 'mc'],
+  Nahum: ['nah', 'na'],
+  Habakkuk: ['hab', 'hb'],
+  Zephaniah: ['zeph', 'zep', 'zp'],
+  Haggai: ['hag', 'hg'],
+  Zechariah: ['zech', 'zec', 'zc'],
+  Malachi: ['mal', 'ml'],
+  Matthew: ['matt', 'mat', 'mt'],
+  Mark: ['mrk', 'mar', 'mk', 'mr'],
+  Luke: ['luk', 'lk'],
+  John: ['joh', 'jhn', 'jn'],
+  Acts: ['act', 'ac'],
+  Romans: ['rom', 'ro', 'rm'],
+  '1Corinthians': ['1cor', '1co'],
+  '2Corinthians': ['2cor', '2co'],
+  Galatians: ['gal', 'ga'],
+  Ephesians: ['eph', 'ephes'],
+  Philippians: ['phil', 'php', 'pp'],
+  Colossians: ['col', 'co'],
+  '1Thessalonians': ['1thess', '1thes', '1th'],
+  '2Thessalonians': ['2thess', '2thes', '2th'],
+  '1Timothy': ['1tim', '1ti'],
+  '2Timothy': ['2tim', '2ti'],
+  Titus: ['tit', 'ti'],
+  Philemon: ['philem', 'phlm', 'phm'],
+  Hebrews: ['heb'],
+  James: ['jas', 'jm'],
+  '1Peter': ['1pet', '1pe', '1pt'],
+  '2Peter': ['2pet', '2pe', '2pt'],
+  '1John': ['1jn', '1jo', '1jhn'],
+  '2John': ['2jn', '2jo', '2jhn'],
+  '3John': ['3jn', '3jo', '3jhn'],
+  Jude: ['jud', 'jd'],
+  Revelation: ['revelations', 'rev', 're', 'rv'],
+};
+
+// Swahili (Union Version) book names, by KJV_BOOKS id
+export const SWAHILI_BOOK_NAMES: Record<string, string> = {
+  Genesis: 'Mwanzo', Exodus: 'Kutoka', Leviticus: 'Mambo ya Walawi', Numbers: 'Hesabu',
+  Deuteronomy: 'Kumbukumbu la Torati', Joshua: 'Yoshua', Judges: 'Waamuzi', Ruth: 'Ruthu',
+  '1Samuel': '1 Samweli', '2Samuel': '2 Samweli', '1Kings': '1 Wafalme', '2Kings': '2 Wafalme',
+  '1Chronicles': '1 Mambo ya Nyakati', '2Chronicles': '2 Mambo ya Nyakati', Ezra: 'Ezra',
+  Nehemiah: 'Nehemia', Esther: 'Esta', Job: 'Ayubu', Psalms: 'Zaburi', Proverbs: 'Mithali',
+  Ecclesiastes: 'Mhubiri', SongofSolomon: 'Wimbo Ulio Bora', Isaiah: 'Isaya', Jeremiah: 'Yeremia',
+  Lamentations: 'Maombolezo', Ezekiel: 'Ezekieli', Daniel: 'Danieli', Hosea: 'Hosea',
+  Joel: 'Yoeli', Amos: 'Amosi', Obadiah: 'Obadia', Jonah: 'Yona', Micah: 'Mika',
+  Nahum: 'Nahumu', Habakkuk: 'Habakuki', Zephaniah: 'Sefania', Haggai: 'Hagai',
+  Zechariah: 'Zekaria', Malachi: 'Malaki', Matthew: 'Mathayo', Mark: 'Marko', Luke: 'Luka',
+  John: 'Yohana', Acts: 'Matendo ya Mitume', Romans: 'Warumi', '1Corinthians': '1 Wakorintho',
+  '2Corinthians': '2 Wakorintho', Galatians: 'Wagalatia', Ephesians: 'Waefeso',
+  Philippians: 'Wafilipi', Colossians: 'Wakolosai', '1Thessalonians': '1 Wathesalonike',
+  '2Thessalonians': '2 Wathesalonike', '1Timothy': '1 Timotheo', '2Timothy': '2 Timotheo',
+  Titus: 'Tito', Philemon: 'Filemoni', Hebrews: 'Waebrania', James: 'Yakobo',
+  '1Peter': '1 Petro', '2Peter': '2 Petro', '1John': '1 Yohana', '2John': '2 Yohana',
+  '3John': '3 Yohana', Jude: 'Yuda', Revelation: 'Ufunuo wa Yohana',
+};
+
+// Swahili abbreviations and alternate names, by KJV_BOOKS id
+const SWAHILI_ALIASES: Record<string, string[]> = {
+  Genesis: ['mwa'],
+  Exodus: ['kut'],
+  Leviticus: ['walawi', 'law'],
+  Numbers: ['hes'],
+  Deuteronomy: ['kumbukumbu', 'kum'],
+  Joshua: ['yos'],
+  Judges: ['amu'],
+  Ruth: ['rut'],
+  '1Samuel': ['1sam'],
+  '2Samuel': ['2sam'],
+  '1Kings': ['1fal'],
+  '2Kings': ['2fal'],
+  '1Chronicles': ['1nyakati', '1nya'],
+  '2Chronicles': ['2nyakati', '2nya'],
+  Job: ['ayu'],
+  Psalms: ['zab'],
+  Proverbs: ['mit'],
+  Ecclesiastes: ['mhu'],
+  SongofSolomon: ['wimbowasulemani', 'wimbo', 'wim'],
+  Jeremiah: ['yer'],
+  Lamentations: ['omb'],
+  Joel: ['yoe'],
+  Amos: ['amo'],
+  Obadiah: ['oba'],
+  Jonah: ['yon'],
+  Micah: ['mik'],
+  Zephaniah: ['sef'],
+  Zechariah: ['zek'],
+  John: ['yoh', 'yn'],
+  Acts: ['matendo', 'mdo'],
+  Romans: ['rum'],
+  '1Corinthians': ['1kor'],
+  '2Corinthians': ['2kor'],
+  Ephesians: ['efe'],
+  Philippians: ['flp'],
+  Colossians: ['kol'],
+  '1Thessalonians': ['1the'],
+  '2Thessalonians': ['2the'],
+  Philemon: ['flm'],
+  Hebrews: ['ebr'],
+  James: ['yak'],
+  '1John': ['1yoh', '1yn'],
+  '2John': ['2yoh', '2yn'],
+  '3John': ['3yoh', '3yn'],
+  Jude: ['yud'],
+  Revelation: ['ufunuo', 'ufu'],
+};
+
+/**
+ * Lowercase and strip spaces and dots, turning "first", "1st" and Roman
+ * numeral prefixes ("II Kings") into digits.
+ */
+export const normalizeBookName = (name: string): string =>
+  name
+    .toLowerCase()
+    .trim()
+    .replace(/^(first|1st|i)\b\.?\s*/, '1')
+    .replace(/^(second|2nd|ii)\b\.?\s*/, '2')
+    .replace(/^(third|3rd|iii)\b\.?\s*/, '3')
+    .replace(/[^a-z0-9]/g, '');
+
+const BOOK_LOOKUP: Map<string, string> = (() => {
+  const lookup = new Map<string, string>();
+  for (const id of KJV_BOOKS) {
+    lookup.set(normalizeBookName(id), id);
+    lookup.set(normalizeBookName(BOOK_DISPLAY_NAMES[id] || id), id);
+    for (const alias of ENGLISH_ALIASES[id] || []) lookup.set(alias, id);
+    lookup.set(normalizeBookName(SWAHILI_BOOK_NAMES[id]), id);
+    for (const alias of SWAHILI_ALIASES[id] || []) lookup.set(alias, id);
+  }
+  return lookup;
+})();
+
+/** Resolve a book name or abbreviation to its KJV_BOOKS id. */
+export const resolveBookName = (name: string): string | null =>
+  BOOK_LOOKUP.get(normalizeBookName(name)) ?? null;
+
+// Alternate names that are whole words rather than abbreviations
+const ALTERNATE_FULL_NAMES = ['psalm', 'songofsongs', 'canticles', 'revelations', 'walawi', 'kumbukumbu', 'matendo', 'ufunuo'];
+
+// Names written out in full, as opposed to abbreviations
+const FULL_BOOK_NAMES: Set<string> = new Set([
+  ...KJV_BOOKS.flatMap((id) => [
+    normalizeBookName(id),
+    normalizeBookName(BOOK_DISPLAY_NAMES[id] || id),
+    normalizeBookName(SWAHILI_BOOK_NAMES[id]),
+  ]),
+  ...ALTERNATE_FULL_NAMES,
+]);
+
+// ── Parsing ────────────────────────────────────────────
+const BOOK_PATTERN = String.raw`((?:[1-3]|first|second|third|1st|2nd|3rd)?\s*[a-z][a-z.\s]*?)`;
+const POINT_PATTERN = new RegExp(String.raw`^${BOOK_PATTERN}\s*(\d+)(?:\s*[:.]\s*(\d+))?$`, 'i');
+const NUMBERS_PATTERN = /^(\d+)(?:\s*[:.]\s*(\d+))?$/;
+
+const parsePoint = (text: string): ReferencePoint | null => {
+  const match = text.trim().match(POINT_PATTERN);
+  if (!match) return null;
+  const book = resolveBookName(match[1]);
+  if (!book) return null;
+  return { book, chapter: parseInt(match[2], 10), verse: match[3] ? parseInt(match[3], 10) : undefined };
+};
+
+/**
+ * Parse bare numbers relative to a previous point: "18" continues verses
+ * after "John 3:16" but chapters after "Psalm 23"; "4:2" keeps the book.
+ */
+const parseRelativePoint = (text: string, context: ReferencePoint): ReferencePoint | null => {
+  const numbers = text.trim().match(NUMBERS_PATTERN);
+  if (!numbers) return parsePoint(text);
+  const [, first, second] = numbers;
+  if (second) return { book: context.book, chapter: parseInt(first, 10), verse: parseInt(second, 10) };
+  return context.verse !== undefined
+    ? { book: context.book, chapter: context.chapter, verse: parseInt(first, 10) }
+    : { book: context.book, chapter: parseInt(first, 10) };
+};
+
+// The chapter exists, and the verse is no higher than the book's longest chapter has
+const isValidPoint = (point: ReferencePoint): boolean =>
+  point.chapter >= 1 && point.chapter <= getChapterCount(point.book) &&
+  (point.verse === undefined || (point.verse >= 1 && point.verse <= getMaxVerse(point.book)));
+
+// Books with a single chapter take "Jude 5" to mean verse 5
+const normalizeSingleChapter = (point: ReferencePoint): ReferencePoint =>
+  getChapterCount(point.book) === 1 && point.verse === undefined && point.chapter > 1
+    ? { ...point, chapter: 1, verse: point.chapter }
+    : point;
+
+/** Expand a start/end pair into one segment per chapter. */
+const expandRange = (start: ReferencePoint, end: ReferencePoint): ReferenceSegment[] => {
+  const segments: ReferenceSegment[] = [];
+  const startIdx = KJV_BOOKS.indexOf(start.book);
+  const endIdx = KJV_BOOKS.indexOf(end.book);
+  if (startIdx < 0 || endIdx < startIdx) return segments;
+
+  for (let bookIdx = startIdx; bookIdx <= endIdx; bookIdx++) {
+    const book = KJV_BOOKS[bookIdx];
+    const firstChapter = bookIdx === startIdx ? start.chapter : 1;
+    const lastChapter = bookIdx === endIdx ? end.chapter : getChapterCount(book);
+
+    for (let chapter = firstChapter; chapter <= lastChapter; chapter++) {
+      const isFirst = bookIdx === startIdx && chapter === start.chapter;
+      const isLast = bookIdx === endIdx && chapter === end.chapter;
+      segments.push({
+        book,
+        chapter,
+        verseStart: isFirst ? start.verse : undefined,
+        verseEnd: isLast ? end.verse : undefined,
+      });
+    }
+  }
+
+  return segments;
+};
+
+/** Parse one comma-separated part, e.g. "3:16-18" or "Genesis 50-Exodus 2". */
+const parseRange = (
+  text: string,
+  context: ReferencePoint | null
+): { segments: ReferenceSegment[]; last: ReferencePoint } | null => {
+  const [startText, endText, ...rest] = text.split(/\s*[-–—]\s*/);
+  if (rest.length > 0 || !startText) return null;
+
+  const start = context ? parseRelativePoint(startText, context) : parsePoint(startText);
+  if (!start) return null;
+  const normalizedStart = start.book === context?.book ? start : normalizeSingleChapter(start);
+  if (!isValidPoint(normalizedStart)) return null;
+
+  if (endText === undefined) {
+    return {
+      segments: [{
+        book: normalizedStart.book,
+        chapter: normalizedStart.chapter,
+        verseStart: normalizedStart.verse,
+        verseEnd: normalizedStart.verse,
+      }],
+      last: normalizedStart,
+    };
+  }
+
+  const end = parseRelativePoint(endText, normalizedStart);
+  if (!end) return null;
+  const normalizedEnd = end.book === normalizedStart.book ? end : normalizeSingleChapter(end);
+  if (!isValidPoint(normalizedEnd)) return null;
+  const segments = expandRange(normalizedStart, normalizedEnd);
+  return segments.length > 0 ? { segments, last: normalizedEnd } : null;
+};
+
+/**
+ * Parse a reference, including ranges across chapters and books and
+ * comma/semicolon separated lists. Returns null when the text is not a
+ * recognizable reference.
+ *
+ *   "John 3:16"            → [{ John, 3, 16, 16 }]
+ *   "John 3:16-4:2"        → [{ John, 3, 16 }, { John, 4, -, 2 }]
+ *   "1 Cor 13:4-7, 13"     → [{ 1Corinthians, 13, 4, 7 }, { 1Corinthians, 13, 13, 13 }]
+ *   "Genesis 50-Exodus 1"  → [{ Genesis, 50 }, { Exodus, 1 }]
+ */
+export const parseReference = (reference: string): ReferenceSegment[] | null => {
+  const segments: ReferenceSegment[] = [];
+  let context: ReferencePoint | null = null;
+
+  for (const part of reference.trim().split(/\s*[,;]\s*/)) {
+    if (!part) continue;
+    const parsed = parseRange(part, context);
+    if (!parsed) return null;
+    segments.push(...parsed.segments);
+    context = parsed.last;
+  }
+
+  return segments.length > 0 ? segments : null;
+};
+
+// ── Formatting ─────────────────────────────────────────
+/** Book name for display in the given language. */
+export const getBookName = (book: string, language: 'en' | 'sw' = 'en'): string =>
+  (language === 'sw' ? SWAHILI_BOOK_NAMES[book] : BOOK_DISPLAY_NAMES[book]) || book;
+
+interface FormatItem {
+  start: ReferencePoint;
+  end: ReferencePoint;
+}
+
+const isNextChapter = (prev: ReferenceSegment, next: ReferenceSegment): boolean => {
+  if (prev.book === next.book) return next.chapter === prev.chapter + 1;
+  return KJV_BOOKS.indexOf(next.book) === KJV_BOOKS.indexOf(prev.book) + 1 &&
+    next.chapter === 1 && prev.chapter === getChapterCount(prev.book);
+};
+
+// Re-join the per-chapter segments that expandRange split apart
+const toFormatItems = (segments: ReferenceSegment[]): FormatItem[] => {
+  const items: FormatItem[] = [];
+  let previous: ReferenceSegment | null = null;
+
+  for (const segment of segments) {
+    const item = items[items.length - 1];
+    if (item && previous && previous.verseEnd === undefined &&
+        segment.verseStart === undefined && isNextChapter(previous, segment)) {
+      item.end = { book: segment.book, chapter: segment.chapter, verse: segment.verseEnd };
+    } else {
+      items.push({
+        start: { book: segment.book, chapter: segment.chapter, verse: segment.verseStart },
+        end: { book: segment.book, chapter: segment.chapter, verse: segment.verseEnd },
+      });
+    }
+    previous = segment;
+  }
+
+  return items;
+};
+
+/**
+ * Format segments back into a reference string that parseReference
+ * accepts, e.g. "1 Corinthians 13:4-7, 13" or "Yohana 3:16-18".
+ */
+export const formatReference = (segments: ReferenceSegment[], language: 'en' | 'sw' = 'en'): string => {
+  let text = '';
+  let previous: ReferencePoint | null = null;
+
+  for (const { start, end } of toFormatItems(segments)) {
+    const sameBook = previous?.book === start.book;
+    const sameChapter = sameBook && previous?.chapter === start.chapter &&
+      previous?.verse !== undefined && start.verse !== undefined;
+
+    if (previous) text += sameBook ? ', ' : '; ';
+    if (sameChapter) text += `${start.verse}`;
+    else if (sameBook) text += `${start.chapter}${start.verse !== undefined ? `:${start.verse}` : ''}`;
+    else text += `${getBookName(start.book, language)} ${start.chapter}${start.verse !== undefined ? `:${start.verse}` : ''}`;
+
+    if (end.book !== start.book || end.chapter !== start.chapter) {
+      // Name the end book when the bare number would be misread as a verse
+      const needsBook = end.book !== start.book || (start.verse !== undefined && end.verse === undefined);
+      text += `-${needsBook ? `${getBookName(end.book, language)} ` : ''}${end.chapter}`;
+      if (end.verse !== undefined) text += `:${end.verse}`;
+    } else if (end.verse !== undefined && end.verse !== start.verse) {
+      text += start.verse === undefined ? `:1-${end.verse}` : `-${end.verse}`;
+    }
+
+    previous = { book: end.book, chapter: end.chapter, verse: end.verse ?? start.verse };
+  }
+
+  return text;
+};
+
+// ── Finding references in text ─────────────────────────
+export interface ReferenceMatch {
+  text: string; // the matched text, as written
+  index: number;
+  segments: ReferenceSegment[];
+}
+
+// A whole number, so the pattern can't stop (or backtrack) partway into one
+const SCAN_NUMBER = String.raw`\d{1,3}(?!\d)`;
+
+// Candidate references: optional numeric prefix, a book word (or a
+// multi-word name like "Song of Solomon" / "Matendo ya Mitume"), chapter,
+// then optional verses, ranges and ", 13" style lists. Validated by parseReference.
+const SCAN_PATTERN = new RegExp(
+  String.raw`\b((?:[1-3]|iii|ii|i|first|second|third|1st|2nd|3rd)\s*)?` +
+  String.raw`([a-z]+(?:\s+(?:of|ya|la|wa|ulio)\s+[a-z]+)?)(\.\s*|\s+)(${SCAN_NUMBER})` +
+  String.raw`(?:\s*:\s*(${SCAN_NUMBER})(?:\s*[-–—]\s*${SCAN_NUMBER}(?:\s*:\s*${SCAN_NUMBER})?)?` +
+  String.raw`(?:\s*,\s*${SCAN_NUMBER}(?:\s*[-–—]\s*${SCAN_NUMBER})?(?!\s*[a-z]+\.?\s*\d|\s*:))*` +
+  String.raw`|\s*[-–—]\s*${SCAN_NUMBER}(?!\s*:))?`,
+  'gi'
+);
+
+/**
+ * Find every reference in free text. Books must be named in full or by a
+ * dotted abbreviation ("Isa. 53:5"), so "is 3:1" or "am 10:30" aren't read
+ * as references. With requireVerse, chapter-only matches ("job 3") are
+ * skipped too.
+ */
+export const findReferences = (
+  text: string,
+  options: { requireVerse?: boolean } = {}
+): ReferenceMatch[] => {
+  const matches: ReferenceMatch[] = [];
+  const pattern = new RegExp(SCAN_PATTERN.source, SCAN_PATTERN.flags);
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const [matched, prefix = '', bookWord, separator, , verse] = match;
+    const segments = parseReference(matched);
+    const named = separator.startsWith('.') || FULL_BOOK_NAMES.has(normalizeBookName(prefix + bookWord));
+    const plausible = named && (verse !== undefined || !options.requireVerse);
+    if (segments && plausible) {
+      matches.push({ text: matched, index: match.index, segments });
+    } else {
+      // Retry from the next word, e.g. "I am" failing before "Amos 3:4"
+      pattern.lastIndex = match.index + 1;
+    }
+  }
+
+  return matches;
+};
+
+/** The first reference in the text, if any. */
+export const extractReference = (
+  text: string,
+  options: { requireVerse?: boolean } = {}
+): ReferenceMatch | null => findReferences(text, options)[0] ?? null;
@@ -1,8 +1,30 @@
 /**
- * Bible Search Engine — keyword and fuzzy search across cached Bible data
+ * Bible Search Engine — keyword and fuzzy search across cached Bible data.
+ * Queries go through the per-language inverted index (see bibleIndex.ts) when
+ * it is built and current, and fall back to scanning every verse otherwise.
  */
 
-import { getAllBooks, BibleBook, BibleLanguage, BOOK_DISPLAY_NAMES } from './bibleData';
+import {
+  getAllBooks,
+  getBook,
+  getBookIds,
+  getReferenceBook,
+  getSearchIndex,
+  putSearchIndex,
+  BibleBook,
+  BibleLanguage,
+  BOOK_DISPLAY_NAMES,
+} from './bibleData';
+import {
+  buildSearchIndex,
+  getIndexSignature,
+  stem,
+  tokenizeQuery,
+  tokenizeText,
+  SEARCH_INDEX_VERSION,
+  type BibleSearchIndex,
+} from './bibleIndex';
+import { parseReference } from './bibleReference';
 
 export interface SearchResult {
   book: string;
@@ -13,31 +35,284 @@ export interface SearchResult {
   relevance: number; // 0-1
 }
 
+// ──────────────────────────────────────────────────────────────────────
+// Search index — loading, background rebuilds and BM25 scoring
+// ──────────────────────────────────────────────────────────────────────
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Upper bound on verses loaded to confirm an exact phrase match
+const PHRASE_VERIFY_LIMIT = 500;
+
+interface LoadedIndex {
+  index: BibleSearchIndex;
+  vocabulary: string[];
+}
+
+interface TermMatch {
+  token: string;
+  weight: number;
+}
+
+interface RankedDoc {
+  docId: number;
+  relevance: number;
+  score: number;
+}
+
+const loadedIndexes = new Map<BibleLanguage, LoadedIndex>();
+const pendingBuilds = new Map<BibleLanguage, Promise<void>>();
+
+const buildInWorker = (language: BibleLanguage, books: BibleBook[]): Promise<BibleSearchIndex> => {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(buildSearchIndex(books, language));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./bibleIndex.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<{ ok: boolean; index?: BibleSearchIndex; error?: string }>) => {
+      worker.terminate();
+      if (event.data.ok && event.data.index) resolve(event.data.index);
+      else reject(new Error(event.data.error || 'Index build failed'));
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Index worker crashed'));
+    };
+    worker.postMessage({ language, books });
+  });
+};
+
 /**
- * Search Bible verses by keyword(s).
- * Returns top N results sorted by relevance.
+ * Rebuild the search index for a language from the books currently in
+ * IndexedDB. Concurrent calls for the same language share one build.
  */
-export const searchBible = async (
-  query: string,
-  options?: {
-    language?: BibleLanguage;
-    maxResults?: number;
-    bookFilter?: string;
+export const rebuildSearchIndex = (language: BibleLanguage): Promise<void> => {
+  const pending = pendingBuilds.get(language);
+  if (pending) return pending;
+
+  const build = (async () => {
+    const books = await getAllBooks(language);
+    loadedIndexes.delete(language);
+    if (books.length === 0) return;
+
+    const started = Date.now();
+    const index = await buildInWorker(language, books);
+    await putSearchIndex(index);
+    console.log(`[bibleSearch] Indexed ${index.docCount} ${language} verses in ${Date.now() - started}ms`);
+  })().finally(() => pendingBuilds.delete(language));
+
+  pendingBuilds.set(language, build);
+  return build;
+};
+
+/**
+ * Return the current index for a language, or null when none is usable yet.
+ * A missing or stale index (books added or removed since it was built)
+ * triggers a background rebuild; callers scan verses in the meantime.
+ */
+const loadSearchIndex = async (language: BibleLanguage): Promise<LoadedIndex | null> => {
+  try {
+    const bookIds = await getBookIds(language);
+    if (bookIds.length === 0) return null;
+    const signature = getIndexSignature(bookIds);
+
+    const cached = loadedIndexes.get(language);
+    if (cached && cached.index.signature === signature) return cached;
+
+    const stored = await getSearchIndex(language);
+    if (stored && stored.version === SEARCH_INDEX_VERSION && stored.signature === signature) {
+      const loaded = { index: stored, vocabulary: Object.keys(stored.postings) };
+      loadedIndexes.set(language, loaded);
+      return loaded;
+    }
+
+    if (!pendingBuilds.has(language)) {
+      void rebuildSearchIndex(language).catch((err) => {
+        console.error('[bibleSearch] Search index rebuild failed:', err);
+      });
+    }
+  } catch (err) {
+    console.error('[bibleSearch] Failed to load search index:', err);
   }
-): Promise<SearchResult[]> => {
-  const { language, maxResults = 20, bookFilter } = options || {};
-  const books = await getAllBooks(language);
+  return null;
+};
 
-  if (books.length === 0) return [];
+/**
+ * BM25 score and number of matched query terms per verse. Each term is a list
+ * of weighted vocabulary expansions; only the best expansion counts per verse.
+ */
+const scoreTerms = (
+  index: BibleSearchIndex,
+  terms: TermMatch[][]
+): Map<number, { score: number; matched: number }> => {
+  const totals = new Map<number, { score: number; matched: number }>();
+  const avgDocLength = index.avgDocLength || 1;
+
+  for (const expansions of terms) {
+    const best = new Map<number, number>();
+
+    for (const { token, weight } of expansions) {
+      const postings = index.postings[token];
+      if (!postings) continue;
+      const df = postings.length / 2;
+      const idf = Math.log(1 + (index.docCount - df + 0.5) / (df + 0.5));
+
+      for (let i = 0; i < postings.length; i += 2) {
+        const docId = postings[i];
+        const tf = postings[i + 1];
+        const docLength = index.docs[docId][3];
+        const norm = (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * (docLength / avgDocLength)));
+        const score = weight * idf * norm;
+        if (score > (best.get(docId) || 0)) best.set(docId, score);
+      }
+    }
 
-  const keywords = query
-    .toLowerCase()
-    .split(/\s+/)
-    .filter(w => w.length > 2)
-    .map(w => w.replace(/[^a-z0-9]/gi, ''));
+    for (const [docId, score] of best) {
+      const entry = totals.get(docId) || { score: 0, matched: 0 };
+      entry.score += score;
+      entry.matched++;
+      totals.set(docId, entry);
+    }
+  }
 
-  if (keywords.length === 0) return [];
+  return totals;
+};
+
+/** Verses containing every phrase token — the only candidates for an exact phrase. */
+const getPhraseCandidates = (index: BibleSearchIndex, phraseTokens: string[]): number[] => {
+  if (phraseTokens.length === 0) return [];
+  const lists = phraseTokens.map(token => index.postings[token]);
+  if (lists.some(list => !list)) return [];
+  lists.sort((a, b) => a.length - b.length);
+
+  let candidates = new Set<number>();
+  for (let i = 0; i < lists[0].length; i += 2) candidates.add(lists[0][i]);
+
+  for (const list of lists.slice(1)) {
+    const next = new Set<number>();
+    for (let i = 0; i < list.length; i += 2) {
+      if (candidates.has(list[i])) next.add(list[i]);
+    }
+    candidates = next;
+    if (candidates.size === 0) break;
+  }
+
+  return [...candidates];
+};
+
+/** Load verse text for index documents, reading each book from IndexedDB once. */
+const hydrateDocs = async (index: BibleSearchIndex, docIds: number[]): Promise<Map<number, string>> => {
+  const books = new Map<string, BibleBook | undefined>();
+  const texts = new Map<number, string>();
+
+  for (const docId of docIds) {
+    const [bookId, chapter, verse] = index.docs[docId];
+    if (!books.has(bookId)) books.set(bookId, await getBook(bookId));
+    const text = books.get(bookId)
+      ?.chapters.find(c => c.chapter === chapter)
+      ?.verses.find(v => v.verse === verse)
+      ?.text;
+    if (text !== undefined) texts.set(docId, text);
+  }
+
+  return texts;
+};
+
+/**
+ * Candidates whose text holds the exact phrase. Only so many verses are
+ * loaded to check, so the best-scoring go first wherever they are in the Bible.
+ */
+const findPhraseMatches = async (
+  index: BibleSearchIndex,
+  phrase: string,
+  candidates: number[],
+  totals: Map<number, { score: number }>
+): Promise<Set<number>> => {
+  const ranked = [...candidates].sort((a, b) => (totals.get(b)?.score || 0) - (totals.get(a)?.score || 0));
+  const texts = await hydrateDocs(index, ranked.slice(0, PHRASE_VERIFY_LIMIT));
+  const matches = new Set<number>();
+  for (const [docId, text] of texts) {
+    if (text.toLowerCase().includes(phrase)) matches.add(docId);
+  }
+  return matches;
+};
 
+const toSearchResults = async (index: BibleSearchIndex, ranked: RankedDoc[]): Promise<SearchResult[]> => {
+  const texts = await hydrateDocs(index, ranked.map(r => r.docId));
+  return ranked
+    .filter(r => texts.has(r.docId))
+    .map(r => {
+      const [bookId, chapter, verse] = index.docs[r.docId];
+      return {
+        book: index.books[bookId],
+        chapter,
+        verse,
+        text: texts.get(r.docId) as string,
+        language: index.id,
+        relevance: r.relevance,
+      };
+    });
+};
+
+const getMaxScore = (totals: Map<number, { score: number }>): number => {
+  let max = 0;
+  for (const { score } of totals.values()) {
+    if (score > max) max = score;
+  }
+  return max || 1;
+};
+
+const byRelevance = (a: RankedDoc, b: RankedDoc) => b.relevance - a.relevance || b.score - a.score;
+
+/** Keyword search over the index; keywords match tokens as substrings, like the scan. */
+const indexedSearchBible = async (
+  { index, vocabulary }: LoadedIndex,
+  query: string,
+  keywords: string[],
+  maxResults: number,
+  bookFilter?: string
+): Promise<SearchResult[]> => {
+  const terms = keywords.map(kw =>
+    vocabulary
+      .filter(token => token.includes(kw))
+      .map(token => ({ token, weight: token === kw ? 1 : 0.8 }))
+  );
+  const totals = scoreTerms(index, terms);
+
+  const filter = bookFilter?.toLowerCase();
+  const inBook = (docId: number) =>
+    !filter || index.books[index.docs[docId][0]].toLowerCase().includes(filter);
+
+  // Phrase fast path: intersect postings, then confirm against verse text
+  let exact = new Set<number>();
+  if (keywords.length > 1) {
+    const candidates = getPhraseCandidates(index, tokenizeText(query)).filter(inBook);
+    exact = await findPhraseMatches(index, query.toLowerCase(), candidates, totals);
+  }
+
+  const maxScore = getMaxScore(totals);
+  const ranked: RankedDoc[] = [];
+  for (const [docId, { score, matched }] of totals) {
+    if (!inBook(docId)) continue;
+    const relevance = exact.has(docId)
+      ? 1.0
+      : (matched / keywords.length) * (0.8 + 0.2 * (score / maxScore));
+    ranked.push({ docId, relevance, score });
+  }
+
+  ranked.sort(byRelevance);
+  return toSearchResults(index, ranked.slice(0, maxResults));
+};
+
+/** Keyword search by scanning every verse — used until the index is built. */
+const scanSearchBible = async (
+  query: string,
+  keywords: string[],
+  language: BibleLanguage,
+  bookFilter?: string
+): Promise<SearchResult[]> => {
+  const books = await getAllBooks(language);
   const results: SearchResult[] = [];
 
   for (const book of books) {
@@ -78,66 +353,79 @@ export const searchBible = async (
     }
   }
 
+  return results;
+};
+
+const LANGUAGES: BibleLanguage[] = ['en', 'sw'];
+
+/**
+ * Search Bible verses by keyword(s).
+ * Returns top N results sorted by relevance.
+ */
+export const searchBible = async (
+  query: string,
+  options?: {
+    language?: BibleLanguage;
+    maxResults?: number;
+    bookFilter?: string;
+  }
+): Promise<SearchResult[]> => {
+  const { language, maxResults = 20, bookFilter } = options || {};
+
+  const keywords = query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(w => w.length > 2)
+    .map(w => w.replace(/[^a-z0-9]/gi, ''))
+    .filter(Boolean);
+
+  if (keywords.length === 0) return [];
+
+  const results: SearchResult[] = [];
+  for (const lang of language ? [language] : LANGUAGES) {
+    const index = await loadSearchIndex(lang);
+    results.push(...(index
+      ? await indexedSearchBible(index, query, keywords, maxResults, bookFilter)
+      : await scanSearchBible(query, keywords, lang, bookFilter)));
+  }
+
   // Sort by relevance descending, then by book order
   results.sort((a, b) => b.relevance - a.relevance);
   return results.slice(0, maxResults);
 };
 
 /**
- * Find verses by Bible reference (e.g., "John 3:16")
+ * Find verses by Bible reference (e.g., "John 3:16", "1 Cor 13:4-7, 13")
  */
 export const findByReference = async (
   reference: string,
   language: BibleLanguage = 'en'
 ): Promise<SearchResult[]> => {
-  // Parse reference like "John 3:16" or "1 Corinthians 13:4-7"
-  const match = reference.match(/^(\d?\s*\w+)\s+(\d+):?(\d+)?(?:-(\d+))?$/i);
-  if (!match) return [];
-
-  const [, bookPart, chapterStr, verseStart, verseEnd] = match;
-  const chapter = parseInt(chapterStr);
-  const books = await getAllBooks(language);
-
-  const bookNameNorm = bookPart.trim().toLowerCase().replace(/\s+/g, '');
+  const segments = parseReference(reference);
+  if (!segments) return [];
 
-  for (const book of books) {
-    const bookNorm = book.book.toLowerCase().replace(/\s+/g, '');
-    if (!bookNorm.includes(bookNameNorm) && !bookNameNorm.includes(bookNorm)) continue;
-
-    const ch = book.chapters.find(c => c.chapter === String(chapter));
-    if (!ch) continue;
-
-    if (verseStart) {
-      const start = parseInt(verseStart);
-      const end = verseEnd ? parseInt(verseEnd) : start;
-
-      return ch.verses
-        .filter(v => {
-          const vNum = parseInt(v.verse);
-          return vNum >= start && vNum <= end;
-        })
-        .map(v => ({
-          book: book.book,
-          chapter: ch.chapter,
-          verse: v.verse,
-          text: v.text,
-          language: book.language,
-          relevance: 1.0,
-        }));
+  const results: SearchResult[] = [];
+  for (const segment of segments) {
+    const book = await getReferenceBook(segment.book, language);
+    const ch = book?.chapters.find(c => c.chapter === String(segment.chapter));
+    if (!book || !ch) continue;
+
+    for (const v of ch.verses) {
+      const vNum = parseInt(v.verse);
+      if (segment.verseStart !== undefined && vNum < segment.verseStart) continue;
+      if (segment.verseEnd !== undefined && vNum > segment.verseEnd) continue;
+      results.push({
+        book: book.book,
+        chapter: ch.chapter,
+        verse: v.verse,
+        text: v.text,
+        language: book.language,
+        relevance: 1.0,
+      });
     }
-
-    // Return whole chapter
-    return ch.verses.map(v => ({
-      book: book.book,
-      chapter: ch.chapter,
-      verse: v.verse,
-      text: v.text,
-      language: book.language,
-      relevance: 1.0,
-    }));
   }
 
-  return [];
+  return results;
 };
 
 /**
@@ -221,34 +509,6 @@ export const getTopicalVerses = async (
 // Fuzzy search — typo-tolerant, stem-aware, phrase-boosted
 // ──────────────────────────────────────────────────────────────────────
 
-const STOPWORDS = new Set([
-  'the','a','an','of','to','in','on','for','and','or','but','is','are','was',
-  'were','be','been','being','have','has','had','do','does','did','will',
-  'would','should','could','can','may','might','i','you','he','she','it','we',
-  'they','me','him','her','us','them','my','your','his','its','our','their',
-  'this','that','these','those','what','which','who','whom','how','why','when',
-  'where','tell','show','find','about','please','need','want','some','any',
-  'verse','verses','bible','scripture','god','say','says','said',
-]);
-
-/** Cheap stemmer — collapses common English plurals/suffixes. */
-const stem = (w: string): string => {
-  if (w.length <= 3) return w;
-  if (w.endsWith('ies')) return w.slice(0, -3) + 'y';
-  if (w.endsWith('sses')) return w.slice(0, -2);
-  if (w.endsWith('ing') && w.length > 5) return w.slice(0, -3);
-  if (w.endsWith('ed') && w.length > 4) return w.slice(0, -2);
-  if (w.endsWith('eth') && w.length > 5) return w.slice(0, -3);
-  if (w.endsWith('s') && !w.endsWith('ss')) return w.slice(0, -1);
-  return w;
-};
-
-const tokenize = (s: string): string[] =>
-  s.toLowerCase()
-    .replace(/[^a-z0-9\s']/g, ' ')
-    .split(/\s+/)
-    .filter(w => w.length > 1 && !STOPWORDS.has(w));
-
 /** Damerau-Levenshtein-lite distance (capped), used for typo tolerance. */
 const editDistance = (a: string, b: string, max = 2): number => {
   if (a === b) return 0;
@@ -283,33 +543,73 @@ const tokenMatches = (queryToken: string, queryStem: string, verseToken: string)
   return editDistance(queryToken, verseToken, maxEdits) <= maxEdits;
 };
 
-/**
- * Fuzzy Bible search.
- * - Tolerates typos, plurals, and partial words.
- * - Boosts exact phrase matches.
- * - Scores by unique-token coverage with a small proximity bonus.
- */
-export const fuzzySearchBible = async (
-  query: string,
-  options?: { language?: BibleLanguage; maxResults?: number }
+/** Vocabulary tokens a query token matches — exact, same stem, prefix or typo — with weights. */
+const expandQueryToken = ({ index, vocabulary }: LoadedIndex, queryToken: string, queryStem: string): TermMatch[] => {
+  const matches = new Map<string, number>();
+  if (index.postings[queryToken]) matches.set(queryToken, 1);
+  for (const token of index.stems[queryStem] || []) {
+    if (!matches.has(token)) matches.set(token, 0.9);
+  }
+  for (const token of vocabulary) {
+    if (!matches.has(token) && tokenMatches(queryToken, queryStem, token)) matches.set(token, 0.7);
+  }
+  return [...matches].map(([token, weight]) => ({ token, weight }));
+};
+
+const indexedFuzzySearch = async (
+  loaded: LoadedIndex,
+  phrase: string,
+  qTokens: string[],
+  qStems: string[],
+  maxResults: number
 ): Promise<SearchResult[]> => {
-  const { language, maxResults = 8 } = options || {};
-  const books = await getAllBooks(language);
-  if (books.length === 0) return [];
+  const { index } = loaded;
+  const totals = scoreTerms(index, qTokens.map((qt, i) => expandQueryToken(loaded, qt, qStems[i])));
+  if (totals.size === 0) return [];
 
-  const phrase = query.trim().toLowerCase();
-  const qTokens = tokenize(query);
-  if (qTokens.length === 0) return [];
-  const qStems = qTokens.map(stem);
-  const uniqueQ = qTokens.length;
+  // Exact-phrase boost, confirmed only for verses holding every phrase token
+  const phraseDocs = phrase.length > 6
+    ? await findPhraseMatches(index, phrase, getPhraseCandidates(index, qTokens), totals)
+    : new Set<number>();
+
+  const maxScore = getMaxScore(totals);
+  const ranked: RankedDoc[] = [];
 
+  for (const [docId, { score, matched }] of totals) {
+    let coverage = matched / qTokens.length; // 0..1
+
+    if (phraseDocs.has(docId)) coverage += 0.5;
+
+    // BM25 bonus: rarer terms and denser matches rank higher
+    coverage += 0.15 * (score / maxScore);
+
+    // Penalize very long verses slightly (less informative)
+    if (index.docs[docId][3] > 40) coverage *= 0.9;
+
+    if (coverage >= 0.34 || matched >= 2) {
+      ranked.push({ docId, relevance: Math.min(coverage, 1.5), score });
+    }
+  }
+
+  ranked.sort(byRelevance);
+  return toSearchResults(index, ranked.slice(0, maxResults));
+};
+
+/** Fuzzy search by scanning every verse — used until the index is built. */
+const scanFuzzySearch = (
+  books: BibleBook[],
+  phrase: string,
+  qTokens: string[],
+  qStems: string[]
+): SearchResult[] => {
+  const uniqueQ = qTokens.length;
   const results: SearchResult[] = [];
 
   for (const book of books) {
     for (const chapter of book.chapters) {
       for (const verse of chapter.verses) {
         const textLower = verse.text.toLowerCase();
-        const vTokens = tokenize(verse.text);
+        const vTokens = tokenizeText(verse.text);
         if (vTokens.length === 0) continue;
 
         let matched = 0;
@@ -358,6 +658,34 @@ export const fuzzySearchBible = async (
     }
   }
 
+  return results;
+};
+
+/**
+ * Fuzzy Bible search.
+ * - Tolerates typos, plurals, and partial words.
+ * - Boosts exact phrase matches.
+ * - Scores by unique-token coverage, ranked by BM25 when the index is ready.
+ */
+export const fuzzySearchBible = async (
+  query: string,
+  options?: { language?: BibleLanguage; maxResults?: number }
+): Promise<SearchResult[]> => {
+  const { language, maxResults = 8 } = options || {};
+
+  const phrase = query.trim().toLowerCase();
+  const qTokens = tokenizeQuery(query);
+  if (qTokens.length === 0) return [];
+  const qStems = qTokens.map(stem);
+
+  const results: SearchResult[] = [];
+  for (const lang of language ? [language] : LANGUAGES) {
+    const index = await loadSearchIndex(lang);
+    results.push(...(index
+      ? await indexedFuzzySearch(index, phrase, qTokens, qStems, maxResults)
+      : scanFuzzySearch(await getAllBooks(lang), phrase, qTokens, qStems)));
+  }
+
   // Dedupe + sort
   const seen = new Set<string>();
   return results
@@ -0,0 +1,242 @@
+/**
+ * Chat Attachments — images, files and voice notes on messages.
+ *
+ * Files live in the private chat-attachments bucket under
+ * '<conversation_id>/<message_id>/', readable only by the conversation's
+ * participants. Until a file is uploaded it is kept in IndexedDB, so the
+ * sender sees it straight away; files sent offline are uploaded by
+ * syncWithServer just before their message is inserted.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { getAll, getById, put, remove } from './offlineDb';
+
+export const ATTACHMENTS_BUCKET = 'chat-attachments';
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024; // matches the bucket limit
+
+const STORE_NAME = 'chat_attachments';
+const THUMBNAIL_SIZE = 320;
+const SIGNED_URL_SECONDS = 60 * 60;
+
+export type AttachmentKind = 'image' | 'file' | 'voice';
+
+/** What a message records about each of its files. */
+export interface MessageAttachment {
+  id: string;
+  kind: AttachmentKind;
+  name: string;
+  mime_type: string;
+  size: number;
+  path: string;
+  thumbnail_path: string | null;
+  // Voice notes only, in seconds
+  duration?: number | null;
+}
+
+/** A picked or recorded file that hasn't been sent yet. */
+export interface DraftAttachment {
+  id: string;
+  kind: AttachmentKind;
+  file: Blob;
+  name: string;
+  duration?: number;
+}
+
+// A file (and its thumbnail) waiting in IndexedDB to be uploaded
+interface PendingUpload {
+  id: string;
+  message_id: string;
+  path: string;
+  blob: Blob;
+  thumbnail_path: string | null;
+  thumbnail: Blob | null;
+}
+
+// Object URLs for local files and signed URLs for uploaded ones, by path
+const urlCache = new Map<string, { url: string; expiresAt: number }>();
+
+export const attachmentKindFor = (file: File): AttachmentKind =>
+  file.type.startsWith('image/') ? 'image' : 'file';
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/** Stands in for the text of a message that is only attachments, e.g. in notifications. */
+export const attachmentSummary = (attachments: MessageAttachment[] | null | undefined) => {
+  if (!attachments || attachments.length === 0) return '';
+  if (attachments.length > 1) return `📎 ${attachments.length} attachments`;
+  const [attachment] = attachments;
+  if (attachment.kind === 'image') return '📷 Photo';
+  if (attachment.kind === 'voice') return '🎤 Voice note';
+  return `📎 ${attachment.name}`;
+};
+
+const safeName = (name: string) => name.replace(/[^\w.-]+/g, '_').slice(-80) || 'file';
+
+/** A small JPEG of an image for the chat bubble, or null if it can't be decoded. */
+export const createThumbnail = async (image: Blob): Promise<Blob | null> => {
+  try {
+    const bitmap = await createImageBitmap(image);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return await new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+  } catch (error) {
+    console.error('[chatAttachments] Failed to create thumbnail:', error);
+    return null;
+  }
+};
+
+/**
+ * Work out where a message's drafts will be stored, make image thumbnails, and
+ * keep everything in IndexedDB until it has been uploaded.
+ */
+export const prepareAttachments = async (
+  conversationId: string,
+  messageId: string,
+  drafts: DraftAttachment[]
+): Promise<MessageAttachment[]> => {
+  const attachments: MessageAttachment[] = [];
+
+  for (const draft of drafts) {
+    const folder = `${conversationId}/${messageId}`;
+    const path = `${folder}/${draft.id}-${safeName(draft.name)}`;
+    const thumbnail = draft.kind === 'image' ? await createThumbnail(draft.file) : null;
+    const thumbnailPath = thumbnail ? `${folder}/${draft.id}-thumb.jpg` : null;
+
+    await put(STORE_NAME, {
+      id: draft.id,
+      message_id: messageId,
+      path,
+      blob: draft.file,
+      thumbnail_path: thumbnailPath,
+      thumbnail,
+    } satisfies PendingUpload);
+
+    attachments.push({
+      id: draft.id,
+      kind: draft.kind,
+      name: draft.name,
+      mime_type: draft.file.type || 'application/octet-stream',
+      size: draft.file.size,
+      path,
+      thumbnail_path: thumbnailPath,
+      duration: draft.duration ?? null,
+    });
+  }
+
+  return attachments;
+};
+
+/**
+ * Upload one file to the bucket. Goes through XHR rather than the storage
+ * client so upload progress can be reported.
+ */
+const uploadFile = async (path: string, blob: Blob, onProgress?: (loaded: number) => void) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Not signed in');
+
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/${ATTACHMENTS_BUCKET}/${encodeURI(path)}`);
+    xhr.setRequestHeader('Authorization', `Bearer ${session.access_token}`);
+    xhr.setRequestHeader('apikey', import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY);
+    xhr.setRequestHeader('Content-Type', blob.type || 'application/octet-stream');
+    // A retry after a dropped connection may find the file already there
+    xhr.setRequestHeader('x-upsert', 'true');
+    xhr.upload.onprogress = (event) => onProgress?.(event.loaded);
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+        return;
+      }
+      let message = `Upload failed (${xhr.status})`;
+      try {
+        message = JSON.parse(xhr.responseText).message || message;
+      } catch { /* ignore */ }
+      reject(new Error(message));
+    };
+    xhr.onerror = () => reject(new Error('Network error during upload'));
+    xhr.send(blob);
+  });
+};
+
+/**
+ * Upload whatever a message still has waiting in IndexedDB, reporting overall
+ * progress from 0 to 1. Files are dropped from the store once uploaded, so a
+ * retry only sends what's left. Throws if any upload fails.
+ */
+export const uploadPendingAttachments = async (messageId: string, onProgress?: (fraction: number) => void) => {
+  const pending = (await getAll<PendingUpload>(STORE_NAME)).filter((p) => p.message_id === messageId);
+  if (pending.length === 0) return;
+
+  const total = pending.reduce((sum, p) => sum + p.blob.size + (p.thumbnail?.size || 0), 0) || 1;
+  let done = 0;
+
+  for (const upload of pending) {
+    if (upload.thumbnail && upload.thumbnail_path) {
+      await uploadFile(upload.thumbnail_path, upload.thumbnail);
+      done += upload.thumbnail.size;
+    }
+    await uploadFile(upload.path, upload.blob, (loaded) => onProgress?.((done + loaded) / total));
+    done += upload.blob.size;
+    onProgress?.(done / total);
+    await remove(STORE_NAME, upload.id);
+  }
+
+  console.log(`[chatAttachments] Uploaded ${pending.length} attachment(s) for message ${messageId}`);
+};
+
+/**
+ * Somewhere to load an attachment (or its thumbnail) from: the local copy if
+ * it hasn't been uploaded yet, otherwise a signed URL. Null when neither is
+ * available, e.g. offline on another device.
+ */
+export const getAttachmentUrl = async (
+  attachment: MessageAttachment,
+  options: { thumbnail?: boolean } = {}
+): Promise<string | null> => {
+  const path = options.thumbnail && attachment.thumbnail_path ? attachment.thumbnail_path : attachment.path;
+  const cached = urlCache.get(path);
+  if (cached && cached.expiresAt > Date.now()) return cached.url;
+
+  try {
+    const local = await getById<PendingUpload>(STORE_NAME, attachment.id);
+    const blob = local && (path === local.thumbnail_path ? local.thumbnail : local.blob);
+    if (blob) {
+      const url = URL.createObjectURL(blob);
+      urlCache.set(path, { url, expiresAt: Infinity });
+      return url;
+    }
+  } catch { /* ignore */ }
+
+  if (!navigator.onLine) return null;
+
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_SECONDS);
+
+  if (error || !data) {
+    console.error('[chatAttachments] Failed to sign attachment URL:', error);
+    return null;
+  }
+
+  // Refresh a little before the signature runs out
+  urlCache.set(path, { url: data.signedUrl, expiresAt: Date.now() + (SIGNED_URL_SECONDS - 60) * 1000 });
+  return data.signedUrl;
+};
+
+/** Remove a deleted message's files from the bucket. */
+export const removeAttachmentFiles = async (attachments: MessageAttachment[]) => {
+  const paths = attachments.flatMap((a) => (a.thumbnail_path ? [a.path, a.thumbnail_path] : [a.path]));
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from(ATTACHMENTS_BUCKET).remove(paths);
+  if (error) console.error('[chatAttachments] Failed to remove attachment files:', error);
+};
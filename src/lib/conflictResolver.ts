@@ -191,3 +191,19 @@ export const detectConflict = (
   const serverChanged = !areDeepEqual(serverVersion, lastSyncedVersion);
   return localChanged && serverChanged;
 };
+
+/**
+ * Field-level three-way comparison between a local patch, the current server
+ * row and the row as it was when the local edit was made.
+ * Returns the fields that were changed on both sides to different values.
+ */
+export const getConflictingFields = (
+  localVersion: Record<string, unknown>,
+  serverVersion: Record<string, unknown>,
+  lastSyncedVersion: Record<string, unknown>
+): string[] => {
+  return Object.keys(localVersion).filter((key) => {
+    if (ignoredConflictKeys.has(key)) return false;
+    return detectConflict(localVersion[key], serverVersion[key], lastSyncedVersion[key]);
+  });
+};
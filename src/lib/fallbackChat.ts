@@ -8,22 +8,13 @@
 import { searchBible, formatSearchResults, findByReference, getTopicalVerses } from './bibleSearch';
 import { generateLocalResponse, getModelStatus } from './localAI';
 import { getBibleDownloadStatus } from './bibleData';
+import { extractReference } from './bibleReference';
 
 export interface FallbackResult {
   content: string;
   source: 'local-ai' | 'bible-search' | 'offline-message';
 }
 
-/**
- * Detect if the question is a Bible reference lookup
- */
-const extractReference = (input: string): string | null => {
-  const refMatch = input.match(
-    /\b(\d?\s*(?:Genesis|Exodus|Leviticus|Numbers|Deuteronomy|Joshua|Judges|Ruth|Samuel|Kings|Chronicles|Ezra|Nehemiah|Esther|Job|Psalms?|Proverbs|Ecclesiastes|Isaiah|Jeremiah|Lamentations|Ezekiel|Daniel|Hosea|Joel|Amos|Obadiah|Jonah|Micah|Nahum|Habakkuk|Zephaniah|Haggai|Zechariah|Malachi|Matthew|Mark|Luke|John|Acts|Romans|Corinthians|Galatians|Ephesians|Philippians|Colossians|Thessalonians|Timothy|Titus|Philemon|Hebrews|James|Peter|Jude|Revelation))\s+(\d+):?(\d+)?(?:-(\d+))?/i
-  );
-  return refMatch ? refMatch[0] : null;
-};
-
 /**
  * Extract topic keywords from a question
  */
@@ -48,7 +39,7 @@ export const generateFallbackResponse = async (
   const modelStatus = getModelStatus();
 
   // ── Step 1: Try Bible reference lookup ─────────────
-  const ref = extractReference(userMessage);
+  const ref = extractReference(userMessage)?.text;
   if (ref && hasData) {
     const refResults = await findByReference(ref);
     if (refResults.length > 0) {
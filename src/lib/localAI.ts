@@ -13,6 +13,7 @@
 
 import { searchBible, getTopicalVerses, findByReference, fuzzySearchBible, formatCitations, SearchResult } from './bibleSearch';
 import { getBibleDownloadStatus } from './bibleData';
+import { extractReference } from './bibleReference';
 
 const STORAGE_KEY = 'scripture-bot-enabled';
 
@@ -159,10 +160,8 @@ const detectIntent = (input: string): Intent => {
   const whoMatch = lower.match(/who (?:is|was) ([a-z\s]+?)(?:\?|$|in the bible)/);
   if (whoMatch) intent.isWhoIs = whoMatch[1].trim();
 
-  const refMatch = input.match(
-    /\b(\d?\s*(?:Genesis|Exodus|Leviticus|Numbers|Deuteronomy|Joshua|Judges|Ruth|Samuel|Kings|Chronicles|Ezra|Nehemiah|Esther|Job|Psalms?|Proverbs|Ecclesiastes|Song|Isaiah|Jeremiah|Lamentations|Ezekiel|Daniel|Hosea|Joel|Amos|Obadiah|Jonah|Micah|Nahum|Habakkuk|Zephaniah|Haggai|Zechariah|Malachi|Matthew|Mark|Luke|John|Acts|Romans|Corinthians|Galatians|Ephesians|Philippians|Colossians|Thessalonians|Timothy|Titus|Philemon|Hebrews|James|Peter|Jude|Revelation))\s+(\d+):?(\d+)?(?:-(\d+))?/i
-  );
-  if (refMatch) intent.reference = refMatch[0];
+  const refMatch = extractReference(input);
+  if (refMatch) intent.reference = refMatch.text;
 
   for (const [topic, words] of Object.entries(TOPIC_MAP)) {
     if (words.some(w => lower.includes(w))) {
@@ -1,14 +1,27 @@
 /**
  * Local Network P2P Service
  * Provides WebRTC-based peer-to-peer connectivity for local multiplayer
- * Uses Supabase Realtime for signaling to enable true cross-device connectivity
+ * Uses Supabase Realtime for signaling to enable true cross-device connectivity,
+ * or QR codes swapped by hand when there's no internet (see manualSignaling.ts)
  */
 
 import { supabase } from '@/integrations/supabase/client';
 
 export type ConnectionMethod = 'wifi' | 'bluetooth';
 export type PeerRole = 'host' | 'guest';
-export type GameMode = 'competitive' | 'cooperative';
+export type GameMode = 'competitive' | 'cooperative' | 'teams';
+export type RoomGameType =
+  | 'trivia'
+  | 'guess_character'
+  | 'fill_blank'
+  | 'memory_verse'
+  | 'choose_path'
+  | 'journey_jerusalem'
+  | 'character_missions'
+  | 'old_testament'
+  | 'new_testament'
+  | 'daily_challenge'
+  | 'all';
 
 export interface LocalPeer {
   id: string;
@@ -17,26 +30,63 @@ export interface LocalPeer {
   isHost: boolean;
   score?: number;
   ready?: boolean;
+  // Team the player plays for in 'teams' mode
+  teamId?: string;
+  // Watches the game (e.g. a projector) without answering or taking a player slot
+  isSpectator?: boolean;
+  // Lost their connection; the host holds their seat for a while in case they come back
+  away?: boolean;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+}
+
+// How rounds are timed and scored, picked by the host (see roomRules.ts)
+export interface RoomRules {
+  // Seconds per question; null keeps each game's own pace
+  timeLimit: number | null;
+  // How much more a quick correct answer is worth than a slow one
+  speedBonus: 'none' | 'linear' | 'steep';
+  // Points lost for a wrong answer
+  wrongPenalty: number;
+  // Points a hint costs; null when hints are off
+  hintCost: number | null;
+  // Lifelines each player may use once per game
+  lifelines: { fiftyFifty: boolean; skip: boolean };
+  // Leaders still tied after the last question play extra questions
+  suddenDeath: boolean;
 }
 
 export interface GameRoom {
   id: string;
-  passcode: string;
+  // Only rooms paired by QR code have one; online rooms admit guests by invite
+  // (see roomInvites.ts)
+  passcode?: string;
   hostId: string;
   hostName: string;
   gameName: string;
-  gameType: 'trivia' | 'guess_character' | 'fill_blank' | 'memory_verse' | 'daily_challenge' | 'all';
+  gameType: RoomGameType;
   gameMode: GameMode;
   maxPlayers: number;
   currentPlayers: LocalPeer[];
   status: 'waiting' | 'playing' | 'finished';
   // Number of questions per game/round (optional)
   questionsPerRound?: number;
+  // Rooms without rules play by DEFAULT_RULES
+  rules?: RoomRules;
+  // Named teams for 'teams' mode; players point at one through teamId
+  teams?: Team[];
+  // Bumped on every host migration so updates from a stale host are ignored
+  hostTerm?: number;
+  // Public half of the host's signing key for the final score summary
+  hostKey?: JsonWebKey;
   createdAt: number;
 }
 
 export interface GameMessage {
-  type: 'chat' | 'game_state' | 'answer' | 'score_update' | 'player_join' | 'player_leave' | 'game_start' | 'question' | 'room_update' | 'request_room_info' | 'room_info' | 'start_request' | 'lobby_request' | 'lobby_update';
+  type: 'chat' | 'game_state' | 'answer' | 'score_update' | 'player_join' | 'player_leave' | 'game_start' | 'question' | 'room_update' | 'request_room_info' | 'room_info' | 'lobby_request' | 'lobby_update' | 'state_snapshot' | 'clue_reveal' | 'lifeline';
   senderId: string;
   senderName: string;
   payload: any;
@@ -53,14 +103,106 @@ export const generateRoomCode = (): string => {
   return code;
 };
 
-// Generate a 4-digit passcode for security
+// Secret for a room paired by QR code. It travels inside the invite code and
+// is never typed, so it can be long.
 export const generatePasscode = (): string => {
-  return Math.floor(1000 + Math.random() * 9000).toString();
+  return Array.from(crypto.getRandomValues(new Uint8Array(12)), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Everyone in the room who answers questions; spectators only watch
+export const getActivePlayers = (room: GameRoom | null): LocalPeer[] =>
+  (room?.currentPlayers || []).filter(p => !p.isSpectator);
+
+// Pick the next host when the current one drops. Every device sorts the same
+// player list the same way, so they all agree without another round-trip.
+export const electHost = (
+  players: LocalPeer[],
+  departedHostId: string,
+  isReachable: (peerId: string) => boolean
+): LocalPeer | null => {
+  const candidates = players
+    .filter(p => p.id !== departedHostId && !p.isSpectator && isReachable(p.id))
+    .sort((a, b) => a.id.localeCompare(b.id));
+  return candidates[0] || null;
+};
+
+// Newer host terms win; a room without a term predates any migration
+export const isStaleRoom = (incoming: GameRoom, current: GameRoom | null): boolean => {
+  return !!current && (incoming.hostTerm || 0) < (current.hostTerm || 0);
+};
+
+/**
+ * Whether a room update from senderId can be believed. The current host may
+ * change anything. Anyone else can only claim the room in the migration we
+ * would make ourselves: the old host is out of reach, the term goes up by
+ * exactly one, and the sender is who we'd elect in its place.
+ */
+export const isTrustedRoomUpdate = (
+  incoming: GameRoom,
+  current: GameRoom | null,
+  senderId: string,
+  isReachable: (peerId: string) => boolean
+): boolean => {
+  if (isStaleRoom(incoming, current)) return false;
+  // Before we know the room, its host is whoever describes itself as one
+  if (!current) return senderId === incoming.hostId;
+  if (senderId === current.hostId) return true;
+  if (incoming.hostId !== senderId) return false;
+  if ((incoming.hostTerm || 0) !== (current.hostTerm || 0) + 1) return false;
+  if (isReachable(current.hostId)) return false;
+  return electHost(current.currentPlayers, current.hostId, isReachable)?.id === senderId;
 };
 
-// Validate passcode format
-export const isValidPasscode = (passcode: string): boolean => {
-  return /^\d{4}$/.test(passcode);
+export const DEFAULT_TEAM_NAMES = ['Team Gideon', 'Team Deborah'];
+
+export const createTeam = (name: string): Team => ({
+  id: crypto.randomUUID().slice(0, 8),
+  name
+});
+
+// The team with the fewest players, so newcomers keep the sides even
+export const pickTeamForPlayer = (players: LocalPeer[], teams: Team[]): string | undefined => {
+  const counts = teams.map(team => ({
+    id: team.id,
+    count: players.filter(p => p.teamId === team.id).length
+  }));
+  counts.sort((a, b) => a.count - b.count);
+  return counts[0]?.id;
+};
+
+// Even out team sizes. Players stay on their team while it has room; the
+// rest are dealt to whichever team is smallest.
+export const balanceTeams = (players: LocalPeer[], teams: Team[]): LocalPeer[] => {
+  if (teams.length === 0) return players;
+  const capacity = Math.ceil(players.length / teams.length);
+  const sizes = new Map(teams.map(t => [t.id, 0]));
+  const kept = players.map(p => {
+    const size = p.teamId !== undefined ? sizes.get(p.teamId) : undefined;
+    if (size === undefined || size >= capacity) return { ...p, teamId: undefined };
+    sizes.set(p.teamId!, size + 1);
+    return p;
+  });
+  return kept.map(p => {
+    if (p.teamId) return p;
+    const [teamId] = [...sizes.entries()].sort((a, b) => a[1] - b[1])[0];
+    sizes.set(teamId, sizes.get(teamId)! + 1);
+    return { ...p, teamId };
+  });
+};
+
+// Sum player scores per team. The roster is fixed when the game starts so
+// players who drop out still count for their side.
+export const aggregateTeamScores = (
+  scores: Record<string, number>,
+  roster: Record<string, string>,
+  teams: Team[]
+): Record<string, number> => {
+  const totals: Record<string, number> = Object.fromEntries(teams.map(t => [t.id, 0]));
+  for (const [playerId, score] of Object.entries(scores)) {
+    const teamId = roster[playerId];
+    if (teamId && teamId in totals) totals[teamId] += score;
+  }
+  return totals;
 };
 
 // WebRTC configuration for local network (STUN servers for NAT traversal)
@@ -72,14 +214,39 @@ export const rtcConfig: RTCConfiguration = {
   ]
 };
 
+// What each signaling message carries
+export interface SignalingMessages {
+  offer: { to: string; offer: RTCSessionDescriptionInit; senderName: string; restart?: boolean };
+  // peerId: the guest's real id, when the host only knew it by an invite slot
+  answer: { to: string; answer: RTCSessionDescriptionInit; peerId?: string; senderName?: string };
+  'ice-candidate': { to: string; candidate: RTCIceCandidateInit };
+  'peer-announce': { senderName: string };
+  'peer-response': { to: string; senderName: string };
+}
+
+export type SignalingType = keyof SignalingMessages;
+export type SignalingData<T extends SignalingType = SignalingType> = SignalingMessages[T];
+// As handed to handlers: the channel adds who sent it
+export type ReceivedSignal<T extends SignalingType = SignalingType> = SignalingData<T> & { from: string };
+export type SignalingHandlers = { [T in SignalingType]?: (data: ReceivedSignal<T>) => void };
+
+// How PeerConnectionManager exchanges offers, answers and ICE candidates
+export interface SignalingChannel {
+  waitForSubscription(timeoutMs?: number): Promise<void>;
+  send<T extends SignalingType>(type: T, data: SignalingData<T>, from: string): void;
+  on<T extends SignalingType>(type: T, handler: (data: ReceivedSignal<T>) => void): void;
+  off(type: SignalingType): void;
+  close(): void;
+}
+
 // Signaling using Supabase Realtime for cross-device connectivity
-export class RealtimeSignaling {
+export class RealtimeSignaling implements SignalingChannel {
   private channel: ReturnType<typeof supabase.channel> | null = null;
-  private handlers: Map<string, (data: any) => void> = new Map();
+  private handlers: SignalingHandlers = {};
   private roomId: string;
   private localId: string;
   private isSubscribed: boolean = false;
-  private pendingMessages: Array<{ type: string; data: any; from: string }> = [];
+  private pendingMessages: Array<{ type: SignalingType; data: SignalingData; from: string }> = [];
   private subscribePromise: Promise<void>;
   private resolveSubscribe!: () => void;
   private subscribeTimeoutId: number | null = null;
@@ -126,9 +293,11 @@ export class RealtimeSignaling {
     this.resetSubscriptionState();
 
     try {
+      // Private: Realtime authorization only lets the room's members in
       this.channel = supabase.channel(`game-room-${this.roomId}`, {
         config: {
-          broadcast: { self: false }
+          broadcast: { self: false },
+          private: true
         }
       });
 
@@ -139,10 +308,7 @@ export class RealtimeSignaling {
             // Ignore messages from self
             if (from === this.localId) return;
             
-            const handler = this.handlers.get(type);
-            if (handler) {
-              handler({ ...data, from });
-            }
+            this.handlers[type as SignalingType]?.({ ...data, from });
           } catch (e) {
             console.error('Error handling signaling payload:', e);
           }
@@ -221,7 +387,7 @@ export class RealtimeSignaling {
     ]);
   }
 
-  send(type: string, data: any, from: string) {
+  send(type: SignalingType, data: SignalingData, from: string) {
     if (this.channel) {
       if (!this.isSubscribed) {
         // Queue message if not yet subscribed
@@ -239,12 +405,12 @@ export class RealtimeSignaling {
     }
   }
 
-  on(type: string, handler: (data: any) => void) {
-    this.handlers.set(type, handler);
+  on<T extends SignalingType>(type: T, handler: SignalingHandlers[T]) {
+    this.handlers[type] = handler;
   }
 
-  off(type: string) {
-    this.handlers.delete(type);
+  off(type: SignalingType) {
+    delete this.handlers[type];
   }
 
   close() {
@@ -259,11 +425,16 @@ export class RealtimeSignaling {
   }
 }
 
+// How long a dropped connection gets to recover by itself before an ICE restart
+const ICE_RESTART_DELAY_MS = 2000;
+// Fresh offers to try after a connection fails outright
+const MAX_REOFFERS = 3;
+
 // WebRTC Peer Connection Manager
 export class PeerConnectionManager {
   private connections: Map<string, RTCPeerConnection> = new Map();
   private dataChannels: Map<string, RTCDataChannel> = new Map();
-  private signaling: RealtimeSignaling;
+  private signaling: SignalingChannel;
   private roomId: string;
   private localId: string;
   private localName: string;
@@ -271,26 +442,160 @@ export class PeerConnectionManager {
   private onPeerConnectedCallback?: (peer: LocalPeer) => void;
   private onPeerDisconnectedCallback?: (peerId: string) => void;
   private pendingConnections: Set<string> = new Set();
+  // Offers made before the peer's id was known, and who they turned out to be for
+  private peerAliases: Map<string, { id: string; name: string }> = new Map();
+  // Peers we sent the offer to; that side restarts ICE and re-offers after failures
+  private initiated: Set<string> = new Set();
+  // Peers whose connection dropped but may still recover
+  private suspended: Set<string> = new Set();
+  private peerNames: Map<string, string> = new Map();
+  private reoffers: Map<string, number> = new Map();
+  private restartTimers: Map<string, number> = new Map();
+  private closed = false;
 
-  constructor(roomId: string, localId: string, localName: string) {
+  constructor(roomId: string, localId: string, localName: string, signaling?: SignalingChannel) {
     this.roomId = roomId;
     this.localId = localId;
     this.localName = localName;
-    this.signaling = new RealtimeSignaling(roomId, localId);
+    this.signaling = signaling || new RealtimeSignaling(roomId, localId);
     this.setupSignalingHandlers();
   }
 
+  private resolvePeerId(peerId: string) {
+    return this.peerAliases.get(peerId)?.id || peerId;
+  }
+
+  // Refile a connection under the peer's real id once the answer names them
+  private renamePeer(fromId: string, peerId: string, peerName: string) {
+    const pc = this.connections.get(fromId);
+    if (!pc || this.connections.has(peerId)) return;
+    this.peerAliases.set(fromId, { id: peerId, name: peerName });
+    this.connections.delete(fromId);
+    this.connections.set(peerId, pc);
+    if (this.pendingConnections.delete(fromId)) this.pendingConnections.add(peerId);
+    if (this.initiated.delete(fromId)) this.initiated.add(peerId);
+  }
+
+  private peerInfo(peerId: string): LocalPeer {
+    return {
+      id: peerId,
+      name: this.peerNames.get(peerId) || 'Player',
+      connectionMethod: 'wifi',
+      isHost: false
+    };
+  }
+
+  // Shared by both ends of a connection. A 'disconnected' link often comes back
+  // by itself, so the peer is only suspended; the side that made the offer
+  // nudges it with an ICE restart, and starts over with a fresh offer if the
+  // connection fails.
+  private watchConnection(pc: RTCPeerConnection, placeholderId: string) {
+    pc.onconnectionstatechange = () => {
+      // Manual signaling offers under a placeholder until the answer names the peer
+      const peerId = this.resolvePeerId(placeholderId);
+      if (this.connections.get(peerId) !== pc) return;
+      console.log('Connection state changed to:', pc.connectionState, 'with peer:', peerId);
+
+      if (pc.connectionState === 'connected') {
+        this.reoffers.delete(peerId);
+        if (this.suspended.delete(peerId) && this.dataChannels.get(peerId)?.readyState === 'open') {
+          console.log('✓ Connection RECOVERED with peer:', peerId);
+          this.onPeerConnectedCallback?.(this.peerInfo(peerId));
+        }
+      } else if (pc.connectionState === 'disconnected') {
+        console.warn('⚠ Connection DISCONNECTED with peer:', peerId);
+        if (!this.suspended.has(peerId)) {
+          this.suspended.add(peerId);
+          this.onPeerDisconnectedCallback?.(peerId);
+        }
+        this.scheduleIceRestart(pc, peerId);
+      } else if (pc.connectionState === 'failed') {
+        console.error('❌ Connection FAILED with peer:', peerId);
+        this.dropConnection(peerId);
+        this.reoffer(peerId);
+      } else if (pc.connectionState === 'closed') {
+        console.warn('Connection CLOSED with peer:', peerId);
+        this.dropConnection(peerId);
+      }
+    };
+
+    pc.oniceconnectionstatechange = () => {
+      console.log('ICE connection state:', pc.iceConnectionState, 'with peer:', this.resolvePeerId(placeholderId));
+    };
+  }
+
+  private scheduleIceRestart(pc: RTCPeerConnection, peerId: string) {
+    if (!this.initiated.has(peerId) || this.restartTimers.has(peerId)) return;
+    this.restartTimers.set(peerId, window.setTimeout(async () => {
+      this.restartTimers.delete(peerId);
+      if (this.closed || this.connections.get(peerId) !== pc || pc.connectionState !== 'disconnected') return;
+      console.log('Restarting ICE with peer:', peerId);
+      try {
+        const offer = await pc.createOffer({ iceRestart: true });
+        await pc.setLocalDescription(offer);
+        this.signaling.send('offer', {
+          to: peerId,
+          offer,
+          senderName: this.localName,
+          restart: true
+        }, this.localId);
+      } catch (error) {
+        console.error('Error restarting ICE:', error);
+      }
+    }, ICE_RESTART_DELAY_MS));
+  }
+
+  private reoffer(peerId: string) {
+    if (this.closed || !this.initiated.has(peerId)) return;
+    const attempt = (this.reoffers.get(peerId) || 0) + 1;
+    if (attempt > MAX_REOFFERS) {
+      // Announcements can still bring them back
+      console.warn('Giving up re-offering to peer:', peerId);
+      this.reoffers.delete(peerId);
+      return;
+    }
+    this.reoffers.set(peerId, attempt);
+    window.setTimeout(() => {
+      if (!this.closed) this.connectToPeer(peerId, this.peerNames.get(peerId) || 'Player');
+    }, ICE_RESTART_DELAY_MS * attempt);
+  }
+
+  // Forget a connection entirely, telling listeners if they still thought it was up
+  private dropConnection(peerId: string) {
+    const wasOpen = this.dataChannels.has(peerId) && !this.suspended.has(peerId);
+    window.clearTimeout(this.restartTimers.get(peerId));
+    this.restartTimers.delete(peerId);
+    const pc = this.connections.get(peerId);
+    this.connections.delete(peerId);
+    this.dataChannels.delete(peerId);
+    this.pendingConnections.delete(peerId);
+    this.suspended.delete(peerId);
+    try {
+      pc?.close();
+    } catch (e) {
+      /* ignore */
+    }
+    if (wasOpen) this.onPeerDisconnectedCallback?.(peerId);
+  }
+
   private setupSignalingHandlers() {
     this.signaling.on('offer', async (data) => {
       if (data.to !== this.localId) return;
       console.log('Received offer from:', data.from);
-      await this.handleOffer(data.from, data.offer, data.senderName);
+      if (data.restart) {
+        await this.handleRestart(data.from, data.offer);
+      } else {
+        await this.handleOffer(data.from, data.offer, data.senderName);
+      }
     });
 
     this.signaling.on('answer', async (data) => {
       if (data.to !== this.localId) return;
       console.log('Received answer from:', data.from);
-      await this.handleAnswer(data.from, data.answer);
+      if (data.peerId && data.peerId !== data.from) {
+        this.renamePeer(data.from, data.peerId, data.senderName);
+      }
+      await this.handleAnswer(data.peerId || data.from, data.answer);
     });
 
     this.signaling.on('ice-candidate', async (data) => {
@@ -356,6 +661,8 @@ export class PeerConnectionManager {
 
     console.log('Connecting to peer:', peerId);
     this.pendingConnections.add(peerId);
+    this.initiated.add(peerId);
+    this.peerNames.set(peerId, peerName);
 
     const pc = new RTCPeerConnection(rtcConfig);
     this.connections.set(peerId, pc);
@@ -375,28 +682,7 @@ export class PeerConnectionManager {
       }
     };
 
-    pc.onconnectionstatechange = () => {
-      console.log('Connection state changed to:', pc.connectionState, 'with peer:', peerId);
-      if (pc.connectionState === 'failed') {
-        console.error('❌ Connection FAILED with peer:', peerId, '- will retry on next announcement');
-        // Don't immediately close - other peers might still connect
-        // The connection will be retried if the peer announces again
-      } else if (pc.connectionState === 'disconnected') {
-        console.warn('⚠ Connection DISCONNECTED with peer:', peerId);
-        this.dataChannels.delete(peerId);
-        this.onPeerDisconnectedCallback?.(peerId);
-      } else if (pc.connectionState === 'closed') {
-        console.warn('Connection CLOSED with peer:', peerId);
-        this.dataChannels.delete(peerId);
-        this.pendingConnections.delete(peerId);
-        this.connections.delete(peerId);
-        this.onPeerDisconnectedCallback?.(peerId);
-      }
-    };
-
-    pc.oniceconnectionstatechange = () => {
-      console.log('ICE connection state:', pc.iceConnectionState, 'with peer:', peerId);
-    };
+    this.watchConnection(pc, peerId);
 
     // Create and send offer
     try {
@@ -416,35 +702,30 @@ export class PeerConnectionManager {
   }
 
   private async handleOffer(fromId: string, offer: RTCSessionDescriptionInit, senderName: string) {
-    if (this.connections.has(fromId)) {
-      const existing = this.connections.get(fromId);
-      // If existing connection is closed/failed/disconnected, clean up and accept the new offer
-      const shouldReplace = existing && (
-        (existing.connectionState === 'closed') ||
-        (existing.connectionState === 'failed') ||
-        (existing.iceConnectionState === 'failed') ||
-        (existing.iceConnectionState === 'disconnected')
-      );
-
-      if (shouldReplace) {
-        console.warn('Replacing stale/failed connection with peer:', fromId);
-        try {
-          existing?.close();
-        } catch (e) {
-          /* ignore */
-        }
-        this.dataChannels.delete(fromId);
-        this.pendingConnections.delete(fromId);
-        this.connections.delete(fromId);
-      } else {
-        // Active connection exists; ignore duplicate offer
-        console.log('Already have active connection with peer:', fromId, 'ignoring offer');
+    const existing = this.connections.get(fromId);
+    if (existing) {
+      // Both sides offered at once: the lower id's offer wins
+      const collision = existing.signalingState === 'have-local-offer';
+      if (collision && this.localId < fromId) {
+        console.log('Offer collision with peer:', fromId, '- keeping ours');
+        return;
+      }
+      // Signaling doesn't prove who sent an offer, so a working connection is
+      // never handed over; only one that has already dropped is started over
+      const dead = existing.connectionState === 'failed' || existing.connectionState === 'closed' ||
+        this.suspended.has(fromId);
+      if (!collision && !dead) {
+        console.warn('Ignoring offer for live connection with peer:', fromId);
         return;
       }
+      console.warn('Replacing connection with peer:', fromId);
+      this.dropConnection(fromId);
     }
 
     console.log('Received offer from peer:', fromId, '(' + senderName + ')');
     this.pendingConnections.add(fromId);
+    this.initiated.delete(fromId);
+    this.peerNames.set(fromId, senderName);
     const pc = new RTCPeerConnection(rtcConfig);
     this.connections.set(fromId, pc);
 
@@ -463,26 +744,7 @@ export class PeerConnectionManager {
       }
     };
 
-    pc.onconnectionstatechange = () => {
-      console.log('Connection state changed to:', pc.connectionState, 'with peer:', fromId);
-      if (pc.connectionState === 'failed') {
-        console.error('❌ Connection FAILED with peer:', fromId, '- waiting for retry');
-      } else if (pc.connectionState === 'disconnected') {
-        console.warn('⚠ Connection DISCONNECTED with peer:', fromId);
-        this.dataChannels.delete(fromId);
-        this.onPeerDisconnectedCallback?.(fromId);
-      } else if (pc.connectionState === 'closed') {
-        console.warn('Connection CLOSED with peer:', fromId);
-        this.dataChannels.delete(fromId);
-        this.pendingConnections.delete(fromId);
-        this.connections.delete(fromId);
-        this.onPeerDisconnectedCallback?.(fromId);
-      }
-    };
-
-    pc.oniceconnectionstatechange = () => {
-      console.log('ICE connection state:', pc.iceConnectionState, 'with peer:', fromId);
-    };
+    this.watchConnection(pc, fromId);
 
     try {
       await pc.setRemoteDescription(offer);
@@ -500,6 +762,24 @@ export class PeerConnectionManager {
     }
   }
 
+  // ICE restart: same connection, new network path
+  private async handleRestart(fromId: string, offer: RTCSessionDescriptionInit) {
+    const pc = this.connections.get(fromId);
+    if (!pc || pc.signalingState !== 'stable') return;
+    try {
+      await pc.setRemoteDescription(offer);
+      const answer = await pc.createAnswer();
+      await pc.setLocalDescription(answer);
+      console.log('Answering ICE restart from peer:', fromId);
+      this.signaling.send('answer', {
+        to: fromId,
+        answer: answer
+      }, this.localId);
+    } catch (error) {
+      console.error('Error handling ICE restart:', error);
+    }
+  }
+
   private async handleAnswer(fromId: string, answer: RTCSessionDescriptionInit) {
     const pc = this.connections.get(fromId);
     if (pc && pc.signalingState === 'have-local-offer') {
@@ -522,11 +802,16 @@ export class PeerConnectionManager {
     }
   }
 
-  private setupDataChannel(channel: RTCDataChannel, peerId: string, peerName: string) {
+  private setupDataChannel(channel: RTCDataChannel, placeholderId: string, placeholderName: string) {
     channel.onopen = () => {
+      const alias = this.peerAliases.get(placeholderId);
+      const peerId = alias?.id || placeholderId;
+      const peerName = alias?.name || placeholderName;
       console.log('✓ Data channel OPENED with peer:', peerId, '(' + peerName + ')');
       this.dataChannels.set(peerId, channel);
       this.pendingConnections.delete(peerId);
+      this.suspended.delete(peerId);
+      this.peerNames.set(peerId, peerName);
       this.onPeerConnectedCallback?.({
         id: peerId,
         name: peerName,
@@ -536,22 +821,23 @@ export class PeerConnectionManager {
     };
 
     channel.onclose = () => {
+      const peerId = this.resolvePeerId(placeholderId);
+      // Already replaced or dropped along with its connection
+      if (this.dataChannels.get(peerId) !== channel) return;
       console.log('× Data channel CLOSED with peer:', peerId);
+      const wasSuspended = this.suspended.delete(peerId);
       this.dataChannels.delete(peerId);
-      // Notify listeners that peer disconnected
-      this.onPeerDisconnectedCallback?.(peerId);
-      // Keep pending connection state in case of transient close
-      // Only remove from pending if it was actually failed
+      if (!wasSuspended) this.onPeerDisconnectedCallback?.(peerId);
     };
 
     channel.onerror = (error) => {
-      console.error('Data channel ERROR with peer:', peerId, error);
+      console.error('Data channel ERROR with peer:', this.resolvePeerId(placeholderId), error);
     };
 
     channel.onmessage = (event) => {
       try {
         const message = JSON.parse(event.data) as GameMessage;
-        this.onMessageCallback?.(peerId, message);
+        this.onMessageCallback?.(this.resolvePeerId(placeholderId), message);
       } catch (e) {
         console.error('Failed to parse message:', e);
       }
@@ -599,11 +885,19 @@ export class PeerConnectionManager {
 
   // Get connected peer count
   getConnectedPeerCount(): number {
-    return this.dataChannels.size;
+    return [...this.dataChannels.keys()].filter(peerId => !this.suspended.has(peerId)).length;
+  }
+
+  // Whether the data channel to a peer is currently open
+  isConnectedTo(peerId: string): boolean {
+    return this.dataChannels.get(peerId)?.readyState === 'open' && !this.suspended.has(peerId);
   }
 
   // Cleanup
   close() {
+    this.closed = true;
+    this.restartTimers.forEach((timer) => window.clearTimeout(timer));
+    this.restartTimers.clear();
     // Clear announce interval if it exists
     if ((this as any).announceIntervalId) {
       clearInterval((this as any).announceIntervalId);
@@ -615,6 +909,8 @@ export class PeerConnectionManager {
     this.connections.clear();
     this.dataChannels.clear();
     this.pendingConnections.clear();
+    this.peerAliases.clear();
+    this.suspended.clear();
   }
 }
 
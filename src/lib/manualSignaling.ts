@@ -0,0 +1,222 @@
+/**
+ * Manual Signaling — pair devices by QR code when Supabase Realtime can't be reached.
+ *
+ * At a camp with Wi-Fi but no internet there's nothing to relay offers and ICE
+ * candidates through, so the devices swap them by hand instead. The host shows
+ * an invite (its offer SDP plus candidates, compressed) as a QR code; the guest
+ * scans it and shows an answer code back. PeerConnectionManager drives this
+ * exactly as it drives RealtimeSignaling.
+ *
+ * Guests paired this way only connect to the host, not to each other, so
+ * messages sent directly between guests (team chat, say) don't arrive.
+ */
+
+import type { ReceivedSignal, SignalingChannel, SignalingData, SignalingHandlers, SignalingType } from './localNetwork';
+
+const CODE_PREFIX = 'CYA1.';
+// Stop waiting for more ICE candidates after this long without a new one
+const GATHER_QUIET_MS = 1000;
+const GATHER_MAX_MS = 5000;
+
+/** What the host's QR code carries. */
+export interface ManualInvite {
+  roomId: string;
+  passcode: string;
+  hostId: string;
+  hostName: string;
+  // Placeholder id the host's offer is filed under until the answer names the guest
+  slotId: string;
+  sdp: string;
+}
+
+/** What the guest's QR code carries back. */
+export interface ManualAnswer {
+  slotId: string;
+  peerId: string;
+  peerName: string;
+  sdp: string;
+}
+
+interface PendingDescription {
+  description?: RTCSessionDescriptionInit;
+  candidates: string[];
+  resolve?: (sdp: string) => void;
+  timer?: number;
+  deadline?: number;
+}
+
+// ── Encoding ───────────────────────────────────────────────────
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0));
+
+const pipeThrough = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+export const encodeSignal = async (value: ManualInvite | ManualAnswer): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify(value));
+  return CODE_PREFIX + toBase64Url(await pipeThrough(json, new CompressionStream('deflate-raw')));
+};
+
+export const decodeSignal = async <T extends ManualInvite | ManualAnswer>(code: string): Promise<T | null> => {
+  const trimmed = code.trim();
+  if (!trimmed.startsWith(CODE_PREFIX)) return null;
+  try {
+    const bytes = await pipeThrough(fromBase64Url(trimmed.slice(CODE_PREFIX.length)), new DecompressionStream('deflate-raw'));
+    return JSON.parse(new TextDecoder().decode(bytes)) as T;
+  } catch (err) {
+    console.error('[manualSignaling] Could not read pairing code:', err);
+    return null;
+  }
+};
+
+export const isInvite = (value: ManualInvite | ManualAnswer | null): value is ManualInvite =>
+  !!value && 'hostId' in value;
+
+/**
+ * Codes are scanned once, so candidates can't trickle in afterwards. They're
+ * written into the SDP itself; the manager only opens one data channel, so
+ * there is a single media section to append them to.
+ */
+const withCandidates = (sdp: string, candidates: string[]) => {
+  const body = sdp.endsWith('\r\n') ? sdp : `${sdp}\r\n`;
+  return body + candidates.map(c => `a=${c}\r\n`).join('') + 'a=end-of-candidates\r\n';
+};
+
+// ── Signaling ──────────────────────────────────────────────────
+
+export class ManualSignaling implements SignalingChannel {
+  private handlers: SignalingHandlers = {};
+  // Messages for handlers the manager hasn't registered yet
+  private queued: { [T in SignalingType]?: ReceivedSignal<T>[] } = {};
+  // Local descriptions being gathered, keyed by the peer they're for
+  private pending: Map<string, PendingDescription> = new Map();
+  private localId: string;
+
+  constructor(localId: string) {
+    this.localId = localId;
+  }
+
+  // Nothing to subscribe to; the channel is ready as soon as it exists
+  async waitForSubscription(): Promise<void> {}
+
+  send(type: SignalingType, data: SignalingData) {
+    // Announcements have no one to reach; only the handshake is passed on
+    if ('offer' in data || 'answer' in data) {
+      // Only the first handshake fits in a code; later ones (ICE restarts,
+      // re-offers) have no way to reach the other device
+      const entry = this.pending.get(data.to);
+      if (!entry) return;
+      entry.description = 'offer' in data ? data.offer : data.answer;
+      this.scheduleFinish(data.to);
+    } else if ('candidate' in data && data.candidate?.candidate) {
+      // Candidates after the code was made can't reach the other device anyway
+      const entry = this.pending.get(data.to);
+      if (!entry) return;
+      entry.candidates.push(data.candidate.candidate);
+      this.scheduleFinish(data.to);
+    }
+  }
+
+  on<T extends SignalingType>(type: T, handler: SignalingHandlers[T]) {
+    this.handlers[type] = handler;
+    const ready = this.queued[type] ?? [];
+    delete this.queued[type];
+    ready.forEach(data => handler(data));
+  }
+
+  off(type: SignalingType) {
+    delete this.handlers[type];
+  }
+
+  close() {
+    this.pending.forEach(entry => window.clearTimeout(entry.timer));
+    this.pending.clear();
+    this.handlers = {};
+    this.queued = {};
+  }
+
+  /** Host: open a connection for the next guest and return the code to show them. */
+  async createInvite(room: { roomId: string; passcode: string; hostName: string }): Promise<string> {
+    const slotId = `slot-${crypto.randomUUID()}`;
+    const sdp = this.waitForDescription(slotId);
+    // Same as a guest answering our announcement: the manager makes the offer
+    this.emit('peer-response', { from: slotId, to: this.localId, senderName: 'Guest' });
+    return encodeSignal({
+      roomId: room.roomId,
+      passcode: room.passcode,
+      hostId: this.localId,
+      hostName: room.hostName,
+      slotId,
+      sdp: await sdp
+    });
+  }
+
+  /** Guest: hand the host's offer to the manager and return the code to show back. */
+  async answerInvite(invite: ManualInvite, peerName: string): Promise<string> {
+    const sdp = this.waitForDescription(invite.hostId);
+    this.emit('offer', {
+      from: invite.hostId,
+      to: this.localId,
+      offer: { type: 'offer', sdp: invite.sdp },
+      senderName: invite.hostName
+    });
+    return encodeSignal({
+      slotId: invite.slotId,
+      peerId: this.localId,
+      peerName,
+      sdp: await sdp
+    });
+  }
+
+  /** Host: finish the connection with the guest's answer code. */
+  async acceptAnswer(code: string): Promise<boolean> {
+    const answer = await decodeSignal<ManualAnswer>(code);
+    if (!answer || isInvite(answer)) return false;
+    this.emit('answer', {
+      from: answer.slotId,
+      to: this.localId,
+      answer: { type: 'answer', sdp: answer.sdp },
+      peerId: answer.peerId,
+      senderName: answer.peerName
+    });
+    return true;
+  }
+
+  private emit<T extends SignalingType>(type: T, data: ReceivedSignal<T>) {
+    const handler = this.handlers[type];
+    if (handler) {
+      handler(data);
+    } else {
+      (this.queued[type] ??= []).push(data);
+    }
+  }
+
+  private entryFor(peerId: string) {
+    if (!this.pending.has(peerId)) this.pending.set(peerId, { candidates: [] });
+    return this.pending.get(peerId)!;
+  }
+
+  private waitForDescription(peerId: string) {
+    return new Promise<string>((resolve) => {
+      const entry = this.entryFor(peerId);
+      entry.resolve = resolve;
+      entry.deadline = Date.now() + GATHER_MAX_MS;
+    });
+  }
+
+  // Resolve once candidates stop arriving, or at the deadline
+  private scheduleFinish(peerId: string) {
+    const entry = this.pending.get(peerId);
+    if (!entry?.description) return;
+    window.clearTimeout(entry.timer);
+    const wait = Math.max(0, Math.min(GATHER_QUIET_MS, (entry.deadline ?? Date.now() + GATHER_QUIET_MS) - Date.now()));
+    entry.timer = window.setTimeout(() => {
+      this.pending.delete(peerId);
+      entry.resolve?.(withCandidates(entry.description!.sdp || '', entry.candidates));
+    }, wait);
+  }
+}
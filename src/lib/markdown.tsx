@@ -1,18 +1,26 @@
 import React from "react";
+import { BookmarkCheck, StickyNote } from "lucide-react";
+import { findReferences, formatReference } from "@/lib/bibleReference";
+import type { VerseAnnotation } from "@/hooks/useVerseAnnotations";
+
+// Turn scripture references into bible:// markdown links with a book icon
+export const linkScriptureReferences = (content: string): string => {
+  let linked = "";
+  let cursor = 0;
+  for (const match of findReferences(content, { requireVerse: true })) {
+    const href = `bible://${encodeURIComponent(formatReference(match.segments))}`;
+    linked += `${content.slice(cursor, match.index)}[\u{1F4D6} ${match.text}](${href})`;
+    cursor = match.index + match.text.length;
+  }
+  return linked + content.slice(cursor);
+};
 
 // Utility to enrich content with icons and to convert scripture references to markdown links
 export const enrichContentWithIcons = (content: string): string => {
   let enriched = content;
 
   // Add icons to scripture refs and convert to link markdown
-  enriched = enriched.replace(
-    /\b(Genesis|Exodus|Leviticus|Numbers|Deuteronomy|Joshua|Judges|Ruth|Samuel|Kings|Chronicles|Ezra|Nehemiah|Esther|Job|Psalms?|Proverbs|Ecclesiastes|Isaiah|Jeremiah|Lamentations|Ezekiel|Daniel|Hosea|Joel|Amos|Obadiah|Jonah|Micah|Nahum|Habakkuk|Zephaniah|Haggai|Zechariah|Malachi|Matthew|Mark|Luke|John|Acts|Romans|Corinthians|Galatians|Ephesians|Philippians|Colossians|Thessalonians|Timothy|Titus|Philemon|Hebrews|James|Peter|John|Jude|Revelation)\s+(\d+):(\d+)/gi,
-    (_match, book, chap, verse) => {
-      const label = `\u{1F4D6} ${book} ${chap}:${verse}`;
-      const href = `bible://${encodeURIComponent(`${book} ${chap}:${verse}`)}`;
-      return `[${label}](${href})`;
-    }
-  );
+  enriched = linkScriptureReferences(enriched);
 
   enriched = enriched.replace(
     /\b(Jesus|Christ|God|Holy Spirit|salvation|grace|faith|love|forgiveness|redemption|covenant|kingdom|eternal|resurrection)\b/gi,
@@ -30,7 +38,22 @@ export const enrichContentWithIcons = (content: string): string => {
   return enriched;
 };
 
-export const markdownLinkComponents = (openBibleRef: (ref: string) => void) => ({
+// Marks scripture links the reader has highlighted, bookmarked or noted
+const renderAnnotationMarker = (annotations: VerseAnnotation[]) => {
+  if (annotations.length === 0) return null;
+  const notes = annotations.map((a) => a.note).filter(Boolean).join("\n");
+  const Icon = notes ? StickyNote : BookmarkCheck;
+  return (
+    <span title={notes || "Saved in My Notes"} className="inline-flex align-middle ml-0.5 text-primary">
+      <Icon className="w-3 h-3" />
+    </span>
+  );
+};
+
+export const markdownLinkComponents = (
+  openBibleRef: (ref: string) => void,
+  getAnnotations?: (ref: string) => VerseAnnotation[]
+) => ({
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   a: ({ href, children, ...props }: any) => {
     const h = String(href || "");
@@ -46,6 +69,7 @@ export const markdownLinkComponents = (openBibleRef: (ref: string) => void) => (
           {...props}
         >
           {children}
+          {getAnnotations && renderAnnotationMarker(getAnnotations(ref))}
         </a>
       );
     }
@@ -0,0 +1,151 @@
+/**
+ * Multiplayer Games — how each single-player game type is played in a room.
+ *
+ * Every question still goes through the commit-reveal round in
+ * useLocalMultiplayer; this module decides how a question is answered
+ * (pick an option, type it, arrange words, or guess from clues), what guests
+ * get to see of it, and how the shared journey map moves.
+ */
+
+import type { BibleGame } from '@/hooks/useBibleGames';
+import { getActivePlayers, type GameRoom, type RoomGameType, type RoomRules, type Team } from './localNetwork';
+
+export type PlayKind = 'choice' | 'typed' | 'arrange' | 'clues';
+
+/** A question as guests see it: no answer, plus what its renderer needs. */
+export interface PublicQuestion extends Omit<BibleGame, 'correct_answer'> {
+  // 'arrange': the verse's words, shuffled
+  words?: string[];
+  // 'clues': clues revealed so far, out of totalClues
+  clues?: string[];
+  totalClues?: number;
+}
+
+// Room types that show the shared map, and the stops along it
+export const MAP_GAME_TYPES: RoomGameType[] = ['journey_jerusalem', 'choose_path'];
+export const JOURNEY_STOPS = ['Jericho', 'Bethany', 'Bethlehem', 'Hebron', 'Samaria', 'Nazareth', 'Capernaum', 'Damascus', 'Caesarea', 'Jerusalem'];
+// Group id used on the map when the whole room travels together
+export const PARTY_GROUP = 'party';
+
+// Seconds between clue reveals in guess-the-character rounds
+export const CLUE_INTERVAL_SECONDS = 8;
+
+const ROUND_SECONDS: Record<PlayKind, number> = {
+  choice: 30,
+  typed: 40,
+  arrange: 60,
+  clues: 45
+};
+
+const shuffle = <T>(items: T[]): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+export const getPlayKind = (question: { game_type?: string; options?: string[] | null } | null | undefined): PlayKind => {
+  if (!question) return 'choice';
+  if (question.game_type === 'memory_verse') return 'arrange';
+  if (question.game_type === 'guess_character' && question.options?.length) return 'clues';
+  if (!question.options?.length) return 'typed';
+  return 'choice';
+};
+
+// The host's time limit, if it set one, applies to every kind of question
+export const getRoundSeconds = (question: Parameters<typeof getPlayKind>[0], rules?: RoomRules) =>
+  rules?.timeLimit ?? ROUND_SECONDS[getPlayKind(question)];
+
+const verseWords = (text: string) => text.split(/\s+/).filter(word => word.length > 0);
+
+/**
+ * The form answers are compared in. Players and the host both hash this, so
+ * typed answers forgive case and punctuation and arranged verses ignore spacing.
+ */
+export const normalizeAnswer = (kind: PlayKind, answer: string) => {
+  if (kind === 'typed') return answer.toLowerCase().trim().replace(/[.,;:!?'"]/g, '');
+  if (kind === 'arrange') return verseWords(answer).join(' ');
+  return answer;
+};
+
+// Same format GuessCharacter reads: one "Clue N: ..." per line
+export const parseClues = (question: string) =>
+  question.split('\n').filter(line => line.trim().startsWith('Clue'));
+
+/**
+ * Guests get the first clue only; the host reveals the rest over the round.
+ * The id is made up for this game, so it can't be looked up in bible_games.
+ */
+export const toPublicQuestion = (question: BibleGame): PublicQuestion => {
+  const { correct_answer, id, ...fields } = question;
+  const rest = { ...fields, id: crypto.randomUUID() };
+  const kind = getPlayKind(question);
+  if (kind === 'arrange') {
+    return { ...rest, words: shuffle(verseWords(correct_answer)) };
+  }
+  if (kind === 'clues') {
+    const clues = parseClues(question.question);
+    const intro = question.question.split('\n').filter(line => !line.trim().startsWith('Clue')).join('\n').trim();
+    return { ...rest, question: intro || 'Who am I?', clues: clues.slice(0, 1), totalClues: clues.length };
+  }
+  return rest;
+};
+
+/** Fewer clues seen means more points, as in the single-player game. */
+export const cluePoints = (basePoints: number, totalClues: number, cluesSeen: number) =>
+  basePoints * Math.max(1, totalClues - cluesSeen + 1);
+
+/** Pick a room's questions from the active games, like each single-player game does. */
+export const selectQuestions = (gameType: RoomGameType, games: BibleGame[]): BibleGame[] => {
+  switch (gameType) {
+    case 'old_testament':
+    case 'new_testament': {
+      const testament = gameType === 'old_testament' ? 'old' : 'new';
+      return shuffle(games.filter(g => g.testament === testament && (g.options?.length || 0) > 0));
+    }
+    case 'journey_jerusalem':
+    case 'choose_path':
+      // The road gets harder as the map goes on
+      return games
+        .filter(g => g.game_type === gameType)
+        .sort((a, b) => ['easy', 'medium', 'hard'].indexOf(a.difficulty) - ['easy', 'medium', 'hard'].indexOf(b.difficulty));
+    case 'daily_challenge':
+      // Daily: sample across the classic categories for variety
+      return shuffle(games.filter(g => ['trivia', 'guess_character', 'fill_blank', 'memory_verse'].includes(g.game_type)));
+    case 'all':
+      return shuffle(games);
+    default:
+      return shuffle(games.filter(g => g.game_type === gameType));
+  }
+};
+
+/** Map groups: one per team in 'teams' games, otherwise the whole party. */
+export const getMapGroups = (room: GameRoom, roster: Record<string, string> = {}): { id: string; name: string; members: string[] }[] => {
+  const playerIds = getActivePlayers(room).map(p => p.id);
+  if (room.gameMode === 'teams' && room.teams) {
+    return room.teams.map((team: Team) => ({
+      id: team.id,
+      name: team.name,
+      members: playerIds.filter(id => (roster[id] || room.currentPlayers.find(p => p.id === id)?.teamId) === team.id)
+    }));
+  }
+  return [{ id: PARTY_GROUP, name: 'Your party', members: playerIds }];
+};
+
+/** A group moves to the next stop when at least half of it answered correctly. */
+export const advanceMap = (
+  progress: Record<string, number>,
+  groups: { id: string; members: string[] }[],
+  correctIds: string[]
+): Record<string, number> => {
+  const next = { ...progress };
+  groups.forEach(group => {
+    const correct = group.members.filter(id => correctIds.includes(id)).length;
+    if (correct > 0 && correct * 2 >= group.members.length) {
+      next[group.id] = (next[group.id] || 0) + 1;
+    }
+  });
+  return next;
+};
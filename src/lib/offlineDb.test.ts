@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { coalesceSyncItems, type SyncQueueItem } from "./offlineDb";
+
+const queued = (action: SyncQueueItem["action"], data: object): SyncQueueItem => ({
+  id: "queue-1",
+  table: "tasks",
+  action,
+  data,
+  timestamp: 1000,
+  retryCount: 0,
+});
+
+describe("coalesceSyncItems", () => {
+  it("folds an update into a pending insert", () => {
+    const merged = coalesceSyncItems(queued("insert", { id: "t1", title: "Pray", done: false }), {
+      action: "update",
+      data: { id: "t1", done: true },
+      timestamp: 2000,
+    });
+    expect(merged).toMatchObject({
+      action: "insert",
+      data: { id: "t1", title: "Pray", done: true },
+      timestamp: 2000,
+    });
+  });
+
+  it("drops a row that was inserted and deleted before syncing", () => {
+    const merged = coalesceSyncItems(queued("insert", { id: "t1" }), {
+      action: "delete",
+      data: { id: "t1" },
+      timestamp: 2000,
+    });
+    expect(merged).toBeNull();
+  });
+
+  it("merges consecutive updates, newest fields winning", () => {
+    const merged = coalesceSyncItems(queued("update", { id: "t1", title: "Old", done: true }), {
+      action: "update",
+      data: { id: "t1", title: "New" },
+      timestamp: 2000,
+    });
+    expect(merged?.data).toEqual({ id: "t1", title: "New", done: true });
+  });
+
+  it("turns an update followed by a delete into a bare delete", () => {
+    const merged = coalesceSyncItems(queued("update", { id: "t1", title: "Old" }), {
+      action: "delete",
+      data: { id: "t1" },
+      timestamp: 2000,
+    });
+    expect(merged).toMatchObject({ action: "delete", data: { id: "t1" } });
+  });
+
+  it("writes a row back as an update when it is recreated after a delete", () => {
+    const merged = coalesceSyncItems(queued("delete", { id: "t1" }), {
+      action: "insert",
+      data: { id: "t1", title: "Again" },
+      timestamp: 2000,
+    });
+    expect(merged).toMatchObject({ action: "update", data: { id: "t1", title: "Again" } });
+  });
+
+  it("keeps the queue item's own id", () => {
+    const merged = coalesceSyncItems(queued("update", { id: "t1" }), {
+      action: "update",
+      data: { id: "t1", title: "New" },
+      timestamp: 2000,
+    });
+    expect(merged?.id).toBe("queue-1");
+  });
+});
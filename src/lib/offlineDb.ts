@@ -1,6 +1,6 @@
 // IndexedDB wrapper for offline data storage
 const DB_NAME = 'cya-offline-db';
-const DB_VERSION = 7;
+const DB_VERSION = 14;
 const MAX_SYNC_QUEUE_AGE = 30 * 24 * 60 * 60 * 1000; // 30 days
 const MAX_STORE_SIZE = 50 * 1024 * 1024; // 50 MB
 
@@ -13,6 +13,23 @@ export interface SyncQueueItem {
   retryCount: number;
   lastError?: string;
   lastErrorAt?: number;
+  // Row as it was cached before the first queued update, used for conflict detection
+  base?: object;
+}
+
+export interface SyncConflict {
+  id: string;
+  table: string;
+  recordId: string;
+  // Fields edited both locally and on the server to different values
+  fields: string[];
+  localVersion: Record<string, unknown>;
+  serverVersion: Record<string, unknown>;
+  // Non-conflicting fields from the local edit, already resolved
+  resolvedData: Record<string, unknown>;
+  localUpdatedAt: number;
+  serverUpdatedAt: number;
+  detectedAt: number;
 }
 
 let db: IDBDatabase | null = null;
@@ -30,7 +47,7 @@ const getRecordId = (data: object): string | null => {
   return typeof maybeId === 'string' && maybeId.length > 0 ? maybeId : null;
 };
 
-const coalesceSyncItems = (
+export const coalesceSyncItems = (
   existing: SyncQueueItem,
   next: { action: 'insert' | 'update' | 'delete'; data: object; timestamp: number }
 ): SyncQueueItem | null => {
@@ -228,6 +245,58 @@ const openDB = (): Promise<IDBDatabase> => {
       if (!database.objectStoreNames.contains('game_scores')) {
         database.createObjectStore('game_scores', { keyPath: 'id' });
       }
+
+      // ===== v8 stores =====
+      // Sync conflicts awaiting a user decision
+      if (!database.objectStoreNames.contains('sync_conflicts')) {
+        const conflictStore = database.createObjectStore('sync_conflicts', { keyPath: 'id' });
+        conflictStore.createIndex('table', 'table', { unique: false });
+      }
+
+      // ===== v9 stores =====
+      // Personal verse highlights, bookmarks and notes
+      if (!database.objectStoreNames.contains('verse_annotations')) {
+        const annotationStore = database.createObjectStore('verse_annotations', { keyPath: 'id' });
+        annotationStore.createIndex('user_id', 'user_id', { unique: false });
+      }
+
+      // ===== v10 stores =====
+      // Reading plans and the user's progress through them
+      if (!database.objectStoreNames.contains('reading_plans')) {
+        database.createObjectStore('reading_plans', { keyPath: 'id' });
+      }
+      if (!database.objectStoreNames.contains('reading_plan_progress')) {
+        const progressStore = database.createObjectStore('reading_plan_progress', { keyPath: 'id' });
+        progressStore.createIndex('user_id', 'user_id', { unique: false });
+      }
+
+      // ===== v11 stores =====
+      // Spaced-repetition schedule per memory verse
+      if (!database.objectStoreNames.contains('verse_reviews')) {
+        const reviewStore = database.createObjectStore('verse_reviews', { keyPath: 'id' });
+        reviewStore.createIndex('user_id', 'user_id', { unique: false });
+      }
+
+      // ===== v12 stores =====
+      // Local multiplayer match history
+      if (!database.objectStoreNames.contains('multiplayer_matches')) {
+        const matchStore = database.createObjectStore('multiplayer_matches', { keyPath: 'id' });
+        matchStore.createIndex('user_id', 'user_id', { unique: false });
+      }
+
+      // ===== v13 stores =====
+      // Chat read cursors, keyed '<conversation_id>:<user_id>'
+      if (!database.objectStoreNames.contains('message_reads')) {
+        const readsStore = database.createObjectStore('message_reads', { keyPath: 'id' });
+        readsStore.createIndex('conversation_id', 'conversation_id', { unique: false });
+      }
+
+      // ===== v14 stores =====
+      // Chat attachment files sent offline, held until uploaded
+      if (!database.objectStoreNames.contains('chat_attachments')) {
+        const attachmentStore = database.createObjectStore('chat_attachments', { keyPath: 'id' });
+        attachmentStore.createIndex('message_id', 'message_id', { unique: false });
+      }
     };
   });
 };
@@ -306,7 +375,7 @@ export const clearStore = async (storeName: string): Promise<void> => {
 };
 
 // Sync queue operations
-export const addToSyncQueue = async (item: { table: string; action: 'insert' | 'update' | 'delete'; data: object }): Promise<void> => {
+export const addToSyncQueue = async (item: { table: string; action: 'insert' | 'update' | 'delete'; data: object; base?: object }): Promise<void> => {
   const database = await openDB();
 
   return new Promise((resolve, reject) => {
@@ -331,6 +400,7 @@ export const addToSyncQueue = async (item: { table: string; action: 'insert' | '
           data: item.data,
           timestamp: now,
           retryCount: 0,
+          base: item.action === 'update' ? item.base : undefined,
         } satisfies SyncQueueItem);
         return;
       }
@@ -348,6 +418,7 @@ export const addToSyncQueue = async (item: { table: string; action: 'insert' | '
 
       store.put({
         ...merged,
+        base: merged.action === 'update' ? merged.base ?? item.base : undefined,
         retryCount: 0,
         lastError: undefined,
         lastErrorAt: undefined,
@@ -399,6 +470,20 @@ export const markSyncQueueItemFailed = async (id: string, error: unknown): Promi
   });
 };
 
+// Sync conflict operations
+export const getSyncConflicts = async (): Promise<SyncConflict[]> => {
+  const conflicts = await getAll<SyncConflict>('sync_conflicts');
+  return conflicts.sort((a, b) => a.detectedAt - b.detectedAt);
+};
+
+export const saveSyncConflict = async (conflict: SyncConflict): Promise<void> => {
+  await put('sync_conflicts', conflict);
+};
+
+export const removeSyncConflict = async (id: string): Promise<void> => {
+  await remove('sync_conflicts', id);
+};
+
 // Metadata operations
 export const getMetadata = async (key: string): Promise<unknown | undefined> => {
   const result = await getById<{ key: string; value: unknown }>('metadata', key);
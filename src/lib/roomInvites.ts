@@ -0,0 +1,152 @@
+/**
+ * Room Invites — signed, expiring invites to multiplayer rooms.
+ *
+ * The room-invites edge function mints and redeems them. Redeeming an invite
+ * makes this account a member of the room, and only members can join the
+ * room's private signaling channel, so nobody can guess their way in or
+ * listen in on the handshake.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+
+export type InviteRole = 'player' | 'spectator';
+
+export interface RoomInvite {
+  token: string;
+  url: string;
+  expiresAt: string;
+}
+
+/** What an invite token says about itself, readable before it is redeemed. */
+export interface InviteDetails {
+  roomId: string;
+  role: InviteRole;
+  expiresAt: number;
+}
+
+// Errors from the function come back as a generic FunctionsHttpError; pull out its message
+const functionError = async (error: unknown, fallback: string) => {
+  try {
+    const body = await (error as { context?: Response }).context?.json();
+    return body?.error || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const fromBase64Url = (value: string) =>
+  new TextDecoder().decode(Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0)));
+
+export const readInvite = (token: string): InviteDetails | null => {
+  try {
+    const payload = JSON.parse(fromBase64Url(token.trim().split('.')[0]));
+    if (typeof payload.room !== 'string' || typeof payload.exp !== 'number') return null;
+    return { roomId: payload.room, role: payload.role === 'spectator' ? 'spectator' : 'player', expiresAt: payload.exp };
+  } catch {
+    return null;
+  }
+};
+
+// Accepts a pasted invite link or a bare token
+export const parseInviteInput = (value: string): string => {
+  const trimmed = value.trim();
+  try {
+    return new URL(trimmed).searchParams.get('invite') || trimmed;
+  } catch {
+    return trimmed;
+  }
+};
+
+// Links open the games page with the join dialog filled in; spectator links open the projector
+export const inviteUrl = (token: string, role: InviteRole = 'player') =>
+  `${window.location.origin}${role === 'spectator' ? '/games/projector' : '/games'}?invite=${encodeURIComponent(token)}`;
+
+/**
+ * Host: claim a room code, registering the public key that will sign its
+ * match summaries. Fails if another host is using it.
+ */
+export const openRoom = async (roomId: string, hostKey: JsonWebKey): Promise<{ ok: boolean; error?: string }> => {
+  const { error } = await supabase.functions.invoke('room-invites', { body: { action: 'open', roomId, hostKey } });
+  if (error) {
+    const message = await functionError(error, 'Could not open the room');
+    console.error('[roomInvites] Failed to open room:', message);
+    return { ok: false, error: message };
+  }
+  return { ok: true };
+};
+
+/**
+ * Host: register a match and its questions, in play order, as it starts.
+ * Only registered matches can be recorded.
+ */
+export const registerMatch = async (roomId: string, matchId: string, questionIds: string[]): Promise<boolean> => {
+  const { error } = await supabase.functions.invoke('room-invites', {
+    body: { action: 'start', roomId, matchId, questionIds }
+  });
+  if (error) {
+    console.error('[roomInvites] Failed to register match:', await functionError(error, 'Could not register the match'));
+    return false;
+  }
+  return true;
+};
+
+/** Host that took over mid-match: the registered questions' answers, in play order. */
+export const fetchMatchAnswers = async (roomId: string, matchId: string): Promise<(string | null)[] | null> => {
+  const { data, error } = await supabase.functions.invoke('room-invites', {
+    body: { action: 'answers', roomId, matchId }
+  });
+  if (error || !Array.isArray(data?.answers)) {
+    console.error('[roomInvites] Failed to fetch match answers:', await functionError(error, 'No answers returned'));
+    return null;
+  }
+  return data.answers;
+};
+
+/** Members: tell the server this device is still in the room. */
+export const touchRoom = async (roomId: string) => {
+  const { error } = await supabase.rpc('touch_game_room_member', { _room_id: roomId });
+  if (error) console.error('[roomInvites] Failed to touch room membership:', error);
+};
+
+/** Host: mint an invite. Leave maxUses unset for a link the whole group can use. */
+export const createRoomInvite = async (
+  roomId: string,
+  options: { role?: InviteRole; maxUses?: number | null; ttlMinutes?: number } = {}
+): Promise<RoomInvite | null> => {
+  const role = options.role || 'player';
+  const { data, error } = await supabase.functions.invoke('room-invites', {
+    body: { action: 'create', roomId, role, maxUses: options.maxUses ?? null, ttlMinutes: options.ttlMinutes }
+  });
+  if (error || !data?.token) {
+    console.error('[roomInvites] Failed to create invite:', await functionError(error, 'No token returned'));
+    return null;
+  }
+  return { token: data.token, url: inviteUrl(data.token, role), expiresAt: data.expiresAt };
+};
+
+/** Guest: spend the invite and become a member of its room. */
+export const redeemRoomInvite = async (token: string): Promise<{ roomId: string; role: InviteRole } | { error: string }> => {
+  const { data, error } = await supabase.functions.invoke('room-invites', { body: { action: 'redeem', token } });
+  if (error || !data?.roomId) {
+    const message = await functionError(error, 'Invite could not be used');
+    console.error('[roomInvites] Failed to redeem invite:', message);
+    return { error: message };
+  }
+  return { roomId: data.roomId, role: data.role };
+};
+
+/** Host: how a connecting device got into the room, or null if it never redeemed an invite. */
+export const getMemberRole = async (roomId: string, userId: string): Promise<InviteRole | 'host' | null> => {
+  const { data, error } = await supabase
+    .from('game_room_members')
+    .select('role')
+    .eq('room_id', roomId)
+    .eq('user_id', userId)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+  if (error) {
+    console.error('[roomInvites] Failed to look up room member:', error);
+    return null;
+  }
+  return (data?.role as InviteRole | 'host') || null;
+};
@@ -0,0 +1,115 @@
+/**
+ * Room Rules — how the host wants a room's rounds timed and scored.
+ *
+ * The host picks the rules when creating the room and they travel with it, so
+ * guests see them in the lobby and can check each round was scored by them.
+ * Hints and lifelines are served by the host, the only device that knows the
+ * answers.
+ */
+
+import { aggregateTeamScores, type GameRoom, type RoomRules } from './localNetwork';
+import type { PlayKind } from './multiplayerGames';
+
+export type Lifeline = keyof RoomRules['lifelines'];
+export type HelpKind = 'hint' | Lifeline;
+
+/** What the host sends back when a player asks for help with a question. */
+export interface RoundHelp {
+  questionIndex: number;
+  hint?: string;
+  // 50/50: wrong options to take off the board
+  removedOptions?: string[];
+  skipped?: boolean;
+}
+
+export const DEFAULT_RULES: RoomRules = {
+  timeLimit: null,
+  speedBonus: 'none',
+  wrongPenalty: 0,
+  hintCost: null,
+  lifelines: { fiftyFifty: false, skip: false },
+  suddenDeath: false
+};
+
+// Extra questions set aside for a tiebreaker when sudden death is on
+export const SUDDEN_DEATH_QUESTIONS = 3;
+
+// A correct answer given the moment the question opens is worth this many times its points
+const SPEED_MULTIPLIERS: Record<RoomRules['speedBonus'], number> = {
+  none: 1,
+  linear: 2,
+  steep: 3
+};
+
+// Rooms created before rules existed play by the defaults
+export const getRules = (room: GameRoom | null): RoomRules => ({
+  ...DEFAULT_RULES,
+  ...room?.rules,
+  lifelines: { ...DEFAULT_RULES.lifelines, ...room?.rules?.lifelines }
+});
+
+export const maxSpeedMultiplier = (rules: RoomRules) => SPEED_MULTIPLIERS[rules.speedBonus];
+
+/**
+ * What a correct answer is worth after `elapsed` of `roundSeconds`. The bonus
+ * shrinks evenly on 'linear'; on 'steep' it falls away quickly, so only fast
+ * answers get much of it.
+ */
+export const speedPoints = (basePoints: number, rules: RoomRules, elapsed: number, roundSeconds: number) => {
+  if (rules.speedBonus === 'none' || roundSeconds <= 0) return basePoints;
+  const left = Math.min(1, Math.max(0, 1 - elapsed / roundSeconds));
+  const share = rules.speedBonus === 'steep' ? left * left : left;
+  return Math.round(basePoints * (1 + (SPEED_MULTIPLIERS[rules.speedBonus] - 1) * share));
+};
+
+/** A nudge toward the answer: the opening words of a verse, or the first letter otherwise. */
+export const hintFor = (kind: PlayKind, answer: string) => {
+  if (kind === 'arrange') {
+    const words = answer.split(' ');
+    return `Starts "${words.slice(0, Math.max(1, Math.floor(words.length / 4))).join(' ')}…"`;
+  }
+  return `Starts with "${answer.trim().charAt(0).toUpperCase()}"`;
+};
+
+/** 50/50: every wrong option but one, picked at random. */
+export const fiftyFiftyRemovals = (options: string[], answer: string) => {
+  const wrong = options.filter(option => option !== answer);
+  const kept = wrong[Math.floor(Math.random() * wrong.length)];
+  return wrong.filter(option => option !== kept);
+};
+
+/**
+ * Who plays on in sudden death: the players tied for the lead, or in 'teams'
+ * games everyone on the tied teams. Empty when there's a clear winner, and
+ * always in cooperative games.
+ */
+export const suddenDeathContenders = (
+  room: GameRoom,
+  scores: Record<string, number>,
+  teamRoster: Record<string, string> = {}
+): string[] => {
+  if (room.gameMode === 'teams' && room.teams) {
+    const teamScores = aggregateTeamScores(scores, teamRoster, room.teams);
+    const top = Math.max(...room.teams.map(t => teamScores[t.id] || 0));
+    const tied = room.teams.filter(t => (teamScores[t.id] || 0) === top).map(t => t.id);
+    return tied.length > 1 ? Object.keys(scores).filter(id => tied.includes(teamRoster[id])) : [];
+  }
+  if (room.gameMode !== 'competitive') return [];
+  const top = Math.max(...Object.values(scores));
+  const tied = Object.keys(scores).filter(id => scores[id] === top);
+  return tied.length > 1 ? tied : [];
+};
+
+/** The rules as short lines for the lobby. */
+export const describeRules = (rules: RoomRules): string[] => {
+  const lines = [rules.timeLimit ? `${rules.timeLimit}s per question` : 'Standard time per question'];
+  if (rules.speedBonus !== 'none') {
+    lines.push(`${rules.speedBonus === 'steep' ? 'Steep speed' : 'Speed'} bonus up to ${SPEED_MULTIPLIERS[rules.speedBonus]}×`);
+  }
+  if (rules.wrongPenalty > 0) lines.push(`−${rules.wrongPenalty} pts for a wrong answer`);
+  if (rules.hintCost !== null) lines.push(rules.hintCost > 0 ? `Hints cost ${rules.hintCost} pts` : 'Free hints');
+  if (rules.lifelines.fiftyFifty) lines.push('One 50/50');
+  if (rules.lifelines.skip) lines.push('One skip');
+  if (rules.suddenDeath) lines.push('Sudden death if tied');
+  return lines;
+};
@@ -0,0 +1,200 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  commitAnswer,
+  createSalt,
+  generateHostKey,
+  hashPlayerAnswer,
+  resolveAnswerHash,
+  scoreRound,
+  signSummary,
+  stripAnswer,
+  verifyRound,
+  verifySummary,
+  type MatchSummary,
+} from "./roundVerification";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const ROOM = "ROOM42";
+const OPTIONS = ["Moses", "Aaron", "Joshua"];
+
+// Everyone's answer hashes for question 0, as the host receives them
+const answersFor = async (picks: Record<string, string>) => {
+  const answers: Record<string, string> = {};
+  for (const [playerId, answer] of Object.entries(picks)) {
+    answers[playerId] = await hashPlayerAnswer(answer, ROOM, 0, playerId);
+  }
+  return answers;
+};
+
+describe("answer hashing", () => {
+  it("commits to an answer without revealing it", async () => {
+    const salt = createSalt();
+    expect(salt).toMatch(/^[0-9a-f]{32}$/);
+    expect(createSalt()).not.toBe(salt);
+
+    const commitment = await commitAnswer("Moses", salt);
+    expect(commitment).toMatch(/^[0-9a-f]{64}$/);
+    expect(await commitAnswer("Moses", salt)).toBe(commitment);
+    expect(await commitAnswer("Aaron", salt)).not.toBe(commitment);
+  });
+
+  it("binds a player's answer to the room, question and player", async () => {
+    const hash = await hashPlayerAnswer("Moses", ROOM, 0, "alice");
+    expect(await hashPlayerAnswer("Moses", ROOM, 0, "bob")).not.toBe(hash);
+    expect(await hashPlayerAnswer("Moses", ROOM, 1, "alice")).not.toBe(hash);
+    expect(await hashPlayerAnswer("Moses", "OTHER", 0, "alice")).not.toBe(hash);
+  });
+
+  it("recovers which option a hash stands for", async () => {
+    const hash = await hashPlayerAnswer("Aaron", ROOM, 0, "alice");
+    expect(await resolveAnswerHash(hash, OPTIONS, ROOM, 0, "alice")).toBe("Aaron");
+    expect(await resolveAnswerHash(hash, OPTIONS, ROOM, 0, "bob")).toBeNull();
+  });
+
+  it("strips the answer from questions sent to guests", () => {
+    expect(stripAnswer({ id: "q1", question: "Who?", correct_answer: "Moses" })).toEqual({ id: "q1", question: "Who?" });
+  });
+});
+
+describe("scoreRound", () => {
+  it("gives a competitive round to the earliest correct answer", async () => {
+    const outcome = await scoreRound({
+      roomId: ROOM,
+      questionIndex: 0,
+      correctAnswer: "Moses",
+      points: 10,
+      competitive: true,
+      previousScores: { alice: 5 },
+      answers: await answersFor({ alice: "Moses", bob: "Moses", carol: "Aaron" }),
+      answerTimes: { alice: 2000, bob: 1500, carol: 1000 },
+    });
+    expect(outcome).toEqual({ scores: { alice: 5, bob: 10 }, correctIds: ["bob", "alice"], roundWinner: "bob" });
+  });
+
+  it("rewards everyone who got a cooperative round right", async () => {
+    const outcome = await scoreRound({
+      roomId: ROOM,
+      questionIndex: 0,
+      correctAnswer: "Moses",
+      points: 10,
+      pointsByPlayer: { bob: 7 },
+      competitive: false,
+      previousScores: {},
+      answers: await answersFor({ alice: "Moses", bob: "Moses", carol: "Aaron" }),
+      answerTimes: {},
+    });
+    expect(outcome.scores).toEqual({ alice: 10, bob: 7 });
+    expect(outcome.roundWinner).toBeUndefined();
+  });
+
+  it("charges wrong answers and hints without going below zero", async () => {
+    const outcome = await scoreRound({
+      roomId: ROOM,
+      questionIndex: 0,
+      correctAnswer: "Moses",
+      points: 10,
+      competitive: false,
+      previousScores: { bob: 3, carol: 20 },
+      answers: await answersFor({ alice: "Moses", bob: "Aaron" }),
+      answerTimes: {},
+      wrongPenalty: 5,
+      deductions: { alice: 4, carol: 2 },
+    });
+    expect(outcome.scores).toEqual({ alice: 6, bob: 0, carol: 18 });
+  });
+});
+
+describe("verifyRound", () => {
+  const closeRound = async (claimedScores?: Record<string, number>) => {
+    const salt = createSalt();
+    const answers = await answersFor({ alice: "Moses", bob: "Aaron" });
+    return {
+      roomId: ROOM,
+      questionIndex: 0,
+      commitment: await commitAnswer("Moses", salt),
+      reveal: { answer: "Moses", salt, answers, answerTimes: { alice: 1000, bob: 900 } },
+      localId: "bob",
+      localAnswerHash: answers.bob,
+      points: 10,
+      competitive: true,
+      previousScores: {},
+      claimed: { scores: claimedScores ?? { alice: 10 }, roundWinner: "alice" },
+    };
+  };
+
+  it("accepts an honest round", async () => {
+    const { valid, outcome } = await verifyRound(await closeRound());
+    expect(valid).toBe(true);
+    expect(outcome.roundWinner).toBe("alice");
+  });
+
+  it("rejects a reveal that doesn't open the commitment", async () => {
+    const round = await closeRound();
+    const { valid } = await verifyRound({ ...round, commitment: await commitAnswer("Aaron", round.reveal.salt) });
+    expect(valid).toBe(false);
+  });
+
+  it("rejects a round where our own answer was swapped", async () => {
+    const round = await closeRound();
+    const swapped = { ...round.reveal.answers, bob: await hashPlayerAnswer("Joshua", ROOM, 0, "bob") };
+    const { valid } = await verifyRound({ ...round, reveal: { ...round.reveal, answers: swapped } });
+    expect(valid).toBe(false);
+  });
+
+  it("rejects scores that don't add up", async () => {
+    const { valid, outcome } = await verifyRound(await closeRound({ alice: 50 }));
+    expect(valid).toBe(false);
+    // The honest outcome is still returned for display
+    expect(outcome.scores).toEqual({ alice: 10 });
+  });
+});
+
+describe("summary signing", () => {
+  const summaryFor = (hostKey: JsonWebKey): MatchSummary => ({
+    matchId: "match-1",
+    roomId: ROOM,
+    hostId: "alice",
+    hostKey,
+    gameType: "trivia",
+    questionCount: 10,
+    scores: { alice: 40, bob: 60 },
+    winners: ["bob"],
+    finishedAt: Date.parse("2026-10-19T12:00:00Z"),
+  });
+
+  it("verifies a summary signed with the room's host key", async () => {
+    const { keyPair, publicKey } = await generateHostKey();
+    const summary = summaryFor(publicKey);
+    const signed = await signSummary(keyPair.privateKey, summary);
+    expect(await verifySummary(signed, publicKey)).toEqual(summary);
+  });
+
+  it("rejects a tampered payload", async () => {
+    const { keyPair, publicKey } = await generateHostKey();
+    const signed = await signSummary(keyPair.privateKey, summaryFor(publicKey));
+    const tampered = signed.payload.replace('"alice":40', '"alice":99');
+    expect(tampered).not.toBe(signed.payload);
+    expect(await verifySummary({ ...signed, payload: tampered }, publicKey)).toBeNull();
+  });
+
+  it("rejects a summary signed by a different key", async () => {
+    const host = await generateHostKey();
+    const impostor = await generateHostKey();
+    const signed = await signSummary(impostor.keyPair.privateKey, summaryFor(host.publicKey));
+    expect(await verifySummary(signed, host.publicKey)).toBeNull();
+  });
+
+  it("rejects a summary naming a different host key than it was checked against", async () => {
+    const host = await generateHostKey();
+    const other = await generateHostKey();
+    const signed = await signSummary(host.keyPair.privateKey, summaryFor(other.publicKey));
+    expect(await verifySummary(signed, host.publicKey)).toBeNull();
+  });
+
+  it("rejects everything without a host key", async () => {
+    const { keyPair, publicKey } = await generateHostKey();
+    const signed = await signSummary(keyPair.privateKey, summaryFor(publicKey));
+    expect(await verifySummary(signed, undefined)).toBeNull();
+  });
+});
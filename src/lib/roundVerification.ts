@@ -0,0 +1,257 @@
+/**
+ * Round Verification — commit-reveal answers for local multiplayer.
+ *
+ * Guests never see `correct_answer` during a round. When the game starts the
+ * host sends a commitment per question (hash of salt + answer) and guests
+ * answer with a hash of their choice. Closing a round reveals the answer and
+ * salt, so every device can check the commitment and re-score the round.
+ * The finished game is signed with a per-room host key. Online rooms register
+ * its public half when they open, and the record-multiplayer-result edge
+ * function only accepts summaries signed with the registered key.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { put } from './offlineDb';
+
+// ── Types ──────────────────────────────────────────────────────
+
+export interface AnswerKeyEntry {
+  answer: string;
+  salt: string;
+}
+
+/** What the host publishes when a round closes. */
+export interface RoundReveal {
+  answer: string;
+  salt: string;
+  /** The host's view of who answered what, and when */
+  answers: Record<string, string>;
+  answerTimes: Record<string, number>;
+  /** Per-player points when they differ, e.g. by clues seen */
+  points?: Record<string, number>;
+  /** Points each player spent on hints this round */
+  deductions?: Record<string, number>;
+}
+
+export interface RoundOutcome {
+  scores: Record<string, number>;
+  correctIds: string[];
+  roundWinner?: string;
+}
+
+/** One team's final standing in a 'teams' match. */
+export interface TeamResult {
+  id: string;
+  name: string;
+  score: number;
+  members: string[];
+}
+
+export interface MatchSummary {
+  matchId: string;
+  roomId: string;
+  hostId: string;
+  hostKey: JsonWebKey;
+  gameType: string;
+  questionCount: number;
+  scores: Record<string, number>;
+  winners: string[];
+  // Team standings, best first, for 'teams' matches
+  teams?: TeamResult[];
+  finishedAt: number;
+}
+
+/** The summary exactly as signed, so verifiers hash the same bytes. */
+export interface SignedSummary {
+  payload: string;
+  signature: string;
+}
+
+// ── Hashing ────────────────────────────────────────────────────
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const toBase64 = (buffer: ArrayBuffer) => btoa(String.fromCharCode(...new Uint8Array(buffer)));
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+export const sha256Hex = async (text: string) =>
+  toHex(await crypto.subtle.digest('SHA-256', encoder.encode(text)));
+
+export const createSalt = () => toHex(crypto.getRandomValues(new Uint8Array(16)).buffer);
+
+/** Host commitment published before the round opens. */
+export const commitAnswer = (answer: string, salt: string) => sha256Hex(`${salt}:${answer}`);
+
+/**
+ * What a player sends instead of their answer. Bound to the room, question and
+ * player so a hash can't be copied between players or rounds.
+ */
+export const hashPlayerAnswer = (answer: string, roomId: string, questionIndex: number, playerId: string) =>
+  sha256Hex(`${roomId}:${questionIndex}:${playerId}:${answer}`);
+
+/** Recover which option a player picked, once the round is over. */
+export const resolveAnswerHash = async (
+  hash: string,
+  options: string[],
+  roomId: string,
+  questionIndex: number,
+  playerId: string
+): Promise<string | null> => {
+  for (const option of options) {
+    if ((await hashPlayerAnswer(option, roomId, questionIndex, playerId)) === hash) return option;
+  }
+  return null;
+};
+
+/** Question as sent to guests: everything but the answer. */
+export const stripAnswer = <T extends { correct_answer?: string }>(question: T): Omit<T, 'correct_answer'> => {
+  const { correct_answer, ...rest } = question;
+  return rest;
+};
+
+// ── Scoring ────────────────────────────────────────────────────
+
+/**
+ * Score one round from answer hashes. Competitive rounds go to the earliest
+ * correct answer; cooperative rounds reward everyone who got it right. Wrong
+ * answers and hints then cost what the room's rules say, but no score drops
+ * below zero.
+ */
+export const scoreRound = async (params: {
+  roomId: string;
+  questionIndex: number;
+  correctAnswer: string;
+  points: number;
+  pointsByPlayer?: Record<string, number>;
+  competitive: boolean;
+  previousScores: Record<string, number>;
+  answers: Record<string, string>;
+  answerTimes: Record<string, number>;
+  wrongPenalty?: number;
+  deductions?: Record<string, number>;
+}): Promise<RoundOutcome> => {
+  const { roomId, questionIndex, correctAnswer, competitive, previousScores, answers, answerTimes } = params;
+  const pointsFor = (id: string) => params.pointsByPlayer?.[id] ?? params.points;
+  const correctIds: string[] = [];
+  for (const [playerId, hash] of Object.entries(answers)) {
+    if ((await hashPlayerAnswer(correctAnswer, roomId, questionIndex, playerId)) === hash) {
+      correctIds.push(playerId);
+    }
+  }
+  correctIds.sort((a, b) => (answerTimes[a] ?? Infinity) - (answerTimes[b] ?? Infinity) || a.localeCompare(b));
+
+  const scores = { ...previousScores };
+  const roundWinner = competitive ? correctIds[0] : undefined;
+  const scorers = competitive ? correctIds.slice(0, 1) : correctIds;
+  scorers.forEach(id => { scores[id] = (scores[id] || 0) + pointsFor(id); });
+
+  const costs: Record<string, number> = { ...params.deductions };
+  if (params.wrongPenalty) {
+    Object.keys(answers)
+      .filter(id => !correctIds.includes(id))
+      .forEach(id => { costs[id] = (costs[id] || 0) + params.wrongPenalty; });
+  }
+  Object.entries(costs).forEach(([id, cost]) => { scores[id] = Math.max(0, (scores[id] || 0) - cost); });
+
+  return competitive ? { scores, correctIds, roundWinner } : { scores, correctIds };
+};
+
+const sameScores = (a: Record<string, number>, b: Record<string, number>) => {
+  const ids = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...ids].every(id => (a[id] || 0) === (b[id] || 0));
+};
+
+/**
+ * Guest-side check of a closed round: the reveal opens the commitment, our
+ * own answer reached the host untouched, and the host's scores add up. The
+ * outcome is returned either way so the results can still be shown.
+ */
+export const verifyRound = async (params: {
+  roomId: string;
+  questionIndex: number;
+  commitment: string | undefined;
+  reveal: RoundReveal;
+  localId: string;
+  localAnswerHash: string | undefined;
+  points: number;
+  competitive: boolean;
+  wrongPenalty?: number;
+  previousScores: Record<string, number>;
+  claimed: { scores: Record<string, number>; roundWinner?: string };
+}): Promise<{ valid: boolean; outcome: RoundOutcome }> => {
+  const { reveal } = params;
+  const opensCommitment = !!params.commitment
+    && (await commitAnswer(reveal.answer, reveal.salt)) === params.commitment;
+  const keptOwnAnswer = !params.localAnswerHash || reveal.answers[params.localId] === params.localAnswerHash;
+
+  const outcome = await scoreRound({
+    roomId: params.roomId,
+    questionIndex: params.questionIndex,
+    correctAnswer: reveal.answer,
+    points: params.points,
+    pointsByPlayer: reveal.points,
+    competitive: params.competitive,
+    previousScores: params.previousScores,
+    answers: reveal.answers,
+    answerTimes: reveal.answerTimes,
+    wrongPenalty: params.wrongPenalty,
+    deductions: reveal.deductions,
+  });
+  const scoresMatch = sameScores(outcome.scores, params.claimed.scores)
+    && outcome.roundWinner === params.claimed.roundWinner;
+  return { valid: opensCommitment && keptOwnAnswer && scoresMatch, outcome };
+};
+
+// ── Signing ────────────────────────────────────────────────────
+
+const SIGNING_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+const SIGNATURE_PARAMS = { name: 'ECDSA', hash: 'SHA-256' } as const;
+
+/** Fresh key per hosted room; the public half travels with the room and is registered with the server. */
+export const generateHostKey = async (): Promise<{ keyPair: CryptoKeyPair; publicKey: JsonWebKey }> => {
+  const keyPair = await crypto.subtle.generateKey(SIGNING_ALGORITHM, true, ['sign', 'verify']);
+  return { keyPair, publicKey: await crypto.subtle.exportKey('jwk', keyPair.publicKey) };
+};
+
+export const signSummary = async (privateKey: CryptoKey, summary: MatchSummary): Promise<SignedSummary> => {
+  const payload = JSON.stringify(summary);
+  const signature = await crypto.subtle.sign(SIGNATURE_PARAMS, privateKey, encoder.encode(payload));
+  return { payload, signature: toBase64(signature) };
+};
+
+/** Parsed summary when the signature matches the room's host key, else null. */
+export const verifySummary = async (signed: SignedSummary, hostKey: JsonWebKey | undefined): Promise<MatchSummary | null> => {
+  if (!hostKey) return null;
+  try {
+    const key = await crypto.subtle.importKey('jwk', hostKey, SIGNING_ALGORITHM, false, ['verify']);
+    const valid = await crypto.subtle.verify(SIGNATURE_PARAMS, key, fromBase64(signed.signature), encoder.encode(signed.payload));
+    if (!valid) return null;
+    const summary = JSON.parse(signed.payload) as MatchSummary;
+    return JSON.stringify(summary.hostKey) === JSON.stringify(hostKey) ? summary : null;
+  } catch (err) {
+    console.error('[roundVerification] Summary verification failed:', err);
+    return null;
+  }
+};
+
+// ── Recording ──────────────────────────────────────────────────
+
+/**
+ * Send a signed summary to the server, which records this player's share of
+ * it. Players can no longer write multiplayer scores directly.
+ */
+export const recordSignedSummary = async (signed: SignedSummary): Promise<boolean> => {
+  try {
+    const { data, error } = await supabase.functions.invoke('record-multiplayer-result', { body: signed });
+    if (error) throw error;
+    if (data?.score) await put('game_scores', data.score);
+    return true;
+  } catch (err) {
+    console.error('[roundVerification] Failed to record multiplayer result:', err);
+    return false;
+  }
+};
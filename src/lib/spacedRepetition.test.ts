@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  INITIAL_SCHEDULE,
+  gradeAttempt,
+  getRecallStage,
+  isDue,
+  scheduleReview,
+  toFirstLetters,
+} from "./spacedRepetition";
+
+const TODAY = "2026-10-19";
+
+describe("scheduleReview", () => {
+  it("grows passing intervals 1 → 6 → interval × ease", () => {
+    const first = scheduleReview(undefined, 4, TODAY);
+    expect(first).toMatchObject({ interval_days: 1, repetitions: 1, ease_factor: 2.5, due_date: "2026-10-20" });
+
+    const second = scheduleReview(first, 4, TODAY);
+    expect(second).toMatchObject({ interval_days: 6, repetitions: 2, due_date: "2026-10-25" });
+
+    const third = scheduleReview(second, 4, TODAY);
+    expect(third).toMatchObject({ interval_days: 15, repetitions: 3, due_date: "2026-11-03" });
+  });
+
+  it("raises the ease factor on perfect recall and lowers it on a hard pass", () => {
+    expect(scheduleReview(INITIAL_SCHEDULE, 5, TODAY).ease_factor).toBe(2.6);
+    expect(scheduleReview(INITIAL_SCHEDULE, 3, TODAY).ease_factor).toBe(2.36);
+  });
+
+  it("starts a lapsed verse over tomorrow and counts the lapse", () => {
+    const learned = { ease_factor: 2.5, interval_days: 15, repetitions: 3, lapses: 0 };
+    expect(scheduleReview(learned, 1, TODAY)).toEqual({
+      ease_factor: 1.96,
+      interval_days: 1,
+      repetitions: 0,
+      lapses: 1,
+      due_date: "2026-10-20",
+    });
+  });
+
+  it("doesn't count failing a verse that was never learned as a lapse", () => {
+    expect(scheduleReview(undefined, 0, TODAY).lapses).toBe(0);
+  });
+
+  it("never lets the ease factor drop below 1.3", () => {
+    let schedule = scheduleReview(undefined, 0, TODAY);
+    for (let i = 0; i < 5; i++) schedule = scheduleReview(schedule, 0, TODAY);
+    expect(schedule.ease_factor).toBe(1.3);
+  });
+
+  it("carries due dates across month and year ends", () => {
+    const learned = { ease_factor: 2.5, interval_days: 6, repetitions: 2, lapses: 0 };
+    expect(scheduleReview(learned, 4, "2026-12-25").due_date).toBe("2027-01-09");
+  });
+});
+
+describe("isDue", () => {
+  it("is due on and after the due date", () => {
+    expect(isDue({ due_date: TODAY }, TODAY)).toBe(true);
+    expect(isDue({ due_date: "2026-10-18" }, TODAY)).toBe(true);
+    expect(isDue({ due_date: "2026-10-20" }, TODAY)).toBe(false);
+  });
+});
+
+describe("recall stages", () => {
+  it("hides more of the verse as it sticks", () => {
+    expect(getRecallStage(undefined)).toBe("full");
+    expect(getRecallStage(0)).toBe("full");
+    expect(getRecallStage(2)).toBe("initials");
+    expect(getRecallStage(3)).toBe("blank");
+  });
+
+  it("grades recall with less help higher", () => {
+    expect(gradeAttempt(true, "full")).toBe(3);
+    expect(gradeAttempt(true, "initials")).toBe(4);
+    expect(gradeAttempt(true, "blank")).toBe(5);
+    expect(gradeAttempt(false, "full")).toBe(1);
+    expect(gradeAttempt(false, "blank")).toBe(2);
+  });
+});
+
+describe("toFirstLetters", () => {
+  it("keeps each word's first letter and its punctuation", () => {
+    expect(toFirstLetters("For God so loved the world,")).toBe("F G s l t w,");
+    expect(toFirstLetters("“Jesus wept.”")).toBe("“J w.”");
+  });
+});
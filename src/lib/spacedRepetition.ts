@@ -0,0 +1,105 @@
+/**
+ * Spaced repetition — SM-2 scheduling for memory verses.
+ *
+ * Pure functions only; persistence lives in useVerseReviews.
+ */
+
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+/** How much of the verse the learner sees before recalling it. */
+export type RecallStage = 'full' | 'initials' | 'blank';
+
+export interface ReviewSchedule {
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_date: string; // YYYY-MM-DD
+}
+
+export const INITIAL_SCHEDULE: Omit<ReviewSchedule, 'due_date'> = {
+  ease_factor: 2.5,
+  interval_days: 0,
+  repetitions: 0,
+  lapses: 0,
+};
+
+const MIN_EASE = 1.3;
+
+// ── Dates ──────────────────────────────────────────────────────
+
+export const getTodayDate = () => new Date().toISOString().split('T')[0];
+
+const addDays = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+};
+
+export const isDue = (schedule: Pick<ReviewSchedule, 'due_date'>, today = getTodayDate()) =>
+  schedule.due_date <= today;
+
+// ── Scheduling ─────────────────────────────────────────────────
+
+/**
+ * Apply one review. Grades below 3 are lapses: the verse starts over
+ * tomorrow. Passing grades grow the interval 1 → 6 → interval × ease.
+ */
+export const scheduleReview = (
+  current: Omit<ReviewSchedule, 'due_date'> | undefined,
+  grade: ReviewGrade,
+  today = getTodayDate()
+): ReviewSchedule => {
+  const prev = current || INITIAL_SCHEDULE;
+  const ease = Math.max(MIN_EASE, prev.ease_factor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+
+  if (grade < 3) {
+    return {
+      ease_factor: Math.round(ease * 100) / 100,
+      interval_days: 1,
+      repetitions: 0,
+      lapses: prev.lapses + (prev.repetitions > 0 ? 1 : 0),
+      due_date: addDays(today, 1),
+    };
+  }
+
+  const repetitions = prev.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(prev.interval_days * ease);
+  return {
+    ease_factor: Math.round(ease * 100) / 100,
+    interval_days: interval,
+    repetitions,
+    lapses: prev.lapses,
+    due_date: addDays(today, interval),
+  };
+};
+
+/** Verses get harder to see as they stick; a lapse shows the full text again. */
+export const getRecallStage = (repetitions: number | undefined): RecallStage => {
+  if (!repetitions) return 'full';
+  if (repetitions < 3) return 'initials';
+  return 'blank';
+};
+
+/**
+ * Grade an arrange attempt. Recalling with less help scores higher, so the
+ * ease factor only climbs once the verse is recalled from a blank prompt.
+ */
+export const gradeAttempt = (correct: boolean, stage: RecallStage): ReviewGrade => {
+  if (!correct) return stage === 'full' ? 1 : 2;
+  switch (stage) {
+    case 'blank': return 5;
+    case 'initials': return 4;
+    default: return 3;
+  }
+};
+
+// ── Display ────────────────────────────────────────────────────
+
+/** "For God so loved the world," → "F G s l t w," */
+export const toFirstLetters = (text: string) =>
+  text
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => word.replace(/^([^\p{L}\p{N}]*)([\p{L}\p{N}])[\p{L}\p{N}'’-]*/u, '$1$2'))
+    .join(' ');
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SyncQueueItem } from "./offlineDb";
+import { reconcileUpdate } from "./syncManager";
+
+const { serverRow, saveSyncConflict } = vi.hoisted(() => ({
+  serverRow: { current: null as Record<string, unknown> | null },
+  saveSyncConflict: vi.fn(),
+}));
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {
+    from: () => ({
+      select: () => ({
+        eq: () => ({
+          maybeSingle: async () => ({ data: serverRow.current, error: null }),
+        }),
+      }),
+    }),
+  },
+}));
+
+vi.mock("./offlineDb", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./offlineDb")>()),
+  saveSyncConflict,
+}));
+
+const QUEUED_AT = Date.parse("2026-10-01T12:00:00Z");
+
+const queuedUpdate = (data: object, base?: object): SyncQueueItem => ({
+  id: "queue-1",
+  table: "tasks",
+  action: "update",
+  data,
+  timestamp: QUEUED_AT,
+  retryCount: 0,
+  base,
+});
+
+describe("reconcileUpdate", () => {
+  beforeEach(() => {
+    serverRow.current = null;
+    saveSyncConflict.mockClear();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("skips updates to rows that no longer exist", async () => {
+    const outcome = await reconcileUpdate("tasks", queuedUpdate({ id: "t1", title: "New" }));
+    expect(outcome).toEqual({ kind: "skip", reason: "record gone" });
+  });
+
+  it("pushes a local edit the server hasn't touched", async () => {
+    serverRow.current = { id: "t1", title: "Old", done: false };
+    const outcome = await reconcileUpdate(
+      "tasks",
+      queuedUpdate({ id: "t1", title: "New" }, { id: "t1", title: "Old", done: false })
+    );
+    expect(outcome).toEqual({ kind: "push", data: { id: "t1", title: "New" } });
+  });
+
+  it("keeps server changes to fields the device didn't edit", async () => {
+    serverRow.current = { id: "t1", title: "Old", done: true };
+    const outcome = await reconcileUpdate(
+      "tasks",
+      queuedUpdate({ id: "t1", title: "New", done: false }, { id: "t1", title: "Old", done: false })
+    );
+    expect(outcome).toEqual({ kind: "push", data: { id: "t1", title: "New", done: true } });
+  });
+
+  it("holds a field edited on both sides for review when the table asks the user", async () => {
+    serverRow.current = { id: "t1", title: "Server title" };
+    const outcome = await reconcileUpdate(
+      "tasks",
+      queuedUpdate({ id: "t1", title: "Local title" }, { id: "t1", title: "Old" })
+    );
+    expect(outcome).toEqual({ kind: "held" });
+    expect(saveSyncConflict).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "tasks:t1", recordId: "t1", fields: ["title"] })
+    );
+  });
+
+  it("lets the server win where that's the table's strategy", async () => {
+    serverRow.current = { id: "m1", content: "Server text" };
+    const outcome = await reconcileUpdate(
+      "messages",
+      queuedUpdate({ id: "m1", content: "Local text" }, { id: "m1", content: "Old" })
+    );
+    expect(outcome).toEqual({ kind: "push", data: { id: "m1", content: "Server text" } });
+    expect(saveSyncConflict).not.toHaveBeenCalled();
+  });
+
+  it("treats every differing field as a conflict when the server moved on without a base", async () => {
+    serverRow.current = { id: "t1", title: "Server title", updated_at: "2026-10-01T13:00:00Z" };
+    const outcome = await reconcileUpdate("tasks", queuedUpdate({ id: "t1", title: "Local title" }));
+    expect(outcome).toEqual({ kind: "held" });
+  });
+});
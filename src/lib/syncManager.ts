@@ -1,5 +1,20 @@
 import { supabase } from "@/integrations/supabase/client";
-import { getSyncQueue, removeSyncQueueItem, setMetadata, getMetadata, pruneSyncQueue, markSyncQueueItemFailed } from "./offlineDb";
+import {
+  getSyncQueue,
+  removeSyncQueueItem,
+  setMetadata,
+  getMetadata,
+  pruneSyncQueue,
+  markSyncQueueItemFailed,
+  addToSyncQueue,
+  getSyncConflicts,
+  saveSyncConflict,
+  removeSyncConflict,
+  type SyncQueueItem,
+} from "./offlineDb";
+import { getConflictingFields, resolveConflict, type ConflictResolution } from "./conflictResolver";
+import { evaluateAchievementsOnServer, hasPendingAchievements } from "./achievementSync";
+import { uploadPendingAttachments } from "./chatAttachments";
 
 type TableName =
   | 'posts'
@@ -8,10 +23,38 @@ type TableName =
   | 'tasks'
   | 'activities'
   | 'user_streaks'
-  | 'user_achievements'
   | 'messages'
   | 'conversations'
-  | 'game_scores';
+  | 'game_scores'
+  | 'verse_annotations'
+  | 'reading_plan_progress'
+  | 'verse_reviews'
+  | 'multiplayer_matches'
+  | 'message_reads'
+  | 'message_reactions';
+
+// Tables whose rows are addressed by an `id` column
+type IdTableName = Exclude<TableName, 'message_reads'>;
+
+// How concurrent edits to the same row are reconciled, per table.
+// 'user-choice' (and 'merged' with unmergeable fields) are held for review.
+const CONFLICT_STRATEGIES: Partial<Record<TableName, ConflictResolution>> = {
+  tasks: 'user-choice',
+  activities: 'user-choice',
+  posts: 'user-choice',
+  post_comments: 'local-wins',
+  conversations: 'merged',
+  messages: 'server-wins',
+};
+const DEFAULT_CONFLICT_STRATEGY: ConflictResolution = 'merged';
+
+export type FieldChoice = 'local' | 'server' | 'merged';
+
+export type UpdateOutcome =
+  | { kind: 'push'; data: Record<string, unknown> }
+  | { kind: 'skip'; reason: string }
+  | { kind: 'held' };
+
 const MAX_RETRIES = 5;
 const RETRY_DELAY = 1000;
 
@@ -37,7 +80,106 @@ const retryWithBackoff = async <T,>(
   throw new Error('Max retries exceeded');
 };
 
-export const syncWithServer = async (): Promise<{ success: boolean; synced: number; errors: number; message?: string }> => {
+const pickFields = (row: Record<string, unknown> | undefined, fields: string[]): Record<string, unknown> => {
+  const picked: Record<string, unknown> = {};
+  for (const field of fields) {
+    picked[field] = row?.[field] ?? null;
+  }
+  return picked;
+};
+
+const toTime = (value: unknown): number => {
+  const time = typeof value === 'string' ? Date.parse(value) : Number(value);
+  return Number.isFinite(time) ? time : 0;
+};
+
+/**
+ * Compare a queued update against the current server row and decide what to
+ * push. Fields only changed on one side are taken from that side; fields
+ * changed on both sides go through the table's conflict strategy.
+ */
+export const reconcileUpdate = async (tableName: IdTableName, item: SyncQueueItem): Promise<UpdateOutcome> => {
+  const { id: recordId, ...patch } = item.data as Record<string, unknown> & { id?: string };
+  if (!recordId) return { kind: 'push', data: item.data as Record<string, unknown> };
+
+  const { data: serverRow, error } = await supabase
+    .from(tableName)
+    .select('*')
+    .eq('id', recordId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message || 'Failed to fetch server row');
+  if (!serverRow) return { kind: 'skip', reason: 'record gone' };
+
+  const serverData = serverRow as Record<string, unknown>;
+  const fields = Object.keys(patch);
+  const localVersion = pickFields(patch, fields);
+  const serverVersion = pickFields(serverData, fields);
+  const serverUpdatedAt = toTime(serverData.updated_at);
+
+  // Without a base snapshot we can only tell that the server moved on after the
+  // edit was queued; in that case every differing field counts as a conflict.
+  const baseVersion = item.base
+    ? pickFields(item.base as Record<string, unknown>, fields)
+    : serverUpdatedAt > item.timestamp ? {} : serverVersion;
+
+  const conflictingFields = getConflictingFields(localVersion, serverVersion, baseVersion);
+
+  const resolvedData: Record<string, unknown> = {};
+  for (const field of fields) {
+    if (conflictingFields.includes(field)) continue;
+    const localChanged = JSON.stringify(localVersion[field]) !== JSON.stringify(baseVersion[field]);
+    resolvedData[field] = localChanged ? localVersion[field] : serverVersion[field];
+  }
+
+  if (conflictingFields.length === 0) {
+    return { kind: 'push', data: { id: recordId, ...resolvedData } };
+  }
+
+  const strategy = CONFLICT_STRATEGIES[tableName] ?? DEFAULT_CONFLICT_STRATEGY;
+  const result = resolveConflict({
+    id: recordId,
+    table: tableName,
+    localVersion: pickFields(localVersion, conflictingFields),
+    serverVersion: pickFields(serverVersion, conflictingFields),
+    localUpdatedAt: item.timestamp,
+    serverUpdatedAt,
+  }, strategy);
+
+  if (result.requiresUserAction) {
+    await saveSyncConflict({
+      id: `${tableName}:${recordId}`,
+      table: tableName,
+      recordId,
+      fields: conflictingFields,
+      localVersion,
+      serverVersion,
+      resolvedData,
+      localUpdatedAt: item.timestamp,
+      serverUpdatedAt,
+      detectedAt: Date.now(),
+    });
+    console.log(`[syncManager] Holding conflict for ${tableName}/${recordId}: ${result.reason}`);
+    return { kind: 'held' };
+  }
+
+  console.log(`[syncManager] Resolved conflict for ${tableName}/${recordId}: ${result.reason}`);
+  return { kind: 'push', data: { id: recordId, ...resolvedData, ...result.resolvedData } };
+};
+
+/**
+ * Badges are awarded by the server once the data they depend on has synced.
+ * Re-check when anything was pushed or the device is showing unconfirmed badges.
+ */
+const evaluateAchievementsAfterSync = async (synced: number) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return;
+  if (synced > 0 || await hasPendingAchievements(session.user.id)) {
+    await evaluateAchievementsOnServer();
+  }
+};
+
+export const syncWithServer = async (): Promise<{ success: boolean; synced: number; errors: number; conflicts?: number; message?: string }> => {
   if (isSyncing || !navigator.onLine) {
     return { success: false, synced: 0, errors: 0, message: 'Already syncing or offline' };
   }
@@ -45,12 +187,14 @@ export const syncWithServer = async (): Promise<{ success: boolean; synced: numb
   isSyncing = true;
   let synced = 0;
   let errors = 0;
+  let conflicts = 0;
 
   try {
     const queue = await getSyncQueue();
 
     if (queue.length === 0) {
       await setMetadata('lastSync', Date.now());
+      void evaluateAchievementsAfterSync(0);
       return { success: true, synced: 0, errors: 0, message: 'Queue is empty' };
     }
 
@@ -62,27 +206,59 @@ export const syncWithServer = async (): Promise<{ success: boolean; synced: numb
         continue;
       }
 
+      // Queued by older clients; users can no longer insert badges or write streak rows directly
+      if (item.table === 'user_achievements' || (item.table === 'user_streaks' && item.action !== 'insert')) {
+        await removeSyncQueueItem(item.id);
+        continue;
+      }
+
       try {
         const tableName = item.table as TableName;
         const itemData = item.data as { id?: string; user_id?: string };
         const itemId = itemData.id || '';
 
+        let updateData = item.data as Record<string, unknown>;
+        if (item.action === 'update' && tableName !== 'user_streaks' && tableName !== 'message_reads') {
+          const outcome = await retryWithBackoff(() => reconcileUpdate(tableName, item), 3);
+          if (outcome.kind !== 'push') {
+            if (outcome.kind === 'held') conflicts++;
+            else console.log(`[syncManager] Skipping ${tableName}/${itemId}: ${outcome.reason}`);
+            await removeSyncQueueItem(item.id);
+            continue;
+          }
+          updateData = outcome.data;
+        }
+
         await retryWithBackoff(async () => {
           let result: { error: { message?: string; code?: string } | null } | undefined;
 
-          // user_streaks is keyed by user_id and should always upsert
+          // Streaks are queued as the activity that happened; the server applies it
           if (tableName === 'user_streaks') {
+            const activity = item.data as { kind: string; day: string };
+            result = await supabase.rpc('record_streak_activity', { _kind: activity.kind, _day: activity.day });
+          } else if (tableName === 'message_reads') {
+            // Read cursors are queued under a '<conversation>:<user>' id so repeat
+            // reads coalesce; the row itself is keyed by those two columns
+            const { id: _key, ...cursor } = item.data as Record<string, unknown>;
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            result = await supabase.from('user_streaks').upsert(item.data as any, { onConflict: 'user_id' });
+            result = await supabase.from('message_reads').upsert(cursor as any, { onConflict: 'conversation_id,user_id' });
           } else {
             switch (item.action) {
               case 'insert':
+                if (tableName === 'messages') {
+                  // Files sent offline go up before the message that points at them
+                  await uploadPendingAttachments(itemId);
+                  // Messages carry their client id, so a message that already got through is left alone
+                  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                  result = await supabase.from('messages').upsert(item.data as any, { onConflict: 'id', ignoreDuplicates: true });
+                  break;
+                }
                 // eslint-disable-next-line @typescript-eslint/no-explicit-any
                 result = await supabase.from(tableName).insert(item.data as any);
                 break;
               case 'update':
                 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                result = await supabase.from(tableName).update(item.data as any).eq('id', itemId);
+                result = await supabase.from(tableName).update(updateData as any).eq('id', itemId);
                 break;
               case 'delete':
                 result = await supabase.from(tableName).delete().eq('id', itemId);
@@ -122,10 +298,18 @@ export const syncWithServer = async (): Promise<{ success: boolean; synced: numb
 
     // Dispatch event for UI updates
     window.dispatchEvent(new CustomEvent('sync-complete', {
-      detail: { success: true, synced, errors }
+      detail: { success: true, synced, errors, conflicts }
     }));
 
-    return { success: true, synced, errors, message: `Synced ${synced} items with ${errors} errors` };
+    void evaluateAchievementsAfterSync(synced);
+
+    return {
+      success: true,
+      synced,
+      errors,
+      conflicts,
+      message: `Synced ${synced} items with ${errors} errors${conflicts > 0 ? `, ${conflicts} conflicts held for review` : ''}`,
+    };
   } finally {
     isSyncing = false;
 
@@ -140,6 +324,48 @@ export const syncWithServer = async (): Promise<{ success: boolean; synced: numb
   }
 };
 
+/**
+ * Apply the user's per-field decisions to a held conflict and queue the result.
+ * The server values become the new base so the next sync only conflicts if the
+ * row changes again on the server.
+ */
+export const resolveHeldConflict = async (
+  conflictId: string,
+  choices: Record<string, { choice: FieldChoice; value: unknown }>
+): Promise<void> => {
+  const conflict = (await getSyncConflicts()).find((entry) => entry.id === conflictId);
+  if (!conflict) return;
+
+  const data: Record<string, unknown> = { ...conflict.resolvedData };
+  for (const field of conflict.fields) {
+    const decision = choices[field];
+    data[field] = decision ? decision.value : conflict.serverVersion[field];
+  }
+
+  const changed = Object.keys(data).some(
+    (field) => JSON.stringify(data[field]) !== JSON.stringify(conflict.serverVersion[field])
+  );
+
+  if (changed) {
+    await addToSyncQueue({
+      table: conflict.table,
+      action: 'update',
+      data: { id: conflict.recordId, ...data },
+      base: conflict.serverVersion,
+    });
+  }
+
+  await removeSyncConflict(conflictId);
+
+  if (changed && navigator.onLine) {
+    await syncWithServer();
+  } else {
+    window.dispatchEvent(new CustomEvent('sync-complete', {
+      detail: { success: true, synced: 0, errors: 0, conflicts: 0 }
+    }));
+  }
+};
+
 export const getLastSyncTime = async (): Promise<number | null> => {
   const lastSync = await getMetadata('lastSync');
   return lastSync as number | null;
@@ -15,7 +15,7 @@ import { Checkbox } from "@/components/ui/checkbox";
 // theme control moved to user profile settings; Admin controls background media
 import { useTasks, Task } from "@/hooks/useTasks";
 import { useActivities, Activity } from "@/hooks/useActivities";
-import { Shield, Users, BookOpen, Plus, Trash2, RefreshCw, ArrowLeft, ListTodo, CalendarDays, Pencil, Gamepad2, Image, Sparkles, Loader2 } from "lucide-react";
+import { Shield, Users, BookOpen, Plus, Trash2, RefreshCw, ArrowLeft, ListTodo, CalendarDays, Pencil, Gamepad2, Image, Sparkles, Loader2, BookMarked, Trophy } from "lucide-react";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -31,6 +31,8 @@ import AdminGameManagement from "@/components/games/AdminGameManagement";
 import BrandingManagement from "@/components/admin/BrandingManagement";
 import DailyStoryManagement from "@/components/admin/DailyStoryManagement";
 import SlangDictionaryManagement from "@/components/admin/SlangDictionaryManagement";
+import ReadingPlanManagement from "@/components/admin/ReadingPlanManagement";
+import AchievementManagement from "@/components/admin/AchievementManagement";
 
 const emailSchema = z.string().email("Invalid email address");
 const passwordSchema = z.string().min(6, "Password must be at least 6 characters");
@@ -510,6 +512,14 @@ const AdminPage = () => {
               <BookOpen className="h-4 w-4" />
               Slang
             </TabsTrigger>
+            <TabsTrigger value="plans" className="gap-2">
+              <BookMarked className="h-4 w-4" />
+              Reading Plans
+            </TabsTrigger>
+            <TabsTrigger value="achievements" className="gap-2">
+              <Trophy className="h-4 w-4" />
+              Achievements
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="users" className="space-y-6">
@@ -1145,6 +1155,14 @@ const AdminPage = () => {
           <TabsContent value="slang" className="space-y-6">
             <SlangDictionaryManagement />
           </TabsContent>
+
+          <TabsContent value="plans" className="space-y-6">
+            <ReadingPlanManagement />
+          </TabsContent>
+
+          <TabsContent value="achievements" className="space-y-6">
+            <AchievementManagement />
+          </TabsContent>
         </Tabs>
       </div>
 
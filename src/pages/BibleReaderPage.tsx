@@ -0,0 +1,354 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { ArrowLeft, BookMarked, BookOpen, Check, ChevronLeft, ChevronRight, WifiOff } from "lucide-react";
+import Header from "@/components/Header";
+import InlineBibleDownload from "@/components/InlineBibleDownload";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { VerseAnnotationPopover, VerseAnnotationInline } from "@/components/VerseAnnotationPopover";
+import { useOffline } from "@/contexts/OfflineContext";
+import { useVerseAnnotations, HIGHLIGHT_CLASSES } from "@/hooks/useVerseAnnotations";
+import { useReadingPlans, getReadingChapters } from "@/hooks/useReadingPlans";
+import { useAchievements } from "@/hooks/useAchievements";
+import { toast } from "@/hooks/use-toast";
+import { getReferenceBook, KJV_BOOKS, type BibleLanguage } from "@/lib/bibleData";
+import { getBookName, getChapterCount, resolveBookName } from "@/lib/bibleReference";
+import { cn } from "@/lib/utils";
+
+type ViewMode = "parallel" | BibleLanguage;
+
+interface ParallelVerse {
+  verse: number;
+  en?: string;
+  sw?: string;
+}
+
+const POSITION_KEY = "bible-reader-position";
+
+/** "16-18" → [16, 18]; "16" → [16, 16] */
+const parseHighlight = (value: string | null): [number, number] | null => {
+  const match = value?.match(/^(\d+)(?:-(\d+))?$/);
+  if (!match) return null;
+  const start = parseInt(match[1], 10);
+  return [start, match[2] ? parseInt(match[2], 10) : start];
+};
+
+const BibleReaderPage = () => {
+  const params = useParams<{ book?: string; chapter?: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { isOnline } = useOffline();
+  const { getAnnotation, saveAnnotation } = useVerseAnnotations();
+  const { plans, progress, markDayComplete } = useReadingPlans();
+  const { recordReading } = useAchievements();
+  const [markingDone, setMarkingDone] = useState(false);
+
+  // Accept ids, English or Swahili names in the URL ("/bible/Yohana/3")
+  const book = resolveBookName(params.book || "") || "John";
+  const chapterCount = getChapterCount(book);
+  const chapter = Math.min(Math.max(parseInt(params.chapter || "1", 10) || 1, 1), chapterCount);
+  const highlight = parseHighlight(searchParams.get("v"));
+  const planProgressId = searchParams.get("plan");
+  const planDay = parseInt(searchParams.get("day") || "", 10);
+
+  const [viewMode, setViewMode] = useState<ViewMode>("parallel");
+  const [loading, setLoading] = useState(true);
+  const [verses, setVerses] = useState<ParallelVerse[]>([]);
+  const [available, setAvailable] = useState<Record<BibleLanguage, boolean>>({ en: false, sw: false });
+
+  // "/bible" reopens wherever the reader was last left
+  useEffect(() => {
+    if (params.book) return;
+    const saved = localStorage.getItem(POSITION_KEY);
+    navigate(saved || "/bible/John/1", { replace: true });
+  }, [params.book, navigate]);
+
+  useEffect(() => {
+    if (!params.book) return;
+    localStorage.setItem(POSITION_KEY, `/bible/${encodeURIComponent(book)}/${chapter}`);
+  }, [params.book, book, chapter]);
+
+  useEffect(() => {
+    let mounted = true;
+    const load = async () => {
+      setLoading(true);
+      try {
+        const [kjv, swahili] = await Promise.all([
+          getReferenceBook(book, "en"),
+          getReferenceBook(book, "sw"),
+        ]);
+        const rows = new Map<number, ParallelVerse>();
+        const addVerses = (source: typeof kjv, language: BibleLanguage) => {
+          const ch = source?.chapters.find(c => c.chapter === String(chapter));
+          for (const v of ch?.verses || []) {
+            const num = parseInt(v.verse, 10);
+            const row = rows.get(num) || { verse: num };
+            row[language] = v.text;
+            rows.set(num, row);
+          }
+        };
+        addVerses(kjv, "en");
+        addVerses(swahili, "sw");
+
+        if (mounted) {
+          setVerses([...rows.values()].sort((a, b) => a.verse - b.verse));
+          setAvailable({ en: !!kjv, sw: !!swahili });
+        }
+      } catch (err) {
+        console.error("[BibleReader] Failed to load chapter:", err);
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    };
+    load();
+    return () => {
+      mounted = false;
+    };
+  }, [book, chapter]);
+
+  // Scroll deep-linked verses into view once the chapter renders
+  const firstHighlighted = highlight?.[0];
+  useEffect(() => {
+    if (loading || !firstHighlighted) return;
+    document.getElementById(`verse-${firstHighlighted}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [loading, firstHighlighted]);
+
+  const bookIndex = KJV_BOOKS.indexOf(book);
+  const prev = useMemo(() => {
+    if (chapter > 1) return { book, chapter: chapter - 1 };
+    if (bookIndex > 0) {
+      const prevBook = KJV_BOOKS[bookIndex - 1];
+      return { book: prevBook, chapter: getChapterCount(prevBook) };
+    }
+    return null;
+  }, [book, bookIndex, chapter]);
+  const next = useMemo(() => {
+    if (chapter < chapterCount) return { book, chapter: chapter + 1 };
+    if (bookIndex < KJV_BOOKS.length - 1) return { book: KJV_BOOKS[bookIndex + 1], chapter: 1 };
+    return null;
+  }, [book, bookIndex, chapter, chapterCount]);
+
+  // Opened from a reading plan card ("?plan=<progress id>&day=3")
+  const planReading = useMemo(() => {
+    const planProgress = progress.find(p => p.id === planProgressId);
+    const plan = planProgress && plans.find(p => p.id === planProgress.plan_id);
+    const reading = plan?.readings[planDay - 1];
+    if (!planProgress || !plan || !reading) return null;
+    return { plan, progress: planProgress, day: planDay, reading, chapters: getReadingChapters(reading) };
+  }, [plans, progress, planProgressId, planDay]);
+
+  // Stay in plan mode while moving between the day's chapters
+  const goTo = (target: { book: string; chapter: number }) => {
+    const inPlan = planReading?.chapters.some(s => s.book === target.book && s.chapter === target.chapter);
+    const query = inPlan ? `?plan=${planReading.progress.id}&day=${planReading.day}` : "";
+    navigate(`/bible/${encodeURIComponent(target.book)}/${target.chapter}${query}`);
+  };
+
+  const handlePlanDayDone = async () => {
+    if (!planReading) return;
+    setMarkingDone(true);
+    try {
+      if (await markDayComplete(planReading.progress.id, planReading.day)) {
+        await recordReading();
+        toast({ title: `Day ${planReading.day} complete`, description: planReading.plan.title });
+      }
+    } catch (error) {
+      toast({
+        title: "Couldn't save",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setMarkingDone(false);
+    }
+  };
+
+  const isHighlighted = (verse: number) =>
+    !!highlight && verse >= highlight[0] && verse <= highlight[1];
+
+  const showEnglish = viewMode !== "sw";
+  const showSwahili = viewMode !== "en";
+  const nothingDownloaded = !available.en && !available.sw;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container max-w-5xl px-4 py-4 pb-32 space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <Button variant="ghost" size="sm" onClick={() => navigate(-1)} className="gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Button>
+          {!isOnline && (
+            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+              <WifiOff className="w-3.5 h-3.5" />
+              Reading offline
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <BookOpen className="w-6 h-6 text-primary" />
+          <div>
+            <h1 className="font-heading text-xl font-bold">
+              {getBookName(book)} {chapter}
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              {getBookName(book, "sw")} {chapter}
+            </p>
+          </div>
+        </div>
+
+        {planReading && (
+          <div className="flex items-center justify-between gap-3 p-3 rounded-lg bg-primary/10 border border-primary/20">
+            <div className="flex items-center gap-2 min-w-0">
+              <BookMarked className="w-4 h-4 text-primary shrink-0" />
+              <div className="min-w-0">
+                <p className="text-xs text-muted-foreground truncate">
+                  {planReading.plan.title} · Day {planReading.day}
+                </p>
+                <p className="text-sm font-medium">{planReading.reading}</p>
+              </div>
+            </div>
+            {planReading.progress.completed_days.includes(planReading.day) ? (
+              <span className="flex items-center gap-1 text-sm text-primary shrink-0">
+                <Check className="w-4 h-4" />
+                Done
+              </span>
+            ) : (
+              <Button size="sm" className="gap-1 shrink-0" disabled={markingDone} onClick={handlePlanDayDone}>
+                <Check className="w-4 h-4" />
+                Mark day {planReading.day} done
+              </Button>
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={book} onValueChange={(value) => goTo({ book: value, chapter: 1 })}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="max-h-80">
+              {KJV_BOOKS.map((id) => (
+                <SelectItem key={id} value={id}>
+                  {getBookName(id)} · {getBookName(id, "sw")}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={String(chapter)} onValueChange={(value) => goTo({ book, chapter: parseInt(value, 10) })}>
+            <SelectTrigger className="w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="max-h-80">
+              {Array.from({ length: chapterCount }, (_, i) => (
+                <SelectItem key={i + 1} value={String(i + 1)}>
+                  {i + 1}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="flex rounded-md border border-border overflow-hidden ml-auto">
+            {([
+              ["parallel", "Both"],
+              ["en", "KJV"],
+              ["sw", "Kiswahili"],
+            ] as const).map(([mode, label]) => (
+              <Button
+                key={mode}
+                size="sm"
+                variant={viewMode === mode ? "secondary" : "ghost"}
+                className="rounded-none h-8"
+                onClick={() => setViewMode(mode)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center gap-2 py-8 justify-center">
+            <Spinner />
+            <span className="text-muted-foreground">Loading chapter…</span>
+          </div>
+        ) : nothingDownloaded ? (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {getBookName(book)} isn't downloaded yet. Download the Bible once to read it offline.
+            </p>
+            <InlineBibleDownload />
+          </div>
+        ) : (
+          <div className="bg-card border border-border rounded-xl divide-y divide-border">
+            {viewMode === "parallel" && (
+              <div className="hidden md:grid grid-cols-2 gap-6 px-4 py-2 text-xs font-semibold text-muted-foreground">
+                <span>King James Version</span>
+                <span>Swahili Union Version</span>
+              </div>
+            )}
+            {verses.map((row) => {
+              const annotation = getAnnotation(book, chapter, row.verse);
+              const verseNumber = (
+                <VerseAnnotationPopover
+                  label={`${getBookName(book)} ${chapter}:${row.verse}`}
+                  annotation={annotation}
+                  onSave={(changes) => saveAnnotation({ book, chapter, verse: row.verse }, changes)}
+                >
+                  <button type="button" className="font-medium text-muted-foreground mr-2 hover:text-primary">
+                    {row.verse}
+                  </button>
+                </VerseAnnotationPopover>
+              );
+              return (
+                <div
+                  key={row.verse}
+                  id={`verse-${row.verse}`}
+                  className={cn(
+                    "px-4 py-3 text-sm leading-relaxed",
+                    isHighlighted(row.verse) && "bg-primary/10",
+                    annotation?.highlight_color && HIGHLIGHT_CLASSES[annotation.highlight_color]
+                  )}
+                >
+                  <div className={cn(viewMode === "parallel" && "md:grid md:grid-cols-2 md:gap-6")}>
+                    {showEnglish && (
+                      <p className={cn(viewMode === "parallel" && "mb-2 md:mb-0")}>
+                        {verseNumber}
+                        {row.en ?? <span className="italic text-muted-foreground">{available.en ? "—" : "KJV not downloaded"}</span>}
+                      </p>
+                    )}
+                    {showSwahili && (
+                      <p className={cn(viewMode === "parallel" && "text-muted-foreground md:text-foreground")}>
+                        {viewMode !== "parallel" && verseNumber}
+                        {row.sw ?? <span className="italic text-muted-foreground">{available.sw ? "—" : "Kiswahili not downloaded"}</span>}
+                      </p>
+                    )}
+                  </div>
+                  <VerseAnnotationInline annotation={annotation} />
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex justify-between">
+          <Button variant="outline" disabled={!prev} onClick={() => prev && goTo(prev)} className="gap-1">
+            <ChevronLeft className="w-4 h-4" />
+            {prev ? `${getBookName(prev.book)} ${prev.chapter}` : "Previous"}
+          </Button>
+          <Button variant="outline" disabled={!next} onClick={() => next && goTo(next)} className="gap-1">
+            {next ? `${getBookName(next.book)} ${next.chapter}` : "Next"}
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default BibleReaderPage;
@@ -41,6 +41,7 @@ const ChatPage = () => {
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
         participants: [],
+        unreadCount: 0,
       });
       // clear history state to avoid reopening repeatedly
       window.history.replaceState({}, document.title);
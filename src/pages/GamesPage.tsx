@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { ArrowLeft, Gamepad2, WifiOff, Users } from "lucide-react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import Header from "@/components/Header";
 import GameSelector from "@/components/games/GameSelector";
@@ -35,7 +35,9 @@ type GameType =
   | 'multiplayer';
 
 const GamesPage = () => {
-  const [selectedGame, setSelectedGame] = useState<GameType | null>(null);
+  const [searchParams] = useSearchParams();
+  // Room invite links go straight to multiplayer
+  const [selectedGame, setSelectedGame] = useState<GameType | null>(searchParams.has('invite') ? 'multiplayer' : null);
   const { isOnline } = useOffline();
   const navigate = useNavigate();
   const { markAsSeen } = useNewQuestionsCount();
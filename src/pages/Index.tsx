@@ -12,6 +12,7 @@ import DailyBibleVerse from "@/components/DailyBibleVerse";
 import DailyBibleStory from "@/components/DailyBibleStory";
 import BibleStoriesCarousel from "@/components/BibleStoriesCarousel";
 import StreakTracker from "@/components/StreakTracker";
+import DailyReadingCard from "@/components/DailyReadingCard";
 import { useAchievements } from "@/hooks/useAchievements";
 import { useAuth } from "@/hooks/useAuth";
 import { usePosts } from "@/hooks/usePosts";
@@ -29,7 +30,7 @@ const Index = () => {
   const { posts, loading: postsLoading, refetch, deletePost, updatePost, isOnline } = usePosts();
   const { tasks, loading: tasksLoading } = useTasks();
   const { activities, loading: activitiesLoading } = useActivities();
-  const { streaks, totalXP, recordLogin } = useAchievements();
+  const { streaks, totalXP, recordLogin, recordReading } = useAchievements();
   const navigate = useNavigate();
 
   // Record daily login for authenticated users
@@ -135,6 +136,12 @@ const Index = () => {
                 totalXP={totalXP}
               />
             )}
+            {isAuthenticated && (
+              <DailyReadingCard
+                readingStreak={streaks.current_reading_streak || 0}
+                onDayComplete={recordReading}
+              />
+            )}
             <BibleStoriesCarousel />
             <IdeasSection onShareIdea={handleShareIdea} />
             
@@ -10,8 +10,11 @@ import AchievementsBadges from "@/components/AchievementsBadges";
 import StreakTracker from "@/components/StreakTracker";
 import StorageUsagePanel from "@/components/StorageUsagePanel";
 import OpenAIKeyPanel from "@/components/OpenAIKeyPanel";
+import MyNotesPanel from "@/components/MyNotesPanel";
+import MatchHistoryPanel from "@/components/MatchHistoryPanel";
 import { useAchievements } from "@/hooks/useAchievements";
 import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "@/hooks/use-toast";
 import { ArrowLeft, Edit2, Loader2, User, Calendar, FileText, Church } from "lucide-react";
 import { format } from "date-fns";
@@ -260,47 +263,61 @@ const ProfilePage = () => {
               streaks={streaks}
             />
           </div>
+          <MyNotesPanel />
         </div>
       )}
 
-      {/* Posts Section */}
+      {/* Posts and Match History */}
       <div className="container pb-8">
-        <h2 className="font-heading text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
-          <span className="text-2xl">📝</span>
-          Posts by {profile.username}
-        </h2>
-
-        {posts.length === 0 ? (
-          <div className="bg-card rounded-lg p-8 text-center card-shadow">
-            <p className="text-muted-foreground">
-              {isOwnProfile
-                ? "You haven't posted anything yet. Share your first idea!"
-                : `${profile.username} hasn't posted anything yet.`}
-            </p>
-            {isOwnProfile && (
-              <Link to="/">
-                <Button className="mt-4 bg-primary text-primary-foreground">
-                  Create Post
-                </Button>
-              </Link>
+        <Tabs defaultValue="posts">
+          <TabsList className="mb-4">
+            <TabsTrigger value="posts">📝 Posts</TabsTrigger>
+            <TabsTrigger value="matches">🎮 Match History</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="posts">
+            <h2 className="font-heading text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+              <span className="text-2xl">📝</span>
+              Posts by {profile.username}
+            </h2>
+
+            {posts.length === 0 ? (
+              <div className="bg-card rounded-lg p-8 text-center card-shadow">
+                <p className="text-muted-foreground">
+                  {isOwnProfile
+                    ? "You haven't posted anything yet. Share your first idea!"
+                    : `${profile.username} hasn't posted anything yet.`}
+                </p>
+                {isOwnProfile && (
+                  <Link to="/">
+                    <Button className="mt-4 bg-primary text-primary-foreground">
+                      Create Post
+                    </Button>
+                  </Link>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {posts.map((post, index) => (
+                  <PostCard
+                    key={post.id}
+                    post={post}
+                    currentUserId={user?.id}
+                    currentUsername={currentUserProfile?.username}
+                    onDelete={isOwnProfile ? handleDeletePost : undefined}
+                    onEdit={isOwnProfile ? handleEditPost : undefined}
+                    className="animate-slide-up"
+                    style={{ animationDelay: `${index * 0.1}s` }}
+                  />
+                ))}
+              </div>
             )}
-          </div>
-        ) : (
-          <div className="space-y-4">
-            {posts.map((post, index) => (
-              <PostCard
-                key={post.id}
-                post={post}
-                currentUserId={user?.id}
-                currentUsername={currentUserProfile?.username}
-                onDelete={isOwnProfile ? handleDeletePost : undefined}
-                onEdit={isOwnProfile ? handleEditPost : undefined}
-                className="animate-slide-up"
-                style={{ animationDelay: `${index * 0.1}s` }}
-              />
-            ))}
-          </div>
-        )}
+          </TabsContent>
+
+          <TabsContent value="matches">
+            <MatchHistoryPanel userId={profile.user_id} isOwnProfile={isOwnProfile} username={profile.username} />
+          </TabsContent>
+        </Tabs>
       </div>
 
       {/* Offline Bible & AI Manager */}
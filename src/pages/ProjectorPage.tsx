@@ -0,0 +1,276 @@
+import { useState, useEffect } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { ArrowLeft, Clock, Crown, Loader2, Monitor, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import ClueReveal from "@/components/games/multiplayer/ClueReveal";
+import SharedMap from "@/components/games/multiplayer/SharedMap";
+import { useLocalMultiplayer } from "@/hooks/useLocalMultiplayer";
+import { getActivePlayers } from "@/lib/localNetwork";
+import { parseInviteInput, readInvite } from "@/lib/roomInvites";
+import { MAP_GAME_TYPES, getMapGroups, getPlayKind } from "@/lib/multiplayerGames";
+import { cn } from "@/lib/utils";
+
+// Height of one leaderboard row; rows slide by this much when places change
+const ROW_HEIGHT = 64;
+
+// Big-screen view of a local room: joins as a spectator, never answers and
+// doesn't take a player seat
+const ProjectorPage = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // The host's "Copy big screen link" is a watch-only invite
+  const [inviteInput, setInviteInput] = useState(searchParams.get('invite') || '');
+  const [joining, setJoining] = useState(false);
+  const [timer, setTimer] = useState(0);
+
+  const { room, gameState, sharedQuestions, connectionStatus, joinRoom, leaveRoom } = useLocalMultiplayer();
+
+  const players = getActivePlayers(room);
+  const question = gameState?.currentQuestion;
+  const playKind = getPlayKind(question);
+  const answeredCount = Object.keys(gameState?.answers || {}).length;
+  const ranked = [...players].sort((a, b) => (gameState?.scores[b.id] || 0) - (gameState?.scores[a.id] || 0));
+  // Rows keep a stable order in the DOM and move by position, so rank changes animate
+  const rowOrder = [...players].sort((a, b) => a.id.localeCompare(b.id));
+  const topScore = Math.max(1, ...ranked.map(p => gameState?.scores[p.id] || 0));
+
+  const teamStandings = (room?.teams || [])
+    .map(team => ({ ...team, score: gameState?.teamScores?.[team.id] || 0 }))
+    .sort((a, b) => b.score - a.score);
+
+  // Local countdown, restarted by every question message
+  useEffect(() => {
+    if (gameState?.phase !== 'question') return;
+    setTimer(gameState.timer || 30);
+    const interval = setInterval(() => setTimer(prev => Math.max(0, prev - 1)), 1000);
+    return () => clearInterval(interval);
+  }, [gameState?.phase, gameState?.currentQuestionIndex, gameState?.timer]);
+
+  const inviteToken = parseInviteInput(inviteInput);
+  const invite = inviteToken ? readInvite(inviteToken) : null;
+
+  const handleJoin = async () => {
+    if (!invite) return;
+    setJoining(true);
+    await joinRoom(invite.roomId, inviteToken, { spectator: true });
+    setJoining(false);
+  };
+
+  const handleLeave = () => {
+    leaveRoom();
+    navigate('/games');
+  };
+
+  if (!room) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-sm bg-card border-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Monitor className="w-5 h-5 text-primary" />
+              Big Screen
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Input
+              placeholder="Big screen link from the host"
+              value={inviteInput}
+              onChange={(e) => setInviteInput(e.target.value)}
+              className="font-mono text-xs"
+            />
+            {invite && (
+              <p className="text-center text-sm text-muted-foreground">
+                Room <span className="font-mono font-bold tracking-widest text-primary">{invite.roomId}</span>
+              </p>
+            )}
+            <Button
+              onClick={handleJoin}
+              disabled={!invite || joining || connectionStatus === 'connecting'}
+              className="w-full gap-2"
+            >
+              {joining ? <Loader2 className="w-4 h-4 animate-spin" /> : <Monitor className="w-4 h-4" />}
+              Show on this screen
+            </Button>
+            <Button variant="ghost" onClick={() => navigate('/games')} className="w-full gap-2">
+              <ArrowLeft className="w-4 h-4" />
+              Back to games
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-950 text-white p-8 flex flex-col gap-6">
+      <header className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">{room.gameName}</h1>
+          <p className="text-zinc-400">Hosted by {room.hostName}</p>
+        </div>
+        <div className="flex items-center gap-6">
+          <div className="text-right">
+            <p className="text-xs uppercase tracking-wide text-zinc-400">Room code</p>
+            <p className="text-3xl font-mono font-bold tracking-widest text-primary">{room.id}</p>
+          </div>
+          <Button variant="ghost" size="icon" onClick={handleLeave} className="text-zinc-400 hover:text-white">
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+        </div>
+      </header>
+
+      <div className="flex-1 grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <main className="lg:col-span-2 flex flex-col gap-6">
+          {(!gameState || gameState.phase === 'waiting') && (
+            <div className="flex-1 flex flex-col items-center justify-center text-center gap-4">
+              <Users className="w-16 h-16 text-primary" />
+              <p className="text-4xl font-bold">Waiting for the host to start</p>
+              <p className="text-xl text-zinc-400">
+                {players.length} player{players.length === 1 ? '' : 's'} in the room
+              </p>
+            </div>
+          )}
+
+          {gameState && question && (gameState.phase === 'question' || gameState.phase === 'results') && (
+            <>
+              <div className="flex items-center justify-between text-xl">
+                <span className="text-zinc-400">
+                  {gameState.suddenDeath ? 'Sudden death' : `Question ${gameState.currentQuestionIndex + 1}`}
+                  {!gameState.suddenDeath && sharedQuestions.length > 0
+                    && ` of ${Math.min(gameState.regularQuestions ?? sharedQuestions.length, sharedQuestions.length)}`}
+                </span>
+                {gameState.phase === 'question' ? (
+                  <span className="flex items-center gap-4">
+                    <span className="flex items-center gap-2">
+                      <Users className="w-6 h-6" />
+                      {answeredCount}/{players.length} answered
+                    </span>
+                    <span className={cn("flex items-center gap-2 font-mono text-3xl font-bold", timer <= 5 && "text-red-400")}>
+                      <Clock className="w-7 h-7" />
+                      {timer}s
+                    </span>
+                  </span>
+                ) : (
+                  <span className="text-zinc-400">Round over</span>
+                )}
+              </div>
+              {gameState.phase === 'question' && (
+                <Progress value={(timer / (gameState.timer || 30)) * 100} className="h-2" />
+              )}
+
+              <h2 className="text-4xl font-bold leading-tight whitespace-pre-line">{question.question}</h2>
+
+              {playKind === 'clues' && question.clues && (
+                <div className="text-2xl">
+                  <ClueReveal clues={question.clues} totalClues={question.totalClues || question.clues.length} basePoints={question.points} />
+                </div>
+              )}
+
+              {playKind === 'arrange' && question.words && (
+                <div className="flex flex-wrap gap-3">
+                  {question.words.map((word: string, index: number) => (
+                    <span key={index} className="px-4 py-2 rounded-lg bg-zinc-800 text-2xl">{word}</span>
+                  ))}
+                </div>
+              )}
+
+              {playKind === 'choice' && (
+                <div className="grid grid-cols-2 gap-4">
+                  {(question.options || []).map((option: string, index: number) => {
+                    const isCorrect = gameState.phase === 'results' && gameState.reveal?.answer === option;
+                    return (
+                      <div
+                        key={option}
+                        className={cn(
+                          "p-6 rounded-2xl border-2 text-2xl font-medium transition-colors",
+                          isCorrect ? "border-green-500 bg-green-500/20" : "border-zinc-700 bg-zinc-900",
+                          gameState.phase === 'results' && !isCorrect && "opacity-50"
+                        )}
+                      >
+                        <span className="text-zinc-500 mr-3">{String.fromCharCode(65 + index)}</span>
+                        {option}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {gameState.phase === 'results' && gameState.reveal && playKind !== 'choice' && (
+                <div className="p-6 rounded-2xl border-2 border-green-500 bg-green-500/20 text-3xl font-bold">
+                  {gameState.reveal.answer}
+                </div>
+              )}
+            </>
+          )}
+
+          {gameState?.phase === 'finished' && (
+            <div className="flex-1 flex flex-col items-center justify-center text-center gap-4">
+              <Crown className="w-20 h-20 text-amber-400" />
+              <p className="text-5xl font-bold">
+                {teamStandings.length > 0 && room.gameMode === 'teams' ? teamStandings[0].name : ranked[0]?.name} wins!
+              </p>
+              {room.gameMode === 'teams' && teamStandings.length > 0 && (
+                <div className="flex gap-8 text-2xl">
+                  {teamStandings.map(team => (
+                    <span key={team.id}>
+                      {team.name}: <span className="font-bold text-primary">{team.score}</span>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {MAP_GAME_TYPES.includes(room.gameType) && gameState?.mapProgress && (
+            <div className="text-zinc-900">
+              <SharedMap
+                variant={room.gameType === 'journey_jerusalem' ? 'journey' : 'path'}
+                total={Math.min(gameState.regularQuestions ?? sharedQuestions.length, sharedQuestions.length)}
+                groups={getMapGroups(room, gameState.teamRoster)}
+                progress={gameState.mapProgress}
+              />
+            </div>
+          )}
+        </main>
+
+        <aside className="rounded-2xl bg-zinc-900 p-6">
+          <h3 className="text-xl font-bold mb-4">Leaderboard</h3>
+          <div className="relative" style={{ height: rowOrder.length * ROW_HEIGHT }}>
+            {rowOrder.map(player => {
+              const rank = ranked.findIndex(p => p.id === player.id);
+              const score = gameState?.scores[player.id] || 0;
+              const answered = gameState?.phase === 'question' && !!gameState.answers[player.id];
+              return (
+                <div
+                  key={player.id}
+                  className="absolute inset-x-0 flex items-center gap-4 px-3 transition-transform duration-700 ease-out"
+                  style={{ height: ROW_HEIGHT, transform: `translateY(${rank * ROW_HEIGHT}px)` }}
+                >
+                  <span className="w-8 text-2xl font-bold text-zinc-400">{rank + 1}</span>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xl font-medium truncate">{player.name}</span>
+                      {answered && <span className="w-2 h-2 rounded-full bg-green-400" />}
+                    </div>
+                    <div className="h-1.5 rounded-full bg-zinc-800 mt-1 overflow-hidden">
+                      <div
+                        className="h-full bg-primary transition-all duration-700"
+                        style={{ width: `${(score / topScore) * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                  <span className="text-2xl font-bold tabular-nums">{score}</span>
+                </div>
+              );
+            })}
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectorPage;
@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from "vitest";
+import { inQuietHours } from "./quietHours";
+
+// Postgres hands TIME columns over as 'HH:MM:SS'
+const prefs = (start: string | null, end: string | null, timezone = "UTC") => ({
+  quiet_hours_start: start,
+  quiet_hours_end: end,
+  timezone,
+});
+
+const at = (isoTime: string) => new Date(`2026-10-19T${isoTime}Z`);
+
+describe("inQuietHours", () => {
+  it("is never quiet without quiet hours set", () => {
+    expect(inQuietHours(prefs(null, null), at("23:00:00"))).toBe(false);
+  });
+
+  it("covers a window within one day, end exclusive", () => {
+    const lunch = prefs("12:00:00", "13:30:00");
+    expect(inQuietHours(lunch, at("11:59:00"))).toBe(false);
+    expect(inQuietHours(lunch, at("12:00:00"))).toBe(true);
+    expect(inQuietHours(lunch, at("13:29:00"))).toBe(true);
+    expect(inQuietHours(lunch, at("13:30:00"))).toBe(false);
+  });
+
+  it("wraps past midnight", () => {
+    const night = prefs("22:00:00", "07:00:00");
+    expect(inQuietHours(night, at("21:59:00"))).toBe(false);
+    expect(inQuietHours(night, at("22:00:00"))).toBe(true);
+    expect(inQuietHours(night, at("00:00:00"))).toBe(true);
+    expect(inQuietHours(night, at("06:59:00"))).toBe(true);
+    expect(inQuietHours(night, at("07:00:00"))).toBe(false);
+    expect(inQuietHours(night, at("12:00:00"))).toBe(false);
+  });
+
+  it("uses the recipient's timezone", () => {
+    const night = prefs("22:00", "07:00", "Africa/Nairobi");
+    // 20:00 UTC is 23:00 in Nairobi
+    expect(inQuietHours(night, at("20:00:00"))).toBe(true);
+    // 05:00 UTC is 08:00 in Nairobi
+    expect(inQuietHours(night, at("05:00:00"))).toBe(false);
+  });
+
+  it("treats an empty window as no quiet hours", () => {
+    expect(inQuietHours(prefs("22:00:00", "22:00:00"), at("22:00:00"))).toBe(false);
+  });
+
+  it("isn't quiet for an unknown timezone", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(inQuietHours(prefs("00:00:00", "23:59:00", "Mars/Olympus_Mons"), at("12:00:00"))).toBe(false);
+  });
+});
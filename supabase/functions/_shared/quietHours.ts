@@ -0,0 +1,36 @@
+// Push notification quiet hours. Free of Deno imports, so the app's tests cover it too.
+
+export interface QuietHours {
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  timezone: string;
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Quiet hours are local to the recipient and may wrap past midnight (22:00–07:00)
+export const inQuietHours = (prefs: QuietHours, now: Date) => {
+  if (!prefs.quiet_hours_start || !prefs.quiet_hours_end) return false;
+
+  let local: string;
+  try {
+    local = new Intl.DateTimeFormat('en-GB', {
+      timeZone: prefs.timezone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).format(now);
+  } catch {
+    console.error('Unknown timezone in notification preferences:', prefs.timezone);
+    return false;
+  }
+
+  const current = toMinutes(local);
+  const start = toMinutes(prefs.quiet_hours_start);
+  const end = toMinutes(prefs.quiet_hours_end);
+  if (start === end) return false;
+  return start < end ? current >= start && current < end : current >= start || current < end;
+};
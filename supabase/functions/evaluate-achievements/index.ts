@@ -0,0 +1,101 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Recomputes the caller's achievements from server tables and awards the ones
+// they qualify for. Clients can no longer insert into user_achievements, so
+// this is the only way badges (and their XP) are earned.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'No authorization header' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+
+    if (authError || !user) {
+      console.log('Invalid token:', authError);
+      return new Response(JSON.stringify({ error: 'Invalid token' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const [{ data: achievements, error: achError }, { data: earned, error: earnedError }] = await Promise.all([
+      supabaseAdmin.from('achievements').select('id, key, criteria_type, criteria_value, criteria_params'),
+      supabaseAdmin.from('user_achievements').select('achievement_id').eq('user_id', user.id),
+    ]);
+    if (achError) throw achError;
+    if (earnedError) throw earnedError;
+
+    const earnedIds = new Set((earned || []).map((row) => row.achievement_id));
+    const pending = (achievements || []).filter((a) => !earnedIds.has(a.id));
+
+    // achievement_metric is the server mirror of the client-side criteria
+    // registry; unknown criteria types come back as 0 and never qualify.
+    const qualified: string[] = [];
+    for (const ach of pending) {
+      const { data: metric, error: metricError } = await supabaseAdmin.rpc('achievement_metric', {
+        _user_id: user.id,
+        _criteria_type: ach.criteria_type,
+        _params: ach.criteria_params || {},
+      });
+      if (metricError) {
+        console.error(`Metric failed for ${ach.key}:`, metricError);
+        continue;
+      }
+      if (Number(metric) >= ach.criteria_value) qualified.push(ach.id);
+    }
+
+    if (qualified.length > 0) {
+      const { error: insertError } = await supabaseAdmin
+        .from('user_achievements')
+        .upsert(
+          qualified.map((achievement_id) => ({ user_id: user.id, achievement_id })),
+          { onConflict: 'user_id,achievement_id', ignoreDuplicates: true }
+        );
+      if (insertError) throw insertError;
+      console.log(`Awarded ${qualified.length} achievement(s) to ${user.id}`);
+    }
+
+    const { data: rows, error: rowsError } = await supabaseAdmin
+      .from('user_achievements')
+      .select('*')
+      .eq('user_id', user.id);
+    if (rowsError) throw rowsError;
+
+    return new Response(JSON.stringify({ earned: rows || [], awarded: qualified }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in evaluate-achievements:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(JSON.stringify({ error: message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -1,18 +1,50 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { inQuietHours } from "../_shared/quietHours.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-webhook-secret',
 };
 
 interface MessagePayload {
   messageId: string;
-  conversationId: string;
-  senderId: string;
-  content: string;
 }
 
+interface Attachment {
+  kind: 'image' | 'file' | 'voice';
+  name: string;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Compare without leaking how much of the secret matched
+const secretsMatch = (given: string, expected: string) => {
+  const a = new TextEncoder().encode(given);
+  const b = new TextEncoder().encode(expected);
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+};
+
+// Same wording the app uses for messages that are only attachments
+const attachmentSummary = (attachments: Attachment[] | null) => {
+  if (!attachments || attachments.length === 0) return '';
+  if (attachments.length > 1) return `📎 ${attachments.length} attachments`;
+  const [attachment] = attachments;
+  if (attachment.kind === 'image') return '📷 Photo';
+  if (attachment.kind === 'voice') return '🎤 Voice note';
+  return `📎 ${attachment.name}`;
+};
+
+// Called by the on_message_notify trigger with just the new message's id.
+// Everything else (sender, recipients, text) is read from the database, so
+// the request can't be used to put words in someone else's mouth.
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -21,46 +53,91 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const webhookSecret = Deno.env.get('NOTIFY_WEBHOOK_SECRET');
 
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    if (!webhookSecret) {
+      console.error('NOTIFY_WEBHOOK_SECRET is not set');
+      return jsonResponse({ error: 'Notifications are not configured' }, 500);
+    }
 
-    const { messageId, conversationId, senderId, content } = await req.json() as MessagePayload;
+    if (!secretsMatch(req.headers.get('x-webhook-secret') || '', webhookSecret)) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const { messageId } = await req.json() as MessagePayload;
+    if (!messageId) {
+      return jsonResponse({ error: 'messageId is required' }, 400);
+    }
 
-    console.log('Processing new message notification:', { messageId, conversationId, senderId });
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Get sender profile
-    const { data: senderProfile } = await supabase
-      .from('profiles')
-      .select('username')
-      .eq('user_id', senderId)
+    const { data: message, error: messageError } = await supabase
+      .from('messages')
+      .select('id, conversation_id, sender_id, content, attachments')
+      .eq('id', messageId)
       .maybeSingle();
 
-    const senderName = senderProfile?.username || 'Someone';
+    if (messageError) throw messageError;
+    if (!message) {
+      return jsonResponse({ error: 'Message not found' }, 404);
+    }
 
-    // Get all participants in the conversation except the sender
-    const { data: participants, error: partError } = await supabase
-      .from('conversation_participants')
-      .select('user_id')
-      .eq('conversation_id', conversationId)
-      .neq('user_id', senderId);
+    console.log('Processing new message notification:', {
+      messageId,
+      conversationId: message.conversation_id,
+      senderId: message.sender_id,
+    });
+
+    const [{ data: senderProfile }, { data: conversation }, { data: participants, error: partError }] = await Promise.all([
+      supabase.from('profiles').select('username').eq('user_id', message.sender_id).maybeSingle(),
+      supabase.from('conversations').select('name, is_group').eq('id', message.conversation_id).maybeSingle(),
+      supabase
+        .from('conversation_participants')
+        .select('user_id, muted_until')
+        .eq('conversation_id', message.conversation_id)
+        .neq('user_id', message.sender_id),
+    ]);
 
     if (partError) {
       console.error('Error fetching participants:', partError);
       throw partError;
     }
 
-    if (!participants || participants.length === 0) {
-      console.log('No other participants to notify');
-      return new Response(JSON.stringify({ success: true, notified: 0 }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
+    const now = new Date();
+    const unmuted = (participants || []).filter(
+      (p) => !p.muted_until || new Date(p.muted_until) <= now
+    );
+
+    let recipients = unmuted.map((p) => p.user_id as string);
+    if (recipients.length > 0) {
+      const { data: preferences } = await supabase
+        .from('notification_preferences')
+        .select('user_id, quiet_hours_start, quiet_hours_end, timezone')
+        .in('user_id', recipients);
+
+      const quiet = new Set(
+        (preferences || []).filter((prefs) => inQuietHours(prefs, now)).map((prefs) => prefs.user_id)
+      );
+      recipients = recipients.filter((userId) => !quiet.has(userId));
     }
 
-    console.log(`Notifying ${participants.length} participants`);
+    if (recipients.length === 0) {
+      console.log('No participants to notify');
+      return jsonResponse({ success: true, notified: 0 });
+    }
 
-    // Send push notification to each participant
+    console.log(`Notifying ${recipients.length} of ${participants?.length ?? 0} participants`);
+
+    const senderName = senderProfile?.username || 'Someone';
+    const title = conversation?.is_group && conversation.name
+      ? `💬 ${senderName} in ${conversation.name}`
+      : `💬 ${senderName}`;
+    const content: string = message.content || attachmentSummary(message.attachments as Attachment[] | null);
+    const body = content.length > 100 ? content.substring(0, 100) + '...' : content;
+
+    // Send push notification to each recipient
     let notifiedCount = 0;
-    for (const participant of participants) {
+    for (const recipientUserId of recipients) {
       try {
         const response = await fetch(`${supabaseUrl}/functions/v1/send-push-notification`, {
           method: 'POST',
@@ -69,11 +146,11 @@ serve(async (req) => {
             'Authorization': `Bearer ${supabaseServiceKey}`,
           },
           body: JSON.stringify({
-            recipientUserId: participant.user_id,
-            title: `💬 ${senderName}`,
-            body: content.length > 100 ? content.substring(0, 100) + '...' : content,
+            recipientUserId,
+            title,
+            body,
             data: {
-              conversationId,
+              conversationId: message.conversation_id,
               messageId,
               type: 'message',
             },
@@ -90,15 +167,10 @@ serve(async (req) => {
       }
     }
 
-    return new Response(JSON.stringify({ success: true, notified: notifiedCount }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
+    return jsonResponse({ success: true, notified: notifiedCount });
   } catch (error) {
     console.error('Error in notify-new-message:', error);
     const message = error instanceof Error ? error.message : 'Unknown error';
-    return new Response(JSON.stringify({ error: message }), {
-      status: 500,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
+    return jsonResponse({ error: message }, 500);
   }
 });
@@ -0,0 +1,254 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Summaries older than this are refused, so stale games can't be replayed later
+const MAX_SUMMARY_AGE_MS = 60 * 60 * 1000;
+// Generous upper bound on points per question, clue bonuses included
+const MAX_POINTS_PER_QUESTION = 250;
+
+interface TeamResult {
+  id: string;
+  name: string;
+  score: number;
+  members: string[];
+}
+
+interface MatchSummary {
+  matchId: string;
+  roomId: string;
+  hostId: string;
+  // Informational only; signatures are checked against the key the host registered
+  hostKey: JsonWebKey;
+  gameType: string;
+  questionCount: number;
+  scores: Record<string, number>;
+  winners: string[];
+  teams?: TeamResult[];
+  finishedAt: number;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Seasons are calendar quarters, e.g. '2026-Q4'
+const seasonOf = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getUTCFullYear()}-Q${Math.floor(date.getUTCMonth() / 3) + 1}`;
+};
+
+// Team totals must be the sum of their members' scores, with no player on two teams
+const validTeams = (teams: TeamResult[], scores: Record<string, number>) => {
+  const seen = new Set<string>();
+  return teams.every((team) => {
+    if (typeof team.id !== 'string' || typeof team.name !== 'string' || !Array.isArray(team.members)) return false;
+    const total = team.members.reduce((sum, id) => sum + (scores[id] || 0), 0);
+    const distinct = team.members.every((id) => !seen.has(id) && seen.add(id));
+    return distinct && total === team.score;
+  });
+};
+
+// Stores each team's standing for a teams match. Whichever player records
+// first writes the rows; later calls for the same match are no-ops.
+const recordTeamResults = async (
+  supabaseAdmin: ReturnType<typeof createClient>,
+  summary: MatchSummary
+) => {
+  const teams = summary.teams || [];
+  const topScore = Math.max(0, ...teams.map((t) => t.score));
+  const { error } = await supabaseAdmin
+    .from('multiplayer_team_results')
+    .upsert(
+      teams.map((team) => ({
+        match_id: summary.matchId,
+        team_id: team.id,
+        team_name: team.name.trim().slice(0, 30),
+        score: team.score,
+        placement: 1 + teams.filter((t) => t.score > team.score).length,
+        won: topScore > 0 && team.score === topScore,
+        member_count: team.members.length,
+        host_id: summary.hostId,
+        season: seasonOf(Number(summary.finishedAt)),
+      })),
+      { onConflict: 'match_id,team_id', ignoreDuplicates: true }
+    );
+  if (error) throw error;
+};
+
+const verifySignature = async (payload: string, signature: string, hostKey: JsonWebKey) => {
+  const key = await crypto.subtle.importKey('jwk', hostKey, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+  const signatureBytes = Uint8Array.from(atob(signature), (c) => c.charCodeAt(0));
+  return crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, key, signatureBytes, new TextEncoder().encode(payload));
+};
+
+// Records the caller's share of a host-signed multiplayer summary. The host
+// signs the final scores with a per-room key whose public half it registered
+// when opening the room, and the match must have been registered when it
+// started; players can't write multiplayer scores any other way.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'No authorization header' }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+
+    if (authError || !user) {
+      console.log('Invalid token:', authError);
+      return jsonResponse({ error: 'Invalid token' }, 401);
+    }
+
+    const { payload, signature } = await req.json();
+    if (typeof payload !== 'string' || typeof signature !== 'string') {
+      return jsonResponse({ error: 'A signed summary is required' }, 400);
+    }
+
+    let summary: MatchSummary;
+    try {
+      summary = JSON.parse(payload);
+    } catch {
+      return jsonResponse({ error: 'Malformed summary' }, 400);
+    }
+
+    const [{ data: match, error: matchError }, { data: members, error: membersError }] = await Promise.all([
+      supabaseAdmin
+        .from('game_room_matches')
+        .select('room_id, question_ids')
+        .eq('match_id', String(summary.matchId || ''))
+        .maybeSingle(),
+      supabaseAdmin
+        .from('game_room_members')
+        .select('user_id, role, host_key')
+        .eq('room_id', String(summary.roomId || '')),
+    ]);
+    if (matchError) throw matchError;
+    if (membersError) throw membersError;
+    if (!match || match.room_id !== summary.roomId) {
+      return jsonResponse({ error: 'Match was never started in this room' }, 403);
+    }
+
+    // Whoever hosts the room now signs; after a host migration that's the successor
+    const host = (members || []).find((m) => m.role === 'host' && m.user_id === summary.hostId);
+    if (!host?.host_key || !(await verifySignature(payload, signature, host.host_key as JsonWebKey).catch(() => false))) {
+      console.log('Rejected summary with a bad signature from', user.id);
+      return jsonResponse({ error: 'Summary signature is invalid' }, 403);
+    }
+
+    const questionCount = Number(summary.questionCount);
+    if (!Number.isInteger(questionCount) || questionCount < 1 || questionCount > match.question_ids.length) {
+      return jsonResponse({ error: 'Summary has more questions than the match' }, 400);
+    }
+
+    const players = new Set((members || []).filter((m) => m.role !== 'spectator').map((m) => m.user_id));
+    const scoredIds = Object.keys(summary.scores || {});
+    if (!Array.isArray(summary.winners) || ![...scoredIds, ...summary.winners].every((id) => players.has(id))) {
+      return jsonResponse({ error: 'Summary scores players who are not in the room' }, 400);
+    }
+
+    const age = Date.now() - Number(summary.finishedAt);
+    if (!Number.isFinite(age) || age > MAX_SUMMARY_AGE_MS || age < -5 * 60 * 1000) {
+      return jsonResponse({ error: 'Summary has expired' }, 400);
+    }
+
+    const score = summary.scores?.[user.id];
+    const maxScore = questionCount * MAX_POINTS_PER_QUESTION;
+    if (typeof score !== 'number' || !Number.isInteger(score) || score < 0 || score > maxScore) {
+      return jsonResponse({ error: 'You are not in this summary' }, 403);
+    }
+    const won = summary.winners.includes(user.id);
+
+    if (summary.teams !== undefined && (!Array.isArray(summary.teams) || !validTeams(summary.teams, summary.scores))) {
+      return jsonResponse({ error: 'Team scores do not add up' }, 400);
+    }
+
+    const { error: claimError } = await supabaseAdmin.from('multiplayer_score_claims').insert({
+      match_id: summary.matchId,
+      user_id: user.id,
+      host_id: summary.hostId,
+      score,
+      won,
+    });
+    if (claimError) {
+      if (claimError.code === '23505') {
+        return jsonResponse({ error: 'Result already recorded' }, 409);
+      }
+      throw claimError;
+    }
+
+    if (summary.teams?.length) {
+      await recordTeamResults(supabaseAdmin, summary);
+    }
+
+    // The player's match history copy may already be synced; rows that come
+    // later are verified on insert
+    const { error: verifyError } = await supabaseAdmin
+      .from('multiplayer_matches')
+      .update({ verified: true })
+      .eq('match_id', summary.matchId)
+      .eq('user_id', user.id);
+    if (verifyError) throw verifyError;
+
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from('game_scores')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('game_type', 'multiplayer')
+      .maybeSingle();
+    if (existingError) throw existingError;
+
+    const { data: saved, error: saveError } = existing
+      ? await supabaseAdmin
+          .from('game_scores')
+          .update({
+            score: existing.score + score,
+            games_played: existing.games_played + 1,
+            wins: (existing.wins || 0) + (won ? 1 : 0),
+          })
+          .eq('id', existing.id)
+          .select()
+          .single()
+      : await supabaseAdmin
+          .from('game_scores')
+          .insert({
+            user_id: user.id,
+            game_type: 'multiplayer',
+            score,
+            games_played: 1,
+            wins: won ? 1 : 0,
+          })
+          .select()
+          .single();
+    if (saveError) throw saveError;
+
+    console.log(`Recorded multiplayer match ${summary.matchId} for ${user.id}: ${score} pts${won ? ' (won)' : ''}`);
+
+    return jsonResponse({ score: saved });
+  } catch (error) {
+    console.error('Error in record-multiplayer-result:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: message }, 500);
+  }
+});
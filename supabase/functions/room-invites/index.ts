@@ -0,0 +1,309 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Rooms the host opens stay joinable for this long
+const ROOM_LIFETIME_MS = 12 * 60 * 60 * 1000;
+const MIN_INVITE_MINUTES = 5;
+const MAX_INVITE_MINUTES = 24 * 60;
+const ROOM_CODE = /^[A-Z0-9]{6}$/;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// A full lobby round plus the sudden-death tiebreakers
+const MAX_MATCH_QUESTIONS = 53;
+// Members check in every 10 seconds; a host this quiet has left the room
+const HOST_GONE_MS = 25 * 1000;
+
+interface InvitePayload {
+  inv: string;
+  room: string;
+  role: 'player' | 'spectator';
+  exp: number;
+}
+
+// Only the public half of a P-256 key is ever stored
+const toPublicKey = (key: unknown): JsonWebKey | null => {
+  const jwk = key as JsonWebKey | null;
+  if (!jwk || jwk.kty !== 'EC' || jwk.crv !== 'P-256' || typeof jwk.x !== 'string' || typeof jwk.y !== 'string') return null;
+  return { kty: 'EC', crv: 'P-256', x: jwk.x, y: jwk.y };
+};
+
+// The caller's role in a room, or null if it isn't a current member
+const memberRole = async (supabaseAdmin: SupabaseClient, roomId: string, userId: string, now: number) => {
+  const { data, error } = await supabaseAdmin
+    .from('game_room_members')
+    .select('role')
+    .eq('room_id', roomId)
+    .eq('user_id', userId)
+    .gt('expires_at', new Date(now).toISOString())
+    .maybeSingle();
+  if (error) throw error;
+  return (data?.role as string | undefined) ?? null;
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), (c) => c.charCodeAt(0));
+
+const hmacKey = (secret: string) =>
+  crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+// Tokens are '<payload>.<signature>', both base64url. The payload stays
+// readable so the join dialog can show the room code before redeeming.
+const signInvite = async (payload: InvitePayload, secret: string) => {
+  const body = toBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await hmacKey(secret), new TextEncoder().encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+const verifyInvite = async (token: string, secret: string): Promise<InvitePayload | null> => {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await hmacKey(secret), fromBase64Url(signature), new TextEncoder().encode(body));
+    return valid ? JSON.parse(new TextDecoder().decode(fromBase64Url(body))) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Opens rooms, registers their matches, mints invites to them and redeems
+// those invites. Membership rows written here are what Realtime authorization
+// checks when a device joins a room's signaling channel.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const inviteSecret = Deno.env.get('ROOM_INVITE_SECRET');
+
+    if (!inviteSecret) {
+      console.error('ROOM_INVITE_SECRET is not set');
+      return jsonResponse({ error: 'Room invites are not configured' }, 500);
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'No authorization header' }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+
+    if (authError || !user) {
+      console.log('Invalid token:', authError);
+      return jsonResponse({ error: 'Invalid token' }, 401);
+    }
+
+    const body = await req.json();
+    const now = Date.now();
+
+    if (body.action === 'open') {
+      const roomId = String(body.roomId || '');
+      if (!ROOM_CODE.test(roomId)) {
+        return jsonResponse({ error: 'Invalid room code' }, 400);
+      }
+      const hostKey = toPublicKey(body.hostKey);
+      if (!hostKey) {
+        return jsonResponse({ error: 'A host signing key is required' }, 400);
+      }
+
+      const { data: members, error: membersError } = await supabaseAdmin
+        .from('game_room_members')
+        .select('user_id, role, last_seen_at')
+        .eq('room_id', roomId)
+        .gt('expires_at', new Date(now).toISOString());
+      if (membersError) throw membersError;
+
+      // A code another host is using is taken. The one exception is a host
+      // that has gone quiet: then the player the room elects in its place,
+      // the lowest id among those still here, may take over.
+      const present = (m: { last_seen_at: string }) => new Date(m.last_seen_at).getTime() > now - HOST_GONE_MS;
+      const otherHost = (members || []).find((m) => m.role === 'host' && m.user_id !== user.id);
+      if (otherHost) {
+        const isMember = (members || []).some((m) => m.user_id === user.id);
+        if (!isMember || present(otherHost)) {
+          return jsonResponse({ error: 'Room code is in use' }, 409);
+        }
+        const successor = (members || [])
+          .filter((m) => m.role === 'player' && present(m))
+          .map((m) => m.user_id as string)
+          .sort((a, b) => a.localeCompare(b))[0];
+        if (successor !== user.id) {
+          return jsonResponse({ error: 'Another player is taking over this room' }, 403);
+        }
+
+        const { error: demoteError } = await supabaseAdmin
+          .from('game_room_members')
+          .update({ role: 'player' })
+          .eq('room_id', roomId)
+          .eq('user_id', otherHost.user_id);
+        if (demoteError) throw demoteError;
+        console.log(`Room ${roomId} handed from ${otherHost.user_id} to ${user.id}`);
+      }
+
+      const { error: openError } = await supabaseAdmin
+        .from('game_room_members')
+        .upsert({
+          room_id: roomId,
+          user_id: user.id,
+          role: 'host',
+          host_key: hostKey,
+          last_seen_at: new Date(now).toISOString(),
+          expires_at: new Date(now + ROOM_LIFETIME_MS).toISOString(),
+        }, { onConflict: 'room_id,user_id' });
+      if (openError) throw openError;
+
+      console.log(`Room ${roomId} opened by ${user.id}`);
+      return jsonResponse({ roomId });
+    }
+
+    if (body.action === 'create') {
+      const roomId = String(body.roomId || '');
+      const role = body.role === 'spectator' ? 'spectator' : 'player';
+      const maxUses = body.maxUses == null ? null : Math.floor(Number(body.maxUses));
+      if (maxUses !== null && !(maxUses > 0)) {
+        return jsonResponse({ error: 'maxUses must be positive' }, 400);
+      }
+      const minutes = Math.min(MAX_INVITE_MINUTES, Math.max(MIN_INVITE_MINUTES, Number(body.ttlMinutes) || 60));
+
+      if ((await memberRole(supabaseAdmin, roomId, user.id, now)) !== 'host') {
+        return jsonResponse({ error: 'Only the host can invite to this room' }, 403);
+      }
+
+      const expiresAt = new Date(now + minutes * 60 * 1000);
+      const { data: invite, error: inviteError } = await supabaseAdmin
+        .from('game_room_invites')
+        .insert({
+          room_id: roomId,
+          created_by: user.id,
+          role,
+          max_uses: maxUses,
+          expires_at: expiresAt.toISOString(),
+        })
+        .select('id')
+        .single();
+      if (inviteError) throw inviteError;
+
+      const inviteToken = await signInvite({ inv: invite.id, room: roomId, role, exp: expiresAt.getTime() }, inviteSecret);
+      console.log(`Invite ${invite.id} to ${roomId} created by ${user.id} (${role}, ${maxUses ?? 'unlimited'} uses, ${minutes} min)`);
+      return jsonResponse({ token: inviteToken, expiresAt: expiresAt.toISOString() });
+    }
+
+    // Register a match as it starts, with its questions in play order, so its
+    // signed summary can be recorded later
+    if (body.action === 'start') {
+      const roomId = String(body.roomId || '');
+      const matchId = String(body.matchId || '');
+      const questionIds: unknown[] = Array.isArray(body.questionIds) ? body.questionIds : [];
+      if (!UUID.test(matchId)) {
+        return jsonResponse({ error: 'Invalid match id' }, 400);
+      }
+      if (questionIds.length < 1 || questionIds.length > MAX_MATCH_QUESTIONS) {
+        return jsonResponse({ error: `A match has 1 to ${MAX_MATCH_QUESTIONS} questions` }, 400);
+      }
+      if (!questionIds.every((id) => typeof id === 'string' && UUID.test(id))) {
+        return jsonResponse({ error: 'Invalid question id' }, 400);
+      }
+
+      if ((await memberRole(supabaseAdmin, roomId, user.id, now)) !== 'host') {
+        return jsonResponse({ error: 'Only the host can start a match' }, 403);
+      }
+
+      const { error: matchError } = await supabaseAdmin
+        .from('game_room_matches')
+        .insert({ match_id: matchId, room_id: roomId, host_id: user.id, question_ids: questionIds as string[] });
+      if (matchError) {
+        if (matchError.code === '23505') {
+          return jsonResponse({ error: 'Match already registered' }, 409);
+        }
+        throw matchError;
+      }
+
+      console.log(`Match ${matchId} (${questionIds.length} questions) started in ${roomId} by ${user.id}`);
+      return jsonResponse({ matchId });
+    }
+
+    // A host taking over mid-match gets the answers from here: guests never
+    // hold them, so the old host's copy left with it
+    if (body.action === 'answers') {
+      const roomId = String(body.roomId || '');
+      const matchId = String(body.matchId || '');
+      if (!UUID.test(matchId)) {
+        return jsonResponse({ error: 'Invalid match id' }, 400);
+      }
+      if ((await memberRole(supabaseAdmin, roomId, user.id, now)) !== 'host') {
+        return jsonResponse({ error: 'Only the host can see the answers' }, 403);
+      }
+
+      const { data: match, error: matchError } = await supabaseAdmin
+        .from('game_room_matches')
+        .select('room_id, question_ids')
+        .eq('match_id', matchId)
+        .maybeSingle();
+      if (matchError) throw matchError;
+      if (!match || match.room_id !== roomId) {
+        return jsonResponse({ error: 'Match was never started in this room' }, 404);
+      }
+
+      const { data: games, error: gamesError } = await supabaseAdmin
+        .from('bible_games')
+        .select('id, correct_answer')
+        .in('id', match.question_ids);
+      if (gamesError) throw gamesError;
+
+      const byId = new Map((games || []).map((game) => [game.id, game.correct_answer]));
+      console.log(`Answers for match ${matchId} handed to ${user.id}`);
+      return jsonResponse({ answers: match.question_ids.map((id: string) => byId.get(id) ?? null) });
+    }
+
+    if (body.action === 'redeem') {
+      const payload = typeof body.token === 'string' ? await verifyInvite(body.token, inviteSecret) : null;
+      if (!payload) {
+        return jsonResponse({ error: 'Invite is not valid' }, 403);
+      }
+      if (payload.exp <= now) {
+        return jsonResponse({ error: 'Invite has expired' }, 410);
+      }
+
+      const { data: role, error: redeemError } = await supabaseAdmin.rpc('redeem_game_room_invite', {
+        _invite_id: payload.inv,
+        _user_id: user.id,
+      });
+      if (redeemError) throw redeemError;
+      if (!role) {
+        return jsonResponse({ error: 'Invite has expired or been used up' }, 410);
+      }
+
+      console.log(`Invite ${payload.inv} redeemed by ${user.id} for room ${payload.room}`);
+      return jsonResponse({ roomId: payload.room, role });
+    }
+
+    return jsonResponse({ error: 'Unknown action' }, 400);
+  } catch (error) {
+    console.error('Error in room-invites:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -13,6 +13,16 @@ interface PushPayload {
   data?: Record<string, string>;
 }
 
+// Compare without leaking how much of the key matched
+const secretsMatch = (given: string, expected: string) => {
+  const a = new TextEncoder().encode(given);
+  const b = new TextEncoder().encode(expected);
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+};
+
 // Web Push library for Deno
 async function sendWebPush(
   endpoint: string,
@@ -49,6 +59,8 @@ async function sendWebPush(
   }
 }
 
+// Only other edge functions (notify-new-message, send-daily-verse) send
+// pushes, and they call with the service role key as their bearer token.
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -60,6 +72,14 @@ serve(async (req) => {
     const vapidPublicKey = Deno.env.get('VAPID_PUBLIC_KEY')!;
     const vapidPrivateKey = Deno.env.get('VAPID_PRIVATE_KEY')!;
 
+    const token = (req.headers.get('Authorization') || '').replace(/^Bearer /, '');
+    if (!supabaseServiceKey || !secretsMatch(token, supabaseServiceKey)) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     if (!vapidPublicKey || !vapidPrivateKey) {
       throw new Error('VAPID keys not configured');
     }
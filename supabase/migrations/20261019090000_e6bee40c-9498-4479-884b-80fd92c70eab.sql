@@ -0,0 +1,47 @@
+-- Personal verse highlights, bookmarks, notes and tags
+CREATE TABLE public.verse_annotations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  book TEXT NOT NULL,
+  chapter INTEGER NOT NULL CHECK (chapter > 0),
+  verse INTEGER NOT NULL CHECK (verse > 0),
+  highlight_color TEXT CHECK (highlight_color IN ('yellow', 'green', 'blue', 'pink', 'purple')),
+  bookmarked BOOLEAN NOT NULL DEFAULT false,
+  note TEXT,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(user_id, book, chapter, verse)
+);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.verse_annotations TO authenticated;
+GRANT ALL ON public.verse_annotations TO service_role;
+
+ALTER TABLE public.verse_annotations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own annotations"
+  ON public.verse_annotations FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own annotations"
+  ON public.verse_annotations FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own annotations"
+  ON public.verse_annotations FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own annotations"
+  ON public.verse_annotations FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_verse_annotations_updated_at
+  BEFORE UPDATE ON public.verse_annotations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_verse_annotations_user ON public.verse_annotations(user_id, book, chapter);
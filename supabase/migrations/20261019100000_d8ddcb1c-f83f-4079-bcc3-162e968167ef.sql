@@ -0,0 +1,136 @@
+-- Bible reading plans: one reference string per day, e.g. 'Matthew 27-Mark 1'
+CREATE TABLE public.reading_plans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT,
+  readings TEXT[] NOT NULL CHECK (cardinality(readings) > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+GRANT SELECT ON public.reading_plans TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.reading_plans TO authenticated;
+GRANT ALL ON public.reading_plans TO service_role;
+
+ALTER TABLE public.reading_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view reading plans"
+  ON public.reading_plans FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can insert reading plans"
+  ON public.reading_plans FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update reading plans"
+  ON public.reading_plans FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete reading plans"
+  ON public.reading_plans FOR DELETE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_reading_plans_updated_at
+  BEFORE UPDATE ON public.reading_plans
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A user's position in a plan; completed_days holds 1-based day numbers
+CREATE TABLE public.reading_plan_progress (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  plan_id UUID NOT NULL REFERENCES public.reading_plans(id) ON DELETE CASCADE,
+  started_at DATE NOT NULL DEFAULT CURRENT_DATE,
+  completed_days INTEGER[] NOT NULL DEFAULT '{}',
+  last_read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(user_id, plan_id)
+);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.reading_plan_progress TO authenticated;
+GRANT ALL ON public.reading_plan_progress TO service_role;
+
+ALTER TABLE public.reading_plan_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own plan progress"
+  ON public.reading_plan_progress FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own plan progress"
+  ON public.reading_plan_progress FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own plan progress"
+  ON public.reading_plan_progress FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own plan progress"
+  ON public.reading_plan_progress FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_reading_plan_progress_updated_at
+  BEFORE UPDATE ON public.reading_plan_progress
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_reading_plan_progress_user ON public.reading_plan_progress(user_id);
+
+-- Reading streak alongside the login and game streaks
+ALTER TABLE public.user_streaks
+  ADD COLUMN current_reading_streak INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN longest_reading_streak INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN last_reading_date DATE,
+  ADD COLUMN total_readings INTEGER NOT NULL DEFAULT 0;
+
+-- Seed plans
+INSERT INTO public.reading_plans (title, description, readings) VALUES
+  ('Gospels in 30 days', 'Read Matthew, Mark, Luke and John in a month.', ARRAY[
+    'Matthew 1-2',
+    'Matthew 3-5',
+    'Matthew 6-8',
+    'Matthew 9-11',
+    'Matthew 12-14',
+    'Matthew 15-17',
+    'Matthew 18-20',
+    'Matthew 21-23',
+    'Matthew 24-26',
+    'Matthew 27-Mark 1',
+    'Mark 2-4',
+    'Mark 5-7',
+    'Mark 8-10',
+    'Mark 11-13',
+    'Mark 14-16',
+    'Luke 1-3',
+    'Luke 4-6',
+    'Luke 7-9',
+    'Luke 10-12',
+    'Luke 13-15',
+    'Luke 16-18',
+    'Luke 19-21',
+    'Luke 22-24',
+    'John 1-3',
+    'John 4-6',
+    'John 7-9',
+    'John 10-12',
+    'John 13-15',
+    'John 16-18',
+    'John 19-21'
+  ]),
+  ('Proverbs monthly', 'One chapter of Proverbs for each day of the month.',
+    ARRAY(SELECT 'Proverbs ' || d FROM generate_series(1, 31) AS d));
+
+-- Reading streak badges
+INSERT INTO public.achievements (key, title, description, icon, category, criteria_type, criteria_value, points) VALUES
+  ('reading_streak_3', 'Daily Bread', '3-day Bible reading streak', '📖', 'streaks', 'reading_streak', 3, 15),
+  ('reading_streak_7', 'Word Week', '7-day Bible reading streak', '📖', 'streaks', 'reading_streak', 7, 50),
+  ('reading_streak_30', 'Rooted in the Word', '30-day Bible reading streak', '📖', 'streaks', 'reading_streak', 30, 200);
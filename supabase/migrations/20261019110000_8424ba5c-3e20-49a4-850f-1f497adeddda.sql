@@ -0,0 +1,48 @@
+-- SM-2 review schedule for each user's memory verses
+CREATE TABLE public.verse_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES public.bible_games(id) ON DELETE CASCADE,
+  ease_factor NUMERIC(4, 2) NOT NULL DEFAULT 2.5 CHECK (ease_factor >= 1.3),
+  interval_days INTEGER NOT NULL DEFAULT 0 CHECK (interval_days >= 0),
+  repetitions INTEGER NOT NULL DEFAULT 0 CHECK (repetitions >= 0),
+  lapses INTEGER NOT NULL DEFAULT 0,
+  due_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  last_grade SMALLINT CHECK (last_grade BETWEEN 0 AND 5),
+  last_reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(user_id, question_id)
+);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.verse_reviews TO authenticated;
+GRANT ALL ON public.verse_reviews TO service_role;
+
+ALTER TABLE public.verse_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own verse reviews"
+  ON public.verse_reviews FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own verse reviews"
+  ON public.verse_reviews FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own verse reviews"
+  ON public.verse_reviews FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own verse reviews"
+  ON public.verse_reviews FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_verse_reviews_updated_at
+  BEFORE UPDATE ON public.verse_reviews
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_verse_reviews_user_due ON public.verse_reviews(user_id, due_date);
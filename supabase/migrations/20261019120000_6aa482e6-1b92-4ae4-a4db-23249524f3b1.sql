@@ -0,0 +1,107 @@
+-- Declarative achievement criteria: criteria_type names a metric, criteria_params
+-- narrows it (e.g. {"game_type": "fill_blank"}) and criteria_value is the target.
+ALTER TABLE public.achievements
+  ADD COLUMN criteria_params JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Counters the new criteria read from
+ALTER TABLE public.game_scores
+  ADD COLUMN perfect_games INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN wins INTEGER NOT NULL DEFAULT 0;
+
+-- Server-side mirror of src/lib/achievementCriteria.ts. Keep the two in step
+-- when adding a criteria type.
+CREATE OR REPLACE FUNCTION public.achievement_metric(_user_id UUID, _criteria_type TEXT, _params JSONB DEFAULT '{}'::jsonb)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _game_type TEXT := NULLIF(_params->>'game_type', '');
+  _testament TEXT := NULLIF(_params->>'testament', '');
+  _correct_only BOOLEAN := COALESCE((_params->>'correct_only')::boolean, false);
+BEGIN
+  IF auth.role() <> 'service_role'
+     AND auth.uid() IS DISTINCT FROM _user_id
+     AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to read achievement progress for another user';
+  END IF;
+
+  CASE _criteria_type
+    WHEN 'games_played' THEN
+      IF _game_type IS NULL THEN
+        RETURN (SELECT COALESCE(total_games_played, 0) FROM public.user_streaks WHERE user_id = _user_id);
+      END IF;
+      RETURN (SELECT COALESCE(SUM(games_played), 0) FROM public.game_scores
+              WHERE user_id = _user_id AND game_type = _game_type);
+    WHEN 'total_score' THEN
+      RETURN (SELECT COALESCE(SUM(score), 0) FROM public.game_scores
+              WHERE user_id = _user_id AND (_game_type IS NULL OR game_type = _game_type));
+    WHEN 'perfect_games' THEN
+      RETURN (SELECT COALESCE(SUM(perfect_games), 0) FROM public.game_scores
+              WHERE user_id = _user_id AND (_game_type IS NULL OR game_type = _game_type));
+    WHEN 'multiplayer_wins' THEN
+      RETURN (SELECT COALESCE(SUM(wins), 0) FROM public.game_scores
+              WHERE user_id = _user_id AND game_type = 'multiplayer');
+    WHEN 'login_streak' THEN
+      RETURN (SELECT COALESCE(current_login_streak, 0) FROM public.user_streaks WHERE user_id = _user_id);
+    WHEN 'game_streak' THEN
+      RETURN (SELECT COALESCE(current_game_streak, 0) FROM public.user_streaks WHERE user_id = _user_id);
+    WHEN 'reading_streak' THEN
+      RETURN (SELECT COALESCE(current_reading_streak, 0) FROM public.user_streaks WHERE user_id = _user_id);
+    WHEN 'questions_answered' THEN
+      RETURN (SELECT COUNT(*) FROM public.user_answered_questions uaq
+              JOIN public.bible_games g ON g.id = uaq.question_id
+              WHERE uaq.user_id = _user_id
+                AND (_game_type IS NULL OR g.game_type = _game_type)
+                AND (_testament IS NULL OR g.testament = _testament)
+                AND (NOT _correct_only OR uaq.was_correct));
+    WHEN 'posts_created' THEN
+      RETURN (SELECT COUNT(*) FROM public.posts WHERE user_id = _user_id);
+    WHEN 'comments_posted' THEN
+      RETURN (SELECT COUNT(*) FROM public.post_comments WHERE user_id = _user_id);
+    ELSE
+      RETURN 0;
+  END CASE;
+END;
+$$;
+
+-- Admin preview: who would qualify for a criteria right now
+CREATE OR REPLACE FUNCTION public.preview_achievement_qualifiers(
+  _criteria_type TEXT,
+  _criteria_value INTEGER,
+  _params JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (user_id UUID, username TEXT, metric NUMERIC)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can preview achievements';
+  END IF;
+
+  RETURN QUERY
+  SELECT q.user_id, q.username, q.metric
+  FROM (
+    SELECT p.user_id, p.username, COALESCE(public.achievement_metric(p.user_id, _criteria_type, _params), 0) AS metric
+    FROM public.profiles p
+  ) q
+  WHERE q.metric >= _criteria_value
+  ORDER BY q.metric DESC, q.username;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.achievement_metric(UUID, TEXT, JSONB) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.preview_achievement_qualifiers(TEXT, INTEGER, JSONB) TO authenticated;
+
+-- New badges using the expanded criteria
+INSERT INTO public.achievements (key, title, description, icon, category, criteria_type, criteria_value, points, criteria_params) VALUES
+  ('ot_answers_50', 'Law and Prophets', 'Answer 50 Old Testament questions', '📜', 'games', 'questions_answered', 50, 75, '{"testament": "old"}'),
+  ('daily_challenge_10', 'Daily Devotee', 'Complete 10 daily challenges', '📅', 'games', 'games_played', 10, 50, '{"game_type": "daily_challenge"}'),
+  ('posts_5', 'Voice of the Youth', 'Share 5 posts', '✍️', 'community', 'posts_created', 5, 25, '{}'),
+  ('multiplayer_win', 'Room Champion', 'Win a multiplayer room', '🏅', 'games', 'multiplayer_wins', 1, 30, '{}'),
+  ('perfect_fill_blank', 'Word Perfect', 'Get a perfect score in Fill in the Blank', '💎', 'games', 'perfect_games', 1, 40, '{"game_type": "fill_blank"}');
@@ -0,0 +1,6 @@
+-- Achievements are awarded by the evaluate-achievements edge function, which
+-- recomputes eligibility from server tables with the service role. Users can
+-- still read their badges but can no longer insert them directly.
+DROP POLICY IF EXISTS "Users can earn achievements" ON public.user_achievements;
+
+GRANT ALL ON public.user_achievements TO service_role;
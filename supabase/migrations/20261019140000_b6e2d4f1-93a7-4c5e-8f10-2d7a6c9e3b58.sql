@@ -0,0 +1,37 @@
+-- Multiplayer scores come from host-signed match summaries, recorded by the
+-- record-multiplayer-result edge function. Players keep writing their own
+-- single-player scores but can no longer touch the multiplayer row.
+DROP POLICY IF EXISTS "Users can insert their own scores" ON public.game_scores;
+DROP POLICY IF EXISTS "Users can update their own scores" ON public.game_scores;
+
+CREATE POLICY "Users can insert their own scores"
+ON public.game_scores
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND game_type <> 'multiplayer');
+
+CREATE POLICY "Users can update their own scores"
+ON public.game_scores
+FOR UPDATE
+USING (auth.uid() = user_id AND game_type <> 'multiplayer')
+WITH CHECK (auth.uid() = user_id AND game_type <> 'multiplayer');
+
+-- One claim per player per signed match, so a summary can't be replayed
+CREATE TABLE public.multiplayer_score_claims (
+  match_id UUID NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  host_id UUID NOT NULL,
+  score INTEGER NOT NULL DEFAULT 0,
+  won BOOLEAN NOT NULL DEFAULT false,
+  claimed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (match_id, user_id)
+);
+
+GRANT SELECT ON public.multiplayer_score_claims TO authenticated;
+GRANT ALL ON public.multiplayer_score_claims TO service_role;
+
+ALTER TABLE public.multiplayer_score_claims ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own score claims"
+  ON public.multiplayer_score_claims FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,29 @@
+-- Final standings of 'teams' multiplayer matches, one row per team, for the
+-- season leaderboard. Rows come from host-signed summaries via the
+-- record-multiplayer-result edge function; seasons are calendar quarters
+-- like '2026-Q4'.
+CREATE TABLE public.multiplayer_team_results (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  match_id UUID NOT NULL,
+  team_id TEXT NOT NULL,
+  team_name TEXT NOT NULL,
+  score INTEGER NOT NULL DEFAULT 0,
+  placement INTEGER NOT NULL,
+  won BOOLEAN NOT NULL DEFAULT false,
+  member_count INTEGER NOT NULL DEFAULT 0,
+  host_id UUID NOT NULL,
+  season TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (match_id, team_id)
+);
+
+CREATE INDEX idx_multiplayer_team_results_season ON public.multiplayer_team_results (season);
+
+GRANT SELECT ON public.multiplayer_team_results TO anon, authenticated;
+GRANT ALL ON public.multiplayer_team_results TO service_role;
+
+ALTER TABLE public.multiplayer_team_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view team results"
+  ON public.multiplayer_team_results FOR SELECT
+  USING (true);
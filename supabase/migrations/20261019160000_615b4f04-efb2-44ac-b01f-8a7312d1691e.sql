@@ -0,0 +1,68 @@
+-- History of local multiplayer matches. Each player's client records its own
+-- copy of the match through the offline sync queue, so games played without
+-- a connection are kept once the device is back online.
+CREATE TABLE public.multiplayer_matches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  match_id UUID NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  room_code TEXT NOT NULL,
+  game_mode TEXT NOT NULL,
+  game_type TEXT NOT NULL,
+  -- [{ id, name, score, team_id }]
+  participants JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- [{ question_index, question, answer, answers: { player_id: answer }, correct_ids, round_winner }]
+  rounds JSONB NOT NULL DEFAULT '[]'::jsonb,
+  winner_ids TEXT[] NOT NULL DEFAULT '{}',
+  score INTEGER NOT NULL DEFAULT 0,
+  won BOOLEAN NOT NULL DEFAULT false,
+  -- Whether record-multiplayer-result accepted this player's share of the
+  -- host-signed summary. Set by the server only; see below.
+  verified BOOLEAN NOT NULL DEFAULT false,
+  finished_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (match_id, user_id)
+);
+
+CREATE INDEX idx_multiplayer_matches_user ON public.multiplayer_matches (user_id, finished_at DESC);
+
+GRANT SELECT, INSERT ON public.multiplayer_matches TO authenticated;
+GRANT ALL ON public.multiplayer_matches TO service_role;
+
+ALTER TABLE public.multiplayer_matches ENABLE ROW LEVEL SECURITY;
+
+-- Rounds record who answered what, so only the players in a match see it
+CREATE POLICY "Players can view their matches"
+  ON public.multiplayer_matches FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = user_id
+    OR participants @> jsonb_build_array(jsonb_build_object('id', auth.uid()::text))
+  );
+
+CREATE POLICY "Users can record their own matches"
+  ON public.multiplayer_matches FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+-- Whatever the client sends, a new row is verified only if the player's
+-- result was already accepted; record-multiplayer-result marks rows that
+-- arrive before that
+CREATE OR REPLACE FUNCTION public.set_multiplayer_match_verified()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.verified := EXISTS (
+    SELECT 1 FROM public.multiplayer_score_claims c
+    WHERE c.match_id = NEW.match_id AND c.user_id = NEW.user_id
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_multiplayer_match_insert
+  BEFORE INSERT ON public.multiplayer_matches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_multiplayer_match_verified();
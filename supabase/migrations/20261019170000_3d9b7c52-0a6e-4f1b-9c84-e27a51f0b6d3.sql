@@ -0,0 +1,162 @@
+-- Signed, expiring invites for multiplayer rooms. The room-invites edge function
+-- mints and redeems them; redeeming one makes the caller a member of the room,
+-- and only members may join the room's Realtime signaling channel.
+CREATE TABLE public.game_room_members (
+  room_id TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'player' CHECK (role IN ('host', 'player', 'spectator')),
+  invite_id UUID,
+  -- Hosts only: public half of the key that signs the room's match summaries
+  host_key JSONB,
+  -- Bumped while the member's device is in the room, so the server can tell
+  -- a host that dropped out from one that is still playing
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (room_id, user_id)
+);
+
+CREATE TABLE public.game_room_invites (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  room_id TEXT NOT NULL,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'player' CHECK (role IN ('player', 'spectator')),
+  -- NULL means any number of uses until it expires
+  max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0),
+  uses INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_game_room_invites_room ON public.game_room_invites (room_id);
+
+-- Matches the host registered when starting them. record-multiplayer-result
+-- only records summaries for these, and no more questions than were registered.
+-- The question ids, in play order, let a host taking over mid-match look up
+-- the answers without guests ever holding them.
+CREATE TABLE public.game_room_matches (
+  match_id UUID NOT NULL PRIMARY KEY,
+  room_id TEXT NOT NULL,
+  host_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question_ids UUID[] NOT NULL CHECK (cardinality(question_ids) > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_game_room_matches_room ON public.game_room_matches (room_id);
+
+GRANT SELECT ON public.game_room_members TO authenticated;
+GRANT SELECT ON public.game_room_invites TO authenticated;
+
+ALTER TABLE public.game_room_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.game_room_invites ENABLE ROW LEVEL SECURITY;
+-- Service role only
+ALTER TABLE public.game_room_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.is_game_room_member(_room_id TEXT, _user_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.game_room_members
+    WHERE room_id = _room_id
+      AND user_id = _user_id
+      AND expires_at > now()
+  )
+$$;
+
+-- Writes go through the edge function; members can see who else is in the room
+CREATE POLICY "Room members can view members of their room"
+ON public.game_room_members FOR SELECT
+TO authenticated
+USING (public.is_game_room_member(room_id, auth.uid()));
+
+CREATE POLICY "Users can view invites they created"
+ON public.game_room_invites FOR SELECT
+TO authenticated
+USING (auth.uid() = created_by);
+
+-- Members call this every few seconds while in the room
+CREATE OR REPLACE FUNCTION public.touch_game_room_member(_room_id TEXT)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.game_room_members
+  SET last_seen_at = now()
+  WHERE room_id = _room_id
+    AND user_id = auth.uid()
+    AND expires_at > now()
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.touch_game_room_member(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.touch_game_room_member(TEXT) TO authenticated;
+
+-- Spends one use of an invite and adds the user to its room, in one step so
+-- two guests can't both take the last use. Returns the role granted, or NULL
+-- when the invite is used up, revoked or expired.
+CREATE OR REPLACE FUNCTION public.redeem_game_room_invite(_invite_id UUID, _user_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invite public.game_room_invites%ROWTYPE;
+  _existing TEXT;
+BEGIN
+  SELECT * INTO _invite FROM public.game_room_invites WHERE id = _invite_id FOR UPDATE;
+  IF NOT FOUND OR _invite.revoked_at IS NOT NULL OR _invite.expires_at <= now() THEN
+    RETURN NULL;
+  END IF;
+
+  -- Opening the same invite again doesn't spend another use
+  SELECT role INTO _existing FROM public.game_room_members
+  WHERE room_id = _invite.room_id AND user_id = _user_id AND invite_id = _invite_id;
+  IF FOUND THEN
+    RETURN _existing;
+  END IF;
+
+  IF _invite.max_uses IS NOT NULL AND _invite.uses >= _invite.max_uses THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.game_room_invites SET uses = uses + 1 WHERE id = _invite_id;
+
+  INSERT INTO public.game_room_members (room_id, user_id, role, invite_id, expires_at)
+  VALUES (_invite.room_id, _user_id, _invite.role, _invite_id, _invite.expires_at + interval '12 hours')
+  ON CONFLICT (room_id, user_id) DO UPDATE
+    SET role = CASE WHEN game_room_members.role = 'host' THEN 'host' ELSE EXCLUDED.role END,
+        invite_id = EXCLUDED.invite_id,
+        expires_at = GREATEST(game_room_members.expires_at, EXCLUDED.expires_at);
+
+  RETURN _invite.role;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.redeem_game_room_invite(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Realtime authorization: signaling for room ABC123 runs on the private
+-- channel 'game-room-ABC123', which only the room's members may join.
+CREATE POLICY "Room members can receive signaling"
+ON realtime.messages FOR SELECT
+TO authenticated
+USING (
+  realtime.messages.extension = 'broadcast'
+  AND (SELECT realtime.topic()) LIKE 'game-room-%'
+  AND public.is_game_room_member(substring((SELECT realtime.topic()) FROM 11), auth.uid())
+);
+
+CREATE POLICY "Room members can send signaling"
+ON realtime.messages FOR INSERT
+TO authenticated
+WITH CHECK (
+  realtime.messages.extension = 'broadcast'
+  AND (SELECT realtime.topic()) LIKE 'game-room-%'
+  AND public.is_game_room_member(substring((SELECT realtime.topic()) FROM 11), auth.uid())
+);
@@ -0,0 +1,56 @@
+-- Read cursors for chat: how far each participant has read in each
+-- conversation. Unread counts and "seen by" lists are worked out from these
+-- against messages.created_at.
+CREATE TABLE public.message_reads (
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  last_read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+GRANT SELECT, INSERT, UPDATE ON public.message_reads TO authenticated;
+
+ALTER TABLE public.message_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view read cursors in their conversations"
+ON public.message_reads FOR SELECT
+TO authenticated
+USING (public.is_conversation_participant(conversation_id, auth.uid()));
+
+CREATE POLICY "Users can set their own read cursor"
+ON public.message_reads FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id AND public.is_conversation_participant(conversation_id, auth.uid()));
+
+CREATE POLICY "Users can move their own read cursor"
+ON public.message_reads FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id AND public.is_conversation_participant(conversation_id, auth.uid()));
+
+-- Cursors queued offline can arrive out of order; never move one backwards
+CREATE OR REPLACE FUNCTION public.keep_read_cursor_forward()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.last_read_at := GREATEST(NEW.last_read_at, OLD.last_read_at);
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER keep_read_cursor_forward
+BEFORE UPDATE ON public.message_reads
+FOR EACH ROW
+EXECUTE FUNCTION public.keep_read_cursor_forward();
+
+-- Start everyone off caught up, rather than with their whole history unread
+INSERT INTO public.message_reads (conversation_id, user_id, last_read_at)
+SELECT conversation_id, user_id, now()
+FROM public.conversation_participants
+ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.message_reads;
@@ -0,0 +1,115 @@
+-- Quoted replies, emoji reactions and edit history for chat messages.
+ALTER TABLE public.messages
+  ADD COLUMN reply_to_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+  ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_messages_reply_to ON public.messages (reply_to_id);
+
+-- Senders can edit their own messages; only the content changes
+GRANT UPDATE ON public.messages TO authenticated;
+
+CREATE POLICY "Users can edit their own messages"
+ON public.messages FOR UPDATE
+TO authenticated
+USING (sender_id = auth.uid())
+WITH CHECK (sender_id = auth.uid() AND public.is_conversation_participant(conversation_id, auth.uid()));
+
+-- What a message said before each edit
+CREATE TABLE public.message_edits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  previous_content TEXT NOT NULL,
+  edited_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_message_edits_message ON public.message_edits (message_id, edited_at);
+
+GRANT SELECT ON public.message_edits TO authenticated;
+
+ALTER TABLE public.message_edits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view edit history in their conversations"
+ON public.message_edits FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.id = message_id
+      AND public.is_conversation_participant(m.conversation_id, auth.uid())
+  )
+);
+
+-- Keep everything but the content fixed, stamp the edit and file the old text
+-- in the history. Runs as definer since nobody can insert history directly.
+CREATE OR REPLACE FUNCTION public.record_message_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.sender_id := OLD.sender_id;
+  NEW.conversation_id := OLD.conversation_id;
+  NEW.created_at := OLD.created_at;
+  NEW.reply_to_id := OLD.reply_to_id;
+
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    INSERT INTO public.message_edits (message_id, previous_content)
+    VALUES (OLD.id, OLD.content);
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_message_edit
+BEFORE UPDATE ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.record_message_edit();
+
+-- Emoji reactions. conversation_id is carried along so clients can subscribe
+-- to one conversation's reactions.
+CREATE TABLE public.message_reactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (message_id, user_id, emoji)
+);
+
+CREATE INDEX idx_message_reactions_conversation ON public.message_reactions (conversation_id);
+
+GRANT SELECT, INSERT, DELETE ON public.message_reactions TO authenticated;
+
+ALTER TABLE public.message_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view reactions in their conversations"
+ON public.message_reactions FOR SELECT
+TO authenticated
+USING (public.is_conversation_participant(conversation_id, auth.uid()));
+
+CREATE POLICY "Users can react to messages in their conversations"
+ON public.message_reactions FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.is_conversation_participant(conversation_id, auth.uid())
+  AND EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.id = message_id AND m.conversation_id = message_reactions.conversation_id
+  )
+);
+
+CREATE POLICY "Users can remove their own reactions"
+ON public.message_reactions FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Realtime sends only the id of a deleted reaction when RLS is on, so
+-- clients look it up among the reactions they already have
+ALTER PUBLICATION supabase_realtime ADD TABLE public.message_reactions;
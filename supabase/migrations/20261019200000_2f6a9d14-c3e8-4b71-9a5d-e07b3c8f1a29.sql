@@ -0,0 +1,89 @@
+-- Image, file and voice-note attachments on chat messages. Each message keeps
+-- a list describing its files; the files themselves live in the private
+-- chat-attachments bucket under '<conversation_id>/<message_id>/'.
+ALTER TABLE public.messages
+  ADD COLUMN attachments JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('chat-attachments', 'chat-attachments', false, 26214400);
+
+-- The first folder of every path is the conversation the file belongs to
+CREATE OR REPLACE FUNCTION public.chat_attachment_conversation(object_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+BEGIN
+  RETURN ((storage.foldername(object_name))[1])::uuid;
+EXCEPTION WHEN invalid_text_representation THEN
+  RETURN NULL;
+END;
+$$;
+
+CREATE POLICY "Participants can view chat attachments"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'chat-attachments'
+  AND public.is_conversation_participant(public.chat_attachment_conversation(name), auth.uid())
+);
+
+CREATE POLICY "Participants can upload chat attachments"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'chat-attachments'
+  AND public.is_conversation_participant(public.chat_attachment_conversation(name), auth.uid())
+);
+
+-- Uploads are retried with upsert, which needs update rights on the sender's own files
+CREATE POLICY "Users can replace their own chat attachments"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (bucket_id = 'chat-attachments' AND owner = auth.uid())
+WITH CHECK (
+  bucket_id = 'chat-attachments'
+  AND public.is_conversation_participant(public.chat_attachment_conversation(name), auth.uid())
+);
+
+CREATE POLICY "Users can delete their own chat attachments"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (bucket_id = 'chat-attachments' AND owner = auth.uid());
+
+-- Admins can delete any message in their group, so they can clear its files too
+CREATE POLICY "Group admins can delete chat attachments"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'chat-attachments'
+  AND public.is_group_admin(public.chat_attachment_conversation(name), auth.uid())
+);
+
+-- Editing changes only the text: attachments stay as they were sent, so an
+-- edit can't swap in files, or another conversation's paths
+CREATE OR REPLACE FUNCTION public.record_message_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.sender_id := OLD.sender_id;
+  NEW.conversation_id := OLD.conversation_id;
+  NEW.created_at := OLD.created_at;
+  NEW.reply_to_id := OLD.reply_to_id;
+  NEW.attachments := OLD.attachments;
+
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    INSERT INTO public.message_edits (message_id, previous_content)
+    VALUES (OLD.id, OLD.content);
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
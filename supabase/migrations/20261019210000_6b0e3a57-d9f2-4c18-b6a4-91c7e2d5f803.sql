@@ -0,0 +1,110 @@
+-- Push notifications for new chat messages, fired by the database instead of
+-- the sending client. Every message notifies once, including ones delivered
+-- later by the sync queue, and the notify-new-message function reads the
+-- sender and recipients from the message row rather than trusting a caller.
+--
+-- Setup: add two Vault secrets. Until both exist the trigger does nothing.
+--   project_url            https://<project-ref>.supabase.co
+--   notify_webhook_secret  a long random string, also set as the
+--                          NOTIFY_WEBHOOK_SECRET secret of notify-new-message
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+-- Muting: no notifications from a conversation until this time
+ALTER TABLE public.conversation_participants
+  ADD COLUMN muted_until TIMESTAMP WITH TIME ZONE;
+
+-- Participants can only change their own mute, and nothing else about their row
+CREATE OR REPLACE FUNCTION public.set_conversation_muted(_conversation_id UUID, _muted_until TIMESTAMP WITH TIME ZONE)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.conversation_participants
+  SET muted_until = _muted_until
+  WHERE conversation_id = _conversation_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a participant in this conversation';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_conversation_muted(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_conversation_muted(UUID, TIMESTAMP WITH TIME ZONE) TO authenticated;
+
+-- Quiet hours, in the user's own timezone. They may wrap past midnight.
+CREATE TABLE public.notification_preferences (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  quiet_hours_start TIME,
+  quiet_hours_end TIME,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL))
+);
+
+GRANT SELECT, INSERT, UPDATE ON public.notification_preferences TO authenticated;
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notification preferences"
+ON public.notification_preferences FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own notification preferences"
+ON public.notification_preferences FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notification preferences"
+ON public.notification_preferences FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+BEFORE UPDATE ON public.notification_preferences
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Hand the new message's id to notify-new-message. pg_net sends it after the
+-- transaction commits, so the function always finds the row.
+CREATE OR REPLACE FUNCTION public.notify_new_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _project_url TEXT;
+  _secret TEXT;
+BEGIN
+  SELECT decrypted_secret INTO _project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO _secret FROM vault.decrypted_secrets WHERE name = 'notify_webhook_secret';
+
+  IF _project_url IS NULL OR _secret IS NULL THEN
+    RAISE LOG 'notify_new_message: project_url or notify_webhook_secret missing from vault';
+    RETURN NEW;
+  END IF;
+
+  PERFORM net.http_post(
+    url := _project_url || '/functions/v1/notify-new-message',
+    headers := jsonb_build_object('Content-Type', 'application/json', 'x-webhook-secret', _secret),
+    body := jsonb_build_object('messageId', NEW.id)
+  );
+
+  RETURN NEW;
+EXCEPTION WHEN OTHERS THEN
+  -- A missed notification is never worth failing the message over
+  RAISE WARNING 'notify_new_message failed: %', SQLERRM;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_message_notify
+AFTER INSERT ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_new_message();
@@ -0,0 +1,161 @@
+-- Achievement counters are written by the server only. Players report what
+-- happened (a finished game, a day's login, game or reading) and these
+-- functions apply it, so nobody can set their own totals or streaks.
+-- Multiplayer scores keep coming from record-multiplayer-result.
+DROP POLICY IF EXISTS "Users can insert their own scores" ON public.game_scores;
+DROP POLICY IF EXISTS "Users can update their own scores" ON public.game_scores;
+DROP POLICY IF EXISTS "Users can insert own streaks" ON public.user_streaks;
+DROP POLICY IF EXISTS "Users can update own streaks" ON public.user_streaks;
+
+-- Adds one finished single-player game to the caller's score for its type.
+-- Generous bounds: a game can't score more than every active question twice
+-- over, or run a streak longer than there are questions, and one game can
+-- be recorded every 30 seconds. A game is perfect when every question
+-- answered since the last recorded game was right.
+CREATE OR REPLACE FUNCTION public.record_game_score(
+  _game_type TEXT,
+  _points INTEGER,
+  _streak INTEGER
+)
+RETURNS public.game_scores
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _questions INTEGER;
+  _max_points INTEGER;
+  _last_game TIMESTAMPTZ;
+  _answered INTEGER;
+  _wrong INTEGER;
+  _perfect BOOLEAN;
+  _row public.game_scores;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+  IF _game_type = 'multiplayer' THEN
+    RAISE EXCEPTION 'Multiplayer scores are recorded from signed match summaries';
+  END IF;
+
+  SELECT COUNT(*), COALESCE(SUM(points), 0) * 2 INTO _questions, _max_points
+  FROM public.bible_games
+  WHERE is_active;
+
+  IF _points < 0 OR _points > _max_points OR _streak < 0 OR _streak > _questions THEN
+    RAISE EXCEPTION 'Score is out of range';
+  END IF;
+
+  SELECT MAX(updated_at) INTO _last_game
+  FROM public.game_scores
+  WHERE user_id = _user_id AND game_type <> 'multiplayer';
+
+  IF _last_game > now() - interval '30 seconds' THEN
+    RAISE EXCEPTION 'A game was recorded moments ago';
+  END IF;
+
+  SELECT COUNT(*), COUNT(*) FILTER (WHERE NOT was_correct) INTO _answered, _wrong
+  FROM public.user_answered_questions
+  WHERE user_id = _user_id
+    AND answered_at > COALESCE(_last_game, now() - interval '1 hour');
+
+  _perfect := _answered > 0 AND _wrong = 0 AND _streak >= _answered;
+
+  INSERT INTO public.game_scores (user_id, game_type, score, games_played, highest_streak, perfect_games)
+  VALUES (_user_id, _game_type, _points, 1, _streak, CASE WHEN _perfect THEN 1 ELSE 0 END)
+  ON CONFLICT (user_id, game_type) DO UPDATE
+    SET score = game_scores.score + EXCLUDED.score,
+        games_played = game_scores.games_played + 1,
+        highest_streak = GREATEST(game_scores.highest_streak, EXCLUDED.highest_streak),
+        perfect_games = game_scores.perfect_games + EXCLUDED.perfect_games
+  RETURNING * INTO _row;
+
+  RETURN _row;
+END;
+$$;
+
+-- Counts a login, game or reading on the given day (the player's local date).
+-- Only today, give or take a day for timezones, can move a streak forward;
+-- an older day, or one before the last recorded, counts toward the totals
+-- but leaves the streak alone, so activity synced after days offline can't
+-- be replayed into a streak. Nothing can be recorded in the future.
+CREATE OR REPLACE FUNCTION public.record_streak_activity(_kind TEXT, _day DATE)
+RETURNS public.user_streaks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _row public.user_streaks;
+  _last DATE;
+  _current INTEGER;
+  _new_day BOOLEAN;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+  -- A day ahead allows for timezones east of the server
+  IF _day > current_date + 1 THEN
+    RAISE EXCEPTION 'Activity date is in the future';
+  END IF;
+
+  INSERT INTO public.user_streaks (user_id) VALUES (_user_id) ON CONFLICT (user_id) DO NOTHING;
+  SELECT * INTO _row FROM public.user_streaks WHERE user_id = _user_id FOR UPDATE;
+
+  CASE _kind
+    WHEN 'login' THEN
+      _last := _row.last_login_date;
+      _current := _row.current_login_streak;
+    WHEN 'game' THEN
+      _last := _row.last_game_date;
+      _current := _row.current_game_streak;
+    WHEN 'reading' THEN
+      _last := _row.last_reading_date;
+      _current := _row.current_reading_streak;
+    ELSE
+      RAISE EXCEPTION 'Unknown activity: %', _kind;
+  END CASE;
+
+  _new_day := _day >= current_date - 1 AND (_last IS NULL OR _day > _last);
+  IF _new_day THEN
+    _current := CASE WHEN _day = _last + 1 THEN _current + 1 ELSE 1 END;
+    _last := _day;
+  END IF;
+
+  -- A login counts once, on the first new day; every game and reading counts
+  IF _kind = 'login' THEN
+    UPDATE public.user_streaks
+    SET current_login_streak = _current,
+        longest_login_streak = GREATEST(longest_login_streak, _current),
+        last_login_date = _last,
+        total_logins = total_logins + CASE WHEN _new_day THEN 1 ELSE 0 END
+    WHERE user_id = _user_id
+    RETURNING * INTO _row;
+  ELSIF _kind = 'game' THEN
+    UPDATE public.user_streaks
+    SET current_game_streak = _current,
+        longest_game_streak = GREATEST(longest_game_streak, _current),
+        last_game_date = _last,
+        total_games_played = total_games_played + 1
+    WHERE user_id = _user_id
+    RETURNING * INTO _row;
+  ELSE
+    UPDATE public.user_streaks
+    SET current_reading_streak = _current,
+        longest_reading_streak = GREATEST(longest_reading_streak, _current),
+        last_reading_date = _last,
+        total_readings = total_readings + 1
+    WHERE user_id = _user_id
+    RETURNING * INTO _row;
+  END IF;
+
+  RETURN _row;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_game_score(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.record_streak_activity(TEXT, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_game_score(TEXT, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_streak_activity(TEXT, DATE) TO authenticated;